@@ -0,0 +1,335 @@
+import assert from 'node:assert/strict';
+import { ChildProcess, spawn } from 'node:child_process';
+import net from 'node:net';
+import { fileURLToPath } from 'node:url';
+import { after, before, describe, it } from 'node:test';
+
+// HTTP checks against the real API server, started on in-memory storage with the mock provider
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+const ADMIN = { username: 'admin', password: 'test-admin-pass' };
+const STARTUP_TIMEOUT_MS = 30_000;
+
+let server: ChildProcess;
+let baseUrl = '';
+let output = '';
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.on('error', reject);
+    probe.listen(0, () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+async function call(cookie: string | null, method: string, path: string, body?: unknown) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...(cookie ? { Cookie: cookie } : {}) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  const json = response.headers.get('content-type')?.startsWith('application/json');
+  return {
+    status: response.status,
+    body: json && text ? JSON.parse(text) : text,
+    cookie: response.headers.getSetCookie()[0]?.split(';')[0] || null,
+  };
+}
+
+async function signIn(username: string, password: string): Promise<string> {
+  const response = await call(null, 'POST', '/api/auth/login', { username, password });
+  assert.equal(response.status, 200, `sign-in as ${username} failed: ${JSON.stringify(response.body)}`);
+  return response.cookie!;
+}
+
+let admin = '';
+let analyst = '';
+
+before(async () => {
+  const port = await freePort();
+  baseUrl = `http://localhost:${port}`;
+  server = spawn(process.execPath, ['--import', 'tsx', 'server/index.ts'], {
+    cwd: ROOT,
+    env: {
+      ...process.env,
+      API_PORT: String(port),
+      STORAGE_DRIVER: 'memory',
+      LLM_PROVIDER: 'mock',
+      ADMIN_USERNAME: ADMIN.username,
+      ADMIN_PASSWORD: ADMIN.password,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  server.stdout!.on('data', chunk => (output += chunk));
+  server.stderr!.on('data', chunk => (output += chunk));
+
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  for (;;) {
+    try {
+      if ((await fetch(`${baseUrl}/api/health`)).ok) break;
+    } catch {
+      // Not listening yet
+    }
+    if (Date.now() > deadline || server.exitCode !== null) {
+      throw new Error(`API server did not start:\n${output}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+
+  admin = await signIn(ADMIN.username, ADMIN.password);
+  const created = await call(admin, 'POST', '/api/users', { username: 'ana', role: 'analyst', password: 'analyst-pass' });
+  assert.equal(created.status, 200);
+  analyst = await signIn('ana', 'analyst-pass');
+});
+
+after(() => {
+  server?.kill();
+});
+
+describe('POST /api/entities', () => {
+  it('scores the submission on the server, ignoring the risk the client claims', async () => {
+    const response = await call(analyst, 'POST', '/api/entities', {
+      name: 'Pyongyang Trading',
+      type: 'vendor',
+      country: 'North Korea',
+      hasPII: true,
+      controls: { iam: false, encryption: false, logging: false, network: false },
+      documents: [],
+      riskLevel: 'LOW',
+      riskScore: 1,
+      compliance: 'Pass',
+      riskPolicyVersion: 99,
+    });
+    assert.equal(response.status, 200);
+    const { entity, assessment } = response.body;
+    assert.equal(entity.riskLevel, 'HIGH');
+    assert.equal(entity.riskScore, assessment.score);
+    assert.ok(entity.riskScore >= 70);
+    assert.equal(entity.compliance, 'Fail');
+    assert.equal(entity.riskPolicyVersion, 1);
+    assert.equal(entity.status, 'Pending Committee');
+    assert.equal(entity.approval.queue, 'risk_committee');
+  });
+
+  it('auto-approves a low-risk submission and records the policy version in the audit trail', async () => {
+    const response = await call(analyst, 'POST', '/api/entities', {
+      name: 'Maple Bookkeeping',
+      type: 'client',
+      country: 'Canada',
+      hasPII: false,
+      controls: { iam: true, encryption: true, logging: true, network: true },
+      documents: ['MSA'],
+    });
+    assert.equal(response.status, 200);
+    const { entity } = response.body;
+    assert.equal(entity.riskLevel, 'LOW');
+    assert.equal(entity.status, 'Approved');
+    assert.equal(entity.approval.decisions[0].decision, 'auto_approve');
+
+    const audit = await call(admin, 'GET', `/api/audit?q=${encodeURIComponent('Maple Bookkeeping')}&action=onboarding_complete`);
+    assert.match(audit.body.items[0].details, /policy v1\)/);
+  });
+});
+
+describe('AI provider', () => {
+  it('uses the configured provider when a request names none', async () => {
+    assert.equal((await call(null, 'GET', '/api/health')).body.provider, 'mock');
+    const named = await fetch(`${baseUrl}/api/health`, { headers: { 'X-AI-Provider': 'openai' } });
+    assert.equal((await named.json()).provider, 'openai');
+
+    const project = await call(analyst, 'POST', '/api/projects', { name: 'Offline launch' });
+    const run = await call(analyst, 'POST', '/api/pm/strategy', {
+      market: 'Vendor risk',
+      segment: 'Mid-market',
+      goals: ['Shorten onboarding'],
+      constraints: [],
+      projectId: project.body.id,
+    });
+    assert.equal(run.status, 200);
+    assert.equal(run.body.briefVersion.provider, 'mock');
+  });
+});
+
+describe('review schedule', () => {
+  it('keeps the review dates and creation time out of client hands', async () => {
+    const created = await call(analyst, 'POST', '/api/entities', {
+      name: 'Oslo Payroll',
+      type: 'client',
+      country: 'Norway',
+      hasPII: false,
+      controls: { iam: true, encryption: true, logging: true, network: true },
+      documents: ['MSA'],
+      createdAt: '2000-01-01T00:00:00.000Z',
+      nextReviewDate: '2099-01-01',
+      lastReviewedAt: '2098-01-01T00:00:00.000Z',
+    });
+    const { entity } = created.body;
+    assert.equal(entity.status, 'Approved');
+    assert.notEqual(entity.createdAt, '2000-01-01T00:00:00.000Z');
+    assert.notEqual(entity.nextReviewDate, '2099-01-01');
+    assert.equal(entity.lastReviewedAt, undefined);
+
+    const edited = await call(analyst, 'PUT', `/api/entities/${entity.id}`, { nextReviewDate: '2099-01-01', lastReviewedAt: '2098-01-01T00:00:00.000Z', owner: 'ana' });
+    assert.equal(edited.status, 200);
+    assert.equal(edited.body.nextReviewDate, entity.nextReviewDate);
+    assert.equal(edited.body.lastReviewedAt, undefined);
+    assert.equal(edited.body.createdAt, entity.createdAt);
+  });
+});
+
+describe('access control', () => {
+  let manager = '';
+  let committee = '';
+  let highRisk = '';
+
+  before(async () => {
+    for (const [username, role] of [['mona', 'manager'], ['rita', 'risk_committee']]) {
+      assert.equal((await call(admin, 'POST', '/api/users', { username, role, password: `${username}-pass-1` })).status, 200);
+    }
+    manager = await signIn('mona', 'mona-pass-1');
+    committee = await signIn('rita', 'rita-pass-1');
+    const created = await call(analyst, 'POST', '/api/entities', {
+      name: 'Caracas Logistics',
+      type: 'vendor',
+      country: 'Venezuela',
+      hasPII: true,
+      documents: [],
+    });
+    highRisk = created.body.entity.id;
+  });
+
+  it('requires a session for everything but the health check and sign-in', async () => {
+    assert.equal((await call(null, 'GET', '/api/health')).status, 200);
+    assert.equal((await call(null, 'GET', '/api/entities')).status, 401);
+    assert.equal((await call(null, 'GET', '/api/audit')).status, 401);
+    assert.equal((await call('syntria_session=forged', 'GET', '/api/entities')).status, 401);
+  });
+
+  it('keeps user and policy administration to admins', async () => {
+    for (const cookie of [analyst, manager, committee]) {
+      assert.equal((await call(cookie, 'GET', '/api/users')).status, 403);
+      assert.equal((await call(cookie, 'POST', '/api/users', { username: 'eve', role: 'admin', password: 'eve-pass-123' })).status, 403);
+      assert.equal((await call(cookie, 'POST', '/api/risk-policy', { policy: {} })).status, 403);
+    }
+  });
+
+  it('lets only the owning queue decide a pending entity', async () => {
+    assert.equal((await call(analyst, 'POST', `/api/entities/${highRisk}/approve`, { comment: 'Looks fine' })).status, 403);
+    assert.equal((await call(manager, 'POST', `/api/entities/${highRisk}/approve`, { comment: 'Looks fine' })).status, 403);
+    assert.equal((await call(manager, 'GET', '/api/approvals?queue=risk_committee')).status, 403);
+
+    const approved = await call(committee, 'POST', `/api/entities/${highRisk}/approve`, { comment: 'Sanctions screening passed' });
+    assert.equal(approved.status, 200);
+    assert.equal(approved.body.status, 'Approved');
+  });
+
+  it('refuses status and score edits that would go around the workflow', async () => {
+    const pending = await call(analyst, 'POST', '/api/entities', { name: 'Havana Imports', type: 'vendor', country: 'Cuba', documents: [] });
+    const { id } = pending.body.entity;
+    assert.equal((await call(analyst, 'PUT', `/api/entities/${id}`, { status: 'Approved' })).status, 409);
+
+    const edited = await call(analyst, 'PUT', `/api/entities/${id}`, { riskLevel: 'LOW', riskScore: 0, compliance: 'Pass', owner: 'ana' });
+    assert.equal(edited.status, 200);
+    assert.equal(edited.body.riskLevel, pending.body.entity.riskLevel);
+    assert.equal(edited.body.riskScore, pending.body.entity.riskScore);
+    assert.equal(edited.body.compliance, pending.body.entity.compliance);
+  });
+
+  it('moves a pending entity edited into high risk to the risk committee', async () => {
+    const created = await call(analyst, 'POST', '/api/entities', {
+      name: 'Lisbon Couriers',
+      type: 'vendor',
+      country: 'Brazil',
+      hasPII: true,
+      controls: { iam: true, encryption: true, logging: true, network: true },
+      documents: [],
+    });
+    assert.equal(created.body.entity.status, 'Pending Review');
+
+    const edited = await call(analyst, 'PUT', `/api/entities/${created.body.entity.id}`, {
+      country: 'North Korea',
+      hasPII: true,
+      controls: { iam: false, encryption: false, logging: false, network: false },
+    });
+    assert.equal(edited.status, 200);
+    assert.equal(edited.body.riskLevel, 'HIGH');
+    assert.equal(edited.body.status, 'Pending Committee');
+    assert.equal(edited.body.approval.queue, 'risk_committee');
+    assert.equal((await call(manager, 'POST', `/api/entities/${edited.body.id}/approve`, { comment: 'Looks fine' })).status, 403);
+
+    const audit = await call(admin, 'GET', `/api/audit?q=${encodeURIComponent('Lisbon Couriers')}&action=approval_requested`);
+    assert.match(audit.body.items[0].details, /HIGH risk - routed to risk committee/);
+  });
+
+  it('sends a reactivated high-risk entity back to the risk committee', async () => {
+    const created = await call(analyst, 'POST', '/api/entities', { name: 'Minsk Metals', type: 'vendor', country: 'Belarus', hasPII: true, documents: [] });
+    const { id } = created.body.entity;
+    assert.equal((await call(committee, 'POST', `/api/entities/${id}/approve`, { comment: 'Screened' })).status, 200);
+    assert.equal((await call(analyst, 'PUT', `/api/entities/${id}`, { status: 'Decommissioned', decommissionReason: 'Contract ended' })).status, 200);
+
+    const reactivated = await call(analyst, 'PUT', `/api/entities/${id}`, { status: 'Approved' });
+    assert.equal(reactivated.status, 200);
+    assert.equal(reactivated.body.status, 'Pending Committee');
+    assert.equal(reactivated.body.approval.queue, 'risk_committee');
+    assert.equal(reactivated.body.nextReviewDate, undefined);
+    assert.equal((await call(analyst, 'PUT', `/api/entities/${id}`, { status: 'Shipped' })).status, 400);
+  });
+
+  it('keeps merges and the audit export from analysts', async () => {
+    assert.equal((await call(analyst, 'POST', `/api/entities/${highRisk}/merge`, { sourceId: 'entity-x', reason: 'dup' })).status, 403);
+    assert.equal((await call(analyst, 'GET', '/api/audit/export')).status, 403);
+    assert.equal((await call(manager, 'GET', '/api/audit/export?format=jsonl')).status, 200);
+  });
+});
+
+describe('duplicates and merges', () => {
+  const northwind = {
+    type: 'vendor',
+    country: 'Canada',
+    hasPII: false,
+    controls: { iam: true, encryption: true, logging: true, network: true },
+    contactEmail: 'ops@northwind.example',
+  };
+  const soc2 = (fileName: string) => ({ type: 'SOC2', fileName, mimeType: 'application/pdf', base64: Buffer.from(fileName).toString('base64') });
+
+  it('asks before onboarding a likely duplicate, then merges it into the original', async () => {
+    assert.equal((await call(admin, 'POST', '/api/users', { username: 'max', role: 'manager', password: 'max-pass-1' })).status, 200);
+    const manager = await signIn('max', 'max-pass-1');
+
+    const original = (await call(analyst, 'POST', '/api/entities', { ...northwind, name: 'Northwind Traders', documents: ['MSA'] })).body.entity;
+    const refused = await call(analyst, 'POST', '/api/entities', { ...northwind, name: 'Northwind Traders Ltd', ein: '12-3456789', documents: ['DPA'] });
+    assert.equal(refused.status, 409);
+    assert.deepEqual(refused.body.duplicates[0].reasons, ['email', 'name']);
+
+    const duplicate = (await call(analyst, 'POST', '/api/entities', {
+      ...northwind,
+      name: 'Northwind Traders Ltd',
+      ein: '12-3456789',
+      documents: ['DPA'],
+      allowDuplicate: true,
+    })).body.entity;
+    assert.equal((await call(analyst, 'POST', `/api/entities/${duplicate.id}/documents`, soc2('soc2.pdf'))).status, 201);
+
+    assert.equal((await call(manager, 'POST', `/api/entities/${original.id}/merge`, { sourceId: duplicate.id })).status, 400);
+    const merged = await call(manager, 'POST', `/api/entities/${original.id}/merge`, { sourceId: duplicate.id, reason: 'Same supplier' });
+    assert.equal(merged.status, 200);
+    assert.equal(merged.body.movedDocuments, 1);
+    assert.equal(merged.body.entity.ein, '12-3456789');
+    assert.deepEqual(merged.body.entity.mergedIds, [duplicate.id]);
+    assert.ok(merged.body.entity.documents.includes('SOC2'));
+    assert.ok(merged.body.entity.documents.includes('DPA'));
+
+    assert.equal((await call(analyst, 'GET', `/api/entities/${duplicate.id}`)).body.id, original.id);
+    const documents = await call(analyst, 'GET', `/api/entities/${original.id}/documents`);
+    assert.deepEqual(documents.body.map((doc: { fileName: string }) => doc.fileName), ['soc2.pdf']);
+    const viaOldId = await call(analyst, 'GET', `/api/entities/${duplicate.id}/documents`);
+    assert.deepEqual(viaOldId.body, documents.body);
+    assert.equal((await call(manager, 'POST', `/api/entities/${original.id}/merge`, { sourceId: duplicate.id, reason: 'Again' })).status, 400);
+    const history = await call(analyst, 'GET', `/api/entities/${original.id}/history`);
+    assert.ok(history.body.some((version: { entityId: string }) => version.entityId === duplicate.id));
+  });
+});
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkDirectStatusChange, decideApproval, isEntityStatus, queuesForRole, reroutePending, routeEntity, routeReactivation } from './approvals';
+
+const now = '2026-03-01T12:00:00.000Z';
+
+describe('routeEntity', () => {
+  it('auto-approves LOW risk with a system decision on record', () => {
+    const { status, approval } = routeEntity('LOW', now);
+    assert.equal(status, 'Approved');
+    assert.equal(approval.queue, null);
+    assert.equal(approval.decisions[0].decision, 'auto_approve');
+    assert.equal(approval.decisions[0].reviewer, 'system');
+  });
+
+  it('sends MEDIUM risk to manager review and HIGH risk to the risk committee', () => {
+    assert.deepEqual(routeEntity('MEDIUM', now), { status: 'Pending Review', approval: { queue: 'manager', requestedAt: now, decisions: [] } });
+    assert.deepEqual(routeEntity('HIGH', now), { status: 'Pending Committee', approval: { queue: 'risk_committee', requestedAt: now, decisions: [] } });
+  });
+});
+
+describe('routeReactivation', () => {
+  const decommissioned = decideApproval(routeEntity('MEDIUM', now), 'approve', 'Fine', 'mona');
+
+  it('routes on the fresh risk level and keeps earlier decisions', () => {
+    assert.ok(decommissioned.ok);
+    const high = routeReactivation(decommissioned, 'HIGH', now);
+    assert.equal(high.status, 'Pending Committee');
+    assert.equal(high.approval.queue, 'risk_committee');
+    assert.equal(high.approval.decisions.length, 1);
+
+    const low = routeReactivation(decommissioned, 'LOW', now);
+    assert.equal(low.status, 'Approved');
+    assert.deepEqual(low.approval.decisions.map(decision => decision.decision), ['approve', 'auto_approve']);
+  });
+});
+
+describe('reroutePending', () => {
+  it('moves a pending entity to the queue for its new level', () => {
+    const moved = reroutePending(routeEntity('MEDIUM', now), 'HIGH', now);
+    assert.equal(moved?.status, 'Pending Committee');
+    assert.equal(moved?.approval.queue, 'risk_committee');
+    assert.equal(reroutePending(routeEntity('HIGH', now), 'LOW', now)?.status, 'Pending Review');
+  });
+
+  it('leaves entities alone when the queue is unchanged or they are not pending', () => {
+    assert.equal(reroutePending(routeEntity('MEDIUM', now), 'LOW', now), null);
+    assert.equal(reroutePending(routeEntity('LOW', now), 'HIGH', now), null);
+  });
+});
+
+describe('decideApproval', () => {
+  const pending = routeEntity('HIGH', now);
+
+  it('requires a comment', () => {
+    const result = decideApproval(pending, 'approve', '  ', 'rita');
+    assert.deepEqual(result, { ok: false, code: 400, error: 'A comment is required to approve or reject an entity' });
+  });
+
+  it('only decides entities that are pending', () => {
+    const result = decideApproval({ status: 'Approved' }, 'reject', 'Too late', 'rita');
+    assert.equal(result.ok, false);
+    assert.equal(!result.ok && result.code, 409);
+  });
+
+  it('appends the decision to the approval record', () => {
+    const result = decideApproval(pending, 'reject', 'Sanctioned jurisdiction', 'rita');
+    assert.ok(result.ok);
+    assert.equal(result.status, 'Rejected');
+    assert.equal(result.approval.decisions.length, 1);
+    assert.equal(result.decision.fromStatus, 'Pending Committee');
+    assert.equal(result.decision.reviewer, 'rita');
+  });
+});
+
+describe('queuesForRole', () => {
+  it('gives each role only its own queues', () => {
+    assert.deepEqual(queuesForRole('analyst'), []);
+    assert.deepEqual(queuesForRole('manager'), ['manager']);
+    assert.deepEqual(queuesForRole('risk_committee'), ['risk_committee']);
+    assert.deepEqual(queuesForRole('admin'), ['manager', 'risk_committee']);
+  });
+});
+
+describe('isEntityStatus', () => {
+  it('accepts only known statuses', () => {
+    assert.equal(isEntityStatus('Decommissioned'), true);
+    assert.equal(isEntityStatus('Whatever'), false);
+    assert.equal(isEntityStatus(undefined), false);
+  });
+});
+
+describe('checkDirectStatusChange', () => {
+  it('refuses edits that would skip the approval workflow', () => {
+    assert.match(checkDirectStatusChange('Pending Committee', 'Approved')!, /approval queue/);
+    assert.match(checkDirectStatusChange('Active', 'Pending Review')!, /approval workflow/);
+    assert.match(checkDirectStatusChange('Rejected', 'Active')!, /onboarded again/);
+    assert.match(checkDirectStatusChange('Active', 'Approved')!, /decommissioned/);
+  });
+
+  it('allows moves between live statuses and reactivation', () => {
+    assert.equal(checkDirectStatusChange('Approved', 'Active'), null);
+    assert.equal(checkDirectStatusChange('Active', 'Decommissioned'), null);
+    assert.equal(checkDirectStatusChange('Decommissioned', 'Approved'), null);
+  });
+});
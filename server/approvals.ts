@@ -0,0 +1,164 @@
+import type { ApprovalDecision, ApprovalQueue, ApprovalRecord, EntityStatus, RiskLevel, Role } from '../src/lib/types';
+
+// Approval workflow for onboarded entities:
+// LOW -> auto-approve, MEDIUM -> manager review, HIGH -> risk committee.
+// Pending entities only move to Approved or Rejected through an explicit, commented decision.
+
+export const ENTITY_STATUSES: EntityStatus[] = [
+  'Pending Review', 'Pending Committee', 'Approved', 'Rejected', 'Active', 'Pending', 'Decommissioned',
+];
+
+export const PENDING_STATUSES: EntityStatus[] = ['Pending Review', 'Pending Committee'];
+
+export const QUEUE_FOR_STATUS: Partial<Record<EntityStatus, ApprovalQueue>> = {
+  'Pending Review': 'manager',
+  'Pending Committee': 'risk_committee',
+};
+
+export const STATUS_FOR_QUEUE: Record<ApprovalQueue, EntityStatus> = {
+  manager: 'Pending Review',
+  risk_committee: 'Pending Committee',
+};
+
+// Who may decide items in each queue
+export const QUEUE_ROLES: Record<ApprovalQueue, Role[]> = {
+  manager: ['manager', 'admin'],
+  risk_committee: ['risk_committee', 'admin'],
+};
+
+export function queuesForRole(role: Role): ApprovalQueue[] {
+  return (Object.keys(QUEUE_ROLES) as ApprovalQueue[]).filter(queue => QUEUE_ROLES[queue].includes(role));
+}
+
+export function isEntityStatus(value: unknown): value is EntityStatus {
+  return typeof value === 'string' && (ENTITY_STATUSES as string[]).includes(value);
+}
+
+export function isApprovalQueue(value: unknown): value is ApprovalQueue {
+  return value === 'manager' || value === 'risk_committee';
+}
+
+const queueForLevel = (riskLevel: RiskLevel): ApprovalQueue => riskLevel === 'HIGH' ? 'risk_committee' : 'manager';
+
+// Initial status and approval record for a newly onboarded entity
+export function routeEntity(riskLevel: RiskLevel, requestedAt: string): { status: EntityStatus; approval: ApprovalRecord } {
+  if (riskLevel === 'LOW') {
+    return {
+      status: 'Approved',
+      approval: {
+        queue: null,
+        requestedAt,
+        decisions: [{
+          decision: 'auto_approve',
+          fromStatus: 'Pending Review',
+          toStatus: 'Approved',
+          reviewer: 'system',
+          comment: 'Auto-approved: low risk',
+          decidedAt: requestedAt,
+        }],
+      },
+    };
+  }
+
+  const queue = queueForLevel(riskLevel);
+  return {
+    status: STATUS_FOR_QUEUE[queue],
+    approval: { queue, requestedAt, decisions: [] },
+  };
+}
+
+// A pending entity re-scored to a level another queue decides moves to that queue; returns null
+// when it is not pending or its queue is unchanged. A drop to LOW leaves it with the manager
+// queue rather than auto-approving it.
+export function reroutePending(
+  entity: { status: EntityStatus; approval?: ApprovalRecord },
+  riskLevel: RiskLevel,
+  requestedAt: string
+): { status: EntityStatus; approval: ApprovalRecord } | null {
+  const current = QUEUE_FOR_STATUS[entity.status];
+  const queue = queueForLevel(riskLevel);
+  if (!current || queue === current) {
+    return null;
+  }
+  return {
+    status: STATUS_FOR_QUEUE[queue],
+    approval: { queue, requestedAt, decisions: entity.approval?.decisions || [] },
+  };
+}
+
+// A decommissioned entity comes back through the same routing as a new one, on a fresh score:
+// LOW is approved again, MEDIUM and HIGH wait in their queue. Earlier decisions stay on record.
+export function routeReactivation(
+  entity: { approval?: ApprovalRecord },
+  riskLevel: RiskLevel,
+  requestedAt: string
+): { status: EntityStatus; approval: ApprovalRecord } {
+  const { status, approval } = routeEntity(riskLevel, requestedAt);
+  return {
+    status,
+    approval: { ...approval, decisions: [...(entity.approval?.decisions || []), ...approval.decisions] },
+  };
+}
+
+export type DecisionResult =
+  | { ok: true; status: EntityStatus; approval: ApprovalRecord; decision: ApprovalDecision }
+  | { ok: false; code: 400 | 409; error: string };
+
+export function decideApproval(
+  entity: { status: EntityStatus; approval?: ApprovalRecord },
+  decision: 'approve' | 'reject',
+  comment: unknown,
+  reviewer: string
+): DecisionResult {
+  const text = typeof comment === 'string' ? comment.trim() : '';
+  if (!text) {
+    return { ok: false, code: 400, error: 'A comment is required to approve or reject an entity' };
+  }
+  if (!PENDING_STATUSES.includes(entity.status)) {
+    return { ok: false, code: 409, error: `Entity is ${entity.status}, not pending approval` };
+  }
+
+  const toStatus: EntityStatus = decision === 'approve' ? 'Approved' : 'Rejected';
+  const record: ApprovalDecision = {
+    decision,
+    fromStatus: entity.status,
+    toStatus,
+    reviewer,
+    comment: text,
+    decidedAt: new Date().toISOString(),
+  };
+  const approval: ApprovalRecord = entity.approval || {
+    queue: QUEUE_FOR_STATUS[entity.status] || null,
+    requestedAt: record.decidedAt,
+    decisions: [],
+  };
+
+  return {
+    ok: true,
+    status: toStatus,
+    approval: { ...approval, decisions: [...approval.decisions, record] },
+    decision: record,
+  };
+}
+
+// Status changes allowed through a plain entity update. Anything that would skip the
+// approval workflow (approving a pending entity, re-opening a rejected one) is refused.
+// Reactivating a decommissioned entity is allowed here, but routeReactivation decides its status.
+export function checkDirectStatusChange(from: EntityStatus, to: EntityStatus): string | null {
+  if (from === to) {
+    return null;
+  }
+  if (PENDING_STATUSES.includes(from)) {
+    return `Entity is ${from} - approve or reject it from the approval queue`;
+  }
+  if (from === 'Rejected') {
+    return 'Rejected entities must be onboarded again';
+  }
+  if (PENDING_STATUSES.includes(to) || to === 'Rejected') {
+    return `Status ${to} can only be set by the approval workflow`;
+  }
+  if (to === 'Approved' && from !== 'Decommissioned') {
+    return 'Only decommissioned entities can be reactivated as Approved';
+  }
+  return null;
+}
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { AuditEvent } from '../src/lib/types';
+import { AUDIT_LOG_SUBJECT, chainAuditEvents, createAuditLog, GENESIS_HASH, hashAuditEvent, verifyAuditChain } from './auditLog';
+import { DataStore, MemoryDriver } from './storage';
+
+const chain = (count: number) => chainAuditEvents(Array.from({ length: count }, (_, index) => ({
+  id: `audit-${index + 1}`,
+  timestamp: `2026-01-0${index + 1}T00:00:00.000Z`,
+  entityId: 'entity-1',
+  entityName: 'Acme',
+  action: 'entity_edited',
+  user: 'ana',
+  details: `Change ${index + 1}`,
+})));
+
+describe('verifyAuditChain', () => {
+  it('accepts an untouched chain and reports its head', () => {
+    const events = chain(4);
+    assert.equal(events[0].prevHash, GENESIS_HASH);
+    assert.equal(events[1].prevHash, events[0].hash);
+    assert.deepEqual(
+      { ...verifyAuditChain(events), checkedAt: null },
+      { valid: true, count: 4, headHash: events[3].hash, checkedAt: null }
+    );
+  });
+
+  it('finds an edited event', () => {
+    const events = chain(4);
+    events[2] = { ...events[2], details: 'Something else' };
+    const result = verifyAuditChain(events);
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.brokenAt, { seq: 3, id: 'audit-3', reason: 'contents do not match its hash' });
+  });
+
+  it('finds an edit that was re-hashed to hide it', () => {
+    const events = chain(4);
+    const forged = { ...events[1], user: 'mallory' };
+    events[1] = { ...forged, hash: hashAuditEvent(forged) };
+    assert.deepEqual(verifyAuditChain(events).brokenAt, { seq: 3, id: 'audit-3', reason: 'does not link to the previous event' });
+  });
+
+  it('finds a deleted event and reordered events', () => {
+    const deleted = chain(4).filter(event => event.seq !== 2);
+    assert.equal(verifyAuditChain(deleted).brokenAt?.seq, 2);
+
+    const [first, second, ...rest] = chain(4);
+    assert.equal(verifyAuditChain([second, first, ...rest]).brokenAt?.seq, 1);
+  });
+
+  it('finds events cut from the end only against a known head', () => {
+    const events = chain(4);
+    const truncated = verifyAuditChain(events.slice(0, 3));
+    assert.equal(truncated.valid, true);
+    assert.notEqual(truncated.headHash, events[3].hash);
+  });
+});
+
+describe('createAuditLog', () => {
+  async function setUp() {
+    const store = await DataStore.open(new MemoryDriver());
+    const names: Record<string, string> = { 'entity-1': 'Acme Corp' };
+    return createAuditLog(store.collection<AuditEvent>('auditEvents'), async id => names[id] ?? null);
+  }
+
+  it('reads the subject name from the record, not the caller', async () => {
+    const log = await setUp();
+    const event = await log.append({ entityId: 'entity-1', action: 'entity_edited', user: 'ana', details: 'Changed owner' });
+    assert.equal(event.entityName, 'Acme Corp');
+  });
+
+  it('refuses events about records that do not exist', async () => {
+    const log = await setUp();
+    await assert.rejects(
+      log.append({ entityId: 'Acme Corp', action: 'entity_edited', user: 'ana', details: 'Name instead of id' }),
+      /unknown record "Acme Corp"/
+    );
+    assert.equal((await log.list()).length, 0);
+  });
+
+  it('links concurrent appends into one valid chain', async () => {
+    const log = await setUp();
+    await Promise.all(Array.from({ length: 10 }, (_, index) =>
+      log.append({ entityId: index % 2 ? 'entity-1' : AUDIT_LOG_SUBJECT, action: 'entity_edited', user: 'ana', details: `Edit ${index}` })));
+    const result = await log.verify();
+    assert.equal(result.valid, true);
+    assert.equal(result.count, 10);
+    assert.deepEqual((await log.list()).map(event => event.seq), [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it('gives every event a random id rather than one derived from its position', async () => {
+    const log = await setUp();
+    const first = await log.append({ entityId: 'entity-1', action: 'entity_edited', user: 'ana', details: 'One' });
+    const second = await log.append({ entityId: 'entity-1', action: 'entity_edited', user: 'ana', details: 'Two' });
+    assert.match(first.id, /^audit-[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+    assert.notEqual(first.id, second.id);
+    assert.notEqual(first.id, `audit-${first.seq}`);
+  });
+});
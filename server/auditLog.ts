@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import type { AuditEvent, AuditVerification } from '../src/lib/types';
+import type { Repository } from './storage';
+
+// Append-only, hash-chained audit log.
+// Every event stores the hash of its predecessor and a SHA-256 over its own fields,
+// so editing, deleting or reordering any stored event breaks verification from that point on.
+// Events are only ever written here, by the server, as a side effect of the action they record.
+// `entityId` must name an existing record - an entity, user account or risk policy version - and
+// `entityName` is read from that record rather than supplied by the caller.
+
+export type AuditInput = Pick<AuditEvent, 'entityId' | 'action' | 'user' | 'details'>;
+
+// Display name for an audit subject id, or null when no such record exists
+export type AuditSubjectResolver = (id: string) => Promise<string | null>;
+
+// Subject of events about the log itself, such as a storage repair re-sealing the chain
+export const AUDIT_LOG_SUBJECT = 'audit-log';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Ids are random so they stay unique even with more than one writer; `seq` carries the order
+export const newAuditEventId = () => `audit-${crypto.randomUUID()}`;
+
+// Field order is part of the hash format - append new fields, never reorder
+const HASHED_FIELDS = ['seq', 'id', 'timestamp', 'entityId', 'entityName', 'action', 'user', 'details', 'prevHash'] as const;
+
+export function hashAuditEvent(event: Omit<AuditEvent, 'hash'>): string {
+  const canonical = JSON.stringify(HASHED_FIELDS.map(field => event[field] ?? null));
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+// Link a batch of events (already in chronological order) onto the end of a chain
+export function chainAuditEvents(events: Omit<AuditEvent, 'seq' | 'prevHash' | 'hash'>[], after?: AuditEvent): AuditEvent[] {
+  let seq = after?.seq || 0;
+  let prevHash = after?.hash || GENESIS_HASH;
+  return events.map(event => {
+    const linked = { ...event, seq: ++seq, prevHash };
+    const chained = { ...linked, hash: hashAuditEvent(linked) };
+    prevHash = chained.hash;
+    return chained;
+  });
+}
+
+export function verifyAuditChain(events: AuditEvent[]): AuditVerification {
+  const checkedAt = new Date().toISOString();
+  let prevHash = GENESIS_HASH;
+
+  for (const [index, event] of events.entries()) {
+    const reason = event.seq !== index + 1
+      ? `expected sequence ${index + 1}, found ${event.seq ?? 'none'}`
+      : event.prevHash !== prevHash
+        ? 'does not link to the previous event'
+        : event.hash !== hashAuditEvent(event)
+          ? 'contents do not match its hash'
+          : null;
+
+    if (reason) {
+      return { valid: false, count: events.length, headHash: prevHash, checkedAt, brokenAt: { seq: index + 1, id: event.id, reason } };
+    }
+    prevHash = event.hash;
+  }
+
+  return { valid: true, count: events.length, headHash: prevHash, checkedAt };
+}
+
+export function createAuditLog(repo: Repository<AuditEvent>, resolveSubject: AuditSubjectResolver) {
+  // Appends run one at a time so each event links to the one before it
+  let tail: Promise<unknown> = Promise.resolve();
+
+  async function list(): Promise<AuditEvent[]> {
+    return (await repo.list()).sort((a, b) => a.seq - b.seq);
+  }
+
+  function append(input: AuditInput): Promise<AuditEvent> {
+    const next = tail
+      .catch(() => undefined)
+      .then(async () => {
+        const entityName = input.entityId === AUDIT_LOG_SUBJECT ? 'Audit log' : await resolveSubject(input.entityId);
+        if (entityName === null) {
+          throw new Error(`Audit event ${input.action} refers to unknown record "${input.entityId}"`);
+        }
+        const events = await list();
+        const last = events[events.length - 1];
+        const [event] = chainAuditEvents([{
+          id: newAuditEventId(),
+          timestamp: new Date().toISOString(),
+          ...input,
+          entityName,
+        }], last);
+        return repo.insert(event);
+      });
+    tail = next;
+    return next;
+  }
+
+  async function verify(): Promise<AuditVerification> {
+    return verifyAuditChain(await list());
+  }
+
+  return { append, list, verify };
+}
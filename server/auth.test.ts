@@ -0,0 +1,170 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { NextFunction, Request, Response } from 'express';
+import type { User } from '../src/lib/types';
+import { createAuth, hashPassword, requireRole, SESSION_COOKIE, Session, StoredUser, verifyPassword } from './auth';
+import { DataStore, MemoryDriver } from './storage';
+
+// Just enough of Express for the middleware: the status and body sent, and whether next() ran
+function run(middleware: (req: Request, res: Response, next: NextFunction) => unknown, req: Partial<Request>) {
+  const result = { status: 200, body: null as unknown, nextCalled: false };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      result.body = body;
+      return this;
+    },
+  };
+  return Promise.resolve(middleware(req as Request, res as unknown as Response, () => {
+    result.nextCalled = true;
+  })).then(() => result);
+}
+
+const userWithRole = (role: User['role']): User => ({
+  id: `user-${role}`,
+  username: role,
+  displayName: role,
+  role,
+  authProvider: 'local',
+  createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('passwords', () => {
+  it('verifies the right password and rejects others', async () => {
+    const stored = await hashPassword('correct horse');
+    assert.match(stored, /^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+    assert.equal(await verifyPassword('correct horse', stored), true);
+    assert.equal(await verifyPassword('correct horse!', stored), false);
+  });
+
+  it('rejects accounts with no usable hash', async () => {
+    assert.equal(await verifyPassword('anything', undefined), false);
+    assert.equal(await verifyPassword('anything', 'plain$text'), false);
+  });
+
+  it('salts every hash', async () => {
+    assert.notEqual(await hashPassword('same password'), await hashPassword('same password'));
+  });
+});
+
+describe('requireRole', () => {
+  const managersOnly = requireRole('manager', 'admin');
+
+  it('answers 401 without a signed-in user', async () => {
+    const result = await run(managersOnly, {});
+    assert.equal(result.status, 401);
+    assert.equal(result.nextCalled, false);
+  });
+
+  it('answers 403 for a role that is not listed', async () => {
+    for (const role of ['analyst', 'risk_committee'] as const) {
+      const result = await run(managersOnly, { user: userWithRole(role) });
+      assert.equal(result.status, 403);
+      assert.equal(result.nextCalled, false);
+    }
+  });
+
+  it('lets listed roles through', async () => {
+    for (const role of ['manager', 'admin'] as const) {
+      assert.equal((await run(managersOnly, { user: userWithRole(role) })).nextCalled, true);
+    }
+  });
+});
+
+describe('sessions', () => {
+  async function setUp() {
+    const store = await DataStore.open(new MemoryDriver());
+    const users = store.collection<StoredUser>('users');
+    const sessions = store.collection<Session>('sessions');
+    const auth = createAuth(users, sessions);
+    const user = await auth.createUser({ username: 'Ana', role: 'analyst', password: 'analyst-pass' });
+    return { auth, sessions, user };
+  }
+
+  // Starts a session for `user` and returns its cookie value
+  async function cookieFor(auth: ReturnType<typeof createAuth>, user: StoredUser): Promise<string> {
+    let token = '';
+    await auth.startSession(user, { cookie: (_name: string, value: string) => (token = value) } as unknown as Response);
+    return token;
+  }
+
+  it('signs in by username regardless of case and never with a wrong password', async () => {
+    const { auth } = await setUp();
+    assert.equal((await auth.login('ANA', 'analyst-pass'))?.username, 'ana');
+    assert.equal(await auth.login('ana', 'wrong-pass'), null);
+    assert.equal(await auth.login('nobody', 'analyst-pass'), null);
+  });
+
+  it('stores only a hash of the session token', async () => {
+    const { auth, sessions, user } = await setUp();
+    const token = await cookieFor(auth, user);
+    const [stored] = await sessions.list();
+    assert.notEqual(stored.id, token);
+    assert.equal(stored.userId, user.id);
+  });
+
+  it('attaches the user for a live session, without credentials', async () => {
+    const { auth, user } = await setUp();
+    const token = await cookieFor(auth, user);
+    const req: Partial<Request> = { headers: { cookie: `${SESSION_COOKIE}=${token}` } };
+    await run(auth.authenticate, req);
+    assert.equal(req.user?.id, user.id);
+    assert.equal((req.user as StoredUser).passwordHash, undefined);
+  });
+
+  it('drops an expired session and leaves the request signed out', async () => {
+    const { auth, sessions, user } = await setUp();
+    const token = await cookieFor(auth, user);
+    const [stored] = await sessions.list();
+    await sessions.update(stored.id, { expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+    const req: Partial<Request> = { headers: { cookie: `${SESSION_COOKIE}=${token}` } };
+    const result = await run(auth.authenticate, req);
+    assert.equal(result.nextCalled, true);
+    assert.equal(req.user, undefined);
+    assert.equal((await sessions.list()).length, 0);
+  });
+});
+
+describe('signInWithOidc', () => {
+  const profile = (subject: string, username: string, role: User['role'] | null = null) =>
+    ({ subject, username, displayName: username, role });
+
+  async function setUp() {
+    const store = await DataStore.open(new MemoryDriver());
+    const users = store.collection<StoredUser>('users');
+    const auth = createAuth(users, store.collection<Session>('sessions'));
+    return { auth, users };
+  }
+
+  it('provisions a new subject and finds it again by subject', async () => {
+    const { auth } = await setUp();
+    const created = await auth.signInWithOidc(profile('sub-1', 'olga'), 'analyst');
+    assert.equal(created?.role, 'analyst');
+    assert.equal(created?.oidcSubject, 'sub-1');
+    assert.equal((await auth.signInWithOidc(profile('sub-1', 'olga.renamed'), 'analyst'))?.id, created?.id);
+  });
+
+  it('refuses a username already held by a local account or another subject', async () => {
+    const { auth, users } = await setUp();
+    await auth.createUser({ username: 'ana', role: 'analyst', password: 'analyst-pass' });
+    await auth.signInWithOidc(profile('sub-1', 'olga', 'admin'), 'analyst');
+
+    assert.equal(await auth.signInWithOidc(profile('sub-2', 'ana'), 'analyst'), null);
+    assert.equal(await auth.signInWithOidc(profile('sub-2', 'olga', 'analyst'), 'analyst'), null);
+    assert.equal((await users.list()).length, 2);
+    assert.equal((await auth.findUser('olga'))?.role, 'admin');
+  });
+
+  it('applies the role claim but keeps the last admin an admin', async () => {
+    const { auth } = await setUp();
+    await auth.signInWithOidc(profile('sub-1', 'olga', 'admin'), 'analyst');
+    assert.equal((await auth.signInWithOidc(profile('sub-1', 'olga', 'analyst'), 'analyst'))?.role, 'admin');
+
+    await auth.createUser({ username: 'root', role: 'admin', password: 'admin-pass-1' });
+    assert.equal((await auth.signInWithOidc(profile('sub-1', 'olga', 'manager'), 'analyst'))?.role, 'manager');
+  });
+});
@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import type { NextFunction, Request, Response } from 'express';
+import type { Role, User } from '../src/lib/types';
+import type { OidcProfile } from './oidc';
+import type { Repository } from './storage';
+
+// Local accounts, cookie sessions and role checks.
+// Passwords are hashed with scrypt; sessions are stored by the SHA-256 of their token,
+// so the data file never holds a usable session cookie.
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    user?: User;
+  }
+}
+
+export const ROLES: Role[] = ['analyst', 'manager', 'risk_committee', 'admin'];
+
+export interface StoredUser extends User {
+  passwordHash?: string;
+  // Subject claim for users provisioned through OIDC
+  oidcSubject?: string;
+}
+
+export interface Session {
+  id: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export const SESSION_COOKIE = 'syntria_session';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = await scrypt(password, salt, 64);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string | undefined): Promise<boolean> {
+  const [scheme, salt, hash] = (stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < 8) {
+    return 'Password must be at least 8 characters';
+  }
+  return null;
+}
+
+// Strip credentials before a user leaves the server
+export function toPublicUser({ id, username, displayName, role, authProvider, createdAt }: StoredUser): User {
+  return { id, username, displayName, role, authProvider, createdAt };
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
+
+export function createAuth(users: Repository<StoredUser>, sessions: Repository<Session>) {
+  const ttlHours = Number(process.env.SESSION_TTL_HOURS) || 12;
+  const cookieOptions = {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+  };
+
+  async function findUser(username: string): Promise<StoredUser | undefined> {
+    const normalized = username.trim().toLowerCase();
+    return (await users.list()).find(user => user.username === normalized);
+  }
+
+  async function createUser(input: {
+    username: string;
+    displayName?: string;
+    role: Role;
+    password?: string;
+    authProvider?: User['authProvider'];
+    oidcSubject?: string;
+  }): Promise<StoredUser> {
+    const username = input.username.trim().toLowerCase();
+    return users.insert({
+      id: `user-${crypto.randomUUID()}`,
+      username,
+      displayName: input.displayName?.trim() || username,
+      role: input.role,
+      authProvider: input.authProvider || 'local',
+      createdAt: new Date().toISOString(),
+      ...(input.password ? { passwordHash: await hashPassword(input.password) } : {}),
+      ...(input.oidcSubject ? { oidcSubject: input.oidcSubject } : {}),
+    });
+  }
+
+  // Accounts from the identity provider are matched on their subject claim only: preferred_username
+  // is neither unique nor stable, so a name already held by anyone else refuses the sign-in (null)
+  async function signInWithOidc(profile: OidcProfile, defaultRole: Role): Promise<StoredUser | null> {
+    const all = await users.list();
+    const existing = all.find(user => user.authProvider === 'oidc' && user.oidcSubject === profile.subject);
+    if (!existing) {
+      if (await findUser(profile.username)) {
+        return null;
+      }
+      return createUser({
+        username: profile.username,
+        displayName: profile.displayName,
+        role: profile.role || defaultRole,
+        authProvider: 'oidc',
+        oidcSubject: profile.subject,
+      });
+    }
+
+    // The identity provider's role claim wins when present, but never takes away the last admin
+    const lastAdmin = existing.role === 'admin' && all.filter(user => user.role === 'admin').length === 1;
+    if (!profile.role || profile.role === existing.role || lastAdmin) {
+      return existing;
+    }
+    return await users.update(existing.id, { role: profile.role }) as StoredUser;
+  }
+
+  async function login(username: string, password: string): Promise<StoredUser | null> {
+    const user = await findUser(username || '');
+    if (!user || user.authProvider !== 'local' || !(await verifyPassword(password || '', user.passwordHash))) {
+      return null;
+    }
+    return user;
+  }
+
+  async function startSession(user: StoredUser, res: Response): Promise<void> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const now = Date.now();
+    await sessions.insert({
+      id: hashToken(token),
+      userId: user.id,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlHours * 3600 * 1000).toISOString(),
+    });
+    res.cookie(SESSION_COOKIE, token, { ...cookieOptions, maxAge: ttlHours * 3600 * 1000 });
+  }
+
+  async function endSession(req: Request, res: Response): Promise<void> {
+    const token = readCookie(req, SESSION_COOKIE);
+    if (token) {
+      await sessions.remove(hashToken(token));
+    }
+    res.clearCookie(SESSION_COOKIE, cookieOptions);
+  }
+
+  // Attach req.user when the request carries a valid session cookie
+  async function authenticate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const token = readCookie(req, SESSION_COOKIE);
+      if (token) {
+        const session = await sessions.get(hashToken(token));
+        if (session && new Date(session.expiresAt).getTime() > Date.now()) {
+          const user = await users.get(session.userId);
+          if (user) {
+            req.user = toPublicUser(user);
+          }
+        } else if (session) {
+          await sessions.remove(session.id);
+        }
+      }
+      next();
+    } catch (error: unknown) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  }
+
+  // First start: create an admin so someone can sign in and add the rest of the team
+  async function bootstrapAdmin(): Promise<void> {
+    if ((await users.list()).length > 0) {
+      return;
+    }
+    const username = process.env.ADMIN_USERNAME || 'admin';
+    const password = process.env.ADMIN_PASSWORD || crypto.randomBytes(9).toString('base64url');
+    await createUser({ username, displayName: 'Administrator', role: 'admin', password });
+    console.log(`🔐 Created admin account "${username}"${process.env.ADMIN_PASSWORD ? '' : ` with password: ${password}`}`);
+  }
+
+  return { findUser, createUser, signInWithOidc, login, startSession, endSession, authenticate, bootstrapAdmin };
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+  next();
+}
+
+export function requireRole(...roles: Role[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Sign in required' });
+    }
+    if (!roles.includes(req.user.role)) {
+      return res.status(403).json({ error: `This action requires one of these roles: ${roles.join(', ')}` });
+    }
+    next();
+  };
+}
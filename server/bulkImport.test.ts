@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Entity, RiskPolicy } from '../src/lib/types';
+import { parseCsv, parseXlsx, prepareImport, suggestMapping } from './bulkImport';
+import { DEFAULT_RISK_POLICY } from './riskPolicy';
+
+const policy: RiskPolicy = { ...DEFAULT_RISK_POLICY, id: 'risk-policy-v1', version: 1, createdAt: '2026-01-01T00:00:00.000Z', createdBy: 'admin' };
+
+// An uncompressed ZIP archive holding the given entries - all readZipEntry needs
+function zip(entries: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(entries)) {
+    const data = Buffer.from(content);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt32LE(data.length, 20);
+    header.writeUInt32LE(data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+    locals.push(local, Buffer.from(name), data);
+    central.push(header, Buffer.from(name));
+    offset += 30 + name.length + data.length;
+  }
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const workbook = (rows: string) => zip({
+  'xl/workbook.xml': '<workbook><sheets><sheet name="Register" sheetId="1"/></sheets></workbook>',
+  'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${rows}</sheetData></worksheet>`,
+});
+
+const upload = (csv: string, mapping?: unknown) => ({ fileName: 'register.csv', base64: Buffer.from(csv).toString('base64'), mapping });
+
+describe('parseCsv', () => {
+  it('reads quoted cells with delimiters, escaped quotes and line breaks', () => {
+    const rows = parseCsv('\uFEFFName,Notes\r\n"Acme, Inc.","Said ""hi""\nthen left"\r\nGlobex,\n');
+    assert.deepEqual(rows, [
+      { row: 1, cells: ['Name', 'Notes'] },
+      { row: 2, cells: ['Acme, Inc.', 'Said "hi"\nthen left'] },
+      { row: 4, cells: ['Globex', ''] },
+    ]);
+  });
+
+  it('takes the delimiter from the header line', () => {
+    assert.deepEqual(parseCsv('Name;Country\nAcme, Inc.;Germany').map(row => row.cells), [['Name', 'Country'], ['Acme, Inc.', 'Germany']]);
+    assert.deepEqual(parseCsv('Name\tCountry\nAcme\tFrance')[1].cells, ['Acme', 'France']);
+  });
+});
+
+describe('parseXlsx', () => {
+  it('places cells by their reference and reads inline strings', () => {
+    const rows = parseXlsx(workbook(
+      '<row r="1"><c r="A1" t="inlineStr"><is><t>Name</t></is></c><c r="C1" t="inlineStr"><is><t>Country</t></is></c></row>'
+      + '<row r="2"><c r="A2" t="inlineStr"><is><t>Acme &amp; Co</t></is></c><c r="C2"><v>49</v></c></row>'
+    ));
+    assert.deepEqual(rows, [{ row: 1, cells: ['Name', '', 'Country'] }, { row: 2, cells: ['Acme & Co', '', '49'] }]);
+  });
+
+  it('refuses cell references past the last column', () => {
+    assert.doesNotThrow(() => parseXlsx(workbook('<row r="1"><c r="XFD1"><v>1</v></c></row>')));
+    assert.throws(() => parseXlsx(workbook('<row r="1"><c r="XFE1"><v>1</v></c></row>')), /past the last column/);
+    assert.throws(() => parseXlsx(workbook('<row r="1"><c r="ZZZZZZZ1"><v>1</v></c></row>')), /past the last column/);
+  });
+});
+
+describe('suggestMapping', () => {
+  it('matches common header spellings', () => {
+    assert.deepEqual(suggestMapping(['Vendor Name', 'Tax ID', 'HQ Country', 'E-mail', 'Handles PII', 'Notes']), {
+      name: 'Vendor Name', ein: 'Tax ID', country: 'HQ Country', contactEmail: 'E-mail', hasPII: 'Handles PII',
+    });
+  });
+});
+
+describe('prepareImport', () => {
+  it('scores valid rows with the rules engine and normalizes their fields', () => {
+    const { preview, drafts, error } = prepareImport(
+      upload('Name,Type,EIN,Country,Documents,PII,IAM,Encryption,Logging,Network\nAcme,Vendors,123456789,Germany,w9; soc 2,yes,y,y,y,y\n'),
+      [],
+      policy
+    );
+    assert.equal(error, null);
+    assert.equal(preview!.validCount, 1);
+    assert.equal(drafts[0].type, 'vendor');
+    assert.equal(drafts[0].ein, '12-3456789');
+    assert.deepEqual(drafts[0].documents, ['W9', 'SOC2']);
+    assert.equal(drafts[0].row.riskLevel, drafts[0].assessment.riskLevel);
+    assert.equal(drafts[0].assessment.policyVersion, 1);
+  });
+
+  it('reports every problem in a row against its field and creates nothing for it', () => {
+    const { preview, drafts } = prepareImport(
+      upload('Name,Type,EIN,Country,Email,Documents,PII\n,partner,12-34,=cmd(),not-an-email,Passport,maybe\n'),
+      [],
+      policy
+    );
+    assert.equal(drafts.length, 0);
+    assert.deepEqual(preview!.rows[0].errors.map(error => error.field), ['name', 'type', 'ein', 'country', 'contactEmail', 'documents', 'hasPII']);
+  });
+
+  it('flags rows that duplicate an entity on file or an earlier row', () => {
+    const existing = [{ id: 'entity-1', name: 'Acme Corporation', ein: '12-3456789' }] as Entity[];
+    const { preview } = prepareImport(
+      upload('Name,EIN,Country\nAcme Corp,123456789,USA\nGlobex,,USA\nGlobex Inc.,,USA\n'),
+      existing,
+      policy
+    );
+    const [acme, globex, copy] = preview!.rows;
+    assert.match(acme.errors[0].message, /Possible duplicate of "Acme Corporation"/);
+    assert.equal(acme.errors[0].field, 'ein');
+    assert.deepEqual(globex.errors, []);
+    assert.match(copy.errors[0].message, /Possible duplicate of row 3/);
+  });
+
+  it('rejects unusable uploads and mappings', () => {
+    assert.equal(prepareImport({ fileName: 'register.pdf', base64: 'AAAA' }, [], policy).error, 'Upload a .csv or .xlsx file');
+    assert.equal(prepareImport(upload('Name\n'), [], policy).error, 'The sheet needs a header row and at least one data row');
+    assert.match(prepareImport(upload('Name\nAcme\n', { name: 'Company' }), [], policy).error!, /Column "Company" for name is not in the sheet/);
+    assert.equal(prepareImport(upload('Notes\nAcme\n'), [], policy).error, 'Map a column to the entity name');
+    assert.match(prepareImport({ fileName: 'register.xlsx', base64: Buffer.from('not a zip').toString('base64') }, [], policy).error!,
+      /not a readable XLSX workbook/);
+    assert.match(prepareImport({ fileName: 'register.xlsx', base64: workbook('<row r="1"><c r="ZZZZZZZ1"><v>1</v></c></row>').toString('base64') }, [], policy).error!,
+      /past the last column/);
+  });
+});
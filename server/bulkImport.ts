@@ -0,0 +1,397 @@
+import type {
+  DuplicateReason,
+  Entity,
+  ImportField,
+  ImportMapping,
+  ImportPreview,
+  ImportRow,
+  ImportRowError,
+  RiskAssessment,
+  RiskPolicy,
+  SecurityControls,
+} from '../src/lib/types';
+import { decodeXmlEntities, readZipEntry } from './documentAnalysis';
+import { DOCUMENT_TYPES } from './documentVault';
+import { describeReasons, DuplicateProbe, findDuplicates } from './duplicates';
+import { scoreRisk, toRiskInput } from './riskEngine';
+
+// Bulk entity import from a spreadsheet register.
+// The CSV, or the first sheet of an XLSX workbook, is read as a header row plus data rows.
+// Columns are mapped onto entity fields, every row is validated and scored by the rules engine,
+// and the caller creates entities for the rows without errors.
+
+export const MAX_IMPORT_ROWS = 2000;
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'name', 'type', 'ein', 'country', 'contactEmail', 'owner', 'documents', 'hasPII', 'iam', 'encryption', 'logging', 'network',
+];
+
+// Header spellings recognised when no mapping is given, compared without case, spaces or punctuation
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'company', 'companyname', 'entity', 'entityname', 'vendor', 'vendorname', 'client', 'clientname', 'legalname'],
+  type: ['type', 'entitytype', 'companytype', 'relationship', 'relationshiptype'],
+  ein: ['ein', 'taxid', 'tin', 'federaltaxid', 'employeridentificationnumber'],
+  country: ['country', 'jurisdiction', 'countryofincorporation', 'hqcountry'],
+  contactEmail: ['email', 'contactemail', 'emailaddress', 'contact'],
+  owner: ['owner', 'relationshipowner', 'businessowner'],
+  documents: ['documents', 'docs', 'documentsonfile', 'evidence'],
+  hasPII: ['pii', 'haspii', 'handlespii', 'personaldata'],
+  iam: ['iam', 'identityandaccessmanagement', 'identityaccessmanagement'],
+  encryption: ['encryption'],
+  logging: ['logging', 'loggingmonitoring', 'monitoring'],
+  network: ['network', 'networksecurity'],
+};
+
+const CONTROL_FIELDS: Array<keyof SecurityControls> = ['iam', 'encryption', 'logging', 'network'];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export interface ImportUpload {
+  fileName: unknown;
+  base64: unknown;
+  mapping?: unknown;
+}
+
+// A valid row, ready to become an entity
+export interface ImportDraft {
+  row: ImportRow;
+  name: string;
+  type: Entity['type'];
+  ein: string;
+  country: string;
+  contactEmail: string;
+  owner: string | null;
+  documents: string[];
+  controls: SecurityControls;
+  hasPII: boolean;
+  assessment: RiskAssessment;
+}
+
+interface SheetRow {
+  row: number;
+  cells: string[];
+}
+
+// RFC 4180 with the delimiter (comma, semicolon or tab) taken from the header line
+export function parseCsv(text: string): SheetRow[] {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best);
+
+  const rows: SheetRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowStart = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      cells.push(cell);
+      rows.push({ row: rowStart, cells });
+      cells = [];
+      cell = '';
+      line++;
+      rowStart = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) {
+    cells.push(cell);
+    rows.push({ row: rowStart, cells });
+  }
+  return rows;
+}
+
+// Excel's last column is XFD; a cell ref past it would have parseXlsx pad a row out to that width
+const MAX_COLUMNS = 16384;
+
+// "AB12" -> 27
+function columnIndex(ref: string): number {
+  const letters = /^[A-Z]+/i.exec(ref)?.[0].toUpperCase() || 'A';
+  const index = letters.length > 3 ? MAX_COLUMNS
+    : [...letters].reduce((sum, letter) => sum * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+  if (index >= MAX_COLUMNS) {
+    throw new Error(`cell ${ref} is past the last column (XFD)`);
+  }
+  return index;
+}
+
+const xmlText = (xml: string) =>
+  [...xml.matchAll(/<(?:\w+:)?t(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?t>/g)].map(match => decodeXmlEntities(match[1])).join('');
+
+const attribute = (attributes: string, name: string) => new RegExp(`\\b${name}="([^"]*)"`).exec(attributes)?.[1];
+
+// First worksheet of an XLSX workbook; null when the file is not one, and throws for a sheet it cannot read safely
+export function parseXlsx(buffer: Buffer): SheetRow[] | null {
+  const workbook = readZipEntry(buffer, 'xl/workbook.xml')?.toString('utf8');
+  if (!workbook) return null;
+
+  // Resolve the first sheet through the workbook relationships, falling back to the usual path
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const relationId = /<(?:\w+:)?sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+  const relations = readZipEntry(buffer, 'xl/_rels/workbook.xml.rels')?.toString('utf8') || '';
+  for (const [, attributes] of relations.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const target = attribute(attributes, 'Target');
+    if (relationId && attribute(attributes, 'Id') === relationId && target) {
+      sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  const sheet = readZipEntry(buffer, sheetPath)?.toString('utf8');
+  if (!sheet) return null;
+
+  const sharedStrings = [...(readZipEntry(buffer, 'xl/sharedStrings.xml')?.toString('utf8') || '')
+    .matchAll(/<(?:\w+:)?si>([\s\S]*?)<\/(?:\w+:)?si>/g)].map(match => xmlText(match[1]));
+
+  const rows: SheetRow[] = [];
+  for (const [, rowAttributes, body] of sheet.matchAll(/<(?:\w+:)?row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?row>)/g)) {
+    const cells: string[] = [];
+    for (const [, cellAttributes, content = ''] of (body || '').matchAll(/<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g)) {
+      const ref = attribute(cellAttributes, 'r');
+      const index = ref ? columnIndex(ref) : cells.length;
+      const raw = /<(?:\w+:)?v>([\s\S]*?)<\/(?:\w+:)?v>/.exec(content)?.[1];
+      const type = attribute(cellAttributes, 't');
+      let value: string;
+      if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = xmlText(content);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else value = raw === undefined ? '' : decodeXmlEntities(raw);
+      while (cells.length < index) cells.push('');
+      cells[index] = value;
+    }
+    rows.push({ row: Number(attribute(rowAttributes, 'r')) || rows.length + 1, cells });
+  }
+  return rows;
+}
+
+function readSheet(input: ImportUpload): { columns: string[]; rows: SheetRow[]; error: string | null } {
+  const fail = (error: string) => ({ columns: [], rows: [], error });
+  if (typeof input.fileName !== 'string' || !input.fileName.trim()) return fail('fileName is required');
+  if (typeof input.base64 !== 'string' || !input.base64) return fail('base64 file content is required');
+
+  const buffer = Buffer.from(input.base64, 'base64');
+  let rows: SheetRow[] | null;
+  if (/\.xlsx$/i.test(input.fileName)) {
+    try {
+      rows = parseXlsx(buffer);
+    } catch (error) {
+      // A damaged archive, one that would expand past MAX_INFLATED_BYTES, or a cell past column XFD
+      return fail(`The file is not a readable XLSX workbook: ${(error as Error).message}`);
+    }
+    if (!rows) return fail('The file is not a readable XLSX workbook');
+  } else if (/\.(csv|tsv|txt)$/i.test(input.fileName)) {
+    rows = parseCsv(buffer.toString('utf8'));
+  } else {
+    return fail('Upload a .csv or .xlsx file');
+  }
+
+  const nonEmpty = rows.filter(row => row.cells.some(cell => cell.trim()));
+  if (nonEmpty.length < 2) return fail('The sheet needs a header row and at least one data row');
+  if (nonEmpty.length - 1 > MAX_IMPORT_ROWS) return fail(`Imports are limited to ${MAX_IMPORT_ROWS} rows`);
+
+  const [header, ...data] = nonEmpty;
+  return { columns: header.cells.map(cell => cell.trim()), rows: data, error: null };
+}
+
+// Fields matched to columns by header name
+export function suggestMapping(columns: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const column = columns.find(column => column && FIELD_ALIASES[field].includes(normalizeHeader(column)));
+    if (column) mapping[field] = column;
+  }
+  return mapping;
+}
+
+function checkMapping(mapping: unknown, columns: string[]): { mapping: ImportMapping | null; error: string | null } {
+  if (mapping === undefined || mapping === null) {
+    return { mapping: suggestMapping(columns), error: null };
+  }
+  if (typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return { mapping: null, error: 'mapping must be an object of field -> column' };
+  }
+  const checked: ImportMapping = {};
+  for (const [field, column] of Object.entries(mapping)) {
+    if (!(IMPORT_FIELDS as string[]).includes(field)) {
+      return { mapping: null, error: `Unknown import field "${field}". Fields: ${IMPORT_FIELDS.join(', ')}` };
+    }
+    if (column === null || column === '') continue;
+    if (typeof column !== 'string' || !columns.includes(column)) {
+      return { mapping: null, error: `Column "${column}" for ${field} is not in the sheet` };
+    }
+    checked[field as ImportField] = column;
+  }
+  return { mapping: checked, error: null };
+}
+
+const YES = ['yes', 'y', 'true', '1', 'x'];
+const NO = ['no', 'n', 'false', '0', ''];
+const EIN_PATTERN = /^(\d{2})-?(\d{7})$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const COUNTRY_PATTERN = /^\p{L}[\p{L} .,'’()-]{1,59}$/u;
+
+function readBoolean(value: string, field: ImportField, errors: ImportRowError[]): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (YES.includes(normalized)) return true;
+  if (!NO.includes(normalized)) errors.push({ field, message: `"${value}" is not yes or no` });
+  return false;
+}
+
+// Which column a duplicate warning belongs to, by its strongest reason
+const DUPLICATE_FIELDS: Record<DuplicateReason, ImportField> = {
+  ein: 'ein',
+  email: 'contactEmail',
+  email_domain: 'contactEmail',
+  name: 'name',
+};
+
+// Parses, validates and scores every row. Rows that look like an entity already on file, or an
+// earlier row of the same file, are reported as errors (see server/duplicates.ts).
+export function prepareImport(
+  input: ImportUpload,
+  existing: Entity[],
+  policy: RiskPolicy
+): { preview: ImportPreview | null; drafts: ImportDraft[]; error: string | null } {
+  const sheet = readSheet(input);
+  if (sheet.error) return { preview: null, drafts: [], error: sheet.error };
+  const { mapping, error } = checkMapping(input.mapping, sheet.columns);
+  if (!mapping) return { preview: null, drafts: [], error };
+  if (!mapping.name) {
+    return { preview: null, drafts: [], error: 'Map a column to the entity name' };
+  }
+
+  const seen: Array<DuplicateProbe & { row: number }> = [];
+  const documentNames = DOCUMENT_TYPES.filter(type => type !== 'Other');
+  const rows: ImportRow[] = [];
+  const drafts: ImportDraft[] = [];
+
+  for (const { row, cells } of sheet.rows) {
+    const value = (field: ImportField) => {
+      const column = mapping[field];
+      return column ? (cells[sheet.columns.indexOf(column)] || '').trim() : '';
+    };
+    const errors: ImportRowError[] = [];
+
+    const name = value('name');
+    if (!name) {
+      errors.push({ field: 'name', message: 'Name is required' });
+    }
+
+    const rawType = value('type').toLowerCase().replace(/s$/, '');
+    if (rawType && rawType !== 'vendor' && rawType !== 'client') {
+      errors.push({ field: 'type', message: `Type must be vendor or client, not "${value('type')}"` });
+    }
+    const type: Entity['type'] = rawType === 'client' ? 'client' : 'vendor';
+
+    const einMatch = EIN_PATTERN.exec(value('ein'));
+    if (value('ein') && !einMatch) {
+      errors.push({ field: 'ein', message: 'EIN must be 9 digits, e.g. 12-3456789' });
+    }
+
+    const country = value('country');
+    if (!country) {
+      errors.push({ field: 'country', message: 'Country is required for jurisdiction scoring' });
+    } else if (!COUNTRY_PATTERN.test(country)) {
+      errors.push({ field: 'country', message: `"${country}" is not a country name` });
+    }
+
+    const contactEmail = value('contactEmail');
+    if (contactEmail && !EMAIL_PATTERN.test(contactEmail)) {
+      errors.push({ field: 'contactEmail', message: `"${contactEmail}" is not an email address` });
+    }
+
+    const documents: string[] = [];
+    for (const listed of value('documents').split(/[;,|]/).map(doc => doc.trim()).filter(Boolean)) {
+      const known = documentNames.find(doc => normalizeHeader(doc) === normalizeHeader(listed));
+      if (!known) {
+        errors.push({ field: 'documents', message: `Unknown document "${listed}". Use ${documentNames.join(', ')}` });
+      } else if (!documents.includes(known)) {
+        documents.push(known);
+      }
+    }
+
+    const probe = { name, ein: value('ein'), contactEmail };
+    const [onFile] = findDuplicates(probe, existing);
+    const [inFile] = findDuplicates(probe, seen);
+    if (onFile) {
+      errors.push({
+        field: DUPLICATE_FIELDS[onFile.reasons[0]],
+        message: `Possible duplicate of "${onFile.record.name}" (${describeReasons(onFile.reasons)})`,
+      });
+    } else if (inFile) {
+      errors.push({
+        field: DUPLICATE_FIELDS[inFile.reasons[0]],
+        message: `Possible duplicate of row ${inFile.record.row} (${describeReasons(inFile.reasons)})`,
+      });
+    }
+    seen.push({ ...probe, row });
+
+    const hasPII = readBoolean(value('hasPII'), 'hasPII', errors);
+    const controls = Object.fromEntries(
+      CONTROL_FIELDS.map(control => [control, readBoolean(value(control), control, errors)])
+    ) as unknown as SecurityControls;
+
+    if (errors.length > 0) {
+      rows.push({ row, name, errors, riskLevel: null, score: null, compliance: null });
+      continue;
+    }
+
+    // Rules engine only: a model call per row would make large imports slow and costly,
+    // and a re-assessment can add the AI review later
+    const assessment = scoreRisk(toRiskInput({ companyType: type, country, documents, controls, hasPII }), policy);
+    const importRow: ImportRow = {
+      row,
+      name,
+      errors,
+      riskLevel: assessment.riskLevel,
+      score: assessment.score,
+      compliance: assessment.compliance,
+    };
+    rows.push(importRow);
+    drafts.push({
+      row: importRow,
+      name,
+      type,
+      ein: einMatch ? `${einMatch[1]}-${einMatch[2]}` : '',
+      country,
+      contactEmail,
+      owner: value('owner') || null,
+      documents,
+      controls,
+      hasPII,
+      assessment,
+    });
+  }
+
+  return {
+    preview: {
+      fileName: String(input.fileName),
+      columns: sheet.columns,
+      mapping,
+      rows,
+      validCount: drafts.length,
+      errorCount: rows.length - drafts.length,
+    },
+    drafts,
+    error: null,
+  };
+}
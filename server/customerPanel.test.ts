@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Persona } from '../src/lib/types';
+import { runPanel } from './customerPanel';
+import type { LLMClient, LLMRequest } from './llm';
+import { createMockClient } from './mockProvider';
+import { PERSONA_DEFAULTS } from './personas';
+
+const persona = (name: string): Persona => ({
+  ...PERSONA_DEFAULTS,
+  id: `persona-${name.toLowerCase()}`,
+  projectId: 'project-1',
+  name,
+  segment: 'Retail',
+  source: 'manual',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+// A model that answers each persona by name, and the moderator with `moderator`
+function panelClient(answers: Record<string, string>, moderator: () => string): LLMClient {
+  return {
+    ...createMockClient(),
+    async generate(request: string | LLMRequest) {
+      const { agent, prompt } = typeof request === 'string' ? { agent: undefined, prompt: request } : request;
+      if (agent === 'customer-panel-moderator') return moderator();
+      return answers[/^You are (\w+)/.exec(prompt)![1]];
+    },
+  };
+}
+
+describe('runPanel', () => {
+  it('collects each answer and maps the moderator grid onto the panelists', async () => {
+    const llm = panelClient(
+      {
+        Alex: JSON.stringify({ answer: ' Price matters most. ', stance: 'skeptical', points: ['Price', 7, 'Support'] }),
+        Mei: 'Honestly, I would try it.',
+      },
+      () => JSON.stringify({ topics: [{ topic: ' Price ', positions: { P1: 'agree', P2: 'maybe' } }, { topic: '' }] }),
+    );
+    const { round, trace } = await runPanel(llm, 'Would you switch?', [persona('Alex'), persona('Mei')], {}, 'ana');
+
+    assert.deepEqual(round.answers.map(answer => [answer.personaName, answer.answer, answer.stance, answer.points]), [
+      ['Alex', 'Price matters most.', 'skeptical', ['Price', 'Support']],
+      ['Mei', 'Honestly, I would try it.', 'mixed', []],
+    ]);
+    assert.deepEqual(round.topics, [{ topic: 'Price', positions: { 'persona-alex': 'agree', 'persona-mei': 'silent' } }]);
+    assert.deepEqual(trace.map(step => step.action), ['panel_answers', 'agreement_grid']);
+  });
+
+  it('keeps the answers when the moderator fails and skips it for a single panelist', async () => {
+    const failing = panelClient({ Alex: 'Yes', Mei: 'No' }, () => 'not json');
+    const { round, trace } = await runPanel(failing, 'Would you switch?', [persona('Alex'), persona('Mei')], {}, 'ana');
+    assert.equal(round.answers.length, 2);
+    assert.deepEqual(round.topics, []);
+    assert.match(String(trace[1].output), /^Skipped: /);
+
+    let moderated = false;
+    const single = panelClient({ Alex: 'Yes' }, () => {
+      moderated = true;
+      return '{"topics": []}';
+    });
+    assert.equal((await runPanel(single, 'Would you switch?', [persona('Alex')], {}, 'ana')).trace.length, 1);
+    assert.equal(moderated, false);
+  });
+});
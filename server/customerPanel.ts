@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import type { AgentTraceStep, PanelAnswer, PanelPosition, PanelRound, PanelStance, PanelTopic, Persona } from '../src/lib/types';
+import { LLMClient, parseModelJson } from './llm';
+
+// Customer advisory panel: one question, answered by each persona in character, then a moderator
+// pass that lists the points raised and where each persona stands on them (the agreement grid).
+
+export const MAX_PANEL_SIZE = 6;
+
+const STANCES: PanelStance[] = ['supportive', 'mixed', 'skeptical'];
+const POSITIONS: PanelPosition[] = ['agree', 'disagree', 'silent'];
+
+const SKEPTICISM_GUIDANCE = {
+  low: 'You are open to new products and quick to see upside, though you still mention real concerns.',
+  medium: 'You are pragmatic: interested if it clearly solves your problem, wary of cost and switching effort.',
+  high: 'You are skeptical of new vendors after bad experiences; you push back, ask for proof and point out risks.',
+};
+
+export interface PanelContext {
+  market?: string;
+  // Earlier exchanges on the panel, so follow-up questions make sense
+  previousRounds?: PanelRound[];
+}
+
+function personaPrompt(persona: Persona, question: string, context: PanelContext): string {
+  const history = (context.previousRounds || []).slice(-3).map(round => {
+    const own = round.answers.find(answer => answer.personaId === persona.id);
+    return own ? `PM: ${round.question}\nYou: ${own.answer}` : '';
+  }).filter(Boolean).join('\n');
+
+  return `You are ${persona.name}, a real customer${context.market ? ` in the ${context.market} market` : ''}, taking part in a customer advisory panel run by a product manager.
+
+About you:
+Segment: ${persona.segment}
+Role: ${persona.role || 'Not specified'}
+Budget: ${persona.budget || 'Not specified'}
+Current tools: ${persona.currentTools.join(', ') || 'Not specified'}
+Pain points: ${persona.painPoints.join('; ') || 'Not specified'}
+Background: ${persona.description || 'Not specified'}
+Skepticism: ${persona.skepticism}. ${SKEPTICISM_GUIDANCE[persona.skepticism]}
+${history ? `\nEarlier in this panel:\n${history}\n` : ''}
+The PM asks: "${question}"
+
+Answer as this person would, not as an AI assistant: conversational, specific to your situation, 2-4 sentences.
+Return ONLY JSON, no markdown:
+{"answer": "your reply", "stance": "supportive" | "mixed" | "skeptical", "points": ["2-4 short points you made, a few words each"]}`;
+}
+
+function moderatorPrompt(question: string, answers: PanelAnswer[]): string {
+  const transcript = answers.map((answer, index) =>
+    `[P${index + 1}] ${answer.personaName}: ${answer.answer}`
+  ).join('\n');
+
+  return `You moderate a customer advisory panel. The product manager asked: "${question}"
+
+Panelists' answers:
+${transcript}
+
+List the 3-6 distinct points raised across the panel (pain points, requirements, objections, buying criteria). For each point, give every panelist's position: "agree" if they made or support the point, "disagree" if they contradict it, "silent" if they did not address it.
+Return ONLY JSON, no markdown:
+{"topics": [{"topic": "short point", "positions": {${answers.map((_, index) => `"P${index + 1}": "agree" | "disagree" | "silent"`).join(', ')}}}]}`;
+}
+
+async function askPersona(llm: LLMClient, persona: Persona, question: string, context: PanelContext): Promise<PanelAnswer> {
+  const text = await llm.generate({ agent: 'customer-panel', prompt: personaPrompt(persona, question, context) }, { json: true, temperature: 0.8 });
+  try {
+    const parsed = parseModelJson<{ answer?: unknown; stance?: unknown; points?: unknown }>(text);
+    return {
+      personaId: persona.id,
+      personaName: persona.name,
+      answer: typeof parsed.answer === 'string' && parsed.answer.trim() ? parsed.answer.trim() : text.trim(),
+      stance: STANCES.includes(parsed.stance as PanelStance) ? parsed.stance as PanelStance : 'mixed',
+      points: Array.isArray(parsed.points) ? parsed.points.filter((point): point is string => typeof point === 'string').slice(0, 4) : [],
+    };
+  } catch {
+    // A plain-text reply is still an answer; it just carries no structured points
+    return { personaId: persona.id, personaName: persona.name, answer: text.trim(), stance: 'mixed', points: [] };
+  }
+}
+
+// Topics keyed by persona id; a panelist the moderator left out counts as silent
+function parseTopics(text: string, answers: PanelAnswer[]): PanelTopic[] {
+  const parsed = parseModelJson<{ topics?: { topic?: unknown; positions?: Record<string, unknown> }[] }>(text);
+  return (Array.isArray(parsed.topics) ? parsed.topics : [])
+    .filter(topic => typeof topic?.topic === 'string' && topic.topic.trim())
+    .map(topic => ({
+      topic: String(topic.topic).trim(),
+      positions: Object.fromEntries(answers.map((answer, index) => {
+        const position = topic.positions?.[`P${index + 1}`];
+        return [answer.personaId, POSITIONS.includes(position as PanelPosition) ? position as PanelPosition : 'silent'];
+      })),
+    }));
+}
+
+export async function runPanel(
+  llm: LLMClient,
+  question: string,
+  personas: Persona[],
+  context: PanelContext,
+  createdBy: string
+): Promise<{ round: PanelRound; trace: AgentTraceStep[] }> {
+  const trace: AgentTraceStep[] = [];
+  const answers = await Promise.all(personas.map(persona => askPersona(llm, persona, question, context)));
+  trace.push({
+    timestamp: new Date().toISOString(),
+    agent: 'customer-panel',
+    action: 'panel_answers',
+    input: { question, personas: personas.map(persona => persona.name), provider: llm.provider, model: llm.model },
+    output: `${answers.length} answers`,
+  });
+
+  // The grid needs at least two voices; a failed moderator pass leaves the answers standing
+  let topics: PanelTopic[] = [];
+  if (answers.length > 1) {
+    try {
+      const text = await llm.generate({ agent: 'customer-panel-moderator', prompt: moderatorPrompt(question, answers) }, { json: true, temperature: 0.2 });
+      topics = parseTopics(text, answers);
+      trace.push({
+        timestamp: new Date().toISOString(),
+        agent: 'customer-panel-moderator',
+        action: 'agreement_grid',
+        input: { answers: answers.length },
+        output: `${topics.length} topics`,
+      });
+    } catch (error: unknown) {
+      trace.push({
+        timestamp: new Date().toISOString(),
+        agent: 'customer-panel-moderator',
+        action: 'agreement_grid',
+        input: { answers: answers.length },
+        output: `Skipped: ${(error as Error).message}`,
+      });
+    }
+  }
+
+  return {
+    round: {
+      id: `panel-${crypto.randomUUID()}`,
+      question,
+      answers,
+      topics,
+      provider: llm.provider,
+      model: llm.model,
+      createdBy,
+      createdAt: new Date().toISOString(),
+    },
+    trace,
+  };
+}
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import zlib from 'zlib';
+import { analyzeDocument, evidenceFactors, extractFindings, extractText } from './documentAnalysis';
+
+const today = new Date('2026-03-01T00:00:00Z');
+
+const certificate = [
+  'CERTIFICATE OF LIABILITY INSURANCE (ACORD 25)',
+  'Policy period 01/01/2026 to 03/20/2026',
+  'Deductible $5,000',
+  'General aggregate limit $2,000,000',
+].join('\n');
+
+const textFile = (name: string, text: string) => ({ name, type: 'text/plain', base64: Buffer.from(text).toString('base64') });
+
+// A one-page PDF whose content stream is Flate-compressed
+function pdfWith(content: string): Buffer {
+  const stream = zlib.deflateSync(Buffer.from(content, 'latin1'));
+  return Buffer.concat([
+    Buffer.from(`%PDF-1.4\n4 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+    stream,
+    Buffer.from('\nendstream\nendobj\n%%EOF', 'latin1'),
+  ]);
+}
+
+describe('extractText', () => {
+  it('reads text operators out of compressed PDF streams', () => {
+    const { text, format, error } = extractText(pdfWith('BT /F1 12 Tf (SOC 2 Type II) Tj 0 -14 Td [(Report)-250(2026)] TJ ET'), 'report.pdf');
+    assert.equal(format, 'pdf');
+    assert.equal(error, null);
+    assert.match(text, /SOC 2 Type II\nReport 2026/);
+  });
+
+  it('reports PDFs without text and unsupported formats', () => {
+    assert.equal(extractText(pdfWith('q 1 0 0 1 0 0 cm Q'), 'scan.pdf').error, 'No readable text in PDF (scanned pages need OCR)');
+    assert.equal(extractText(Buffer.from([1, 2, 3, 4, 5]), 'logo.png', 'image/png').error, 'Unsupported file format (image/png)');
+  });
+});
+
+describe('extractFindings', () => {
+  it('reads the end of the policy period and the coverage limit, skipping the deductible', () => {
+    assert.deepEqual(extractFindings(certificate).map(({ kind, value }) => [kind, value]), [
+      ['expiry_date', '2026-03-20'],
+      ['coverage_amount', '$2,000,000'],
+    ]);
+  });
+
+  it('reports the SOC 2 report type instead of a bare SOC 2 mention', () => {
+    const findings = extractFindings('This SOC 2 report covers ISO 27001 controls. SOC 2 Type 2 opinion.');
+    assert.deepEqual(findings.map(finding => finding.value), ['SOC 2 Type II', 'ISO 27001']);
+  });
+
+  it('reads liability caps as amounts, fee-based caps or unlimited', () => {
+    const cap = (text: string) => extractFindings(text).find(finding => finding.kind === 'liability_cap')?.value;
+    assert.equal(cap('Limitation of Liability. Total liability shall not exceed $500k.'), '$500,000');
+    assert.equal(cap('In no event shall either party\'s liability exceed the fees paid in the twelve (12) months before the claim.'), 'Fees paid in the prior 12 months');
+    assert.equal(cap('Limitation of liability: liability for data breaches shall be unlimited.'), 'Unlimited');
+  });
+});
+
+describe('analyzeDocument', () => {
+  it('detects the document type when the uploader gave none', () => {
+    const analysis = analyzeDocument(textFile('coi.txt', certificate));
+    assert.equal(analysis.documentType, 'Insurance');
+    assert.equal(analysis.findings.length, 2);
+    assert.equal(analyzeDocument({ ...textFile('coi.txt', certificate), docType: 'MSA' }).documentType, 'MSA');
+  });
+});
+
+describe('evidenceFactors', () => {
+  it('produces no factors without documents', () => {
+    assert.deepEqual(evidenceFactors([], today), []);
+  });
+
+  it('scores soon-expiring insurance, a weak certification and a low liability cap', () => {
+    const factors = evidenceFactors(
+      [
+        analyzeDocument(textFile('coi.txt', certificate)),
+        analyzeDocument({ ...textFile('soc.txt', 'SOC 2 Type I report'), docType: 'SOC2' }),
+        analyzeDocument({ ...textFile('msa.txt', 'Limitation of Liability. Liability shall not exceed $100,000.'), docType: 'MSA' }),
+      ],
+      today,
+    );
+    assert.deepEqual(factors.map(({ id, value }) => [id, value]), [
+      ['document_expiry', 0.5],
+      ['insurance_coverage', 0],
+      ['certification', 0.5],
+      ['liability_cap', 1],
+    ]);
+    assert.equal(factors[0].detail, 'coi.txt expires on 2026-03-20 (in 19 days)');
+  });
+});
@@ -0,0 +1,513 @@
+import zlib from 'zlib';
+import type { DocumentAnalysis, DocumentFinding, DocumentType } from '../src/lib/types';
+import type { EvidenceFactor } from './riskEngine';
+import { isDocumentType } from './documentVault';
+import { daysUntil } from './expiryMonitor';
+
+// Offline analysis of onboarding documents.
+// Text is pulled out of PDFs, DOCX and plain-text files with no model involved, then
+// deterministic parsers look for coverage amounts, expiry dates, certifications and
+// liability caps. Each finding keeps the snippet it was read from so a reviewer can check it.
+
+// Below these amounts the evidence counts against the submission
+export const MIN_INSURANCE_COVERAGE = 1_000_000;
+export const MIN_LIABILITY_CAP = 1_000_000;
+
+const SNIPPET_CONTEXT = 60;
+
+// Most a compressed upload may expand to, so a small "zip bomb" can't exhaust the server's memory
+export const MAX_INFLATED_BYTES = 50 * 1024 * 1024;
+
+export interface AnalysisFile {
+  name: string;
+  type?: string;
+  base64: string;
+  docType?: unknown;
+}
+
+/* ---------- Text extraction ---------- */
+
+// zlib's error when the output would pass `maxOutputLength`
+const isTooLarge = (error: unknown) => (error as NodeJS.ErrnoException)?.code === 'ERR_BUFFER_TOO_LARGE';
+const tooLarge = (what: string) => new Error(`${what} expands to more than ${MAX_INFLATED_BYTES / 1024 / 1024} MB`);
+
+// PDF literal string starting at `start` (the opening parenthesis), with escapes resolved
+function readPdfString(content: string, start: number): { value: string; next: number } {
+  const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '', f: '', '(': '(', ')': ')', '\\': '\\' };
+  let value = '';
+  let depth = 1;
+  let i = start + 1;
+  while (i < content.length && depth > 0) {
+    const ch = content[i];
+    if (ch === '\\') {
+      const escaped = content[i + 1];
+      const octal = /^[0-7]{1,3}/.exec(content.slice(i + 1, i + 4));
+      if (octal) {
+        value += String.fromCharCode(parseInt(octal[0], 8));
+        i += 1 + octal[0].length;
+        continue;
+      }
+      if (escaped === '\r' || escaped === '\n') {
+        i += content[i + 2] === '\n' && escaped === '\r' ? 3 : 2;
+        continue;
+      }
+      value += escapes[escaped] ?? escaped ?? '';
+      i += 2;
+      continue;
+    }
+    if (ch === '(') depth++;
+    if (ch === ')' && --depth === 0) break;
+    value += ch;
+    i++;
+  }
+  return { value, next: i + 1 };
+}
+
+// Text-showing operators of one content stream. Positioning operators become line breaks or
+// spaces; font encodings are not resolved, so subset fonts with custom glyph maps read as noise.
+function textFromContentStream(content: string): string {
+  let text = '';
+  let strings: string[] = [];
+  let numbers: number[] = [];
+  let inArray = false;
+  let i = 0;
+
+  while (i < content.length) {
+    const ch = content[i];
+
+    if (ch === '(') {
+      const { value, next } = readPdfString(content, i);
+      strings.push(value);
+      i = next;
+    } else if (ch === '<' && content[i + 1] !== '<') {
+      const close = content.indexOf('>', i);
+      const hex = content.slice(i + 1, close === -1 ? content.length : close).replace(/\s/g, '');
+      strings.push(Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex').toString('latin1'));
+      i = close === -1 ? content.length : close + 1;
+    } else if (ch === '[') {
+      inArray = true;
+      i++;
+    } else if (ch === ']') {
+      inArray = false;
+      i++;
+    } else if (ch === '%') {
+      const eol = content.slice(i).search(/[\r\n]/);
+      i = eol === -1 ? content.length : i + eol;
+    } else if (/[-+.\d]/.test(ch)) {
+      const match = /^[-+]?\d*\.?\d+/.exec(content.slice(i, i + 32));
+      if (!match) {
+        i++;
+        continue;
+      }
+      const value = parseFloat(match[0]);
+      // A wide negative gap inside a TJ array is how most generators write a word space
+      if (inArray && value < -200) {
+        strings.push(' ');
+      }
+      numbers.push(value);
+      i += match[0].length;
+    } else if (/[A-Za-z'"*]/.test(ch)) {
+      const operator = /^[A-Za-z'"*][A-Za-z0-9*]*/.exec(content.slice(i, i + 16))![0];
+      switch (operator) {
+        case 'Tj':
+        case 'TJ':
+          text += strings.join('');
+          break;
+        case "'":
+        case '"':
+          text += `\n${strings.join('')}`;
+          break;
+        case 'Td':
+        case 'TD':
+          text += numbers[numbers.length - 1] ? '\n' : ' ';
+          break;
+        case 'T*':
+        case 'Tm':
+        case 'ET':
+          text += '\n';
+          break;
+      }
+      strings = [];
+      numbers = [];
+      i += operator.length;
+    } else {
+      i++;
+    }
+  }
+  return text;
+}
+
+function extractPdfText(buffer: Buffer): string {
+  const raw = buffer.toString('latin1');
+  const parts: string[] = [];
+  let index = 0;
+  // Shared by every stream in the file, so many small bombs count as one big one
+  let inflated = 0;
+
+  for (;;) {
+    const keyword = raw.indexOf('stream', index);
+    if (keyword === -1) break;
+    if (raw.slice(keyword - 3, keyword) === 'end') {
+      index = keyword + 6;
+      continue;
+    }
+
+    let dataStart = keyword + 6;
+    if (raw[dataStart] === '\r') dataStart++;
+    if (raw[dataStart] === '\n') dataStart++;
+    const dataEnd = raw.indexOf('endstream', dataStart);
+    if (dataEnd === -1) break;
+    index = dataEnd + 9;
+
+    const dictionary = raw.slice(raw.lastIndexOf('obj', keyword) + 3, keyword);
+    // Images, fonts and other binary streams hold no page text
+    if (/\/Subtype\s*\/(Image|Form)|\/Length1|\/FontFile/.test(dictionary)) continue;
+
+    let data = buffer.subarray(dataStart, dataEnd);
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        // Sync flush tolerates the stray end-of-line bytes many writers leave before `endstream`
+        data = zlib.inflateSync(data, {
+          finishFlush: zlib.constants.Z_SYNC_FLUSH,
+          maxOutputLength: Math.max(1, MAX_INFLATED_BYTES - inflated),
+        });
+        inflated += data.length;
+      } catch (error) {
+        // A corrupt stream is skipped; one that is too large fails the whole file
+        if (isTooLarge(error)) throw tooLarge('PDF content');
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+
+    const content = data.toString('latin1');
+    if (/\b(Tj|TJ)\b/.test(content)) {
+      parts.push(textFromContentStream(content));
+    }
+  }
+  // Drop control characters left by unmapped glyphs (ligatures, symbol fonts)
+  return parts.join('\n').replace(/[^\t\n\r -\uffff]/g, '');
+}
+
+// One entry of a ZIP archive, via the central directory. Throws when the entry would
+// expand beyond MAX_INFLATED_BYTES.
+export function readZipEntry(buffer: Buffer, name: string): Buffer | null {
+  const end = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (end === -1) return null;
+
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let n = 0; n < count; n++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) return null;
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+
+    if (buffer.toString('utf8', offset + 46, offset + 46 + nameLength) === name) {
+      const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const data = buffer.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) {
+        try {
+          return zlib.inflateRawSync(data, { maxOutputLength: MAX_INFLATED_BYTES });
+        } catch (error) {
+          throw isTooLarge(error) ? tooLarge(name) : error;
+        }
+      }
+      return null;
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return XML_ENTITIES[code] ?? entity;
+    return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+  });
+}
+
+function extractDocxText(buffer: Buffer): string | null {
+  const xml = readZipEntry(buffer, 'word/document.xml');
+  if (!xml) return null;
+  return decodeXmlEntities(xml.toString('utf8')
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:br\/>|<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, ''));
+}
+
+const TEXT_EXTENSIONS = /\.(txt|text|md|csv|log)$/i;
+
+// Plain text, PDF or DOCX by content, falling back to the name and MIME type
+export function extractText(
+  content: Buffer,
+  fileName: string,
+  mimeType = ''
+): { text: string; format: DocumentAnalysis['format']; error: string | null } {
+  try {
+    if (content.subarray(0, 5).toString('latin1') === '%PDF-') {
+      const text = extractPdfText(content);
+      return text.trim()
+        ? { text, format: 'pdf', error: null }
+        : { text: '', format: 'pdf', error: 'No readable text in PDF (scanned pages need OCR)' };
+    }
+    if (content.readUInt32LE(0) === 0x04034b50) {
+      const text = extractDocxText(content);
+      return text !== null
+        ? { text, format: 'docx', error: null }
+        : { text: '', format: null, error: 'ZIP file is not a Word document' };
+    }
+    if (mimeType.startsWith('text/') || TEXT_EXTENSIONS.test(fileName)) {
+      return { text: content.toString('utf8'), format: 'text', error: null };
+    }
+    return { text: '', format: null, error: `Unsupported file format${mimeType ? ` (${mimeType})` : ''}` };
+  } catch (error: unknown) {
+    return { text: '', format: null, error: `Could not read file: ${(error as Error).message}` };
+  }
+}
+
+/* ---------- Findings ---------- */
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DATE_PATTERN = new RegExp(
+  `\\b(\\d{4})-(\\d{2})-(\\d{2})\\b|\\b(\\d{1,2})/(\\d{1,2})/(\\d{4})\\b|\\b${MONTH_NAME}\\s+(\\d{1,2}),?\\s+(\\d{4})\\b|\\b(\\d{1,2})\\s+${MONTH_NAME}\\s+(\\d{4})\\b`,
+  'gi'
+);
+const AMOUNT_PATTERN = /(?:USD|US\$|\$)\s*(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?:\s*(billion|bn|million|mm|m|thousand|k)\b)?/gi;
+const MONTH_COUNTS: Record<string, string> = { twelve: '12', six: '6', 'twenty-four': '24' };
+const MULTIPLIERS: Record<string, number> = { billion: 1e9, bn: 1e9, million: 1e6, mm: 1e6, m: 1e6, thousand: 1e3, k: 1e3 };
+
+const EXPIRY_CUE = /expir(?:es|y|ation)(?:\s+date)?|\bexp\.?\s*date|\bpolicy\s+exp|valid\s+(?:until|through|thru)|policy\s+(?:period|term)|period\s+ending|renewal\s+date|end\s+date/gi;
+const COVERAGE_CUE = /coverage|limit|aggregate|occurrence|insured\s+amount|sum\s+insured/i;
+const LIABILITY_CUE = /limitation\s+of\s+liability|(?:aggregate|total|maximum)\s+liability|liability\s+(?:shall|will)\s+not\s+exceed|in\s+no\s+event\s+shall\s+.{0,80}?liability/gi;
+
+const CERTIFICATIONS: Array<{ pattern: RegExp; name: (match: RegExpExecArray) => string }> = [
+  {
+    pattern: /\bSOC\s?2(?:\s*®)?(?:\s*,?\s*Type\s*(II|2|I|1)\b)?/gi,
+    name: match => (match[1] ? `SOC 2 Type ${/^(ii|2)$/i.test(match[1]) ? 'II' : 'I'}` : 'SOC 2'),
+  },
+  { pattern: /\bISO(?:\/IEC)?\s?(27001|27017|27018|27701|9001)\b/gi, name: match => `ISO ${match[1]}` },
+  { pattern: /\bPCI[\s-]?DSS\b/gi, name: () => 'PCI DSS' },
+  { pattern: /\bHITRUST\b/gi, name: () => 'HITRUST' },
+  { pattern: /\bFedRAMP\b/gi, name: () => 'FedRAMP' },
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function toIsoDate(match: RegExpExecArray): string | null {
+  let year: number;
+  let month: number;
+  let day: number;
+  if (match[1]) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if (match[4]) {
+    // Slash dates are read US-style (MM/DD/YYYY), as on ACORD certificates
+    [year, month, day] = [Number(match[6]), Number(match[4]), Number(match[5])];
+  } else if (match[7]) {
+    [year, month, day] = [Number(match[9]), MONTHS.indexOf(match[7].slice(0, 3).toLowerCase()) + 1, Number(match[8])];
+  } else {
+    [year, month, day] = [Number(match[12]), MONTHS.indexOf(match[11].slice(0, 3).toLowerCase()) + 1, Number(match[10])];
+  }
+  const iso = `${year}-${pad(month)}-${pad(day)}`;
+  const parsed = new Date(`${iso}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.getUTCMonth() + 1 === month ? iso : null;
+}
+
+function toAmount(match: RegExpExecArray): number {
+  const base = parseFloat(`${match[1].replace(/,/g, '')}${match[2] || ''}`);
+  return base * (match[3] ? MULTIPLIERS[match[3].toLowerCase()] : 1);
+}
+
+export const formatAmount = (amount: number) => `$${amount.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+
+function snippetAt(text: string, start: number, end: number): string {
+  const from = Math.max(0, start - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, end + SNIPPET_CONTEXT);
+  return `${from > 0 ? '…' : ''}${text.slice(from, to).trim()}${to < text.length ? '…' : ''}`;
+}
+
+// Findings in reading order, one per distinct kind and value
+export function extractFindings(rawText: string): DocumentFinding[] {
+  const text = rawText.replace(/\s+/g, ' ');
+  const findings: DocumentFinding[] = [];
+  const add = (finding: DocumentFinding) => {
+    if (!findings.some(f => f.kind === finding.kind && f.value === finding.value)) {
+      findings.push(finding);
+    }
+  };
+
+  // Expiry: the latest date shortly after a cue, so "policy period 01/01/2026 to 01/01/2027" reads as the end
+  for (const cue of text.matchAll(EXPIRY_CUE)) {
+    const window = text.slice(cue.index!, cue.index! + cue[0].length + 80);
+    const dates = Array.from(window.matchAll(DATE_PATTERN))
+      .map(match => ({ match, iso: toIsoDate(match) }))
+      .filter(date => date.iso);
+    const latest = dates.sort((a, b) => b.iso!.localeCompare(a.iso!))[0];
+    if (latest) {
+      add({
+        kind: 'expiry_date',
+        value: latest.iso!,
+        snippet: snippetAt(text, cue.index!, cue.index! + latest.match.index! + latest.match[0].length),
+      });
+    }
+  }
+
+  for (const match of text.matchAll(AMOUNT_PATTERN)) {
+    const before = text.slice(Math.max(0, match.index! - 80), match.index!);
+    if (COVERAGE_CUE.test(before) && !/deductible|retention|premium/i.test(before.slice(-30))) {
+      const amount = toAmount(match);
+      add({ kind: 'coverage_amount', value: formatAmount(amount), amount, snippet: snippetAt(text, match.index!, match.index! + match[0].length) });
+    }
+  }
+
+  for (const { pattern, name } of CERTIFICATIONS) {
+    for (const match of text.matchAll(pattern)) {
+      add({ kind: 'certification', value: name(match), snippet: snippetAt(text, match.index!, match.index! + match[0].length) });
+    }
+  }
+  for (const cue of text.matchAll(LIABILITY_CUE)) {
+    const clause = text.slice(cue.index!, cue.index! + 400);
+    const amount = new RegExp(AMOUNT_PATTERN.source, 'i').exec(clause);
+    const feesBased = /(?:fees|amounts?|sums?)\s+(?:actually\s+)?(?:paid|payable)/i.exec(clause);
+    const months = /(twelve|12|six|6|twenty-four|24)\s*(?:\(\d+\)\s*)?months/i.exec(clause);
+    const unlimited = /unlimited|shall\s+not\s+be\s+limited|uncapped/i.exec(clause);
+
+    if (unlimited) {
+      add({ kind: 'liability_cap', value: 'Unlimited', snippet: snippetAt(text, cue.index!, cue.index! + unlimited.index + unlimited[0].length) });
+    } else if (amount && (!feesBased || amount.index < feesBased.index)) {
+      const value = toAmount(amount);
+      add({ kind: 'liability_cap', value: formatAmount(value), amount: value, snippet: snippetAt(text, cue.index!, cue.index! + amount.index + amount[0].length) });
+    } else if (feesBased) {
+      const end = months ? months.index + months[0].length : feesBased.index + feesBased[0].length;
+      add({
+        kind: 'liability_cap',
+        value: months ? `Fees paid in the prior ${MONTH_COUNTS[months[1].toLowerCase()] || months[1]} months` : 'Fees paid',
+        snippet: snippetAt(text, cue.index!, cue.index! + end),
+      });
+    }
+  }
+
+  // A bare "SOC 2" adds nothing once the report type has been found
+  const hasReportType = findings.some(f => f.value.startsWith('SOC 2 Type'));
+  return findings.filter(f => !(hasReportType && f.value === 'SOC 2'));
+}
+
+// What kind of evidence a file is, when the uploader didn't say
+export function detectDocumentType(text: string): DocumentType {
+  if (/certificate\s+of\s+(?:liability\s+)?insurance|\bACORD\b/i.test(text)) return 'Insurance';
+  if (/form\s+W-9|request\s+for\s+taxpayer/i.test(text)) return 'W9';
+  if (/data\s+processing\s+(?:agreement|addendum)/i.test(text)) return 'DPA';
+  if (/\bSOC\s?2\b.{0,200}\breport\b|\breport\b.{0,200}\bSOC\s?2\b/is.test(text)) return 'SOC2';
+  if (/master\s+(?:services?|subscription)\s+agreement|limitation\s+of\s+liability/i.test(text)) return 'MSA';
+  return 'Other';
+}
+
+export function analyzeDocument(file: AnalysisFile): DocumentAnalysis {
+  const declared = isDocumentType(file.docType) ? file.docType : 'Other';
+  const { text, format, error } = extractText(Buffer.from(file.base64 || '', 'base64'), file.name || '', file.type);
+  return {
+    fileName: file.name,
+    documentType: declared !== 'Other' ? declared : detectDocumentType(text),
+    format,
+    characters: text.trim().length,
+    findings: error ? [] : extractFindings(text),
+    error,
+  };
+}
+
+/* ---------- Risk factors ---------- */
+
+// Named risk factors from the findings. A factor is only produced when the files give it
+// something to judge, so a submission without documents is scored exactly as before.
+export function evidenceFactors(analyses: DocumentAnalysis[], today: Date = new Date()): EvidenceFactor[] {
+  const factors: EvidenceFactor[] = [];
+  const ofType = (type: DocumentType) => analyses.filter(analysis => analysis.documentType === type && !analysis.error);
+  const findingsOf = (list: DocumentAnalysis[], kind: DocumentFinding['kind']) =>
+    list.flatMap(analysis => analysis.findings.filter(f => f.kind === kind).map(finding => ({ finding, fileName: analysis.fileName })));
+
+  // Each file is valid until the latest date it mentions; the soonest of those is what lapses first
+  const expiries = analyses
+    .map(analysis => ({
+      fileName: analysis.fileName,
+      date: analysis.findings.filter(f => f.kind === 'expiry_date').map(f => f.value).sort().pop(),
+    }))
+    .filter(expiry => expiry.date)
+    .sort((a, b) => a.date!.localeCompare(b.date!));
+  if (expiries.length > 0) {
+    const { fileName, date } = expiries[0];
+    const daysLeft = daysUntil(date!, today);
+    factors.push({
+      id: 'document_expiry',
+      value: daysLeft < 0 ? 1 : daysLeft <= 30 ? 0.5 : 0,
+      detail: daysLeft < 0
+        ? `${fileName} expired on ${date}`
+        : `${fileName} expires on ${date}${daysLeft <= 30 ? ` (in ${daysLeft} days)` : ''}`,
+    });
+  }
+
+  const insurance = ofType('Insurance');
+  if (insurance.length > 0) {
+    const coverage = Math.max(0, ...findingsOf(insurance, 'coverage_amount').map(({ finding }) => finding.amount || 0));
+    factors.push({
+      id: 'insurance_coverage',
+      value: coverage === 0 ? 1 : coverage < MIN_INSURANCE_COVERAGE ? 0.5 : 0,
+      detail: coverage === 0
+        ? `No coverage amount found in ${insurance.map(a => a.fileName).join(', ')}`
+        : `Insurance coverage of ${formatAmount(coverage)}${coverage < MIN_INSURANCE_COVERAGE ? ` is below ${formatAmount(MIN_INSURANCE_COVERAGE)}` : ''}`,
+    });
+  }
+
+  const soc2 = ofType('SOC2');
+  const certifications = findingsOf(analyses.filter(a => !a.error), 'certification').map(({ finding }) => finding.value);
+  if (soc2.length > 0 || certifications.length > 0) {
+    const strong = certifications.find(name => name === 'SOC 2 Type II' || name === 'ISO 27001');
+    factors.push({
+      id: 'certification',
+      value: strong ? 0 : certifications.length > 0 ? 0.5 : 1,
+      detail: strong
+        ? `${strong} certification found`
+        : certifications.length > 0
+          ? `Only ${certifications.join(', ')} found (no SOC 2 Type II or ISO 27001)`
+          : `No certification named in ${soc2.map(a => a.fileName).join(', ')}`,
+    });
+  }
+
+  const agreements = ofType('MSA');
+  if (agreements.length > 0) {
+    const [cap] = findingsOf(agreements, 'liability_cap');
+    const value = !cap
+      ? 0.5
+      : cap.finding.value === 'Unlimited' || (cap.finding.amount || 0) >= MIN_LIABILITY_CAP
+        ? 0
+        : cap.finding.amount ? 1 : 0.5;
+    factors.push({
+      id: 'liability_cap',
+      value,
+      detail: !cap
+        ? `No limitation of liability clause found in ${agreements.map(a => a.fileName).join(', ')}`
+        : `Liability cap: ${cap.finding.value}${value === 1 ? ` (below ${formatAmount(MIN_LIABILITY_CAP)})` : ''}`,
+    });
+  }
+
+  return factors;
+}
+
+// Compact summary for the LLM prompt
+export function describeAnalyses(analyses: DocumentAnalysis[]): string {
+  return analyses
+    .map(analysis => {
+      const header = `- ${analysis.fileName} (${analysis.documentType})`;
+      if (analysis.error) return `${header}: ${analysis.error}`;
+      if (analysis.findings.length === 0) return `${header}: no findings`;
+      return `${header}: ${analysis.findings.map(f => `${f.kind.replace('_', ' ')} ${f.value}`).join('; ')}`;
+    })
+    .join('\n');
+}
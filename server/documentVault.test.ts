@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+import type { EntityDocument } from '../src/lib/types';
+import { createDocumentVault, DocumentUpload, MemoryBlobStore } from './documentVault';
+import { DataStore, MemoryDriver } from './storage';
+
+const upload = (fields: Partial<DocumentUpload> = {}): DocumentUpload => ({
+  type: 'SOC2',
+  fileName: 'soc2-report.pdf',
+  mimeType: 'application/pdf',
+  base64: Buffer.from('SOC 2 Type II report').toString('base64'),
+  ...fields,
+});
+
+async function openVault() {
+  const blobs = new MemoryBlobStore();
+  const vault = createDocumentVault((await DataStore.open(new MemoryDriver())).collection<EntityDocument>('documents'), blobs);
+  return { vault, blobs };
+}
+
+describe('createDocumentVault', () => {
+  it('rejects uploads with a bad type, no content, bad dates or an expiry before the effective date', async () => {
+    const { vault } = await openVault();
+    const errorFor = async (fields: Partial<DocumentUpload>) => (await vault.upload('entity-1', upload(fields), 'ana')).error;
+
+    assert.match(await errorFor({ type: 'Passport' }), /Document type must be one of/);
+    assert.equal(await errorFor({ base64: '' }), 'base64 file content is required');
+    assert.equal(await errorFor({ expiryDate: '31/12/2026' }), 'expiryDate must be a YYYY-MM-DD date');
+    assert.equal(await errorFor({ effectiveDate: '2026-06-01', expiryDate: '2026-01-01' }), 'expiryDate must be on or after effectiveDate');
+    assert.deepEqual(await vault.list('entity-1'), []);
+  });
+
+  it('supersedes the current document of the same type and keeps the chain', async () => {
+    const { vault } = await openVault();
+    const first = (await vault.upload('entity-1', upload(), 'ana')).document!;
+    const second = (await vault.upload('entity-1', upload({ fileName: '../../soc2-2026.pdf' }), 'ben')).document!;
+
+    assert.equal(second.version, 2);
+    assert.equal(second.supersedes, first.id);
+    assert.equal(second.fileName, 'soc2-2026.pdf');
+    const stored = await vault.get(first.id);
+    assert.equal(stored?.status, 'superseded');
+    assert.equal(stored?.supersededBy, second.id);
+  });
+
+  it('never supersedes Other uploads or another entity\'s documents', async () => {
+    const { vault } = await openVault();
+    await vault.upload('entity-1', upload({ type: 'Other' }), 'ana');
+    await vault.upload('entity-1', upload({ type: 'Other' }), 'ana');
+    await vault.upload('entity-2', upload(), 'ana');
+    await vault.upload('entity-1', upload(), 'ana');
+
+    assert.deepEqual((await vault.list('entity-1')).map(doc => [doc.type, doc.version, doc.status]), [
+      ['Other', 1, 'current'],
+      ['Other', 1, 'current'],
+      ['SOC2', 1, 'current'],
+    ]);
+  });
+
+  it('serves the stored file only while it still matches its hash', async () => {
+    const { vault, blobs } = await openVault();
+    const document = (await vault.upload('entity-1', upload(), 'ana')).document!;
+    assert.equal((await vault.read(document)).toString(), 'SOC 2 Type II report');
+
+    await blobs.put(document.sha256, Buffer.from('Swapped'));
+    await assert.rejects(vault.read(document), /does not match its hash/);
+  });
+
+  it('moves a merged duplicate\'s documents over and renumbers each type by upload time', async () => {
+    const { vault } = await openVault();
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2025-06-01T00:00:00Z') });
+    const older = (await vault.upload('duplicate', upload({ fileName: 'soc2-2025.pdf' }), 'ana')).document!;
+    mock.timers.tick(24 * 60 * 60 * 1000);
+    const newer = (await vault.upload('survivor', upload({ fileName: 'soc2-2026.pdf' }), 'ana')).document!;
+    mock.timers.reset();
+    await vault.upload('duplicate', upload({ type: 'W9', fileName: 'w9.pdf' }), 'ana');
+
+    assert.equal(await vault.reassign('duplicate', 'survivor'), 2);
+    assert.deepEqual(await vault.list('duplicate'), []);
+    assert.deepEqual((await vault.list('survivor')).map(doc => [doc.fileName, doc.version, doc.status]), [
+      ['soc2-2026.pdf', 2, 'current'],
+      ['soc2-2025.pdf', 1, 'superseded'],
+      ['w9.pdf', 1, 'current'],
+    ]);
+    assert.equal((await vault.get(newer.id))?.supersedes, older.id);
+    assert.equal((await vault.get(older.id))?.supersededBy, newer.id);
+  });
+});
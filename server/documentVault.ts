@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { DocumentType, EntityDocument, ExpiryBucket, Role } from '../src/lib/types';
+import type { Repository } from './storage';
+
+// Evidence documents attached to entities.
+// Metadata lives in the `documents` collection; file contents are stored once per SHA-256
+// in a content-addressed blob store next to the data file. Uploading a typed document
+// (W9, SOC2, ...) for an entity that already has one supersedes the previous version.
+
+export const DOCUMENT_TYPES: DocumentType[] = ['W9', 'SOC2', 'Insurance', 'MSA', 'DPA', 'Other'];
+
+export const MAX_DOCUMENT_BYTES = 15 * 1024 * 1024;
+
+// W9s carry taxpayer identification numbers, so analysts can upload them but not read them back
+export const DOWNLOAD_ROLES: Record<DocumentType, Role[]> = {
+  W9: ['manager', 'risk_committee', 'admin'],
+  SOC2: ['analyst', 'manager', 'risk_committee', 'admin'],
+  Insurance: ['analyst', 'manager', 'risk_committee', 'admin'],
+  MSA: ['analyst', 'manager', 'risk_committee', 'admin'],
+  DPA: ['analyst', 'manager', 'risk_committee', 'admin'],
+  Other: ['analyst', 'manager', 'risk_committee', 'admin'],
+};
+
+export interface BlobStore {
+  put(hash: string, content: Buffer): Promise<void>;
+  get(hash: string): Promise<Buffer | null>;
+}
+
+export class FileBlobStore implements BlobStore {
+  constructor(private dir: string) {}
+
+  async put(hash: string, content: Buffer): Promise<void> {
+    const target = path.join(this.dir, hash);
+    await fs.mkdir(this.dir, { recursive: true });
+    try {
+      await fs.access(target);
+    } catch {
+      // Same temp-and-rename approach as the JSON driver
+      await fs.writeFile(`${target}.tmp`, content);
+      await fs.rename(`${target}.tmp`, target);
+    }
+  }
+
+  async get(hash: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(path.join(this.dir, hash));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+export class MemoryBlobStore implements BlobStore {
+  private blobs = new Map<string, Buffer>();
+
+  async put(hash: string, content: Buffer): Promise<void> {
+    this.blobs.set(hash, Buffer.from(content));
+  }
+
+  async get(hash: string): Promise<Buffer | null> {
+    return this.blobs.get(hash) || null;
+  }
+}
+
+// Follows STORAGE_DRIVER so a memory store never leaves files behind
+export function createBlobStore(): BlobStore {
+  if ((process.env.STORAGE_DRIVER || 'json').toLowerCase() === 'memory') {
+    return new MemoryBlobStore();
+  }
+  return new FileBlobStore(path.resolve(process.env.DATA_DIR || 'data', 'documents'));
+}
+
+export function isDocumentType(value: unknown): value is DocumentType {
+  return typeof value === 'string' && (DOCUMENT_TYPES as string[]).includes(value);
+}
+
+const isDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+
+export interface DocumentUpload {
+  type: unknown;
+  fileName: unknown;
+  mimeType: unknown;
+  base64: unknown;
+  effectiveDate?: unknown;
+  expiryDate?: unknown;
+}
+
+export function createDocumentVault(repo: Repository<EntityDocument>, blobs: BlobStore) {
+  // All documents, or one entity's, grouped by type with the newest version first
+  async function list(entityId?: string): Promise<EntityDocument[]> {
+    return (await repo.list())
+      .filter(doc => !entityId || doc.entityId === entityId)
+      .sort((a, b) => a.type.localeCompare(b.type) || b.version - a.version);
+  }
+
+  async function get(id: string): Promise<EntityDocument | undefined> {
+    return repo.get(id);
+  }
+
+  // Returns the stored document, or an error message for a bad upload
+  async function upload(
+    entityId: string,
+    input: DocumentUpload,
+    uploadedBy: string
+  ): Promise<{ document: EntityDocument | null; error: string | null }> {
+    if (!isDocumentType(input.type)) {
+      return { document: null, error: `Document type must be one of: ${DOCUMENT_TYPES.join(', ')}` };
+    }
+    if (typeof input.fileName !== 'string' || !input.fileName.trim()) {
+      return { document: null, error: 'fileName is required' };
+    }
+    if (typeof input.base64 !== 'string' || !input.base64) {
+      return { document: null, error: 'base64 file content is required' };
+    }
+    for (const field of ['effectiveDate', 'expiryDate'] as const) {
+      if (input[field] && !isDate(input[field])) {
+        return { document: null, error: `${field} must be a YYYY-MM-DD date` };
+      }
+    }
+    if (input.effectiveDate && input.expiryDate && String(input.expiryDate) < String(input.effectiveDate)) {
+      return { document: null, error: 'expiryDate must be on or after effectiveDate' };
+    }
+
+    const content = Buffer.from(input.base64, 'base64');
+    if (content.length === 0) {
+      return { document: null, error: 'File is empty' };
+    }
+    if (content.length > MAX_DOCUMENT_BYTES) {
+      return { document: null, error: `File exceeds the ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB limit` };
+    }
+
+    const sha256 = crypto.createHash('sha256').update(content).digest('hex');
+    await blobs.put(sha256, content);
+
+    // "Other" is a catch-all, so those uploads never replace one another
+    const previous = input.type === 'Other'
+      ? undefined
+      : (await list(entityId)).find(doc => doc.type === input.type && doc.status === 'current');
+
+    const document: EntityDocument = {
+      id: `doc-${crypto.randomUUID()}`,
+      entityId,
+      type: input.type,
+      fileName: path.basename(input.fileName.trim()),
+      mimeType: typeof input.mimeType === 'string' && input.mimeType ? input.mimeType : 'application/octet-stream',
+      size: content.length,
+      sha256,
+      effectiveDate: input.effectiveDate ? String(input.effectiveDate) : null,
+      expiryDate: input.expiryDate ? String(input.expiryDate) : null,
+      version: (previous?.version || 0) + 1,
+      status: 'current',
+      supersedes: previous?.id || null,
+      supersededBy: null,
+      uploadedBy,
+      uploadedAt: new Date().toISOString(),
+    };
+
+    await repo.insert(document);
+    if (previous) {
+      await repo.update(previous.id, { status: 'superseded', supersededBy: document.id });
+    }
+    return { document, error: null };
+  }
+
+  // File contents, checked against the stored hash so a swapped blob is never served
+  async function read(document: EntityDocument): Promise<Buffer> {
+    const content = await blobs.get(document.sha256);
+    if (!content) {
+      throw new Error(`Stored file for ${document.fileName} is missing`);
+    }
+    if (crypto.createHash('sha256').update(content).digest('hex') !== document.sha256) {
+      throw new Error(`Stored file for ${document.fileName} does not match its hash`);
+    }
+    return content;
+  }
+
+  async function setExpiryNotice(id: string, notice: ExpiryBucket): Promise<void> {
+    await repo.update(id, { expiryNotice: notice });
+  }
+
+  // Moves a merged duplicate's documents to the surviving entity. Each type's versions are
+  // renumbered by upload time and only the newest upload stays current.
+  async function reassign(fromEntityId: string, toEntityId: string): Promise<number> {
+    const moving = await list(fromEntityId);
+    for (const doc of moving) {
+      await repo.update(doc.id, { entityId: toEntityId });
+    }
+
+    const types = new Set(moving.map(doc => doc.type).filter(type => type !== 'Other'));
+    const all = await list(toEntityId);
+    for (const type of types) {
+      const chain = all
+        .filter(doc => doc.type === type)
+        .sort((a, b) => a.uploadedAt.localeCompare(b.uploadedAt));
+      for (const [index, doc] of chain.entries()) {
+        const newer = chain[index + 1];
+        await repo.update(doc.id, {
+          version: index + 1,
+          status: newer ? 'superseded' : 'current',
+          supersedes: chain[index - 1]?.id || null,
+          supersededBy: newer?.id || null,
+        });
+      }
+    }
+    return moving.length;
+  }
+
+  return { list, get, upload, read, setExpiryNotice, reassign };
+}
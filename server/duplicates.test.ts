@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Entity } from '../src/lib/types';
+import { describeReasons, findDuplicateEntities, nameSimilarity, normalizeCompanyName } from './duplicates';
+
+const entity = (id: string, fields: Partial<Entity>): Entity => ({
+  id,
+  name: id,
+  type: 'vendor',
+  riskLevel: 'LOW',
+  compliance: 'Pass',
+  status: 'Active',
+  owner: 'ana',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  lastUpdated: '2026-01-01T00:00:00.000Z',
+  ...fields,
+});
+
+describe('normalizeCompanyName', () => {
+  it('drops case, accents, punctuation, a leading "the" and trailing legal suffixes', () => {
+    assert.equal(normalizeCompanyName('The ACME Corp.'), 'acme');
+    assert.equal(normalizeCompanyName('Acme Holdings, Inc'), 'acme');
+    assert.equal(normalizeCompanyName('Société Générale SA'), 'societe generale');
+    assert.equal(normalizeCompanyName('Company Data Systems'), 'company data systems');
+    assert.equal(normalizeCompanyName('Smith & Sons'), 'smith and sons');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('scores the same normalized name 1 and near spellings high', () => {
+    assert.equal(nameSimilarity('Acme Corp', 'ACME Corporation'), 1);
+    assert.ok(nameSimilarity('Northwind Traders', 'Northwind Trader') >= 0.85);
+    assert.ok(nameSimilarity('Northwind Traders', 'Contoso Pharma') < 0.3);
+  });
+
+  it('keeps names with different numbers apart', () => {
+    assert.equal(nameSimilarity('Studio 54', 'Studio 55'), 0);
+  });
+});
+
+describe('findDuplicateEntities', () => {
+  const register = [
+    entity('by-name', { name: 'Northwind Traders Ltd' }),
+    entity('by-ein', { name: 'NW Holdings', ein: '12-3456789' }),
+    entity('by-domain', { name: 'Fabrikam', contactEmail: 'ops@northwind.example' }),
+    entity('free-mail', { name: 'Tailspin', contactEmail: 'someone@gmail.com' }),
+    entity('unrelated', { name: 'Contoso Pharma' }),
+  ];
+
+  it('ranks identifier matches ahead of name and domain matches', () => {
+    const matches = findDuplicateEntities(
+      { name: 'Northwind Traders', ein: '123456789', contactEmail: 'Buyer@Northwind.example' },
+      register,
+    );
+    assert.deepEqual(matches.map(match => [match.entityId, match.reasons]), [
+      ['by-ein', ['ein']],
+      ['by-name', ['name']],
+      ['by-domain', ['email_domain']],
+    ]);
+    assert.equal(matches[1].nameSimilarity, 1);
+  });
+
+  it('ignores shared free mail domains and the entity itself', () => {
+    assert.deepEqual(findDuplicateEntities({ contactEmail: 'other@gmail.com' }, register), []);
+    assert.deepEqual(findDuplicateEntities({ name: 'Northwind Traders Ltd' }, register, 'by-name'), []);
+  });
+});
+
+describe('describeReasons', () => {
+  it('joins the reasons as labels', () => {
+    assert.equal(describeReasons(['ein', 'name']), 'same EIN, similar name');
+  });
+});
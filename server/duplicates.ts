@@ -0,0 +1,143 @@
+import type { DuplicateMatch, DuplicateReason, Entity } from '../src/lib/types';
+
+// Fuzzy duplicate detection for onboarding and import. Names are compared after dropping case,
+// punctuation and legal suffixes ("Acme Corp" and "ACME Corporation" are both "acme"), then by
+// bigram similarity; EINs by their digits; contact emails exactly and by company domain.
+
+export const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+const LEGAL_SUFFIXES = new Set([
+  'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'llc', 'llp', 'lp', 'ltd', 'limited',
+  'plc', 'gmbh', 'ag', 'sa', 'sas', 'bv', 'nv', 'pty', 'pte', 'srl', 'group', 'holdings',
+]);
+
+// Shared mailbox providers say nothing about which company a contact works for
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'yahoo.com', 'icloud.com',
+  'me.com', 'aol.com', 'proton.me', 'protonmail.com', 'gmx.com', 'mail.com',
+]);
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  ein: 'same EIN',
+  email: 'same contact email',
+  email_domain: 'same email domain',
+  name: 'similar name',
+};
+
+export interface DuplicateProbe {
+  name?: string | null;
+  ein?: string | null;
+  contactEmail?: string | null;
+}
+
+export function normalizeCompanyName(name: string): string {
+  const words = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+  if (words[0] === 'the' && words.length > 1) words.shift();
+  // Only trailing suffixes, so "Company Data Systems" keeps its first word
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1])) words.pop();
+  return words.join(' ');
+}
+
+const einDigits = (ein?: string | null) => {
+  const digits = (ein || '').replace(/\D/g, '');
+  return digits.length === 9 ? digits : null;
+};
+
+const normalizeEmail = (email?: string | null) => (email || '').trim().toLowerCase() || null;
+
+const companyDomain = (email: string | null) => {
+  const domain = email?.split('@')[1];
+  return domain && !FREE_MAIL_DOMAINS.has(domain) ? domain : null;
+};
+
+interface PreparedName {
+  compact: string;
+  numbers: string;
+  bigrams: Map<string, number>;
+}
+
+// Imports compare every row with the whole register, so each name is prepared once
+const preparedNames = new Map<string, PreparedName>();
+
+function prepareName(name: string): PreparedName {
+  let prepared = preparedNames.get(name);
+  if (!prepared) {
+    const normalized = normalizeCompanyName(name);
+    const compact = normalized.replace(/ /g, '');
+    const counts = new Map<string, number>();
+    for (let i = 0; i < compact.length - 1; i++) {
+      const pair = compact.slice(i, i + 2);
+      counts.set(pair, (counts.get(pair) || 0) + 1);
+    }
+    prepared = { compact, numbers: (normalized.match(/\d+/g) || []).join(' '), bigrams: counts };
+    if (preparedNames.size >= 20000) preparedNames.clear();
+    preparedNames.set(name, prepared);
+  }
+  return prepared;
+}
+
+// Dice coefficient over character bigrams, 0 (nothing shared) to 1 (same normalized name).
+// Names with different numbers ("Studio 54", "Studio 55") are treated as different companies.
+export function nameSimilarity(a: string, b: string): number {
+  const left = prepareName(a);
+  const right = prepareName(b);
+  if (!left.compact || !right.compact || left.numbers !== right.numbers) return 0;
+  if (left.compact === right.compact) return 1;
+  if (left.compact.length < 2 || right.compact.length < 2) return 0;
+
+  let shared = 0;
+  for (const [pair, count] of right.bigrams) {
+    shared += Math.min(count, left.bigrams.get(pair) || 0);
+  }
+  return Math.round((2 * shared / (left.compact.length + right.compact.length - 2)) * 100) / 100;
+}
+
+// Every record in the pool that looks like the probe, strongest first: identifier matches
+// (EIN, email) ahead of name-only ones, then by name similarity
+export function findDuplicates<T extends DuplicateProbe>(
+  probe: DuplicateProbe,
+  pool: T[]
+): { record: T; reasons: DuplicateReason[]; nameSimilarity: number }[] {
+  const ein = einDigits(probe.ein);
+  const email = normalizeEmail(probe.contactEmail);
+  const domain = companyDomain(email);
+
+  return pool
+    .map(record => {
+      const similarity = probe.name && record.name ? nameSimilarity(probe.name, record.name) : 0;
+      const recordEmail = normalizeEmail(record.contactEmail);
+      const reasons: DuplicateReason[] = [];
+      if (ein && einDigits(record.ein) === ein) reasons.push('ein');
+      if (email && recordEmail === email) reasons.push('email');
+      else if (domain && companyDomain(recordEmail) === domain) reasons.push('email_domain');
+      if (similarity >= NAME_SIMILARITY_THRESHOLD) reasons.push('name');
+      return { record, reasons, nameSimilarity: similarity };
+    })
+    .filter(match => match.reasons.length > 0)
+    .sort((a, b) => {
+      const strength = (match: { reasons: DuplicateReason[] }) =>
+        match.reasons.filter(reason => reason === 'ein' || reason === 'email').length;
+      return strength(b) - strength(a) || b.nameSimilarity - a.nameSimilarity;
+    });
+}
+
+// Register entities that may be the same company, leaving out `excludeId` (the entity itself)
+export function findDuplicateEntities(probe: DuplicateProbe, entities: Entity[], excludeId?: string): DuplicateMatch[] {
+  return findDuplicates(probe, entities.filter(entity => entity.id !== excludeId)).map(match => ({
+    entityId: match.record.id,
+    entityName: match.record.name,
+    status: match.record.status,
+    reasons: match.reasons,
+    nameSimilarity: match.nameSimilarity,
+  }));
+}
+
+export const describeReasons = (reasons: DuplicateReason[]) => reasons.map(reason => REASON_LABELS[reason]).join(', ');
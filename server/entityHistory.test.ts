@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Entity, EntityVersion } from '../src/lib/types';
+import { createEntityHistory, diffEntityFields } from './entityHistory';
+import { DataStore, MemoryDriver } from './storage';
+
+const acme = (fields: Partial<Entity> = {}): Entity => ({
+  id: 'entity-1',
+  name: 'Acme Corp',
+  type: 'vendor',
+  riskLevel: 'LOW',
+  compliance: 'Pass',
+  status: 'Active',
+  owner: 'ana',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  lastUpdated: '2026-01-01T00:00:00.000Z',
+  ...fields,
+});
+
+const openHistory = async () =>
+  createEntityHistory((await DataStore.open(new MemoryDriver())).collection<EntityVersion>('entityVersions'));
+
+describe('diffEntityFields', () => {
+  it('lists changed, added and removed fields by name, ignoring lastUpdated', () => {
+    const before = acme({ country: 'USA', documents: ['W9'] });
+    const after = acme({ country: 'Canada', documents: ['W9', 'MSA'], ein: '12-3456789', lastUpdated: '2026-02-01T00:00:00.000Z' });
+    delete after.documents;
+    assert.deepEqual(diffEntityFields(before, after), [
+      { field: 'country', before: 'USA', after: 'Canada' },
+      { field: 'documents', before: ['W9'], after: null },
+      { field: 'ein', before: null, after: '12-3456789' },
+    ]);
+  });
+
+  it('treats lists with the same items as unchanged', () => {
+    assert.deepEqual(diffEntityFields(acme({ documents: ['W9'] }), acme({ documents: ['W9'] })), []);
+  });
+});
+
+describe('createEntityHistory', () => {
+  it('numbers versions per entity and stores the diff against the previous one', async () => {
+    const history = await openHistory();
+    const created = acme();
+    await history.record(created, null, { action: 'created', changedBy: 'ana', reason: 'Onboarded' });
+    const edited = acme({ riskLevel: 'HIGH', lastUpdated: '2026-02-01T00:00:00.000Z' });
+    await history.record(edited, created, { action: 'updated', changedBy: 'ben', reason: '  New risk data  ' });
+    await history.record(acme({ id: 'entity-2' }), null, { action: 'created', changedBy: 'ana' });
+
+    const versions = await history.list('entity-1');
+    assert.deepEqual(versions.map(version => [version.id, version.action, version.changes.length]), [
+      ['entity-1-v1', 'created', 0],
+      ['entity-1-v2', 'updated', 1],
+    ]);
+    assert.equal(versions[1].reason, 'New risk data');
+    assert.equal(versions[1].changedAt, '2026-02-01T00:00:00.000Z');
+    assert.deepEqual(versions[1].snapshot, edited);
+  });
+
+  it('keeps version numbers contiguous when writes overlap', async () => {
+    const history = await openHistory();
+    await Promise.all([1, 2, 3].map(n => history.record(acme({ name: `Acme ${n}` }), null, { action: 'updated', changedBy: 'ana' })));
+    assert.deepEqual((await history.list('entity-1')).map(version => version.version), [1, 2, 3]);
+  });
+});
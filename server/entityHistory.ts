@@ -0,0 +1,65 @@
+import type { Entity, EntityFieldChange, EntityVersion, EntityVersionAction } from '../src/lib/types';
+import type { Repository } from './storage';
+
+// Version history for entities: every write stores a full snapshot plus the
+// per-field before/after diff against the previous version, with actor and reason.
+
+// Bookkeeping fields that change on every write
+const UNTRACKED_FIELDS = ['lastUpdated'];
+
+export function diffEntityFields(before: object, after: object): EntityFieldChange[] {
+  const a = before as Record<string, unknown>;
+  const b = after as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort();
+  return fields
+    .filter(field => !UNTRACKED_FIELDS.includes(field))
+    .filter(field => JSON.stringify(a[field]) !== JSON.stringify(b[field]))
+    .map(field => ({ field, before: a[field] ?? null, after: b[field] ?? null }));
+}
+
+export function createEntityHistory(repo: Repository<EntityVersion>) {
+  // Writes run one at a time so version numbers stay contiguous
+  let tail: Promise<unknown> = Promise.resolve();
+
+  async function list(entityId: string): Promise<EntityVersion[]> {
+    return (await repo.list())
+      .filter(version => version.entityId === entityId)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  // An entity's versions followed by those of the duplicates merged into it, in time order
+  async function listWithMerged(entity: Entity): Promise<EntityVersion[]> {
+    const ids = [entity.id, ...(entity.mergedIds || [])];
+    return (await repo.list())
+      .filter(version => ids.includes(version.entityId))
+      .sort((a, b) => a.changedAt.localeCompare(b.changedAt) || a.version - b.version);
+  }
+
+  function record(
+    entity: Entity,
+    previous: Entity | null,
+    meta: { action: EntityVersionAction; changedBy: string; reason?: string | null }
+  ): Promise<EntityVersion> {
+    const next = tail
+      .catch(() => undefined)
+      .then(async () => {
+        const versions = await list(entity.id);
+        const version = (versions[versions.length - 1]?.version || 0) + 1;
+        return repo.insert({
+          id: `${entity.id}-v${version}`,
+          entityId: entity.id,
+          version,
+          action: meta.action,
+          changedAt: entity.lastUpdated || new Date().toISOString(),
+          changedBy: meta.changedBy,
+          reason: meta.reason?.trim() || null,
+          changes: previous ? diffEntityFields(previous, entity) : [],
+          snapshot: entity,
+        });
+      });
+    tail = next;
+    return next;
+  }
+
+  return { list, listWithMerged, record };
+}
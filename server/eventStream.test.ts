@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import { describe, it } from 'node:test';
+import type { Response } from 'express';
+import { generateReply, openEventStream } from './eventStream';
+import type { LLMClient, LLMOptions } from './llm';
+
+// Just enough of an Express response to carry an event stream; `disconnect` is the client going away
+function fakeResponse() {
+  const emitter = new EventEmitter();
+  const res = Object.assign(emitter, {
+    body: '',
+    headers: {} as Record<string, string>,
+    writableEnded: false,
+    writableFinished: false,
+    destroyed: false,
+    status() {
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      res.headers[name] = value;
+    },
+    flushHeaders() {},
+    write(chunk: string) {
+      res.body += chunk;
+      return true;
+    },
+    end() {
+      res.writableEnded = true;
+      res.writableFinished = true;
+      emitter.emit('close');
+    },
+    disconnect() {
+      res.destroyed = true;
+      emitter.emit('close');
+    },
+  });
+  return res;
+}
+
+// Every `event: name` / `data: json` frame written so far
+const framesOf = (body: string) =>
+  body.split('\n\n').filter(Boolean).map(frame => ({
+    event: /^event: (.*)$/m.exec(frame)?.[1],
+    data: JSON.parse(/^data: (.*)$/m.exec(frame)?.[1] || 'null'),
+  }));
+
+// A model that writes `chunks` one at a time and stops early when its signal aborts
+function streamingClient(chunks: string[], onAbort: () => void): LLMClient {
+  return {
+    provider: 'mock',
+    model: 'test',
+    supportsDocuments: false,
+    configurationError: () => null,
+    generate: async () => chunks.join(''),
+    async *stream(_request, options?: LLMOptions) {
+      for (const chunk of chunks) {
+        if (options?.signal?.aborted) {
+          onAbort();
+          throw new Error('aborted');
+        }
+        yield chunk;
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    },
+  };
+}
+
+describe('openEventStream', () => {
+  it('ends with the done body after progress events', () => {
+    const res = fakeResponse();
+    const events = openEventStream(res as unknown as Response);
+    events.send('section', { field: 'summary', value: 'Short' });
+    events.done({ success: true });
+    assert.equal(res.headers['Content-Type'], 'text/event-stream; charset=utf-8');
+    assert.deepEqual(framesOf(res.body), [
+      { event: 'section', data: { field: 'summary', value: 'Short' } },
+      { event: 'done', data: { success: true } },
+    ]);
+    assert.equal(events.signal.aborted, false);
+  });
+
+  it('sends the rest of the error body, such as a trace, with the error', () => {
+    const res = fakeResponse();
+    const trace = [{ action: 'validate', errors: [{ path: 'icps.0.segment', message: 'Required' }] }];
+    openEventStream(res as unknown as Response).fail('Strategy brief failed schema validation', { success: false, trace });
+    assert.deepEqual(framesOf(res.body), [
+      { event: 'error', data: { success: false, trace, error: 'Strategy brief failed schema validation' } },
+    ]);
+  });
+
+  it('aborts its signal when the client disconnects, and writes nothing after', () => {
+    const res = fakeResponse();
+    const events = openEventStream(res as unknown as Response);
+    res.disconnect();
+    assert.equal(events.signal.aborted, true);
+    events.done({ success: true });
+    assert.equal(res.body, '');
+  });
+});
+
+describe('generateReply', () => {
+  it('passes each chunk on as a token event and returns the whole reply', async () => {
+    const res = fakeResponse();
+    const events = openEventStream(res as unknown as Response);
+    const text = await generateReply(streamingClient(['Hel', 'lo'], () => {}), { prompt: 'Hi' }, {}, events);
+    events.done({ success: true });
+    assert.equal(text, 'Hello');
+    assert.deepEqual(framesOf(res.body).slice(0, 2), [{ event: 'token', data: { text: 'Hel' } }, { event: 'token', data: { text: 'lo' } }]);
+  });
+
+  it('cancels the model call once the client disconnects', async () => {
+    const res = fakeResponse();
+    const events = openEventStream(res as unknown as Response);
+    let cancelled = false;
+    const reply = generateReply(streamingClient(['a', 'b', 'c', 'd'], () => (cancelled = true)), { prompt: 'Hi' }, {}, events);
+    setImmediate(() => res.disconnect());
+    await assert.rejects(reply, /aborted/);
+    assert.equal(cancelled, true);
+    assert.ok(framesOf(res.body).length < 4);
+  });
+
+  it('calls the model without streaming when there is no event stream', async () => {
+    const text = await generateReply(streamingClient(['Hel', 'lo'], () => {}), { prompt: 'Hi' }, {}, null);
+    assert.equal(text, 'Hello');
+  });
+});
@@ -0,0 +1,78 @@
+import type { Request, Response } from 'express';
+import type { LLMClient, LLMOptions, LLMRequest } from './llm';
+
+// Server-sent events for the Workbench agents that stream (strategy, customer advisory, voice assistant).
+// A client asks for a stream with `Accept: text/event-stream` on the usual endpoint. Progress events arrive
+// as the model writes; the stream ends with `done`, carrying the body the JSON response would have had, or
+// with `error`, carrying the error body. If the client disconnects, `signal` aborts and the upstream model call is cancelled.
+
+// Comment lines keep idle proxies from closing the connection while the model thinks
+const HEARTBEAT_MS = 15000;
+
+export interface EventStream {
+  signal: AbortSignal;
+  send(event: string, data: unknown): void;
+  done(body: unknown): void;
+  // `body` adds the rest of the JSON error response, such as an agent's trace
+  fail(error: string, body?: Record<string, unknown>): void;
+}
+
+export const wantsEventStream = (req: Request) => req.accepts(['json', 'text/event-stream']) === 'text/event-stream';
+
+export function openEventStream(res: Response): EventStream {
+  const controller = new AbortController();
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Stops buffering reverse proxies from holding events back
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const open = () => !res.writableEnded && !res.destroyed;
+  const heartbeat = setInterval(() => {
+    if (open()) res.write(': keep-alive\n\n');
+  }, HEARTBEAT_MS);
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const send = (event: string, data: unknown) => {
+    if (open()) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  const end = () => {
+    if (open()) res.end();
+  };
+
+  return {
+    signal: controller.signal,
+    send,
+    done(body) {
+      send('done', body);
+      end();
+    },
+    fail(error, body) {
+      send('error', { ...body, error });
+      end();
+    },
+  };
+}
+
+// The model's whole reply; with an event stream, each piece is also sent as a `token` event as it arrives
+export async function generateReply(
+  llm: LLMClient,
+  request: LLMRequest,
+  options: LLMOptions,
+  events: EventStream | null
+): Promise<string> {
+  if (!events) {
+    return llm.generate(request, options);
+  }
+  let text = '';
+  for await (const chunk of llm.stream(request, { ...options, signal: events.signal })) {
+    text += chunk;
+    events.send('token', { text: chunk });
+  }
+  return text;
+}
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { EntityDocument } from '../src/lib/types';
+import { daysUntil, expiryBucket, findRenewals, isMoreUrgent } from './expiryMonitor';
+
+const today = new Date('2026-03-01T15:30:00Z');
+
+const document = (id: string, fields: Partial<EntityDocument> = {}): EntityDocument => ({
+  id,
+  entityId: 'entity-1',
+  type: 'SOC2',
+  fileName: `${id}.pdf`,
+  mimeType: 'application/pdf',
+  size: 1,
+  sha256: id,
+  effectiveDate: null,
+  expiryDate: null,
+  version: 1,
+  status: 'current',
+  supersedes: null,
+  supersededBy: null,
+  uploadedBy: 'ana',
+  uploadedAt: '2026-01-01T00:00:00.000Z',
+  ...fields,
+});
+
+describe('daysUntil', () => {
+  it('counts whole calendar days, ignoring the time of day', () => {
+    assert.equal(daysUntil('2026-03-01', today), 0);
+    assert.equal(daysUntil('2026-03-31', today), 30);
+    assert.equal(daysUntil('2026-02-28', today), -1);
+  });
+});
+
+describe('expiryBucket', () => {
+  it('puts each window edge in the more urgent bucket', () => {
+    assert.deepEqual([-1, 0, 30, 31, 60, 61, 90, 91].map(expiryBucket), [
+      'expired',
+      'due_30',
+      'due_30',
+      'due_60',
+      'due_60',
+      'due_90',
+      'due_90',
+      null,
+    ]);
+  });
+});
+
+describe('isMoreUrgent', () => {
+  it('reports a bucket only when it is more urgent than the last notice', () => {
+    assert.equal(isMoreUrgent('due_90', null), true);
+    assert.equal(isMoreUrgent('due_30', 'due_60'), true);
+    assert.equal(isMoreUrgent('due_60', 'due_60'), false);
+    assert.equal(isMoreUrgent('due_90', 'due_30'), false);
+  });
+});
+
+describe('findRenewals', () => {
+  it('lists current documents due within 90 days or expired, most urgent first', () => {
+    const renewals = findRenewals(
+      [
+        document('later', { expiryDate: '2026-05-15' }),
+        document('expired', { expiryDate: '2026-02-01' }),
+        document('far', { expiryDate: '2027-01-01' }),
+        document('open-ended'),
+        document('replaced', { expiryDate: '2026-03-10', status: 'superseded' }),
+        document('soon', { expiryDate: '2026-03-10' }),
+      ],
+      today,
+    );
+    assert.deepEqual(renewals.map(renewal => [renewal.document.id, renewal.daysLeft, renewal.bucket]), [
+      ['expired', -28, 'expired'],
+      ['soon', 9, 'due_30'],
+      ['later', 75, 'due_90'],
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import type { EntityDocument, ExpiryBucket } from '../src/lib/types';
+import { startIntervalJob } from './intervalJob';
+
+// Expiry tracking for vault documents.
+// A document moves through 90/60/30-day windows to expired; each move is reported once,
+// and the check runs on a timer inside the API server.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const URGENCY: Record<ExpiryBucket, number> = { due_90: 1, due_60: 2, due_30: 3, expired: 4 };
+
+// Whole days from `today` to the expiry date; a document is valid through its expiry date
+export function daysUntil(date: string, today: Date = new Date()): number {
+  const start = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate());
+  return Math.round((Date.parse(`${date}T00:00:00Z`) - start) / DAY_MS);
+}
+
+export function expiryBucket(daysLeft: number): ExpiryBucket | null {
+  if (daysLeft < 0) return 'expired';
+  if (daysLeft <= 30) return 'due_30';
+  if (daysLeft <= 60) return 'due_60';
+  if (daysLeft <= 90) return 'due_90';
+  return null;
+}
+
+export function isMoreUrgent(bucket: ExpiryBucket, previous: ExpiryBucket | null | undefined): boolean {
+  return URGENCY[bucket] > (previous ? URGENCY[previous] : 0);
+}
+
+// Current documents that are expired or expire within 90 days, most urgent first
+export function findRenewals(documents: EntityDocument[], today: Date = new Date()) {
+  return documents
+    .filter(doc => doc.status === 'current' && doc.expiryDate)
+    .map(document => {
+      const daysLeft = daysUntil(document.expiryDate!, today);
+      return { document, daysLeft, bucket: expiryBucket(daysLeft) };
+    })
+    .filter(renewal => renewal.bucket !== null)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+}
+
+export function describeExpiry(document: EntityDocument, daysLeft: number): string {
+  return daysLeft < 0
+    ? `${document.type} (${document.fileName}) expired on ${document.expiryDate}`
+    : `${document.type} (${document.fileName}) expires in ${daysLeft} day(s) on ${document.expiryDate}`;
+}
+
+export function startExpiryMonitor(check: () => Promise<void>, intervalHours: number): NodeJS.Timeout {
+  return startIntervalJob('Document expiry check', check, intervalHours);
+}
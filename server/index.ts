@@ -1,10 +1,98 @@
-import express from 'express';
+import crypto from 'crypto';
+import express, { Request } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { createEvents, EventAttributes } from 'ics';
 import { google } from 'googleapis';
 import axios from 'axios';
+import { openDataStore } from './storage';
+import {
+  getLLMClient,
+  getLLMForRequest,
+  getRequestedProvider,
+  LLM_PROVIDERS,
+  LLMClient,
+  parseModelJson,
+  requestedProviderError,
+} from './llm';
+import { createSilentMp3, estimateSpeechSeconds } from './mockProvider';
+import { generateStrategyBrief } from './strategyAgent';
+import { AISignal, escalationFor, parseAISignal, rescoreEntity, RISK_INPUT_FIELDS, RiskSubmission, scoreRisk, toRiskInput } from './riskEngine';
+import {
+  createRiskPolicyVersion,
+  diffRiskPolicies,
+  getActiveRiskPolicy,
+  listRiskPolicies,
+  seedRiskPolicy,
+  validateRiskPolicy,
+} from './riskPolicy';
+import {
+  checkDirectStatusChange,
+  decideApproval,
+  ENTITY_STATUSES,
+  isApprovalQueue,
+  isEntityStatus,
+  QUEUE_FOR_STATUS,
+  QUEUE_ROLES,
+  queuesForRole,
+  reroutePending,
+  routeEntity,
+  routeReactivation,
+  STATUS_FOR_QUEUE,
+} from './approvals';
+import { createAuth, hashPassword, isRole, requireAuth, requireRole, Session, StoredUser, toPublicUser, validatePassword } from './auth';
+import { buildAuthorizationUrl, completeLogin, getOidcSettings } from './oidc';
+import { createAuditLog } from './auditLog';
+import { createEntityHistory, diffEntityFields } from './entityHistory';
+import { createBlobStore, createDocumentVault, DOWNLOAD_ROLES } from './documentVault';
+import { analyzeDocument, describeAnalyses, evidenceFactors } from './documentAnalysis';
+import type { AnalysisFile } from './documentAnalysis';
+import { AUDIT_SORT_KEYS, ENTITY_SORT_KEYS, filterAuditEvents, filterEntities, listAuditEvents, listEntities, listParam, sortRows } from './listQuery';
+import {
+  AUDIT_EXPORT_COLUMNS,
+  ENTITY_EXPORT_COLUMNS,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  ExportColumn,
+  isExportFormat,
+  writeExport,
+} from './registerExport';
+import { prepareImport } from './bulkImport';
+import { EventStream, generateReply, openEventStream, wantsEventStream } from './eventStream';
+import { createProjects } from './projects';
+import { compareBriefs, createStrategyBriefs } from './strategyBriefs';
+import { createPersonas, PERSONA_DEFAULTS, validatePersona } from './personas';
+import { MAX_PANEL_SIZE, runPanel } from './customerPanel';
+import { createInsights, formatInsights, INSIGHT_EXPORT_COLUMNS, insightExportRows, synthesizeInsights } from './insights';
+import { describeReasons, findDuplicateEntities } from './duplicates';
+import { daysUntil, describeExpiry, findRenewals, isMoreUrgent, startExpiryMonitor } from './expiryMonitor';
+import {
+  createReviewTasks,
+  isReviewed,
+  isReviewOpening,
+  nextReviewDate,
+  reviewCycleStart,
+  startReviewScheduler,
+} from './reviewScheduler';
+import type {
+  AgentTraceStep,
+  AuditEvent,
+  ChatMessage,
+  CustomerInsight,
+  Entity,
+  EntityDocument,
+  EntityStatus,
+  EntityVersion,
+  EntityVersionAction,
+  InsightSynthesis,
+  Persona,
+  PersonaInput,
+  Project,
+  ReviewTask,
+  RiskAssessment,
+  RiskPolicy,
+  StrategyBriefVersion,
+} from '../src/lib/types';
 
 // Load environment variables
 // Try both .env.local and .env files, and also load from process.env (for production)
@@ -18,172 +106,627 @@ if (process.env.ELEVENLABS_API_KEY) {
 const app = express();
 const PORT = process.env.API_PORT || 8787;
 
+// Message of a caught error; anything can be thrown
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Persistent storage (see server/storage.ts)
+const store = await openDataStore();
+console.log(`💾 Storage: ${store.driverName} (schema v${store.schemaVersion})`);
+
+const entities = store.collection<Entity>('entities');
+const entityHistory = createEntityHistory(store.collection<EntityVersion>('entityVersions'));
+// Evidence documents and Workbench audio summaries share one content-addressed blob store
+const blobs = createBlobStore();
+const documentVault = createDocumentVault(store.collection<EntityDocument>('documents'), blobs);
+const reviewTasks = createReviewTasks(store.collection<ReviewTask>('reviewTasks'));
+const riskPolicies = store.collection<RiskPolicy>('riskPolicies');
+await seedRiskPolicy(riskPolicies);
+const projects = createProjects(store.collection<Project>('projects'));
+const strategyBriefs = createStrategyBriefs(store.collection<StrategyBriefVersion>('strategyBriefs'));
+const personas = createPersonas(store.collection<Persona>('personas'));
+const insights = createInsights(store.collection<CustomerInsight>('insights'));
+
+// Accounts and sessions (see server/auth.ts)
+const users = store.collection<StoredUser>('users');
+const auth = createAuth(users, store.collection<Session>('sessions'));
+
+// Append-only and hash-chained; nothing else writes to this collection (see server/auditLog.ts).
+// Events describe an entity, a user account or a risk policy version.
+const auditLog = createAuditLog(store.collection<AuditEvent>('auditEvents'), async (id) => {
+  const entity = await entities.get(id);
+  if (entity) return entity.name;
+  const user = await users.get(id);
+  if (user) return user.username;
+  const policy = await riskPolicies.get(id);
+  return policy ? `Risk policy v${policy.version}` : null;
+});
+const auditStatus = await auditLog.verify();
+if (!auditStatus.valid) {
+  console.warn(`⚠️  Audit chain broken at event #${auditStatus.brokenAt!.seq} (${auditStatus.brokenAt!.id}): ${auditStatus.brokenAt!.reason}`);
+}
+await auth.bootstrapAdmin();
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:8080';
+
+const recordAudit = auditLog.append;
+
 // Middleware
 app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:8080',
   credentials: true,
 }));
-app.use(express.json());
+// Large enough for base64-encoded evidence documents (see MAX_DOCUMENT_BYTES)
+app.use(express.json({ limit: '25mb' }));
+
+// Every API call needs a signed-in user, except the health check and the sign-in flows themselves
+app.use('/api', auth.authenticate);
+app.use('/api', (req, res, next) => {
+  if (req.path === '/health' || req.path.startsWith('/auth/')) {
+    return next();
+  }
+  requireAuth(req, res, next);
+});
+
+// A provider the server doesn't know is the caller's mistake, not a failed agent call
+app.use('/api', (req, res, next) => {
+  const error = requestedProviderError(req);
+  if (error) {
+    return res.status(400).json({ error, providers: LLM_PROVIDERS });
+  }
+  next();
+});
+
+// Authentication
+app.get('/api/auth/config', (req, res) => {
+  const oidc = getOidcSettings();
+  res.json({ oidc: oidc ? { name: oidc.displayName } : null });
+});
+
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const user = await auth.login(req.body.username, req.body.password);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+    await auth.startSession(user, res);
+    await recordAudit({ entityId: user.id, action: 'login', user: user.username, details: 'Signed in with password' });
+    res.json(toPublicUser(user));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+app.post('/api/auth/logout', async (req, res) => {
+  try {
+    await auth.endSession(req, res);
+    res.json({ success: true });
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+app.get('/api/auth/me', (req, res) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Not signed in' });
+  }
+  res.json(req.user);
+});
+
+app.get('/api/auth/oidc/login', async (req, res) => {
+  try {
+    const settings = getOidcSettings();
+    if (!settings) {
+      return res.status(404).json({ error: 'OIDC sign-in is not configured. Set OIDC_ISSUER in .env.local' });
+    }
+    res.redirect(await buildAuthorizationUrl(settings));
+  } catch (error: unknown) {
+    console.error('❌ OIDC login error:', errorMessage(error));
+    res.redirect(`${FRONTEND_URL}/?error=sso_unavailable`);
+  }
+});
+
+app.get('/api/auth/oidc/callback', async (req, res) => {
+  try {
+    const settings = getOidcSettings();
+    const { code, state } = req.query;
+    if (!settings || typeof code !== 'string' || typeof state !== 'string') {
+      return res.redirect(`${FRONTEND_URL}/?error=sso_failed`);
+    }
+
+    const profile = await completeLogin(settings, code, state);
+    const user = await auth.signInWithOidc(profile, settings.defaultRole);
+    if (!user) {
+      // Another account holds this username; an admin has to resolve it before this subject can sign in
+      return res.redirect(`${FRONTEND_URL}/?error=sso_username_taken`);
+    }
+
+    await auth.startSession(user, res);
+    await recordAudit({ entityId: user.id, action: 'login', user: user.username, details: `Signed in with ${settings.displayName}` });
+    res.redirect(FRONTEND_URL);
+  } catch (error: unknown) {
+    console.error('❌ OIDC callback error:', errorMessage(error));
+    res.redirect(`${FRONTEND_URL}/?error=sso_failed`);
+  }
+});
+
+// Users (admin only)
+app.get('/api/users', requireRole('admin'), async (req, res) => {
+  try {
+    res.json((await users.list()).map(toPublicUser));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+app.post('/api/users', requireRole('admin'), async (req, res) => {
+  try {
+    const { username, displayName, role, password } = req.body;
+    if (typeof username !== 'string' || !/^[a-z0-9._@-]{3,64}$/i.test(username.trim())) {
+      return res.status(400).json({ error: 'Username must be 3-64 letters, numbers or . _ @ -' });
+    }
+    if (!isRole(role)) {
+      return res.status(400).json({ error: 'Role must be one of: analyst, manager, risk_committee, admin' });
+    }
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+    if (await auth.findUser(username)) {
+      return res.status(409).json({ error: `User "${username.trim().toLowerCase()}" already exists` });
+    }
+
+    const user = await auth.createUser({ username, displayName, role, password });
+    await recordAudit({ entityId: user.id, action: 'user_created', user: req.user!.username, details: `Role: ${role}` });
+    res.json(toPublicUser(user));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+app.put('/api/users/:id', requireRole('admin'), async (req, res) => {
+  try {
+    const existing = await users.get(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const { role, displayName, password } = req.body;
+    const patch: Partial<StoredUser> = {};
+    if (role !== undefined) {
+      if (!isRole(role)) {
+        return res.status(400).json({ error: 'Role must be one of: analyst, manager, risk_committee, admin' });
+      }
+      const admins = (await users.list()).filter(user => user.role === 'admin');
+      if (existing.role === 'admin' && role !== 'admin' && admins.length === 1) {
+        return res.status(409).json({ error: 'Cannot remove the last admin' });
+      }
+      patch.role = role;
+    }
+    if (typeof displayName === 'string' && displayName.trim()) {
+      patch.displayName = displayName.trim();
+    }
+    if (password !== undefined) {
+      const passwordError = existing.authProvider === 'local' ? validatePassword(password) : 'SSO users sign in through the identity provider';
+      if (passwordError) {
+        return res.status(400).json({ error: passwordError });
+      }
+      patch.passwordHash = await hashPassword(password);
+    }
+
+    const user = await users.update(existing.id, patch) as StoredUser;
+    const changed = Object.keys(patch).map(key => key === 'passwordHash' ? 'password' : key);
+    await recordAudit({ entityId: user.id, action: 'user_updated', user: req.user!.username, details: `Changed: ${changed.join(', ') || 'nothing'}${patch.role ? ` (role: ${patch.role})` : ''}` });
+    res.json(toPublicUser(user));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
 
 // Health check
 app.get('/api/health', async (req, res) => {
   try {
-    const apiKey = process.env.GEMINI_API_KEY;
+    const llm = getLLMClient(getRequestedProvider(req));
     res.json({
       ok: true,
-      provider: 'gemini',
-      hasKey: !!apiKey,
-      keyLength: apiKey?.length || 0,
+      provider: llm.provider,
+      model: llm.model,
+      hasKey: !llm.configurationError(),
+      providers: LLM_PROVIDERS.map(name => {
+        const client = getLLMClient(name);
+        return { provider: name, model: client.model, configured: !client.configurationError() };
+      }),
+      storage: store.driverName,
     });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Strategy Agent - Generate comprehensive product strategy using AI
-app.post('/api/pm/strategy', async (req, res) => {
-  let retryCount = 0;
-  const maxRetries = 3;
+// Workbench projects (see server/projects.ts). Agent endpoints below save into the project named by `projectId`.
+app.get('/api/projects', async (req, res) => {
+  try {
+    res.json(await projects.list(req.query.archived === 'true'));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
 
-  while (retryCount < maxRetries) {
-    try {
-      const { market, segment, goals, constraints } = req.body;
+app.post('/api/projects', async (req, res) => {
+  try {
+    const { project, error } = await projects.create(req.body?.name, req.user!.username);
+    if (!project) {
+      return res.status(400).json({ error });
+    }
+    console.log(`🗂️ Project created: ${project.name}`);
+    res.status(201).json(project);
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
 
-      console.log(`📊 Generating strategy with AI... (attempt ${retryCount + 1}/${maxRetries})`);
+app.get('/api/projects/:id', async (req, res) => {
+  try {
+    const project = await projects.get(req.params.id);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    res.json(project);
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
 
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (!apiKey) {
-        return res.status(500).json({ error: 'GEMINI_API_KEY is required. Please add it to your .env.local file.' });
-      }
+// Rename ({ name }), archive or restore ({ archived }), or reset a transcript ({ customerMessages: [] })
+app.put('/api/projects/:id', async (req, res) => {
+  try {
+    const existing = await projects.get(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    const { project, error } = await projects.update(existing, req.body || {});
+    if (!project) {
+      return res.status(400).json({ error });
+    }
+    res.json(project);
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Strategy brief versions, newest first (see server/strategyBriefs.ts)
+app.get('/api/projects/:id/strategy-briefs', async (req, res) => {
+  try {
+    const project = await projects.get(req.params.id);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    res.json(await strategyBriefs.list(project.id));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Section-by-section diff of two versions: ?from=1&to=3
+app.get('/api/projects/:id/strategy-briefs/compare', async (req, res) => {
+  try {
+    const project = await projects.get(req.params.id);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    const from = await strategyBriefs.get(project.id, Number(req.query.from));
+    const to = await strategyBriefs.get(project.id, Number(req.query.to));
+    if (!from || !to) {
+      return res.status(400).json({ error: 'from and to must be version numbers of this project\'s strategy briefs' });
+    }
+    res.json(compareBriefs(from, to));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Marks the version the team works from; the Workbench opens on it
+app.post('/api/projects/:id/strategy-briefs/:version/canonical', async (req, res) => {
+  try {
+    const target = await projects.forRun(req.params.id);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+    const brief = await strategyBriefs.get(target.project!.id, Number(req.params.version));
+    if (!brief) {
+      return res.status(404).json({ error: 'Strategy brief version not found' });
+    }
+    console.log(`⭐ ${target.project!.name}: strategy brief v${brief.version} is canonical`);
+    res.json(await projects.saveWork(target.project!.id, { canonicalBriefVersion: brief.version }));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Customer advisory panel personas (see server/personas.ts)
+app.get('/api/projects/:id/personas', async (req, res) => {
+  try {
+    const project = await projects.get(req.params.id);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    res.json(await personas.list(project.id));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+app.post('/api/projects/:id/personas', async (req, res) => {
+  try {
+    const target = await projects.forRun(req.params.id);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+    const { persona, error } = validatePersona(req.body || {});
+    if (!persona) {
+      return res.status(400).json({ error });
+    }
+    res.status(201).json(await personas.create(target.project!.id, { ...PERSONA_DEFAULTS, ...persona } as PersonaInput, 'manual'));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Adds a persona for each ICP segment not covered yet, from { version } or the canonical (else latest) brief
+app.post('/api/projects/:id/personas/seed', async (req, res) => {
+  try {
+    const target = await projects.forRun(req.params.id);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+    const project = target.project!;
+    const versions = await strategyBriefs.list(project.id);
+    const wanted = req.body?.version ?? project.canonicalBriefVersion;
+    const source = wanted ? versions.find(version => version.version === Number(wanted)) : versions[0];
+    if (!source) {
+      return res.status(400).json({ error: 'Generate a strategy brief first; personas are seeded from its ICPs' });
+    }
+    const created = await personas.seedFromBrief(project.id, source.brief);
+    console.log(`🧑‍🤝‍🧑 ${project.name}: ${created.length} persona(s) seeded from brief v${source.version}`);
+    res.json({ created, personas: await personas.list(project.id) });
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+app.put('/api/projects/:id/personas/:personaId', async (req, res) => {
+  try {
+    const target = await projects.forRun(req.params.id);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+    const existing = await personas.get(target.project!.id, req.params.personaId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Persona not found' });
+    }
+    const { persona, error } = validatePersona(req.body || {}, true);
+    if (!persona) {
+      return res.status(400).json({ error });
+    }
+    res.json(await personas.update(existing, persona));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Past panel rounds keep the answers given under the persona's name
+app.delete('/api/projects/:id/personas/:personaId', async (req, res) => {
+  try {
+    const target = await projects.forRun(req.params.id);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+    const existing = await personas.get(target.project!.id, req.params.personaId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Persona not found' });
+    }
+    await personas.remove(existing);
+    res.status(204).end();
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Customer insights (see server/insights.ts), synthesized from the project's customer chat
+
+// Runs for one project queue up, so no message is synthesized twice
+const insightRuns = new Map<string, Promise<unknown>>();
 
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
-
-      const prompt = `You are a senior product strategist and advisor with 15+ years of experience at leading tech companies (Google, Amazon, Microsoft, etc.). You're providing strategic counsel to help build a successful product.
-
-PRODUCT IDEA CONTEXT:
-- Target Market: ${market || 'Not specified - analyze and recommend'}
-- Customer Segment: ${segment || 'Not specified - identify and define'}
-- Business Goals: ${goals && goals.length > 0 ? goals.join(', ') : 'Not specified - suggest strategic goals'}
-- Constraints: ${constraints && constraints.length > 0 ? constraints.join(', ') : 'None specified'}
-
-Your task: Create a comprehensive product strategy brief that reads like an executive summary and strategic advisory document. This should be insightful, actionable, and provide real strategic value.
-
-Generate a detailed JSON response with this exact structure:
-{
-  "executiveSummary": "A compelling 2-3 paragraph executive summary that captures the product vision, opportunity, and strategic approach. Write this like a brief you'd present to executives.",
-  "northStar": "A clear, inspiring North Star metric (1-2 sentences that define what success looks like)",
-  "marketOpportunity": "A detailed analysis of the market opportunity - size, trends, timing, and why now. Be specific with numbers and trends if possible.",
-  "competitiveLandscape": "Analysis of the competitive landscape - who are the main players, what are they doing well/poorly, and where is the whitespace opportunity?",
-  "strategicRecommendations": [
-    "Strategic recommendation 1 - specific, actionable advice for how to approach this product",
-    "Strategic recommendation 2",
-    "Strategic recommendation 3",
-    "Strategic recommendation 4"
-  ],
-  "icps": [
-    {
-      "segment": "Specific customer segment name",
-      "description": "Detailed description of this segment",
-      "painPoints": ["Primary pain point 1 with context", "Primary pain point 2 with context", "Primary pain point 3 with context"],
-      "opportunities": ["Opportunity 1 with rationale", "Opportunity 2 with rationale"],
-      "buyingBehavior": "How this segment makes purchasing decisions"
-    }
-  ],
-  "successMetrics": [
-    {
-      "metric": "Specific metric name",
-      "target": "Target value and timeline",
-      "rationale": "Why this metric matters"
-    }
-  ],
-  "goToMarketConsiderations": [
-    "GTM consideration 1 - specific advice on how to bring this to market",
-    "GTM consideration 2",
-    "GTM consideration 3"
-  ],
-  "risksAndChallenges": [
-    {
-      "risk": "Specific risk or challenge",
-      "impact": "high|medium|low",
-      "mitigation": "How to mitigate or address this risk"
-    }
-  ],
-  "timelineAndMilestones": "Recommended timeline and key milestones for product development and launch. Be specific with phases.",
-  "constraints": ${JSON.stringify(constraints || [])},
-  "prd": "# Product Requirements Document\\n\\n## Vision\\n\\n[Clear, compelling vision statement]\\n\\n## Problem Statement\\n\\n[Detailed problem statement - what problem are we solving and why it matters]\\n\\n## Target Users\\n\\n[Detailed description of target users with personas]\\n\\n## Key Features\\n\\n[Core features and capabilities with prioritization]\\n\\n## User Experience\\n\\n[Key UX considerations and principles]\\n\\n## Success Metrics\\n\\n[How we measure success with specific targets]\\n\\n## Timeline\\n\\n[Detailed timeline with phases and milestones]\\n\\n## Risks & Mitigation\\n\\n[Key risks and how to address them]\\n\\n## Dependencies\\n\\n[Key dependencies and assumptions]"
+// Synthesizes the customer messages added since the last run and merges them into the project's insights
+function synthesizeProjectInsights(llm: LLMClient, projectId: string): Promise<InsightSynthesis & { trace: AgentTraceStep[] }> {
+  const run = (insightRuns.get(projectId) || Promise.resolve()).catch(() => undefined).then(async () => {
+    const project = (await projects.get(projectId))!;
+    const start = project.customerMessages.findIndex(message => message.id === project.lastSynthesizedMessageId) + 1;
+    const pending = project.customerMessages.slice(start);
+    const messagesRead = pending.filter(message => message.role === 'assistant').length;
+    if (messagesRead === 0) {
+      return { insights: await insights.list(projectId), created: 0, updated: 0, messagesRead, trace: [] };
+    }
+    const { candidates, trace } = await synthesizeInsights(llm, pending, project.customerSessionId, await insights.list(projectId));
+    const { created, updated } = await insights.merge(projectId, candidates, llm);
+    await projects.saveWork(projectId, { lastSynthesizedMessageId: pending[pending.length - 1].id || null });
+    console.log(`🔎 ${project.name}: ${messagesRead} customer message(s) synthesized, ${created} new insight(s), ${updated} updated`);
+    return { insights: await insights.list(projectId), created, updated, messagesRead, trace };
+  });
+  insightRuns.set(projectId, run);
+  const done = () => {
+    if (insightRuns.get(projectId) === run) insightRuns.delete(projectId);
+  };
+  run.then(done, done);
+  return run;
 }
 
-Write this like a strategic brief from a top consulting firm or senior product advisor. Be specific, data-driven where possible, and provide real strategic value. Include actionable advice throughout. Return ONLY valid JSON, no markdown code blocks.`;
+// What customers said, for planning prompts: the project's insights, caught up on new chat first.
+// Without a project, or if synthesis fails, the latest customer replies as written.
+async function customerInsightsFor(
+  llm: LLMClient,
+  project: Project | null,
+  customerMessages: ChatMessage[] | undefined,
+  recent: number
+): Promise<string> {
+  if (project) {
+    try {
+      const text = formatInsights((await synthesizeProjectInsights(llm, project.id)).insights);
+      if (text) return text;
+    } catch (error: unknown) {
+      console.error('⚠️ Insight synthesis failed, using raw customer replies:', errorMessage(error));
+    }
+  }
+  return (customerMessages || [])
+    .filter(message => message.role === 'assistant')
+    .slice(-recent)
+    .map(message => message.content)
+    .join('\n\n');
+}
 
-      const result = await model.generateContent(prompt);
-      const text = result.response.text();
+app.get('/api/projects/:id/insights', async (req, res) => {
+  try {
+    const project = await projects.get(req.params.id);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    res.json(await insights.list(project.id));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
 
-      // Parse JSON from response
-      let jsonText = text.trim();
-      if (jsonText.startsWith('```json')) {
-        jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?$/g, '');
-      } else if (jsonText.startsWith('```')) {
-        jsonText = jsonText.replace(/```\n?/g, '').replace(/```\n?$/g, '');
-      }
+// Reads the customer chat since the last run; insights are also caught up before planning uses them
+app.post('/api/projects/:id/insights/synthesize', async (req, res) => {
+  try {
+    const target = await projects.forRun(req.params.id);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+    const llm = getLLMForRequest(req);
+    const configError = llm.configurationError();
+    if (configError) {
+      return res.status(500).json({ error: configError });
+    }
+    const { trace, ...synthesis } = await synthesizeProjectInsights(llm, target.project!.id);
+    res.json({ success: true, data: synthesis, trace });
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
 
-      const aiData = JSON.parse(jsonText);
+// One row per quote, as csv, jsonl or xlsx
+app.get('/api/projects/:id/insights/export', async (req, res) => {
+  try {
+    const project = await projects.get(req.params.id);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    const rows = insightExportRows(await insights.list(project.id));
+    await sendExport(res, req.query.format || 'csv', 'insights', rows, INSIGHT_EXPORT_COLUMNS);
+  } catch (error: unknown) {
+    if (res.headersSent) {
+      return res.destroy(error as Error);
+    }
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
 
-      const response = {
-        success: true,
-        data: {
-          executiveSummary: aiData.executiveSummary || '',
-          northStar: aiData.northStar || `Build the leading ${market || 'product'} solution for ${segment || 'customers'}`,
-          marketOpportunity: aiData.marketOpportunity || '',
-          competitiveLandscape: aiData.competitiveLandscape || '',
-          strategicRecommendations: aiData.strategicRecommendations || [],
-          icps: aiData.icps || [],
-          successMetrics: aiData.successMetrics || [],
-          goToMarketConsiderations: aiData.goToMarketConsiderations || [],
-          risksAndChallenges: aiData.risksAndChallenges || [],
-          timelineAndMilestones: aiData.timelineAndMilestones || '',
-          constraints: aiData.constraints || constraints || [],
-          prd: aiData.prd || '# Product Brief\n\n## Vision\n\n...',
-        },
-        trace: [
-          {
-            timestamp: new Date().toISOString(),
-            agent: 'strategy',
-            action: 'generate_brief',
-            input: { market, segment, goals, constraints },
-            output: 'Generated comprehensive product strategy brief using AI',
-          },
-        ],
-      };
+app.get('/api/projects/:id/audio-summary', async (req, res) => {
+  try {
+    const project = await projects.get(req.params.id);
+    if (!project?.audioSummary) {
+      return res.status(404).json({ error: 'No audio summary for this project' });
+    }
+    const content = await blobs.get(project.audioSummary.sha256);
+    if (!content) {
+      return res.status(404).json({ error: 'Audio summary file is missing' });
+    }
+    res.setHeader('Content-Type', 'audio/mpeg');
+    res.send(content);
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
 
-      res.json(response);
-      return; // Success - exit retry loop
-    } catch (aiError: any) {
-      retryCount++;
-      console.error(`❌ AI generation error (attempt ${retryCount}/${maxRetries}):`, aiError.message);
-
-      // If it's a JSON parsing error and we have retries left, try again
-      if ((aiError.message.includes('JSON') || aiError.message.includes('parse') || aiError.message.includes('Unexpected token')) && retryCount < maxRetries) {
-        console.log(`🔄 Retrying strategy generation... (${retryCount}/${maxRetries})`);
-        await new Promise(resolve => setTimeout(resolve, 1000 * retryCount)); // Exponential backoff
-        continue; // Retry the request
-      }
+// Strategy Agent - Generate comprehensive product strategy using AI.
+// Streams with `Accept: text/event-stream`: a `section` event per brief field as the draft completes it, then `done`.
+app.post('/api/pm/strategy', async (req, res) => {
+  let events: EventStream | null = null;
+  try {
+    const { market, segment, goals, constraints, projectId } = req.body;
 
-      // If all retries failed or it's a different error, return error
-      if (retryCount >= maxRetries) {
-        console.error('❌ All retries failed');
-        return res.status(500).json({
-          error: `Failed to generate strategy after ${maxRetries} attempts: ${aiError.message}. Please check your API key and try again.`
-        });
+    const target = await projects.forRun(projectId);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
+    const llm = getLLMForRequest(req);
+    console.log(`📊 Generating strategy with ${llm.provider} (${llm.model})...`);
+
+    const configError = llm.configurationError();
+    if (configError) {
+      return res.status(500).json({ error: configError });
+    }
+
+    const stream = wantsEventStream(req) ? openEventStream(res) : null;
+    events = stream;
+
+    // Generate, validate against the brief schema and repair failing fields (see server/strategyAgent.ts)
+    const { brief, violations, trace } = await generateStrategyBrief(llm, { market, segment, goals, constraints }, {
+      signal: stream?.signal,
+      onField: stream ? (field, value) => stream.send('section', { field, value }) : undefined,
+    });
+
+    if (!brief) {
+      console.error('❌ Strategy brief failed schema validation:', violations);
+      const error = `Strategy brief failed schema validation: ${violations.map(v => `${v.path} (${v.message})`).join('; ')}`;
+      // The trace says which fields failed and what each repair attempt changed
+      if (events) {
+        return events.fail(error, { success: false, trace });
       }
+      return res.status(422).json({ success: false, error, trace });
     }
+
+    // Saved as the project's next brief version; earlier runs stay as they were
+    let briefVersion: StrategyBriefVersion | null = null;
+    if (target.project) {
+      const input = { market: market || '', segment: segment || '', goals: goals || [], constraints: constraints || [] };
+      briefVersion = await strategyBriefs.record({
+        projectId: target.project.id,
+        input,
+        brief,
+        provider: llm.provider,
+        model: llm.model,
+        createdBy: req.user!.username,
+      });
+      await projects.saveWork(target.project.id, { strategyInput: input });
+      await personas.seedFromBrief(target.project.id, brief);
+    }
+
+    const body = { success: true, data: brief, briefVersion, trace };
+    if (events) {
+      return events.done(body);
+    }
+    res.json(body);
+  } catch (error: unknown) {
+    if (events?.signal.aborted) {
+      return console.log('⏹️ Strategy generation cancelled by the client');
+    }
+    console.error('❌ AI generation error:', errorMessage(error));
+    const message = `Failed to generate strategy: ${errorMessage(error)}. Please check your API key and try again.`;
+    if (events) {
+      return events.fail(message);
+    }
+    res.status(500).json({ error: message });
   }
 });
 
-// Customer Advisory Agent - Chatbot that acts like a customer
+// Customer Advisory Agent - Chatbot that acts like a customer.
+// Streams with `Accept: text/event-stream`: `token` events as the reply is written, then `done`.
 app.post('/api/pm/customer-advisory', async (req, res) => {
+  let events: EventStream | null = null;
   try {
-    const { message, conversationHistory, customerSegment, market } = req.body;
+    const { message, conversationHistory, customerSegment, market, projectId } = req.body;
 
     if (!message) {
       return res.status(400).json({
@@ -191,6 +734,11 @@ app.post('/api/pm/customer-advisory', async (req, res) => {
       });
     }
 
+    const target = await projects.forRun(projectId);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
     console.log('👥 Customer chatbot responding...');
 
     try {
@@ -244,26 +792,14 @@ Current question from PM: "${message}"
 
 Respond as a real customer would. Be authentic and helpful. Keep your response conversational and natural (2-4 sentences typically, but can be longer if the question warrants it).`;
 
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (!apiKey) {
-        return res.status(500).json({ error: 'GEMINI_API_KEY is required. Please add it to your .env.local file.' });
+      const llm = getLLMForRequest(req);
+      const configError = llm.configurationError();
+      if (configError) {
+        return res.status(500).json({ error: configError });
       }
 
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
-
-      const parts = [
-        { text: systemPrompt },
-        { text: prompt }
-      ];
-
-      const result = await model.generateContent({
-        contents: [{ role: 'user', parts }],
-        generationConfig: {
-          temperature: 0.8,
-        },
-      });
-      const text = result.response.text();
+      events = wantsEventStream(req) ? openEventStream(res) : null;
+      const text = await generateReply(llm, { agent: 'customer-advisory', system: systemPrompt, prompt }, { temperature: 0.8 }, events);
 
       const response = {
         success: true,
@@ -275,37 +811,96 @@ Respond as a real customer would. Be authentic and helpful. Keep your response c
             timestamp: new Date().toISOString(),
             agent: 'customer-advisory',
             action: 'chat_response',
-            input: { message, customerSegment, market },
+            input: { message, customerSegment, market, provider: llm.provider, model: llm.model },
             output: 'Generated customer response',
           },
         ],
       };
 
+      // A reply cut short by the client is never saved
+      if (target.project) {
+        await projects.appendMessages(target.project.id, 'customerMessages', [
+          { role: 'user', content: String(message) },
+          { role: 'assistant', content: response.data.message },
+        ]);
+      }
+
+      if (events) {
+        return events.done(response);
+      }
       res.json(response);
     } catch (aiError: any) {
+      if (events?.signal.aborted) {
+        return console.log('⏹️ Customer reply cancelled by the client');
+      }
       console.error('❌ AI generation error:', aiError.message);
-      res.status(500).json({
-        error: `Failed to generate customer response: ${aiError.message}. Please check your API key and try again.`
-      });
+      const error = `Failed to generate customer response: ${aiError.message}. Please check your API key and try again.`;
+      if (events) {
+        return events.fail(error);
+      }
+      res.status(500).json({ error });
     }
   } catch (error: any) {
+    if (events) {
+      return events.fail(error.message);
+    }
     res.status(500).json({ error: error.message });
   }
 });
 
-// Planning and GTM agents removed - functionality consolidated into Strategy and Customer Advisory agents
-
-// Helper function to generate 2-week plan using AI
-async function generateTwoWeekPlan(goal: string, strategy: string, startDate: Date, constraints: string[]): Promise<any[]> {
+// Customer Advisory Panel - one question answered by each of the project's personas, plus where they agree
+app.post('/api/pm/customer-panel', async (req, res) => {
   try {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY is required');
+    const { question, projectId, personaIds, market } = req.body;
+
+    if (!question || typeof question !== 'string' || !question.trim()) {
+      return res.status(400).json({ error: 'Question is required' });
+    }
+    if (!projectId) {
+      return res.status(400).json({ error: 'projectId is required; personas belong to a project' });
+    }
+    const target = await projects.forRun(projectId);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+    const project = target.project!;
+
+    const available = await personas.list(project.id);
+    const panel = Array.isArray(personaIds)
+      ? available.filter(persona => personaIds.includes(persona.id))
+      : available.slice(0, MAX_PANEL_SIZE);
+    if (panel.length === 0) {
+      return res.status(400).json({ error: 'Add or seed at least one persona for the panel' });
     }
+    if (panel.length > MAX_PANEL_SIZE) {
+      return res.status(400).json({ error: `A panel can have at most ${MAX_PANEL_SIZE} personas` });
+    }
+
+    const llm = getLLMForRequest(req);
+    const configError = llm.configurationError();
+    if (configError) {
+      return res.status(500).json({ error: configError });
+    }
+
+    console.log(`👥 Asking a panel of ${panel.length}: ${question}`);
+    const { round, trace } = await runPanel(llm, question.trim(), panel, {
+      market: market || project.strategyInput?.market,
+      previousRounds: project.panelRounds,
+    }, req.user!.username);
+    await projects.appendPanelRound(project.id, round);
+
+    res.json({ success: true, data: round, trace });
+  } catch (error: unknown) {
+    console.error('❌ Customer panel error:', errorMessage(error));
+    res.status(500).json({ error: `Failed to run the customer panel: ${errorMessage(error)}` });
+  }
+});
 
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+// Planning and GTM agents removed - functionality consolidated into Strategy and Customer Advisory agents
 
+// Helper function to generate 2-week plan using AI
+async function generateTwoWeekPlan(llm: LLMClient, goal: string, strategy: string, startDate: Date, constraints: string[]): Promise<any[]> {
+  try {
     const prompt = `You are a productivity expert. Create a detailed 2-week (14-day) plan to achieve this goal: "${goal}"
 
 ${strategy ? `Strategy: ${strategy}` : ''}
@@ -319,8 +914,7 @@ Generate a JSON array with 14 items, one for each day. Each item should have:
 
 Return ONLY a valid JSON array, no markdown or extra text. Make it specific, actionable, and broken down into daily tasks that build toward the goal.`;
 
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
+    const text = await llm.generate({ agent: 'two-week-plan', prompt });
 
     // Parse JSON from response
     let jsonText = text.trim();
@@ -399,17 +993,10 @@ function createICSFile(plan: any[], goal: string): string {
 
 // Helper function to generate schedule from Strategy and Customer Advisory data
 async function generateScheduleFromStrategyAndChat(
+  llm: LLMClient,
   strategyData: any,
-  customerMessages: Array<{ role: string; content: string }>
+  customerInsights: string
 ): Promise<any[]> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY is required');
-  }
-
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
-
   // Extract key information from strategy
   const northStar = strategyData.northStar || '';
   const strategicRecommendations = strategyData.strategicRecommendations || [];
@@ -417,12 +1004,6 @@ async function generateScheduleFromStrategyAndChat(
   const risks = strategyData.risksAndChallenges || [];
   const timeline = strategyData.timelineAndMilestones || '';
 
-  // Extract customer insights from chat
-  const customerInsights = customerMessages
-    .filter((msg: any) => msg.role === 'assistant')
-    .map((msg: any) => msg.content)
-    .join('\n\n');
-
   const startDate = new Date();
   startDate.setDate(startDate.getDate() + 1); // Start tomorrow
 
@@ -436,7 +1017,7 @@ STRATEGY CONTEXT:
 - Risks: ${risks.map((r: any) => typeof r === 'string' ? r : r.risk).join(', ')}
 
 CUSTOMER INSIGHTS FROM CHAT:
-${customerInsights.substring(0, 1000)}
+${customerInsights.substring(0, 2000)}
 
 Create a comprehensive 14-day schedule that:
 1. Addresses the strategic recommendations
@@ -456,8 +1037,7 @@ Generate a JSON array with 14 items, one for each day. Each item should have:
 Return ONLY a valid JSON array, no markdown or extra text. Make it actionable and realistic.`;
 
   try {
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
+    const text = await llm.generate({ agent: 'schedule', prompt });
 
     // Parse JSON from response
     let jsonText = text.trim();
@@ -643,7 +1223,7 @@ async function fetchCalendarEvents(accessToken: string, timeMin?: string, timeMa
 // Automation Agent - Generate schedule and create events directly in Google Calendar
 app.post('/api/pm/automation/sync-calendar', async (req, res) => {
   try {
-    const { strategyData, customerMessages, sessionId } = req.body;
+    const { strategyData, customerMessages, sessionId, projectId } = req.body;
 
     if (!strategyData) {
       return res.status(400).json({ error: 'Strategy data is required. Please generate a strategy first.' });
@@ -653,10 +1233,17 @@ app.post('/api/pm/automation/sync-calendar', async (req, res) => {
       return res.status(400).json({ error: 'Customer chat messages are required. Please have a conversation with the customer chatbot first.' });
     }
 
+    const target = await projects.forRun(projectId);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
     console.log('📅 Generating schedule from Strategy and Customer Advisory...');
 
     // Generate schedule using AI based on strategy and customer insights
-    const plan = await generateScheduleFromStrategyAndChat(strategyData, customerMessages);
+    const llm = getLLMForRequest(req);
+    const customerInsights = await customerInsightsFor(llm, target.project, customerMessages, customerMessages.length);
+    const plan = await generateScheduleFromStrategyAndChat(llm, strategyData, customerInsights);
 
     // Create calendar events
     const calendarEvents = plan.map((item) => {
@@ -729,7 +1316,8 @@ app.post('/api/pm/automation/sync-calendar', async (req, res) => {
           needsAuth = true;
         }
       }
-    } else {
+    } else if (llm.provider !== 'mock') {
+      // Offline mock runs return the plan without asking for Google auth
       needsAuth = true;
     }
 
@@ -746,6 +1334,18 @@ app.post('/api/pm/automation/sync-calendar', async (req, res) => {
       });
     }
 
+    const message = eventsCreated > 0
+      ? `Successfully created ${eventsCreated} events in your Google Calendar!`
+      : needsAuth
+        ? 'Please authenticate with Google Calendar to sync events.'
+        : 'Schedule generated successfully. Events will be created after authentication.';
+
+    if (target.project) {
+      await projects.saveWork(target.project.id, {
+        automation: { plan, calendarEvents, eventsCreated, message, generatedAt: new Date().toISOString() },
+      });
+    }
+
     // Always return the plan, even if events weren't created
     return res.json({
       success: true,
@@ -761,11 +1361,7 @@ app.post('/api/pm/automation/sync-calendar', async (req, res) => {
         googleCalendarUrl: 'https://calendar.google.com/calendar/u/0/r',
         eventsCreated: eventsCreated,
         eventLinks: eventLinks,
-        message: eventsCreated > 0
-          ? `Successfully created ${eventsCreated} events in your Google Calendar!`
-          : needsAuth
-            ? 'Please authenticate with Google Calendar to sync events.'
-            : 'Schedule generated successfully. Events will be created after authentication.',
+        message,
       },
       trace: [
         {
@@ -802,27 +1398,15 @@ app.post('/api/pm/automation/notion', async (req, res) => {
 
 // Helper function to generate audio summary text from workbench data
 async function generateAudioSummaryText(
+  llm: LLMClient,
   strategyData: any,
-  customerMessages: Array<{ role: string; content: string }>,
+  customerInsights: string,
   automationPlan: any[]
 ): Promise<string> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY is required');
-  }
-
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
-
   // Extract key information
   const executiveSummary = strategyData?.executiveSummary || '';
   const northStar = strategyData?.northStar || '';
   const strategicRecommendations = strategyData?.strategicRecommendations || [];
-  const customerInsights = customerMessages
-    .filter((msg: any) => msg.role === 'assistant')
-    .slice(-5) // Last 5 customer responses
-    .map((msg: any) => msg.content)
-    .join('. ');
   const scheduleSummary = automationPlan?.length > 0
     ? `A ${automationPlan.length}-day schedule has been created with ${automationPlan.length} tasks.`
     : '';
@@ -841,7 +1425,7 @@ Create a natural, conversational 2-3 minute audio script (approximately 300-400
    ${strategicRecommendations.length > 0 ? `Recommendations: ${strategicRecommendations.slice(0, 4).join('. ')}` : 'No recommendations yet.'}
 
 4. **Customer Insights** (45 seconds): Key insights from customer conversations
-   ${customerInsights ? `Customer feedback: ${customerInsights.substring(0, 400)}` : 'No customer conversations yet.'}
+   ${customerInsights ? `Customer feedback:\n${customerInsights.substring(0, 800)}` : 'No customer conversations yet.'}
 
 5. **Action Plan** (30 seconds): Summary of the automation schedule
    ${scheduleSummary || 'No schedule generated yet.'}
@@ -855,8 +1439,7 @@ Write this as a natural, conversational script that sounds like a professional a
 Make it engaging, clear, and actionable. Write in a tone that's professional but conversational - like a smart assistant giving a brief.`;
 
   try {
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
+    const text = await llm.generate({ agent: 'audio-summary', prompt });
     return text.trim();
   } catch (error: any) {
     console.error('Error generating summary text:', error.message);
@@ -885,7 +1468,12 @@ async function listElevenLabsVoices(apiKey: string): Promise<any[]> {
 }
 
 // Helper function to convert text to audio using ElevenLabs
-async function generateAudioFromText(text: string): Promise<Buffer> {
+// The mock provider gets a silent MP3 instead so audio flows work offline
+async function generateAudioFromText(text: string, llm?: LLMClient): Promise<Buffer> {
+  if (llm?.provider === 'mock') {
+    return createSilentMp3(estimateSpeechSeconds(text));
+  }
+
   let apiKey = process.env.ELEVENLABS_API_KEY;
 
   if (!apiKey) {
@@ -950,6 +1538,15 @@ async function generateAudioFromText(text: string): Promise<Buffer> {
 // List available ElevenLabs voices (helper endpoint to find voice IDs)
 app.get('/api/pm/audio-summary/voices', async (req, res) => {
   try {
+    if (getRequestedProvider(req) === 'mock') {
+      return res.json({
+        success: true,
+        data: {
+          voices: [{ voice_id: 'mock-silent', name: 'Silent (mock)', category: 'mock', description: 'Offline stand-in that returns silent audio' }],
+        },
+      });
+    }
+
     const apiKey = process.env.ELEVENLABS_API_KEY;
     console.log('🔑 Checking ELEVENLABS_API_KEY:', apiKey ? `Found (${apiKey.substring(0, 10)}...)` : 'Not found');
     if (!apiKey) {
@@ -1021,9 +1618,11 @@ app.get('/api/pm/calendar/events', async (req, res) => {
 });
 
 // Voice Assistant - Interactive AI assistant that answers questions about workbench data
+// Streams with `Accept: text/event-stream`: `token` events as the answer is written, then `done` with the audio
 app.post('/api/pm/voice-assistant', async (req, res) => {
+  let events: EventStream | null = null;
   try {
-    const { question, strategyData, customerMessages, automationPlan, conversationHistory, sessionId } = req.body;
+    const { question, strategyData, customerMessages, automationPlan, conversationHistory, sessionId, projectId } = req.body;
 
     if (!question) {
       return res.status(400).json({
@@ -1031,8 +1630,15 @@ app.post('/api/pm/voice-assistant', async (req, res) => {
       });
     }
 
+    const target = await projects.forRun(projectId);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
+    const llm = getLLMForRequest(req);
+
     const elevenLabsKey = process.env.ELEVENLABS_API_KEY;
-    if (!elevenLabsKey) {
+    if (!elevenLabsKey && llm.provider !== 'mock') {
       return res.status(400).json({
         error: 'ELEVENLABS_API_KEY is required. Please add it to your .env.local file.'
       });
@@ -1040,14 +1646,11 @@ app.post('/api/pm/voice-assistant', async (req, res) => {
 
     console.log('🤖 Processing question:', question);
 
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      return res.status(500).json({ error: 'GEMINI_API_KEY is required. Please add it to your .env.local file.' });
+    const configError = llm.configurationError();
+    if (configError) {
+      return res.status(500).json({ error: configError });
     }
 
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
-
     // Fetch calendar events if sessionId is provided
     let calendarEvents: any[] = [];
     if (sessionId && tokenStore[sessionId]) {
@@ -1093,13 +1696,9 @@ app.post('/api/pm/voice-assistant', async (req, res) => {
       context += '\n';
     }
 
-    if (customerMessages && customerMessages.length > 0) {
+    const customerInsights = await customerInsightsFor(llm, target.project, customerMessages, 5);
+    if (customerInsights) {
       context += `CUSTOMER INSIGHTS:\n`;
-      const customerInsights = customerMessages
-        .filter((msg: any) => msg.role === 'assistant')
-        .slice(-5)
-        .map((msg: any) => msg.content)
-        .join('\n');
       context += customerInsights + '\n\n';
     }
 
@@ -1148,19 +1747,26 @@ Instructions:
 
 Answer:`;
 
-    const result = await model.generateContent(prompt);
-    const answerText = result.response.text();
+    events = wantsEventStream(req) ? openEventStream(res) : null;
+    const answerText = await generateReply(llm, { agent: 'voice-assistant', prompt }, {}, events);
 
     console.log('💬 Generated answer:', answerText);
 
     // Convert answer to audio using ElevenLabs
     console.log('🎙️ Converting answer to audio...');
-    const audioBuffer = await generateAudioFromText(answerText);
+    const audioBuffer = await generateAudioFromText(answerText, llm);
+
+    if (target.project) {
+      await projects.appendMessages(target.project.id, 'voiceMessages', [
+        { role: 'user', content: String(question) },
+        { role: 'assistant', content: answerText },
+      ]);
+    }
 
     // Return audio as base64
     const audioBase64 = audioBuffer.toString('base64');
 
-    res.json({
+    const body = {
       success: true,
       data: {
         answer: answerText,
@@ -1176,9 +1782,19 @@ Answer:`;
           output: 'Generated voice response',
         },
       ],
-    });
-  } catch (error: any) {
+    };
+    if (events) {
+      return events.done(body);
+    }
+    res.json(body);
+  } catch (error: any) {
+    if (events?.signal.aborted) {
+      return console.log('⏹️ Voice assistant answer cancelled by the client');
+    }
     console.error('Voice assistant error:', error);
+    if (events) {
+      return events.fail(error.message);
+    }
     res.status(500).json({ error: error.message });
   }
 });
@@ -1186,7 +1802,7 @@ Answer:`;
 // Audio Summary Endpoint - Generate audio summary of PM Workbench (legacy, kept for compatibility)
 app.post('/api/pm/audio-summary', async (req, res) => {
   try {
-    const { strategyData, customerMessages, automationPlan } = req.body;
+    const { strategyData, customerMessages, automationPlan, projectId } = req.body;
 
     if (!strategyData && (!customerMessages || customerMessages.length === 0) && (!automationPlan || automationPlan.length === 0)) {
       return res.status(400).json({
@@ -1194,9 +1810,15 @@ app.post('/api/pm/audio-summary', async (req, res) => {
       });
     }
 
+    const target = await projects.forRun(projectId);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
+    const llm = getLLMForRequest(req);
     const elevenLabsKey = process.env.ELEVENLABS_API_KEY;
     console.log('🔑 Checking ELEVENLABS_API_KEY for audio summary:', elevenLabsKey ? `Found (${elevenLabsKey.substring(0, 10)}...)` : 'Not found');
-    if (!elevenLabsKey) {
+    if (!elevenLabsKey && llm.provider !== 'mock') {
       return res.status(400).json({
         error: 'ELEVENLABS_API_KEY is required. Please add it to your .env.local file. Format: ELEVENLABS_API_KEY=your_key_here (no spaces, no quotes). Then restart the server.'
       });
@@ -1206,15 +1828,25 @@ app.post('/api/pm/audio-summary', async (req, res) => {
 
     // Generate summary text using AI
     const summaryText = await generateAudioSummaryText(
+      llm,
       strategyData || {},
-      customerMessages || [],
+      await customerInsightsFor(llm, target.project, customerMessages, 5),
       automationPlan || []
     );
 
     console.log('📝 Summary text generated, converting to audio...');
 
     // Convert to audio using ElevenLabs
-    const audioBuffer = await generateAudioFromText(summaryText);
+    const audioBuffer = await generateAudioFromText(summaryText, llm);
+
+    // Kept with the project so it can be replayed later without regenerating
+    if (target.project) {
+      const sha256 = crypto.createHash('sha256').update(audioBuffer).digest('hex');
+      await blobs.put(sha256, audioBuffer);
+      await projects.saveWork(target.project.id, {
+        audioSummary: { summaryText, sha256, createdAt: new Date().toISOString() },
+      });
+    }
 
     // Return audio as base64 or send as file
     const audioBase64 = audioBuffer.toString('base64');
@@ -1248,36 +1880,55 @@ app.post('/api/pm/audio-summary', async (req, res) => {
 });
 
 // Risk scoring with document analysis
-app.post('/api/risk-score', async (req, res) => {
-  const data = req.body;
+// An onboarding form as the wizard posts it; like the risk inputs, any field may be missing
+interface OnboardingSubmission extends RiskSubmission {
+  companyName?: unknown;
+  contactEmail?: unknown;
+  ein?: unknown;
+  uploadedFiles?: unknown;
+}
 
-  // For document analysis, prefer Gemini (has better multimodal support)
-  // But fall back to other providers if Gemini is not available
-  let useGeminiForDocuments = false;
-  if (data.uploadedFiles && data.uploadedFiles.length > 0 && process.env.GEMINI_API_KEY) {
-    useGeminiForDocuments = true;
-  }
+// Score an onboarding submission: offline document checks, the LLM review when available, then the rules engine
+async function assessSubmission(req: Request, data: OnboardingSubmission): Promise<RiskAssessment> {
+  const input = toRiskInput(data);
+  const files: AnalysisFile[] = Array.isArray(data.uploadedFiles) ? data.uploadedFiles : [];
 
-  try {
-    let text: string;
+  // Files are read offline first, so their findings count even when no model is configured
+  const documentAnalyses = files.map(analyzeDocument);
 
-    if (useGeminiForDocuments) {
-      // Use Gemini for document analysis (better multimodal support)
-      try {
-        const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-        const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+  // The rules engine always scores; the LLM's review is one bounded factor (see server/riskEngine.ts)
+  let ai: AISignal | null = null;
+  let aiError: string | undefined;
 
-        const parts: any[] = [{
-          text: `You are a risk analyst. Analyze this vendor/client onboarding data and uploaded documents.
+  try {
+    const llm = getLLMForRequest(req);
+    const configError = llm.configurationError();
+    if (configError) {
+      throw new Error(configError);
+    }
 
-Company: ${data.companyName} (${data.companyType})
-Country: ${data.country}
+    const context = `Company: ${data.companyName} (${input.companyType})
+Country: ${input.country || 'Not specified'}
 Contact: ${data.contactEmail}
 EIN: ${data.ein}
-Has Security Controls: ${data.hasControls ? 'Yes' : 'No'}
-Handles PII: ${data.hasPII ? 'Yes' : 'No'}
-Document Checklist: ${data.documents?.join(', ') || 'None'}
-Uploaded Files: ${data.uploadedFiles?.length || 0}
+Security Controls: IAM ${input.controls.iam ? 'Yes' : 'No'}, Encryption ${input.controls.encryption ? 'Yes' : 'No'}, Logging ${input.controls.logging ? 'Yes' : 'No'}, Network ${input.controls.network ? 'Yes' : 'No'}
+Handles PII: ${input.hasPII ? 'Yes' : 'No'}
+Document Checklist: ${input.documents.join(', ') || 'None'}
+Uploaded Files: ${files.length}${documentAnalyses.length > 0 ? `
+Extracted Document Findings:
+${describeAnalyses(documentAnalyses)}` : ''}`;
+
+    const responseFormat = `Return ONLY a JSON object: {"riskLevel": "LOW" | "MEDIUM" | "HIGH", "reasons": ["3-5 specific, actionable reasons"]}`;
+
+    // Send documents inline only when the provider can read them (e.g. PDFs on Gemini)
+    let analyzeDocuments = files.length > 0 && llm.supportsDocuments;
+    let text: string;
+
+    if (analyzeDocuments) {
+      try {
+        const prompt = `You are a risk analyst. Analyze this vendor/client onboarding data and uploaded documents.
+
+${context}
 
 ANALYZE THE UPLOADED DOCUMENTS. Look for:
 - Insurance coverage amounts and expiry dates
@@ -1287,101 +1938,396 @@ ANALYZE THE UPLOADED DOCUMENTS. Look for:
 - W9 accuracy and completeness
 - Any red flags or compliance gaps
 
-Return risk level (LOW/MEDIUM/HIGH) and 3-5 specific, actionable reasons based on the documents and data provided.`
-        }];
-
-        // Add documents as images
-        for (const file of data.uploadedFiles) {
-          parts.push({
-            inlineData: {
-              mimeType: file.type || 'application/pdf',
-              data: file.base64
-            }
-          });
-        }
+${responseFormat}`;
 
-        const result = await model.generateContent(parts);
-        text = result.response.text();
+        text = await llm.generate({
+          agent: 'risk-score',
+          prompt,
+          attachments: files.map(file => ({
+            mimeType: file.type || 'application/pdf',
+            data: file.base64,
+          })),
+        }, { json: true });
       } catch (error: any) {
-        console.warn('Gemini document analysis failed, falling back to text-only:', error.message);
-        useGeminiForDocuments = false;
+        console.warn(`${llm.provider} document analysis failed, falling back to text-only:`, error.message);
+        analyzeDocuments = false;
       }
     }
 
-    if (!useGeminiForDocuments) {
-      // Use Gemini for text-only analysis
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (!apiKey) {
-        throw new Error('GEMINI_API_KEY is required for risk analysis');
-      }
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+    if (!analyzeDocuments) {
       const prompt = `You are a risk analyst. Analyze this vendor/client onboarding data.
 
-Company: ${data.companyName} (${data.companyType})
-Country: ${data.country}
-Contact: ${data.contactEmail}
-EIN: ${data.ein}
-Has Security Controls: ${data.hasControls ? 'Yes' : 'No'}
-Handles PII: ${data.hasPII ? 'Yes' : 'No'}
-Document Checklist: ${data.documents?.join(', ') || 'None'}
-Uploaded Files: ${data.uploadedFiles?.length || 0}
+${context}
 
-Return risk level (LOW/MEDIUM/HIGH) and 3-5 specific, actionable reasons based on the data provided.`;
+${responseFormat}`;
 
-      const result = await model.generateContent(prompt);
-      text = result.response.text();
+      text = await llm.generate({ agent: 'risk-score', prompt }, { json: true });
     }
 
     console.log('Risk analysis result:', text);
 
-    // Parse response
-    const riskLevel = text.includes('HIGH') ? 'HIGH' : text.includes('MEDIUM') ? 'MEDIUM' : 'LOW';
-    const reasons = text.split('\n')
-      .filter(l => l.trim().startsWith('-') || l.trim().match(/^\d+\./))
-      .map(l => l.trim().replace(/^[-\d+.]\s*/, ''))
-      .filter(r => r.length > 0)
-      .slice(0, 5);
+    ai = parseAISignal(parseModelJson(text));
+    if (!ai) {
+      throw new Error('Response did not include a valid riskLevel');
+    }
+  } catch (err: any) {
+    console.error('❌ Risk analysis error:', err.message);
+    aiError = `AI analysis failed: ${err.message}`;
+  }
 
+  const assessment = {
+    ...scoreRisk(input, await getActiveRiskPolicy(riskPolicies), ai || undefined, evidenceFactors(documentAnalyses)),
+    documentAnalyses,
+  };
+  return aiError ? { ...assessment, error: aiError } : assessment;
+}
+
+app.post('/api/risk-score', requireRole('analyst', 'manager', 'admin'), async (req, res) => {
+  try {
+    res.json(await assessSubmission(req, req.body));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Risk policy (see server/riskPolicy.ts)
+app.get('/api/risk-policy', async (req, res) => {
+  try {
+    res.json(await getActiveRiskPolicy(riskPolicies));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+app.get('/api/risk-policy/versions', async (req, res) => {
+  try {
+    res.json(await listRiskPolicies(riskPolicies));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Validate a draft and show what would change, without saving
+app.post('/api/risk-policy/preview', requireRole('admin'), async (req, res) => {
+  try {
+    const active = await getActiveRiskPolicy(riskPolicies);
+    const { data, violations } = validateRiskPolicy(req.body.policy);
     res.json({
-      riskLevel,
-      reasons: reasons.length > 0 ? reasons : ['Analysis complete based on submitted data'],
-      score: riskLevel === 'HIGH' ? 85 : riskLevel === 'MEDIUM' ? 55 : 25
+      valid: !!data,
+      violations,
+      changes: data ? diffRiskPolicies(active, data) : [],
+      baseVersion: active.version,
     });
-  } catch (err: any) {
-    console.error('❌ Risk analysis error:', err.message);
-    const score = calculateFallbackScore(data);
-    res.json({ ...score, error: `AI analysis failed: ${err.message}` });
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
   }
 });
 
-function calculateFallbackScore(data: any) {
-  let score = 20;
-  if (data.hasPII) score += 30;
-  if (!data.hasControls) score += 25;
-  if (data.country !== 'USA') score += 15;
+app.post('/api/risk-policy', requireRole('admin'), async (req, res) => {
+  try {
+    const { policy, note, baseVersion } = req.body;
+    const active = await getActiveRiskPolicy(riskPolicies);
 
-  const riskLevel = score > 70 ? 'HIGH' : score > 40 ? 'MEDIUM' : 'LOW';
-  return { riskLevel, reasons: ['Rule-based fallback'], score };
+    // Reject saves made against an outdated copy so one editor can't silently undo another
+    if (baseVersion !== undefined && baseVersion !== active.version) {
+      return res.status(409).json({
+        error: `Risk policy has changed since you loaded it (now v${active.version}). Reload and re-apply your edits.`,
+      });
+    }
+
+    const { data, violations } = validateRiskPolicy(policy);
+    if (!data) {
+      return res.status(400).json({ error: 'Risk policy is invalid', violations });
+    }
+
+    const changes = diffRiskPolicies(active, data);
+    if (changes.length === 0) {
+      return res.status(400).json({ error: 'Risk policy has no changes to save' });
+    }
+
+    const saved = await createRiskPolicyVersion(riskPolicies, data, req.user!.username, note);
+    await recordAudit({
+      entityId: saved.id,
+      action: 'risk_policy_updated',
+      user: saved.createdBy,
+      details: `${changes.length} change(s): ${changes.map(change => change.path).join(', ')}${note ? ` - ${note}` : ''}`,
+    });
+
+    console.log(`📐 Risk policy v${saved.version} saved (${changes.length} changes)`);
+    res.json(saved);
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Entity fields only the server writes: the approval record belongs to the workflow endpoints, the score
+// to the risk engine and the review dates to the scheduler, whatever a client sends on create or edit
+const SERVER_OWNED_FIELDS = [
+  'id', 'mergedIds', 'approval', 'createdAt', 'lastUpdated',
+  'riskLevel', 'riskScore', 'riskFactors', 'compliance', 'riskPolicyVersion', 'riskEscalation',
+  'lastReviewedAt', 'nextReviewDate',
+];
+
+function clientEntityFields(body: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(body || {}).filter(([field]) => !SERVER_OWNED_FIELDS.includes(field)));
 }
 
+// Apply a validated patch to an entity: re-score when risk inputs change, then record
+// the new version and the audit events. Used by entity edits and document uploads.
+// `review` is the full assessment from a periodic re-assessment, which replaces the stored
+// score outright and starts the next review cycle
+async function applyEntityUpdate(
+  existing: Entity,
+  patch: Record<string, unknown>,
+  user: string,
+  reason: string | null,
+  review: RiskAssessment | null = null
+) {
+  const merged = { ...existing, ...patch };
+  const policy = await getActiveRiskPolicy(riskPolicies);
+  // Reactivation always takes a fresh score, which routes the entity through approval again
+  const reactivating = existing.status === 'Decommissioned' && merged.status !== 'Decommissioned';
+  const rescore = review
+    ? { assessment: review, ...escalationFor(existing, review, user) }
+    : reactivating || RISK_INPUT_FIELDS.some(field => JSON.stringify(merged[field]) !== JSON.stringify(existing[field]))
+      ? rescoreEntity(merged, policy, user)
+      : null;
+
+  // A new risk level moves the next review onto that level's cadence
+  const now = new Date().toISOString();
+  const riskLevel = rescore ? rescore.assessment.riskLevel : existing.riskLevel;
+  // Reactivation routes afresh; a pending entity whose new level belongs to another queue moves there
+  const routing = reactivating
+    ? routeReactivation(existing, riskLevel, now)
+    : rescore ? reroutePending(existing, riskLevel, now) : null;
+  const schedule = review
+    ? { lastReviewedAt: now, nextReviewDate: nextReviewDate(now, riskLevel, policy) }
+    : routing
+      ? { nextReviewDate: routing.status === 'Approved' ? nextReviewDate(now, riskLevel, policy) : undefined }
+      : existing.nextReviewDate && riskLevel !== existing.riskLevel
+        ? { nextReviewDate: nextReviewDate(reviewCycleStart(existing), riskLevel, policy) }
+        : {};
+
+  const entity = await entities.update(existing.id, {
+    ...patch,
+    ...(rescore ? {
+      riskLevel: rescore.assessment.riskLevel,
+      riskScore: rescore.assessment.score,
+      riskFactors: rescore.assessment.factors,
+      compliance: rescore.assessment.compliance,
+      riskPolicyVersion: rescore.assessment.policyVersion,
+      riskEscalation: rescore.escalation,
+    } : {}),
+    ...routing,
+    ...schedule,
+    lastUpdated: now,
+  });
 
-// In-memory storage
-const entities: any[] = [];
-const auditEvents: any[] = [];
+  const changes = diffEntityFields(existing, entity);
+  if (changes.length > 0) {
+    const action: EntityVersionAction =
+      review ? 'reviewed'
+        : (entity.mergedIds || []).length > (existing.mergedIds || []).length ? 'merged'
+        : entity.status === 'Decommissioned' && existing.status !== 'Decommissioned' ? 'decommissioned'
+          : existing.status === 'Decommissioned' && entity.status !== 'Decommissioned' ? 'reactivated'
+            : 'updated';
+    const why = reason?.trim() || (action === 'decommissioned' ? entity.decommissionReason : null);
+    await entityHistory.record(entity, existing, { action, changedBy: user, reason: why });
+
+    if (action === 'merged') {
+      await recordAudit({ entityId: entity.id, action: 'entity_merged', user, details: why || 'Merged a duplicate' });
+    } else if (action === 'reviewed') {
+      await recordAudit({ entityId: entity.id, action: 'review_completed', user, details: `Re-assessed as ${entity.riskLevel} (score ${entity.riskScore}), next review ${entity.nextReviewDate}${why ? ` - ${why}` : ''}` });
+    } else if (action === 'decommissioned') {
+      await recordAudit({ entityId: entity.id, action: 'entity_decommissioned', user, details: `Decommissioned: ${why || 'no reason given'}` });
+    } else if (action === 'reactivated') {
+      await recordAudit({ entityId: entity.id, action: 'entity_reactivated', user, details: `Entity reactivated as ${entity.status}${why ? ` - ${why}` : ''}` });
+    } else {
+      await recordAudit({ entityId: entity.id, action: 'entity_edited', user, details: `Changed: ${changes.map(change => change.field).join(', ')}${why ? ` - ${why}` : ''}` });
+    }
+    if (routing?.approval.queue) {
+      await recordAudit({
+        entityId: entity.id,
+        action: 'approval_requested',
+        user,
+        details: `${entity.riskLevel} risk - routed to ${routing.approval.queue === 'manager' ? 'manager review' : 'risk committee'}`,
+      });
+    }
+  }
+
+  if (rescore) {
+    const { assessment, escalated } = rescore;
+    await recordAudit({
+      entityId: entity.id,
+      action: escalated ? 'risk_escalated' : 'risk_rescored',
+      user,
+      details: `Score ${existing.riskScore ?? 'n/a'} → ${assessment.score}, ${existing.riskLevel} → ${assessment.riskLevel}, compliance ${existing.compliance} → ${assessment.compliance} (policy v${assessment.policyVersion})`,
+    });
+    if (escalated) {
+      console.log(`⚠️  ${entity.name} escalated ${existing.riskLevel} → ${assessment.riskLevel}`);
+    }
+  }
+
+  return entity;
+}
+
+// Give live entities a review date if they lack one, open a task for each review coming due,
+// and cancel tasks for entities that are no longer live
+async function runReviewCheck(): Promise<{ scheduled: number; opened: number; cancelled: number }> {
+  const policy = await getActiveRiskPolicy(riskPolicies);
+  let scheduled = 0;
+  let opened = 0;
+  let cancelled = 0;
+
+  for (const entity of await entities.list()) {
+    const openTask = await reviewTasks.findOpen(entity.id);
+    if (!isReviewed(entity)) {
+      if (openTask) {
+        await reviewTasks.cancel(openTask);
+        cancelled++;
+      }
+      continue;
+    }
+
+    let current = entity;
+    if (!current.nextReviewDate) {
+      current = await entities.update(entity.id, { nextReviewDate: nextReviewDate(reviewCycleStart(entity), entity.riskLevel, policy) });
+      scheduled++;
+    }
+
+    if (!openTask && isReviewOpening(current)) {
+      const task = await reviewTasks.open(current);
+      await recordAudit({
+        entityId: current.id,
+        action: 'review_opened',
+        user: 'system',
+        details: `${task.riskLevel} risk periodic review due ${task.dueDate}`,
+      });
+      opened++;
+    }
+  }
+
+  if (scheduled + opened + cancelled > 0) {
+    console.log(`🗓️  Review scheduler: ${scheduled} scheduled, ${opened} opened, ${cancelled} cancelled`);
+  }
+  return { scheduled, opened, cancelled };
+}
+
+// Report each document once per expiry window, and take lapsed documents off the
+// entity's checklist so the re-score downgrades its compliance
+async function runExpiryCheck(): Promise<{ notices: number; lapsed: number }> {
+  let notices = 0;
+  let lapsed = 0;
+
+  for (const { document, bucket, daysLeft } of findRenewals(await documentVault.list())) {
+    if (!isMoreUrgent(bucket, document.expiryNotice)) {
+      continue;
+    }
+    const entity = await entities.get(document.entityId);
+    if (!entity) {
+      continue;
+    }
+
+    await documentVault.setExpiryNotice(document.id, bucket);
+    await recordAudit({
+      entityId: entity.id,
+      action: bucket === 'expired' ? 'document_expired' : 'document_expiring',
+      user: 'system',
+      details: describeExpiry(document, daysLeft),
+    });
+    notices++;
+
+    const checklist: string[] = entity.documents || [];
+    if (bucket === 'expired' && checklist.includes(document.type)) {
+      await applyEntityUpdate(
+        entity,
+        { documents: checklist.filter(type => type !== document.type) },
+        'system',
+        `${document.type} expired on ${document.expiryDate}`
+      );
+      lapsed++;
+    }
+  }
+
+  if (notices > 0) {
+    console.log(`📅 Document expiry check: ${notices} notice(s), ${lapsed} lapsed`);
+  }
+  return { notices, lapsed };
+}
 
 // Entities
+// Ids are random so concurrent creates never collide; clients cannot choose them
+const newEntityId = () => `entity-${crypto.randomUUID()}`;
+
 app.get('/api/entities', async (req, res) => {
   try {
-    res.json(entities);
+    const { page, error } = listEntities(await entities.list(), req.query);
+    if (!page) {
+      return res.status(400).json({ error });
+    }
+    res.json(page);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// Exports take the list filters and sort plus `format` (csv, jsonl or xlsx) and return every match.
+// The matching rows are read and sorted in memory, as the store already holds them there (see
+// server/storage.ts); only the output is streamed, written row by row as the client takes it.
+async function sendExport<T>(
+  res: express.Response,
+  format: unknown,
+  name: string,
+  rows: T[],
+  columns: ExportColumn<T>[]
+) {
+  if (!isExportFormat(format)) {
+    return res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+  }
+  res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${name}-${new Date().toISOString().slice(0, 10)}.${format}"`);
+  await writeExport(res, format, rows, columns, name);
+  res.end();
+}
+
+app.get('/api/entities/export', async (req, res) => {
+  try {
+    const { matching, query, error } = filterEntities(await entities.list(), req.query);
+    if (!query) {
+      return res.status(400).json({ error });
+    }
+    await sendExport(res, req.query.format || 'csv', 'entities', sortRows(matching, query, ENTITY_SORT_KEYS), ENTITY_EXPORT_COLUMNS);
+  } catch (error: unknown) {
+    if (res.headersSent) {
+      return res.destroy(error as Error);
+    }
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Possible duplicates of a company before it is onboarded, or of an entity (`excludeId`) already on file
+app.get('/api/entities/duplicates', async (req, res) => {
+  try {
+    const field = (name: string) => (typeof req.query[name] === 'string' ? String(req.query[name]).trim() : '');
+    const probe = { name: field('name'), ein: field('ein'), contactEmail: field('contactEmail') };
+    if (!probe.name && !probe.ein && !probe.contactEmail) {
+      return res.status(400).json({ error: 'Give a name, ein or contactEmail to check' });
+    }
+    res.json(findDuplicateEntities(probe, await entities.list(), field('excludeId') || undefined));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// A merged duplicate's id resolves to the entity it was merged into, so old links keep working
+async function findEntity(id: string) {
+  const all = await entities.list();
+  return all.find(entity => entity.id === id) || all.find(entity => (entity.mergedIds || []).includes(id));
+}
+
 app.get('/api/entities/:id', async (req, res) => {
   try {
-    const entity = entities.find(e => e.id === req.params.id);
+    const entity = await findEntity(req.params.id);
     if (!entity) {
       return res.status(404).json({ error: 'Entity not found' });
     }
@@ -1391,63 +2337,510 @@ app.get('/api/entities/:id', async (req, res) => {
   }
 });
 
-app.post('/api/entities', async (req, res) => {
+app.get('/api/entities/:id/history', async (req, res) => {
   try {
-    const entity = {
-      id: `entity-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      lastUpdated: new Date().toISOString(),
-      ...req.body
-    };
-    entities.push(entity);
-    res.json(entity);
+    const entity = await findEntity(req.params.id);
+    if (!entity) {
+      return res.status(404).json({ error: 'Entity not found' });
+    }
+    res.json(await entityHistory.listWithMerged(entity));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+app.post('/api/entities', requireRole('analyst', 'manager', 'admin'), async (req, res) => {
+  try {
+    const { allowDuplicate, ...fields } = clientEntityFields(req.body);
+    // Likely duplicates need an explicit go-ahead, which the wizard asks for in Step 1
+    if (allowDuplicate !== true) {
+      const duplicates = findDuplicateEntities(fields, await entities.list());
+      if (duplicates.length > 0) {
+        const [first] = duplicates;
+        return res.status(409).json({
+          error: `Possible duplicate of ${first.entityName} (${describeReasons(first.reasons)})`,
+          duplicates,
+        });
+      }
+    }
+
+    // The score is the server's own, against the active policy; files are analysed here and kept in the vault, not on the entity
+    const { uploadedFiles, ...attributes } = fields;
+    const assessment = await assessSubmission(req, { ...attributes, companyName: attributes.name, uploadedFiles });
+    const now = new Date().toISOString();
+    const { riskLevel } = assessment;
+    // Status comes from the approval workflow, never from the client (see server/approvals.ts)
+    const { status, approval } = routeEntity(riskLevel, now);
+    // The review clock starts once the relationship is approved
+    const policy = await getActiveRiskPolicy(riskPolicies);
+
+    const entity = await entities.insert({
+      id: newEntityId(),
+      createdAt: now,
+      lastUpdated: now,
+      ...attributes,
+      owner: attributes.owner || req.user!.username,
+      riskLevel,
+      riskScore: assessment.score,
+      riskFactors: assessment.factors,
+      compliance: assessment.compliance,
+      riskPolicyVersion: assessment.policyVersion,
+      status,
+      approval,
+      nextReviewDate: status === 'Approved' ? nextReviewDate(now, riskLevel, policy) : undefined,
+    } as Entity);
+    await entityHistory.record(entity, null, { action: 'created', changedBy: req.user!.username, reason: 'Onboarded' });
+
+    await recordAudit({
+      entityId: entity.id,
+      action: 'onboarding_complete',
+      user: req.user!.username,
+      details: `Risk: ${riskLevel} (score ${entity.riskScore}, policy v${entity.riskPolicyVersion})`,
+    });
+    await recordAudit({
+      entityId: entity.id,
+      action: approval.queue ? 'approval_requested' : 'auto_approved',
+      user: req.user!.username,
+      details: approval.queue
+        ? `${riskLevel} risk - routed to ${approval.queue === 'manager' ? 'manager review' : 'risk committee'}`
+        : `${riskLevel} risk - auto-approved`,
+    });
+
+    res.json({ entity, assessment });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-app.put('/api/entities/:id', async (req, res) => {
+// Bulk import from a CSV/XLSX register. The preview validates and scores every row without
+// writing anything; the import re-reads the same file and creates the rows without errors.
+app.post('/api/entities/import/preview', requireRole('analyst', 'manager', 'admin'), async (req, res) => {
   try {
-    const index = entities.findIndex(e => e.id === req.params.id);
-    if (index === -1) {
+    const { preview, error } = prepareImport(req.body, await entities.list(), await getActiveRiskPolicy(riskPolicies));
+    if (!preview) {
+      return res.status(400).json({ error });
+    }
+    res.json(preview);
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+app.post('/api/entities/import', requireRole('analyst', 'manager', 'admin'), async (req, res) => {
+  try {
+    const policy = await getActiveRiskPolicy(riskPolicies);
+    const { preview, drafts, error } = prepareImport(req.body, await entities.list(), policy);
+    if (!preview) {
+      return res.status(400).json({ error });
+    }
+
+    for (const draft of drafts) {
+      const now = new Date().toISOString();
+      const { assessment } = draft;
+      const { status, approval } = routeEntity(assessment.riskLevel, now);
+      const entity = await entities.insert({
+        id: newEntityId(),
+        name: draft.name,
+        type: draft.type,
+        ein: draft.ein,
+        country: draft.country,
+        contactEmail: draft.contactEmail,
+        owner: draft.owner || req.user!.username,
+        documents: draft.documents,
+        controls: draft.controls,
+        hasControls: Object.values(draft.controls).every(Boolean),
+        hasPII: draft.hasPII,
+        riskLevel: assessment.riskLevel,
+        compliance: assessment.compliance,
+        riskScore: assessment.score,
+        riskFactors: assessment.factors,
+        riskPolicyVersion: assessment.policyVersion,
+        createdAt: now,
+        lastUpdated: now,
+        status,
+        approval,
+        nextReviewDate: status === 'Approved' ? nextReviewDate(now, assessment.riskLevel, policy) : undefined,
+      });
+      const source = `${preview.fileName} row ${draft.row.row}`;
+      await entityHistory.record(entity, null, { action: 'created', changedBy: req.user!.username, reason: `Imported from ${source}` });
+      await recordAudit({
+        entityId: entity.id,
+        action: 'entity_imported',
+        user: req.user!.username,
+        details: `From ${source} - Risk: ${assessment.riskLevel} (score ${assessment.score}, policy v${assessment.policyVersion}) - ${
+          approval.queue ? `routed to ${approval.queue === 'manager' ? 'manager review' : 'risk committee'}` : 'auto-approved'
+        }`,
+      });
+      draft.row.entityId = entity.id;
+      draft.row.status = entity.status;
+    }
+
+    console.log(`📥 Imported ${drafts.length} of ${preview.rows.length} rows from ${preview.fileName}`);
+    res.json({ ...preview, created: drafts.length });
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+app.put('/api/entities/:id', requireRole('analyst', 'manager', 'admin'), async (req, res) => {
+  try {
+    const existing = await findEntity(req.params.id);
+    if (!existing) {
       return res.status(404).json({ error: 'Entity not found' });
     }
-    entities[index] = {
-      ...entities[index],
-      ...req.body,
-      lastUpdated: new Date().toISOString(),
-    };
-    res.json(entities[index]);
+
+    // `reason` explains the change
+    const { reason, ...patch } = clientEntityFields(req.body);
+    if (patch.status !== undefined) {
+      if (!isEntityStatus(patch.status)) {
+        return res.status(400).json({ error: `Status must be one of: ${ENTITY_STATUSES.join(', ')}` });
+      }
+      const statusError = checkDirectStatusChange(existing.status, patch.status);
+      if (statusError) {
+        return res.status(409).json({ error: statusError });
+      }
+    }
+
+    res.json(await applyEntityUpdate(existing, patch, req.user!.username, typeof reason === 'string' ? reason : null));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Folds a duplicate (`sourceId`) into this entity: its documents move over, the checklist is combined,
+// blank company fields are filled in and the duplicate is removed. Its history and audit events keep
+// the old id - the audit log is hash-chained - and are read back through the survivor's mergedIds.
+app.post('/api/entities/:id/merge', requireRole('manager', 'admin'), async (req, res) => {
+  try {
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+    if (!reason) {
+      return res.status(400).json({ error: 'A reason for the merge is required' });
+    }
+    const survivor = await findEntity(req.params.id);
+    if (!survivor) {
+      return res.status(404).json({ error: 'Entity not found' });
+    }
+    const source = await findEntity(String(req.body.sourceId));
+    if (!source) {
+      return res.status(404).json({ error: 'Duplicate entity not found' });
+    }
+    if (source.id === survivor.id) {
+      return res.status(400).json({ error: 'An entity cannot be merged into itself' });
+    }
+
+    // The survivor takes the duplicate's details first; only then is the duplicate emptied and removed,
+    // so a failed update leaves both entities as they were
+    const documentCount = (await documentVault.list(source.id)).length;
+    const filled = ['ein', 'country', 'contactEmail', 'owner'].filter(field => !survivor[field] && source[field]);
+    const entity = await applyEntityUpdate(
+      survivor,
+      {
+        ...Object.fromEntries(filled.map(field => [field, source[field]])),
+        documents: Array.from(new Set([...(survivor.documents || []), ...(source.documents || [])])),
+        mergedIds: [...(survivor.mergedIds || []), source.id, ...(source.mergedIds || [])],
+      },
+      req.user!.username,
+      `Merged ${source.name} (${source.id}) with ${documentCount} document(s) - ${reason}`
+    );
+
+    const movedDocuments = await documentVault.reassign(source.id, survivor.id);
+    const openTask = await reviewTasks.findOpen(source.id);
+    if (openTask) {
+      await reviewTasks.cancel(openTask);
+    }
+    await entities.remove(source.id);
+
+    res.json({ entity, movedDocuments });
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Documents
+app.get('/api/entities/:id/documents', async (req, res) => {
+  try {
+    const entity = await findEntity(req.params.id);
+    if (!entity) {
+      return res.status(404).json({ error: 'Entity not found' });
+    }
+    res.json(await documentVault.list(entity.id));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+app.post('/api/entities/:id/documents', requireRole('analyst', 'manager', 'admin'), async (req, res) => {
+  try {
+    const entity = await findEntity(req.params.id);
+    if (!entity) {
+      return res.status(404).json({ error: 'Entity not found' });
+    }
+
+    const user = req.user!.username;
+    const { document, error } = await documentVault.upload(entity.id, req.body, user);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    await recordAudit({
+      entityId: entity.id,
+      action: 'document_uploaded',
+      user,
+      details: `${document.type} v${document.version}: ${document.fileName} (sha256 ${document.sha256.slice(0, 12)}…)${document.expiryDate ? `, expires ${document.expiryDate}` : ''}`,
+    });
+
+    // A valid typed document on file ticks the matching checklist item, which re-scores the entity
+    const checklist: string[] = entity.documents || [];
+    const lapsed = document.expiryDate && daysUntil(document.expiryDate) < 0;
+    if (document.type !== 'Other' && !lapsed && !checklist.includes(document.type)) {
+      await applyEntityUpdate(entity, { documents: [...checklist, document.type] }, user, `${document.type} uploaded`);
+    }
+
+    res.status(201).json(document);
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Periodic reviews (see server/reviewScheduler.ts)
+app.get('/api/reviews', async (req, res) => {
+  try {
+    const { status, entityId } = req.query;
+    if (status !== undefined && !['open', 'completed', 'cancelled'].includes(String(status))) {
+      return res.status(400).json({ error: 'status must be "open", "completed" or "cancelled"' });
+    }
+    res.json(await reviewTasks.list({
+      status: status as ReviewTask['status'] | undefined,
+      entityId: typeof entityId === 'string' ? entityId : undefined,
+    }));
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+app.post('/api/reviews/check', requireRole('admin'), async (req, res) => {
+  try {
+    res.json(await runReviewCheck());
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Re-assess a live entity from a resubmitted onboarding form; closes its open review task
+app.post('/api/entities/:id/reassess', requireRole('analyst', 'manager', 'admin'), async (req, res) => {
+  try {
+    const existing = await findEntity(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Entity not found' });
+    }
+    if (!isReviewed(existing)) {
+      return res.status(409).json({ error: `Only approved or active entities can be re-assessed (this one is ${existing.status})` });
+    }
+
+    const data = { ...req.body, companyType: req.body.companyType || existing.type };
+    const assessment = await assessSubmission(req, data);
+    const patch = Object.fromEntries(Object.entries({
+      type: data.companyType,
+      country: data.country,
+      contactEmail: data.contactEmail,
+      ein: data.ein,
+      documents: data.documents,
+      controls: data.controls,
+      hasControls: data.hasControls,
+      hasPII: data.hasPII,
+    }).filter(([, value]) => value !== undefined));
+
+    const task = await reviewTasks.findOpen(existing.id);
+    const entity = await applyEntityUpdate(
+      existing,
+      patch,
+      req.user!.username,
+      task ? `Periodic review due ${task.dueDate}` : 'Ad hoc re-assessment',
+      assessment
+    );
+    const completed = task
+      ? await reviewTasks.complete(task, req.user!.username, { fromLevel: existing.riskLevel, toLevel: entity.riskLevel, score: entity.riskScore })
+      : null;
+
+    res.json({ entity, assessment, task: completed });
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+// Renewals: documents expired or expiring within 90 days
+app.get('/api/renewals', async (req, res) => {
+  try {
+    const byId = new Map((await entities.list()).map(entity => [entity.id, entity]));
+    const renewals = findRenewals(await documentVault.list())
+      .filter(renewal => byId.has(renewal.document.entityId))
+      .map(renewal => ({ ...renewal, entityName: byId.get(renewal.document.entityId).name }));
+    res.json(renewals);
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+app.post('/api/renewals/check', requireRole('admin'), async (req, res) => {
+  try {
+    res.json(await runExpiryCheck());
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+app.get('/api/documents/:docId/download', async (req, res) => {
+  try {
+    const document = await documentVault.get(req.params.docId);
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    if (!DOWNLOAD_ROLES[document.type].includes(req.user!.role)) {
+      return res.status(403).json({ error: `Your role cannot download ${document.type} documents` });
+    }
+
+    const content = await documentVault.read(document);
+    await recordAudit({
+      entityId: document.entityId,
+      action: 'document_downloaded',
+      user: req.user!.username,
+      details: `${document.type} v${document.version}: ${document.fileName}`,
+    });
+
+    res.setHeader('Content-Type', document.mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(document.fileName)}"`);
+    res.send(content);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// Approvals
+app.get('/api/approvals', async (req, res) => {
+  try {
+    const { queue } = req.query;
+    if (queue !== undefined && !isApprovalQueue(queue)) {
+      return res.status(400).json({ error: 'queue must be "manager" or "risk_committee"' });
+    }
+
+    // Reviewers only see the queues they can decide
+    const allowed = queuesForRole(req.user!.role);
+    if (isApprovalQueue(queue) && !allowed.includes(queue)) {
+      return res.status(403).json({ error: `Your role cannot review the ${queue} queue` });
+    }
+
+    const statuses = (isApprovalQueue(queue) ? [queue] : allowed).map(q => STATUS_FOR_QUEUE[q]);
+    const pending = (await entities.list())
+      .filter(entity => statuses.includes(entity.status))
+      .sort((a, b) => (a.approval?.requestedAt || a.createdAt).localeCompare(b.approval?.requestedAt || b.createdAt));
+    res.json(pending);
+  } catch (error: unknown) {
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+for (const decision of ['approve', 'reject'] as const) {
+  app.post(`/api/entities/:id/${decision}`, async (req, res) => {
+    try {
+      const entity = await findEntity(req.params.id);
+      if (!entity) {
+        return res.status(404).json({ error: 'Entity not found' });
+      }
+
+      const queue = QUEUE_FOR_STATUS[entity.status as EntityStatus];
+      if (queue && !QUEUE_ROLES[queue].includes(req.user!.role)) {
+        return res.status(403).json({ error: `Only ${QUEUE_ROLES[queue].join(' or ')} can decide entities in the ${queue} queue` });
+      }
+
+      const result = decideApproval(entity, decision, req.body.comment, req.user!.username);
+      if (result.ok === false) {
+        return res.status(result.code).json({ error: result.error });
+      }
+
+      const updated = await entities.update(entity.id, {
+        status: result.status,
+        approval: result.approval,
+        lastUpdated: result.decision.decidedAt,
+        ...(decision === 'approve'
+          ? { nextReviewDate: nextReviewDate(result.decision.decidedAt, entity.riskLevel, await getActiveRiskPolicy(riskPolicies)) }
+          : {}),
+      });
+      await entityHistory.record(updated, entity, {
+        action: decision === 'approve' ? 'approved' : 'rejected',
+        changedBy: result.decision.reviewer,
+        reason: result.decision.comment,
+      });
+
+      await recordAudit({
+        entityId: entity.id,
+        action: decision === 'approve' ? 'approved' : 'rejected',
+        user: result.decision.reviewer,
+        details: `${result.decision.fromStatus} → ${result.decision.toStatus}: ${result.decision.comment}`,
+      });
+
+      console.log(`✅ ${entity.name}: ${result.decision.fromStatus} → ${result.decision.toStatus}`);
+      res.json(updated);
+    } catch (error: unknown) {
+      res.status(500).json({ error: errorMessage(error) });
+    }
+  });
+}
+
 // Audit
-app.get('/api/audit', async (req, res) => {
+// Filtering on an entity also covers the duplicates merged into it
+async function withMergedEntityIds(query: Record<string, unknown>) {
+  const ids = listParam(query.entityId);
+  if (ids.length === 0) {
+    return query;
+  }
+  const all = await entities.list();
+  return { ...query, entityId: ids.flatMap(id => [id, ...(all.find(entity => entity.id === id)?.mergedIds || [])]) };
+}
+
+app.get('/api/audit', requireRole('manager', 'risk_committee', 'admin'), async (req, res) => {
   try {
-    res.json(auditEvents);
+    const { page, error } = listAuditEvents(await auditLog.list(), await withMergedEntityIds(req.query));
+    if (!page) {
+      return res.status(400).json({ error });
+    }
+    res.json(page);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-app.post('/api/audit', async (req, res) => {
+app.get('/api/audit/export', requireRole('manager', 'risk_committee', 'admin'), async (req, res) => {
   try {
-    const event = {
-      id: `audit-${Date.now()}`,
-      timestamp: new Date().toISOString(),
-      entityName: req.body.entityId || 'Unknown',
-      ...req.body
-    };
-    auditEvents.push(event);
-    res.json(event);
+    const { matching, query, error } = filterAuditEvents(await auditLog.list(), await withMergedEntityIds(req.query));
+    if (!query) {
+      return res.status(400).json({ error });
+    }
+    await sendExport(res, req.query.format || 'csv', 'audit-trail', sortRows(matching, query, AUDIT_SORT_KEYS), AUDIT_EXPORT_COLUMNS);
+  } catch (error: unknown) {
+    if (res.headersSent) {
+      return res.destroy(error as Error);
+    }
+    res.status(500).json({ error: errorMessage(error) });
+  }
+});
+
+app.get('/api/audit/verify', requireRole('manager', 'risk_committee', 'admin'), async (req, res) => {
+  try {
+    res.json(await auditLog.verify());
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// Events are recorded by the endpoints that perform each action, never posted by clients
+app.post('/api/audit', (req, res) => {
+  res.status(405).json({ error: 'Audit events are written by the server and cannot be created through the API' });
+});
+
 // Start server
+startExpiryMonitor(async () => { await runExpiryCheck(); }, Number(process.env.EXPIRY_CHECK_INTERVAL_HOURS) || 24);
+startReviewScheduler(async () => { await runReviewCheck(); }, Number(process.env.REVIEW_CHECK_INTERVAL_HOURS) || 24);
+
 app.listen(PORT, () => {
   console.log(`🚀 API server running on http://localhost:${PORT}`);
 });
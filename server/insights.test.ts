@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { ChatMessage, CustomerInsight } from '../src/lib/types';
+import { createInsights, formatInsights, InsightCandidate, similarity, synthesizeInsights } from './insights';
+import type { LLMClient, LLMRequest } from './llm';
+import { createMockClient } from './mockProvider';
+import { DataStore, MemoryDriver } from './storage';
+
+const transcript: ChatMessage[] = [
+  { id: 'msg-1', role: 'user', content: 'How do you report on deliveries today?' },
+  { id: 'msg-2', role: 'assistant', content: 'We copy numbers into spreadsheets every Friday. It takes hours.' },
+  { id: 'msg-3', role: 'user', content: 'Would you pay for automated reports?' },
+  { id: 'msg-4', role: 'assistant', content: 'Maybe $50 a month, if it plugs into our TMS.' },
+  { role: 'assistant', content: 'Unsaved reply' },
+];
+
+// A model that returns `reply` and records each prompt
+function replyingClient(reply: object) {
+  const prompts: string[] = [];
+  const llm: LLMClient = {
+    ...createMockClient(),
+    async generate(request: string | LLMRequest) {
+      prompts.push(typeof request === 'string' ? request : request.prompt);
+      return JSON.stringify(reply);
+    },
+  };
+  return { llm, prompts };
+}
+
+const insight = (id: string, fields: Partial<CustomerInsight>): CustomerInsight => ({
+  id,
+  projectId: 'project-1',
+  type: 'pain_point',
+  summary: id,
+  evidence: [],
+  provider: 'mock',
+  model: 'mock',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...fields,
+});
+
+const evidence = (messageId: string, quote: string) => ({ messageId, sessionId: 'session-1', quote, createdAt: '2026-01-01T00:00:00.000Z' });
+
+describe('synthesizeInsights', () => {
+  it('keeps only quotes found in customer messages and links them to the right message', async () => {
+    const { llm, prompts } = replyingClient({
+      insights: [
+        {
+          type: 'pain_point',
+          summary: 'Manual weekly reporting',
+          existing: 'I1',
+          quotes: [{ message: 'M4', quote: '"We copy numbers into spreadsheets every Friday."' }, { message: 'M2', quote: 'We love it' }],
+        },
+        { type: 'feature_request', summary: 'Automated reports', quotes: [{ message: 'M3', quote: 'Would you pay for automated reports?' }] },
+        { type: 'willingness_to_pay', summary: 'About $50 a month', quotes: [{ message: 'M4', quote: 'Maybe $50 a month' }] },
+        { type: 'praise', summary: 'Likes us', quotes: [{ message: 'M2', quote: 'It takes hours.' }] },
+      ],
+    });
+    const known = [insight('insight-known', { summary: 'Reporting is manual' })];
+    const { candidates, trace } = await synthesizeInsights(llm, transcript, 'session-1', known);
+
+    assert.match(prompts[0], /\[I1\] \(pain_point\) Reporting is manual/);
+    assert.doesNotMatch(prompts[0], /Unsaved reply/);
+    assert.deepEqual(candidates.map(candidate => [candidate.type, candidate.existingId, candidate.evidence.map(e => [e.messageId, e.quote])]), [
+      ['pain_point', 'insight-known', [['msg-2', 'We copy numbers into spreadsheets every Friday.']]],
+      ['willingness_to_pay', null, [['msg-4', 'Maybe $50 a month']]],
+    ]);
+    assert.equal(trace[0].output, '2 insights, 2 quote(s) not found in the transcript dropped');
+  });
+
+  it('makes no model call for a transcript without saved customer messages', async () => {
+    const { llm, prompts } = replyingClient({ insights: [] });
+    assert.deepEqual(await synthesizeInsights(llm, transcript.filter(message => message.role === 'user'), 'session-1', []), { candidates: [], trace: [] });
+    assert.equal(prompts.length, 0);
+  });
+});
+
+describe('similarity', () => {
+  it('compares content words, ignoring stop words and plurals', () => {
+    assert.equal(similarity('Too many tools', 'many tool'), 1);
+    assert.equal(similarity('Pricing is too high', 'Onboarding takes weeks'), 0);
+  });
+});
+
+describe('createInsights', () => {
+  it('adds repeated points to the insight on file and counts each insight once', async () => {
+    const insights = createInsights((await DataStore.open(new MemoryDriver())).collection<CustomerInsight>('insights'));
+    const llm = createMockClient();
+    const candidate = (summary: string, quote: string, fields: Partial<InsightCandidate> = {}): InsightCandidate =>
+      ({ type: 'pain_point', summary, existingId: null, evidence: [evidence('msg-2', quote)], ...fields });
+
+    assert.deepEqual(await insights.merge('project-1', [candidate('Weekly reporting is manual', 'copy numbers')], llm), { created: 1, updated: 0 });
+    const [first] = await insights.list('project-1');
+
+    const result = await insights.merge('project-1', [
+      candidate('Manual weekly reporting', 'takes hours'),
+      candidate('Weekly manual reporting', 'on Fridays'),
+      candidate('Reporting takes hours', 'copy numbers', { existingId: first.id }),
+      candidate('Manual weekly reporting', 'Every Friday', { type: 'objection' }),
+      candidate('Switching is risky', 'new tool'),
+      candidate('Switching tools is risky', 'another new tool'),
+    ], llm);
+    assert.deepEqual(result, { created: 2, updated: 1 });
+
+    const saved = await insights.list('project-1');
+    assert.deepEqual(saved.map(item => [item.summary, item.evidence.length]), [
+      ['Weekly reporting is manual', 3],
+      ['Switching is risky', 2],
+      ['Manual weekly reporting', 1],
+    ]);
+  });
+});
+
+describe('formatInsights', () => {
+  it('groups insights by type with their mentions and first quote', () => {
+    const text = formatInsights([
+      insight('a', { summary: 'Manual reporting', evidence: [evidence('msg-2', 'copy numbers'), { ...evidence('msg-9', 'hours'), sessionId: 'session-2' }] }),
+      insight('b', { type: 'objection', summary: 'Switching cost', evidence: [evidence('msg-4', 'too risky')] }),
+    ]);
+    assert.equal(text, 'Pain points:\n- Manual reporting (2 mentions, 2 sessions): "copy numbers"\n\nObjections:\n- Switching cost: "too risky"');
+    assert.equal(formatInsights([]), '');
+  });
+});
@@ -0,0 +1,267 @@
+import crypto from 'crypto';
+import type { AgentTraceStep, ChatMessage, CustomerInsight, InsightEvidence, InsightType } from '../src/lib/types';
+import { LLMClient, parseModelJson } from './llm';
+import type { ExportColumn } from './registerExport';
+import type { Repository } from './storage';
+
+// Interview synthesis: turns customer-advisory transcripts into tagged insights (pain points, feature
+// requests, objections, willingness-to-pay signals). Each insight rests on verbatim customer quotes linked
+// to their message ids; a quote that can't be found in the transcript is dropped. The same point raised in
+// a later session adds evidence to the insight already on file rather than a second copy.
+
+export const INSIGHT_TYPES: InsightType[] = ['pain_point', 'feature_request', 'objection', 'willingness_to_pay'];
+
+export const INSIGHT_TYPE_LABELS: Record<InsightType, string> = {
+  pain_point: 'Pain points',
+  feature_request: 'Feature requests',
+  objection: 'Objections',
+  willingness_to_pay: 'Willingness to pay',
+};
+
+// Messages per model call, so a long transcript never outgrows the prompt
+const BATCH_SIZE = 30;
+// Recorded insights shown to the model so it can recognise a point it has seen before
+const MAX_KNOWN_INSIGHTS = 40;
+const MAX_QUOTE_LENGTH = 400;
+// Same-type insights whose summaries share this much of their wording are treated as one point
+const SAME_POINT_SIMILARITY = 0.5;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'our', 'their', 'they', 'them',
+  'too', 'very', 'have', 'has', 'not', 'but', 'into', 'about', 'more', 'less', 'its', 'when', 'what', 'want', 'needs', 'need',
+]);
+
+// An insight from one synthesis run, before it is merged into the project's insights
+export interface InsightCandidate {
+  type: InsightType;
+  summary: string;
+  // A recorded insight the model says this is the same point as
+  existingId: string | null;
+  evidence: InsightEvidence[];
+}
+
+const normalize = (text: string) => text
+  .replace(/[‘’]/g, "'")
+  .replace(/[“”]/g, '"')
+  .replace(/\s+/g, ' ')
+  .trim()
+  .toLowerCase();
+
+// Content words, with a plural "s" dropped so "tool" and "tools" match
+function words(text: string): Set<string> {
+  return new Set((normalize(text).match(/[a-z0-9']+/g) || [])
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .map(word => (word.length > 4 && word.endsWith('s') ? word.slice(0, -1) : word)));
+}
+
+// Jaccard similarity of two summaries' content words, 0 to 1
+export function similarity(a: string, b: string): number {
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = [...left].filter(word => right.has(word)).length;
+  return shared / (left.size + right.size - shared);
+}
+
+const evidenceKey = (evidence: InsightEvidence) => `${evidence.messageId}:${normalize(evidence.quote)}`;
+
+function synthesisPrompt(transcript: string, known: string): string {
+  return `You analyse customer interviews for a product manager. Below is a conversation between the PM and a customer.
+${known ? `\nInsights already recorded for this product:\n${known}\n` : ''}
+Transcript:
+${transcript}
+
+Extract what the CUSTOMER said (never the PM's own words) as insights of these types:
+- pain_point: a problem or frustration they have today
+- feature_request: something they want a product to do for them
+- objection: a reason they would hesitate, refuse to buy or leave
+- willingness_to_pay: any signal about budget, price or what they would pay for
+
+Every insight needs at least one quote copied exactly, word for word, from a Customer message, with that message's label. If an insight is the same point as one already recorded, give its label as "existing" and keep its summary.
+Return ONLY JSON, no markdown:
+{"insights": [{"type": "pain_point" | "feature_request" | "objection" | "willingness_to_pay", "summary": "one short sentence", "existing": "I1" or null, "quotes": [{"message": "M2", "quote": "exact words from that message"}]}]}`;
+}
+
+// The id of the customer message holding the quote: the one the model named, else any other in the batch
+function locateQuote(quote: string, label: unknown, labeled: Map<string, ChatMessage>): string | null {
+  const wanted = normalize(quote);
+  const named = typeof label === 'string' ? labeled.get(label) : undefined;
+  if (named && normalize(named.content).includes(wanted)) {
+    return named.id!;
+  }
+  const other = [...labeled.values()].find(message => normalize(message.content).includes(wanted));
+  return other ? other.id! : null;
+}
+
+function parseCandidates(
+  text: string,
+  labeled: Map<string, ChatMessage>,
+  knownIds: Map<string, string>,
+  sessionId: string
+): { candidates: InsightCandidate[]; dropped: number } {
+  const parsed = parseModelJson<{
+    insights?: { type?: unknown; summary?: unknown; existing?: unknown; quotes?: { message?: unknown; quote?: unknown }[] }[];
+  }>(text);
+  const now = new Date().toISOString();
+  const candidates: InsightCandidate[] = [];
+  let dropped = 0;
+
+  for (const item of Array.isArray(parsed.insights) ? parsed.insights : []) {
+    if (!INSIGHT_TYPES.includes(item?.type as InsightType) || typeof item.summary !== 'string' || !item.summary.trim()) continue;
+    const evidence: InsightEvidence[] = [];
+    for (const entry of Array.isArray(item.quotes) ? item.quotes : []) {
+      const quote = typeof entry?.quote === 'string' ? entry.quote.trim().replace(/^["']|["']$/g, '') : '';
+      const messageId = quote && quote.length <= MAX_QUOTE_LENGTH ? locateQuote(quote, entry.message, labeled) : null;
+      if (!messageId) {
+        dropped++;
+        continue;
+      }
+      const found = { messageId, sessionId, quote, createdAt: now };
+      if (!evidence.some(existing => evidenceKey(existing) === evidenceKey(found))) {
+        evidence.push(found);
+      }
+    }
+    // An insight nobody can point to in the transcript isn't kept
+    if (evidence.length === 0) continue;
+    candidates.push({
+      type: item.type as InsightType,
+      summary: item.summary.trim(),
+      existingId: knownIds.get(String(item.existing)) || null,
+      evidence,
+    });
+  }
+  return { candidates, dropped };
+}
+
+// Reads the transcript in batches; PM messages are context only, customer messages are quotable
+export async function synthesizeInsights(
+  llm: LLMClient,
+  messages: ChatMessage[],
+  sessionId: string,
+  known: CustomerInsight[]
+): Promise<{ candidates: InsightCandidate[]; trace: AgentTraceStep[] }> {
+  const shown = known.slice(0, MAX_KNOWN_INSIGHTS);
+  const knownIds = new Map(shown.map((insight, index) => [`I${index + 1}`, insight.id]));
+  const knownList = shown.map((insight, index) => `[I${index + 1}] (${insight.type}) ${insight.summary}`).join('\n');
+  const candidates: InsightCandidate[] = [];
+  const trace: AgentTraceStep[] = [];
+  const saved = messages.filter(message => message.id);
+
+  for (let start = 0; start < saved.length; start += BATCH_SIZE) {
+    const batch = saved.slice(start, start + BATCH_SIZE);
+    const labeled = new Map<string, ChatMessage>();
+    const transcript = batch.map((message, index) => {
+      const label = `M${start + index + 1}`;
+      if (message.role === 'assistant') labeled.set(label, message);
+      return `[${label}] ${message.role === 'assistant' ? 'Customer' : 'PM'}: ${message.content.replace(/\s+/g, ' ')}`;
+    }).join('\n');
+    if (labeled.size === 0) continue;
+
+    const text = await llm.generate({ agent: 'interview-synthesis', prompt: synthesisPrompt(transcript, knownList) }, { json: true, temperature: 0.2 });
+    const result = parseCandidates(text, labeled, knownIds, sessionId);
+    candidates.push(...result.candidates);
+    trace.push({
+      timestamp: new Date().toISOString(),
+      agent: 'interview-synthesis',
+      action: 'tag_insights',
+      input: { messages: batch.length, provider: llm.provider, model: llm.model },
+      output: `${result.candidates.length} insights${result.dropped > 0 ? `, ${result.dropped} quote(s) not found in the transcript dropped` : ''}`,
+    });
+  }
+  return { candidates, trace };
+}
+
+// Most-evidenced first, as a short briefing for planning prompts; empty when there are none
+export function formatInsights(insights: CustomerInsight[], perType = 5): string {
+  return INSIGHT_TYPES.map(type => {
+    const lines = insights
+      .filter(insight => insight.type === type)
+      .slice(0, perType)
+      .map(insight => {
+        const sessions = new Set(insight.evidence.map(evidence => evidence.sessionId)).size;
+        const mentions = insight.evidence.length > 1 ? ` (${insight.evidence.length} mentions, ${sessions} session${sessions === 1 ? '' : 's'})` : '';
+        return `- ${insight.summary}${mentions}: "${insight.evidence[0].quote}"`;
+      });
+    return lines.length > 0 ? `${INSIGHT_TYPE_LABELS[type]}:\n${lines.join('\n')}` : '';
+  }).filter(Boolean).join('\n\n');
+}
+
+// One row per quote, so every piece of evidence keeps its message and session
+export interface InsightExportRow {
+  insight: CustomerInsight;
+  evidence: InsightEvidence;
+}
+
+export const insightExportRows = (insights: CustomerInsight[]): InsightExportRow[] =>
+  insights.flatMap(insight => insight.evidence.map(evidence => ({ insight, evidence })));
+
+export const INSIGHT_EXPORT_COLUMNS: ExportColumn<InsightExportRow>[] = [
+  { key: 'insightId', header: 'Insight ID', value: row => row.insight.id },
+  { key: 'type', header: 'Type', value: row => row.insight.type },
+  { key: 'summary', header: 'Summary', value: row => row.insight.summary },
+  { key: 'mentions', header: 'Mentions', value: row => row.insight.evidence.length },
+  { key: 'quote', header: 'Quote', value: row => row.evidence.quote },
+  { key: 'messageId', header: 'Message ID', value: row => row.evidence.messageId },
+  { key: 'sessionId', header: 'Session ID', value: row => row.evidence.sessionId },
+  { key: 'quotedAt', header: 'Quoted', value: row => row.evidence.createdAt },
+  { key: 'createdAt', header: 'First Seen', value: row => row.insight.createdAt },
+  { key: 'updatedAt', header: 'Last Updated', value: row => row.insight.updatedAt },
+];
+
+export function createInsights(repo: Repository<CustomerInsight>) {
+  // Most evidence first, then most recently added to
+  async function list(projectId: string): Promise<CustomerInsight[]> {
+    return (await repo.list())
+      .filter(insight => insight.projectId === projectId)
+      .sort((a, b) => b.evidence.length - a.evidence.length || b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  // Adds each candidate's evidence to the insight it repeats, or records it as new
+  async function merge(
+    projectId: string,
+    candidates: InsightCandidate[],
+    llm: Pick<LLMClient, 'provider' | 'model'>
+  ): Promise<{ created: number; updated: number }> {
+    const current = await list(projectId);
+    const createdIds = new Set<string>();
+    const updatedIds = new Set<string>();
+
+    for (const candidate of candidates) {
+      const sameType = current.filter(insight => insight.type === candidate.type);
+      const match = sameType.find(insight => insight.id === candidate.existingId)
+        || sameType
+          .map(insight => ({ insight, score: similarity(insight.summary, candidate.summary) }))
+          .filter(({ score }) => score >= SAME_POINT_SIMILARITY)
+          .sort((a, b) => b.score - a.score)[0]?.insight;
+      const now = new Date().toISOString();
+
+      if (!match) {
+        const insight = await repo.insert({
+          id: `insight-${crypto.randomUUID()}`,
+          projectId,
+          type: candidate.type,
+          summary: candidate.summary,
+          evidence: candidate.evidence,
+          provider: llm.provider,
+          model: llm.model,
+          createdAt: now,
+          updatedAt: now,
+        });
+        current.push(insight);
+        createdIds.add(insight.id);
+        continue;
+      }
+
+      const seen = new Set(match.evidence.map(evidenceKey));
+      const added = candidate.evidence.filter(evidence => !seen.has(evidenceKey(evidence)));
+      if (added.length === 0) continue;
+      const updated = (await repo.update(match.id, { evidence: [...match.evidence, ...added], updatedAt: now }))!;
+      current[current.indexOf(match)] = updated;
+      // One created in this run and added to again still counts once, as created
+      if (!createdIds.has(match.id)) updatedIds.add(match.id);
+    }
+    return { created: createdIds.size, updated: updatedIds.size };
+  }
+
+  return { list, merge };
+}
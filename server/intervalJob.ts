@@ -0,0 +1,13 @@
+// Background checks that run inside the API server (document expiry, periodic reviews)
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Run `check` now and then every `intervalHours`; failures are logged and retried on the next tick.
+// The timer doesn't keep the process alive on its own.
+export function startIntervalJob(name: string, check: () => Promise<void>, intervalHours: number): NodeJS.Timeout {
+  const run = () => check().catch(error => console.error(`❌ ${name} failed:`, error.message));
+  run();
+  const timer = setInterval(run, intervalHours * HOUR_MS);
+  timer.unref();
+  return timer;
+}
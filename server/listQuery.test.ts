@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { AuditEvent, Entity } from '../src/lib/types';
+import { listAuditEvents, listEntities } from './listQuery';
+
+const entity = (index: number, fields: Partial<Entity> = {}) => ({
+  id: `entity-${String(index).padStart(2, '0')}`,
+  name: `Company ${index}`,
+  type: 'vendor',
+  riskLevel: 'LOW',
+  riskScore: 10,
+  status: 'Active',
+  lastUpdated: '2026-01-01T00:00:00.000Z',
+  ...fields,
+}) as Entity;
+
+const event = (seq: number, fields: Partial<AuditEvent> = {}) => ({
+  seq,
+  id: `audit-${seq}`,
+  timestamp: `2026-02-${String(seq).padStart(2, '0')}T12:00:00.000Z`,
+  entityId: 'entity-01',
+  entityName: 'Company 1',
+  action: 'entity_edited',
+  user: 'ana',
+  details: `Change ${seq}`,
+  ...fields,
+}) as AuditEvent;
+
+// Follows nextCursor until the last page and returns the ids in the order they were served
+function readAll(all: Entity[], query: Record<string, string>, between?: (pageIndex: number) => void): string[] {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  for (let pageIndex = 0; ; pageIndex++) {
+    const { page, error } = listEntities(all, { ...query, ...(cursor ? { cursor } : {}) });
+    assert.equal(error, null);
+    ids.push(...page!.items.map(item => item.id));
+    if (!page!.nextCursor) return ids;
+    cursor = page!.nextCursor;
+    between?.(pageIndex);
+  }
+}
+
+describe('cursor pagination', () => {
+  it('serves every row exactly once, breaking ties in the sort value by id in the same direction', () => {
+    // Only three distinct scores across ten rows, so most page boundaries fall inside a tie
+    const all = Array.from({ length: 10 }, (_, index) => entity(index, { riskScore: (index % 3) * 10 }));
+    const ids = readAll(all, { sort: 'riskScore', order: 'desc', limit: '3' });
+    assert.equal(ids.length, 10);
+    assert.equal(new Set(ids).size, 10);
+    assert.deepEqual(ids.slice(0, 3), ['entity-08', 'entity-05', 'entity-02']);
+  });
+
+  it('keeps its place when rows are added ahead of the cursor', () => {
+    const all = Array.from({ length: 6 }, (_, index) => entity(index, { lastUpdated: `2026-01-0${index + 1}T00:00:00.000Z` }));
+    const ids = readAll(all, { limit: '2' }, pageIndex => {
+      if (pageIndex === 0) all.push(entity(99, { lastUpdated: '2026-03-01T00:00:00.000Z' }));
+    });
+    assert.deepEqual(ids, ['entity-05', 'entity-04', 'entity-03', 'entity-02', 'entity-01', 'entity-00']);
+  });
+
+  it('counts every match and returns no rows for limit 0', () => {
+    const all = Array.from({ length: 5 }, (_, index) => entity(index));
+    const { page } = listEntities(all, { limit: '0' });
+    assert.deepEqual(page, { items: [], total: 5, nextCursor: null });
+  });
+
+  it('rejects malformed parameters and cursors from another sort', () => {
+    const all = Array.from({ length: 5 }, (_, index) => entity(index));
+    assert.match(listEntities(all, { limit: '500' }).error!, /limit must be an integer/);
+    assert.match(listEntities(all, { sort: 'password' }).error!, /sort must be one of/);
+    assert.equal(listEntities(all, { cursor: 'not-a-cursor' }).error, 'cursor is invalid');
+
+    const { nextCursor } = listEntities(all, { sort: 'name', limit: '2' }).page!;
+    assert.equal(listEntities(all, { sort: 'riskScore', cursor: nextCursor! }).error, 'cursor belongs to a different sort order');
+  });
+});
+
+describe('filters', () => {
+  it('combines entity filters with search terms', () => {
+    const all = [
+      entity(1, { riskLevel: 'HIGH', owner: 'Ana Ortiz' }),
+      entity(2, { riskLevel: 'HIGH', status: 'Pending Committee', owner: 'Ana Ortiz' }),
+      entity(3, { riskLevel: 'MEDIUM', owner: 'Ana Ortiz' }),
+    ];
+    const { page } = listEntities(all, { riskLevel: 'HIGH,MEDIUM', status: ['Active'], q: 'ortiz company' });
+    assert.deepEqual(page!.items.map(item => item.id), ['entity-03', 'entity-01']);
+    assert.match(listEntities(all, { riskLevel: 'SEVERE' }).error!, /riskLevel must be one of/);
+  });
+
+  it('reads a plain to date as the whole day and lists audit events newest first', () => {
+    const all = Array.from({ length: 5 }, (_, index) => event(index + 1));
+    const { page } = listAuditEvents(all, { from: '2026-02-02', to: '2026-02-04' });
+    assert.deepEqual(page!.items.map(item => item.seq), [4, 3, 2]);
+    assert.equal(listAuditEvents(all, { from: '2026-02-04', to: '2026-02-02' }).error, 'to must be on or after from');
+  });
+});
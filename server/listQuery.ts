@@ -0,0 +1,255 @@
+import type { AuditEvent, Entity, Page, RiskLevel } from '../src/lib/types';
+import { ENTITY_STATUSES } from './approvals';
+
+// Cursor pagination, sorting, search and filters for the entity and audit list endpoints.
+// Rows are filtered and sorted in memory; the cursor carries the sort value and id of the last
+// row returned, so paging stays stable while rows are added ahead of it.
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 200;
+
+const RISK_LEVELS: RiskLevel[] = ['HIGH', 'MEDIUM', 'LOW'];
+const ENTITY_TYPES: Entity['type'][] = ['vendor', 'client'];
+const RISK_RANK: Record<RiskLevel, number> = { LOW: 1, MEDIUM: 2, HIGH: 3 };
+
+type SortValue = string | number;
+type SortKeys<T> = Record<string, (item: T) => SortValue>;
+
+interface Cursor {
+  sort: string;
+  order: 'asc' | 'desc';
+  value: SortValue;
+  id: string;
+}
+
+export interface ListQuery {
+  limit: number;
+  cursor: Cursor | null;
+  sort: string;
+  order: 'asc' | 'desc';
+  q: string;
+}
+
+type Query = Record<string, unknown>;
+
+const single = (value: unknown): string | undefined =>
+  value === undefined ? undefined : String(Array.isArray(value) ? value[0] : value);
+
+// Comma-separated or repeated values, e.g. ?status=Approved,Active or ?status=Approved&status=Active
+export function listParam(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return values.flatMap(v => String(v).split(',')).map(v => v.trim()).filter(Boolean);
+}
+
+const encodeCursor = (cursor: Cursor) => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+function decodeCursor(raw: string): Cursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    const valid = typeof cursor?.sort === 'string'
+      && (cursor.order === 'asc' || cursor.order === 'desc')
+      && (typeof cursor.value === 'string' || typeof cursor.value === 'number')
+      && typeof cursor.id === 'string';
+    return valid ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+// limit, cursor, sort, order and q; returns an error message for anything malformed
+export function parseListQuery<T>(
+  query: Query,
+  sortKeys: SortKeys<T>,
+  defaults: { sort: string; order: 'asc' | 'desc' }
+): { query: ListQuery | null; error: string | null } {
+  const limitParam = single(query.limit);
+  const limit = limitParam === undefined ? DEFAULT_PAGE_SIZE : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 0 || limit > MAX_PAGE_SIZE) {
+    return { query: null, error: `limit must be an integer from 0 to ${MAX_PAGE_SIZE}` };
+  }
+
+  const sort = single(query.sort) || defaults.sort;
+  if (!sortKeys[sort]) {
+    return { query: null, error: `sort must be one of: ${Object.keys(sortKeys).join(', ')}` };
+  }
+  // An explicit sort reads ascending unless told otherwise; the default sort keeps its own order
+  const order = single(query.order) || (single(query.sort) ? 'asc' : defaults.order);
+  if (order !== 'asc' && order !== 'desc') {
+    return { query: null, error: 'order must be "asc" or "desc"' };
+  }
+
+  let cursor: Cursor | null = null;
+  const cursorParam = single(query.cursor);
+  if (cursorParam) {
+    cursor = decodeCursor(cursorParam);
+    if (!cursor) {
+      return { query: null, error: 'cursor is invalid' };
+    }
+    if (cursor.sort !== sort || cursor.order !== order) {
+      return { query: null, error: 'cursor belongs to a different sort order' };
+    }
+  }
+
+  return { query: { limit, cursor, sort, order, q: (single(query.q) || '').trim() }, error: null };
+}
+
+// Every whitespace-separated term must appear somewhere in the fields, ignoring case
+export function matchesSearch(q: string, fields: (string | null | undefined)[]): boolean {
+  if (!q) return true;
+  const text = fields.filter(Boolean).join('\n').toLowerCase();
+  return q.toLowerCase().split(/\s+/).every(term => text.includes(term));
+}
+
+// `from` and `to` as dates or timestamps; a plain `to` date includes the whole day
+export function parseDateRange(query: Query): { from: number | null; to: number | null; error: string | null } {
+  const bounds: { from: number | null; to: number | null } = { from: null, to: null };
+  for (const field of ['from', 'to'] as const) {
+    const raw = single(query[field]);
+    if (!raw) continue;
+    const time = Date.parse(raw);
+    if (isNaN(time)) {
+      return { from: null, to: null, error: `${field} must be a date or ISO timestamp` };
+    }
+    bounds[field] = field === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(raw) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+  }
+  if (bounds.from !== null && bounds.to !== null && bounds.to < bounds.from) {
+    return { from: null, to: null, error: 'to must be on or after from' };
+  }
+  return { ...bounds, error: null };
+}
+
+const compareValues = (a: SortValue, b: SortValue) =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+
+type Keyed<T> = { item: T; value: SortValue; id: string };
+
+function sortKeyed<T extends { id: string }>(items: T[], query: ListQuery, sortKeys: SortKeys<T>) {
+  const valueOf = sortKeys[query.sort];
+  const direction = query.order === 'asc' ? 1 : -1;
+  const compare = (a: { value: SortValue; id: string }, b: { value: SortValue; id: string }) =>
+    direction * (compareValues(a.value, b.value) || compareValues(a.id, b.id));
+  const rows: Keyed<T>[] = items.map(item => ({ item, value: valueOf(item), id: item.id })).sort(compare);
+  return { rows, compare };
+}
+
+// Every row in the query's order, for exports
+export function sortRows<T extends { id: string }>(items: T[], query: ListQuery, sortKeys: SortKeys<T>): T[] {
+  return sortKeyed(items, query, sortKeys).rows.map(row => row.item);
+}
+
+// Sorts by the query's key with the id as tie-breaker and returns the page after the cursor.
+// `total` counts every row that matched, not just this page; limit 0 returns the count alone.
+export function paginate<T extends { id: string }>(items: T[], query: ListQuery, sortKeys: SortKeys<T>): Page<T> {
+  const { rows, compare } = sortKeyed(items, query, sortKeys);
+  const start = query.cursor ? rows.findIndex(row => compare(row, query.cursor!) > 0) : 0;
+  const page = start === -1 ? [] : rows.slice(start, start + query.limit);
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map(row => row.item),
+    total: items.length,
+    nextCursor: last && start + query.limit < rows.length
+      ? encodeCursor({ sort: query.sort, order: query.order, value: last.value, id: last.id })
+      : null,
+  };
+}
+
+function checkValues<T extends string>(name: string, values: string[], allowed: T[]): string | null {
+  const unknown = values.filter(value => !(allowed as string[]).includes(value));
+  return unknown.length > 0 ? `${name} must be one of: ${allowed.join(', ')}` : null;
+}
+
+export const ENTITY_SORT_KEYS: SortKeys<Entity> = {
+  name: entity => entity.name.toLowerCase(),
+  type: entity => entity.type,
+  riskLevel: entity => RISK_RANK[entity.riskLevel] || 0,
+  riskScore: entity => entity.riskScore ?? -1,
+  compliance: entity => entity.compliance,
+  status: entity => entity.status,
+  owner: entity => (entity.owner || '').toLowerCase(),
+  createdAt: entity => entity.createdAt || '',
+  lastUpdated: entity => entity.lastUpdated || '',
+  nextReviewDate: entity => entity.nextReviewDate || '',
+  escalatedAt: entity => entity.riskEscalation?.escalatedAt || '',
+};
+
+// Filters for GET /api/entities and its export: q searches name, owner, id and decommission reason;
+// riskLevel, type and status take one or more values; escalatedSince keeps recently escalated entities
+export function filterEntities(all: Entity[], raw: Query): { matching: Entity[]; query: ListQuery | null; error: string | null } {
+  const { query, error } = parseListQuery(raw, ENTITY_SORT_KEYS, { sort: 'lastUpdated', order: 'desc' });
+  if (!query) {
+    return { matching: [], query: null, error };
+  }
+
+  const riskLevels = listParam(raw.riskLevel);
+  const types = listParam(raw.type);
+  const statuses = listParam(raw.status);
+  const filterError = checkValues('riskLevel', riskLevels, RISK_LEVELS)
+    || checkValues('type', types, ENTITY_TYPES)
+    || checkValues('status', statuses, ENTITY_STATUSES);
+  if (filterError) {
+    return { matching: [], query: null, error: filterError };
+  }
+
+  const escalatedSinceParam = single(raw.escalatedSince);
+  const escalatedSince = escalatedSinceParam ? Date.parse(escalatedSinceParam) : null;
+  if (escalatedSince !== null && isNaN(escalatedSince)) {
+    return { matching: [], query: null, error: 'escalatedSince must be a date or ISO timestamp' };
+  }
+
+  const matching = all.filter(entity =>
+    (riskLevels.length === 0 || riskLevels.includes(entity.riskLevel))
+    && (types.length === 0 || types.includes(entity.type))
+    && (statuses.length === 0 || statuses.includes(entity.status))
+    && (escalatedSince === null
+      || (!!entity.riskEscalation && Date.parse(entity.riskEscalation.escalatedAt) >= escalatedSince))
+    && matchesSearch(query.q, [entity.name, entity.owner, entity.id, entity.decommissionReason])
+  );
+  return { matching, query, error: null };
+}
+
+export function listEntities(all: Entity[], raw: Query): { page: Page<Entity> | null; error: string | null } {
+  const { matching, query, error } = filterEntities(all, raw);
+  return query ? { page: paginate(matching, query, ENTITY_SORT_KEYS), error: null } : { page: null, error };
+}
+
+export const AUDIT_SORT_KEYS: SortKeys<AuditEvent> = {
+  seq: event => event.seq,
+  timestamp: event => event.timestamp,
+  action: event => event.action,
+  user: event => event.user.toLowerCase(),
+  entityName: event => (event.entityName || '').toLowerCase(),
+};
+
+// Filters for GET /api/audit and its export, newest first by default: q searches entity name, user
+// and details; action and entityId take one or more values, user matches exactly, from/to bound the timestamp
+export function filterAuditEvents(all: AuditEvent[], raw: Query): { matching: AuditEvent[]; query: ListQuery | null; error: string | null } {
+  const { query, error } = parseListQuery(raw, AUDIT_SORT_KEYS, { sort: 'seq', order: 'desc' });
+  if (!query) {
+    return { matching: [], query: null, error };
+  }
+  const range = parseDateRange(raw);
+  if (range.error) {
+    return { matching: [], query: null, error: range.error };
+  }
+
+  const actions = listParam(raw.action);
+  const entityIds = listParam(raw.entityId);
+  const user = single(raw.user);
+
+  const matching = all.filter(event => {
+    const time = Date.parse(event.timestamp);
+    return (actions.length === 0 || actions.includes(event.action))
+      && (entityIds.length === 0 || entityIds.includes(event.entityId))
+      && (!user || event.user === user)
+      && (range.from === null || time >= range.from)
+      && (range.to === null || time <= range.to)
+      && matchesSearch(query.q, [event.entityName, event.user, event.details]);
+  });
+  return { matching, query, error: null };
+}
+
+export function listAuditEvents(all: AuditEvent[], raw: Query): { page: Page<AuditEvent> | null; error: string | null } {
+  const { matching, query, error } = filterAuditEvents(all, raw);
+  return query ? { page: paginate(matching, query, AUDIT_SORT_KEYS), error: null } : { page: null, error };
+}
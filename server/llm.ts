@@ -0,0 +1,373 @@
+import type { Request } from 'express';
+import axios from 'axios';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { Part } from '@google/generative-ai';
+import { createMockClient } from './mockProvider';
+
+// Provider-agnostic LLM client used by every agent route.
+// Pick a provider per request (X-AI-Provider header or `provider` body field),
+// falling back to LLM_PROVIDER and then Gemini.
+
+export type LLMProviderName = 'gemini' | 'openai' | 'local' | 'mock';
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['gemini', 'openai', 'local', 'mock'];
+
+export interface LLMAttachment {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface LLMRequest {
+  // Which agent is calling; the mock provider uses it to pick a fixture
+  agent?: string;
+  system?: string;
+  prompt: string;
+  attachments?: LLMAttachment[];
+}
+
+export interface LLMOptions {
+  temperature?: number;
+  json?: boolean;
+  // Aborts the upstream call, e.g. when the browser that asked for it goes away
+  signal?: AbortSignal;
+}
+
+export interface LLMClient {
+  provider: LLMProviderName;
+  model: string;
+  // Human-readable reason the provider can't be used, or null when it's ready
+  configurationError(): string | null;
+  // Whether non-image attachments such as PDFs can be sent inline
+  supportsDocuments: boolean;
+  generate(request: LLMRequest | string, options?: LLMOptions): Promise<string>;
+  // Text as the model produces it; the chunks joined are what generate() would have returned
+  stream(request: LLMRequest | string, options?: LLMOptions): AsyncIterable<string>;
+}
+
+const toRequest = (request: LLMRequest | string): LLMRequest =>
+  typeof request === 'string' ? { prompt: request } : request;
+
+const isImage = (attachment: LLMAttachment) => attachment.mimeType.startsWith('image/');
+
+const missingKeyError = (name: string) =>
+  process.env[name] ? null : `${name} is required. Please add it to your .env.local file.`;
+
+function requireKey(name: string): string {
+  const error = missingKeyError(name);
+  if (error) {
+    throw new Error(error);
+  }
+  return (process.env[name] as string).trim();
+}
+
+function createGeminiClient(): LLMClient {
+  const model = process.env.GEMINI_MODEL || 'gemini-2.0-flash-exp';
+
+  function generativeModel() {
+    return new GoogleGenerativeAI(requireKey('GEMINI_API_KEY')).getGenerativeModel({ model });
+  }
+
+  function contentRequest(input: LLMRequest | string, options: LLMOptions) {
+    const { system, prompt, attachments = [] } = toRequest(input);
+    const parts: Part[] = [];
+    if (system) parts.push({ text: system });
+    parts.push({ text: prompt });
+    for (const attachment of attachments) {
+      parts.push({ inlineData: { mimeType: attachment.mimeType, data: attachment.data } });
+    }
+    return {
+      contents: [{ role: 'user', parts }],
+      generationConfig: {
+        temperature: options.temperature,
+        responseMimeType: options.json ? 'application/json' : undefined,
+      },
+    };
+  }
+
+  return {
+    provider: 'gemini',
+    model,
+    supportsDocuments: true,
+    configurationError: () => missingKeyError('GEMINI_API_KEY'),
+    async generate(input, options = {}) {
+      const result = await generativeModel().generateContent(contentRequest(input, options), { signal: options.signal });
+      return result.response.text();
+    },
+    async *stream(input, options = {}) {
+      const result = await generativeModel().generateContentStream(contentRequest(input, options), { signal: options.signal });
+      for await (const chunk of result.stream) {
+        yield chunk.text();
+      }
+    },
+  };
+}
+
+// Lines of a streamed HTTP body (server-sent events or NDJSON), without the line breaks
+async function* readLines(body: AsyncIterable<Buffer>) {
+  // Streaming decode, so a character split across chunks comes out whole
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for await (const chunk of body) {
+    buffered += decoder.decode(chunk, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+    yield* lines.map(line => line.replace(/\r$/, ''));
+  }
+  if (buffered) yield buffered;
+}
+
+function createOpenAIClient(): LLMClient {
+  const model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+
+  type ChatContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+  function chatRequest(input: LLMRequest | string, options: LLMOptions, stream: boolean) {
+    const { system, prompt, attachments = [] } = toRequest(input);
+    const images = attachments.filter(isImage);
+    const messages: { role: 'system' | 'user'; content: string | ChatContentPart[] }[] = [];
+    if (system) messages.push({ role: 'system', content: system });
+    messages.push({
+      role: 'user',
+      content: images.length === 0 ? prompt : [
+        { type: 'text', text: prompt },
+        ...images.map((image): ChatContentPart => ({
+          type: 'image_url',
+          image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+        })),
+      ],
+    });
+    return {
+      model,
+      messages,
+      temperature: options.temperature,
+      response_format: options.json ? { type: 'json_object' } : undefined,
+      stream: stream || undefined,
+    };
+  }
+
+  // A streamed error body arrives as a stream too, so its message is read before rethrowing
+  async function requestError(error: unknown): Promise<Error> {
+    const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+    let message = data?.error?.message;
+    if (!message && data?.[Symbol.asyncIterator]) {
+      let body = '';
+      for await (const chunk of data) body += chunk;
+      try {
+        message = JSON.parse(body).error?.message;
+      } catch {
+        message = body;
+      }
+    }
+    return new Error(`OpenAI request failed: ${message || (error as Error).message}`);
+  }
+
+  return {
+    provider: 'openai',
+    model,
+    supportsDocuments: false,
+    configurationError: () => missingKeyError('OPENAI_API_KEY'),
+    async generate(input, options = {}) {
+      const apiKey = requireKey('OPENAI_API_KEY');
+      try {
+        const response = await axios.post(
+          `${baseUrl}/chat/completions`,
+          chatRequest(input, options, false),
+          { headers: { Authorization: `Bearer ${apiKey}` }, signal: options.signal }
+        );
+        return response.data.choices?.[0]?.message?.content || '';
+      } catch (error: unknown) {
+        throw await requestError(error);
+      }
+    },
+    async *stream(input, options = {}) {
+      const apiKey = requireKey('OPENAI_API_KEY');
+      let body: AsyncIterable<Buffer>;
+      try {
+        const response = await axios.post(
+          `${baseUrl}/chat/completions`,
+          chatRequest(input, options, true),
+          { headers: { Authorization: `Bearer ${apiKey}` }, signal: options.signal, responseType: 'stream' }
+        );
+        body = response.data;
+      } catch (error: unknown) {
+        throw await requestError(error);
+      }
+      for await (const line of readLines(body)) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
+
+function createLocalClient(): LLMClient {
+  const model = process.env.LOCAL_LLM_MODEL || 'llama3.1';
+  const baseUrl = (process.env.LOCAL_LLM_URL || 'http://localhost:11434').replace(/\/$/, '');
+
+  // Ollama-style /api/generate endpoint
+  function generateRequest(input: LLMRequest | string, options: LLMOptions, stream: boolean) {
+    const { system, prompt, attachments = [] } = toRequest(input);
+    return {
+      model,
+      system,
+      prompt,
+      images: attachments.filter(isImage).map(image => image.data),
+      format: options.json ? 'json' : undefined,
+      stream,
+      options: { temperature: options.temperature },
+    };
+  }
+
+  const requestError = (error: unknown) => {
+    const detail = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+    return new Error(`Local LLM request to ${baseUrl} failed: ${detail || (error as Error).message}`);
+  };
+
+  return {
+    provider: 'local',
+    model,
+    supportsDocuments: false,
+    configurationError: () => null,
+    async generate(input, options = {}) {
+      try {
+        const response = await axios.post(`${baseUrl}/api/generate`, generateRequest(input, options, false), { signal: options.signal });
+        return response.data.response || '';
+      } catch (error: unknown) {
+        throw requestError(error);
+      }
+    },
+    // One JSON object per line, each with the next piece of `response`
+    async *stream(input, options = {}) {
+      let body: AsyncIterable<Buffer>;
+      try {
+        const response = await axios.post(
+          `${baseUrl}/api/generate`,
+          generateRequest(input, options, true),
+          { signal: options.signal, responseType: 'stream' }
+        );
+        body = response.data;
+      } catch (error: unknown) {
+        throw requestError(error);
+      }
+      for await (const line of readLines(body)) {
+        if (!line.trim()) continue;
+        const chunk = JSON.parse(line);
+        if (chunk.error) throw requestError(new Error(chunk.error));
+        if (chunk.response) yield chunk.response;
+        if (chunk.done) return;
+      }
+    },
+  };
+}
+
+// Parse a JSON response, tolerating markdown code fences some models still add in JSON mode
+export function parseModelJson<T = Record<string, unknown>>(text: string): T {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  return JSON.parse(cleaned);
+}
+
+// Follows a JSON object as it streams in and returns each top-level field once its value is complete,
+// so a response can be shown field by field. Anything before the opening brace, like a code fence, is skipped.
+export function createJsonFieldReader() {
+  let buffer = '';
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = 0;
+  let key: string | null = null;
+  let valueStart = -1;
+
+  return function read(chunk: string): Array<[string, unknown]> {
+    buffer += chunk;
+    const fields: Array<[string, unknown]> = [];
+
+    const endValue = () => {
+      try {
+        fields.push([key!, JSON.parse(buffer.slice(valueStart, position))]);
+      } catch {
+        // Left to the caller's parse of the whole response
+      }
+      key = null;
+      valueStart = -1;
+    };
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (depth === 1 && valueStart === -1) key = JSON.parse(buffer.slice(stringStart, position + 1));
+        }
+      } else if (char === '"') {
+        inString = true;
+        stringStart = position;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if (char === '}' || char === ']') {
+        if (depth === 1 && valueStart !== -1) endValue();
+        depth = Math.max(0, depth - 1);
+      } else if (depth === 1 && char === ':' && key !== null && valueStart === -1) {
+        valueStart = position + 1;
+      } else if (depth === 1 && char === ',' && valueStart !== -1) {
+        endValue();
+      }
+    }
+    return fields;
+  };
+}
+
+const factories: Record<LLMProviderName, () => LLMClient> = {
+  gemini: createGeminiClient,
+  openai: createOpenAIClient,
+  local: createLocalClient,
+  mock: createMockClient,
+};
+
+export function isLLMProvider(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDERS as string[]).includes(value);
+}
+
+export function getDefaultProvider(): LLMProviderName {
+  const configured = process.env.LLM_PROVIDER?.toLowerCase();
+  return isLLMProvider(configured) ? configured : 'gemini';
+}
+
+export function getLLMClient(provider: string = getDefaultProvider()): LLMClient {
+  if (!isLLMProvider(provider)) {
+    throw new Error(`Unsupported AI provider "${provider}". Use one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+  return factories[provider]();
+}
+
+const requestedName = (req: Request): string | null => {
+  const requested = req.get('x-ai-provider') || req.body?.provider;
+  return requested ? String(requested).toLowerCase() : null;
+};
+
+// Why the request's provider can't be used, or null when it names a known one (or none)
+export function requestedProviderError(req: Request): string | null {
+  const requested = requestedName(req);
+  return requested === null || isLLMProvider(requested)
+    ? null
+    : `Unsupported AI provider "${requested}". Use one of: ${LLM_PROVIDERS.join(', ')}`;
+}
+
+// Requests are checked with requestedProviderError first, so an unknown name never gets this far
+export function getRequestedProvider(req: Request): LLMProviderName {
+  const requested = requestedName(req);
+  return isLLMProvider(requested) ? requested : getDefaultProvider();
+}
+
+// Resolve the client for an incoming request
+export function getLLMForRequest(req: Request): LLMClient {
+  return getLLMClient(getRequestedProvider(req));
+}
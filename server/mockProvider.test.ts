@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { createMockClient, createSilentMp3, estimateSpeechSeconds } from './mockProvider';
+
+const strategyPrompt = 'Target Market: Freight logistics\nCustomer Segment: Dispatch managers\nGoals: Grow';
+
+describe('createMockClient', () => {
+  afterEach(() => {
+    delete process.env.MOCK_LLM_SEED;
+  });
+
+  it('answers the same agent and prompt identically', async () => {
+    const first = await createMockClient().generate({ agent: 'strategy', prompt: strategyPrompt });
+    const second = await createMockClient().generate({ agent: 'strategy', prompt: strategyPrompt });
+    assert.equal(first, second);
+  });
+
+  it('varies the answer with MOCK_LLM_SEED', async () => {
+    const answers = new Set<string>();
+    for (const seed of ['a', 'b', 'c', 'd']) {
+      process.env.MOCK_LLM_SEED = seed;
+      answers.add(await createMockClient().generate({ agent: 'customer-advisory', prompt: 'How do you report today?' }));
+    }
+    assert.ok(answers.size > 1);
+  });
+
+  it('builds the strategy brief around the market and segment in the prompt', async () => {
+    const brief = JSON.parse(await createMockClient().generate({ agent: 'strategy', prompt: strategyPrompt }));
+    assert.match(brief.executiveSummary, /Freight logistics/);
+    assert.equal(brief.icps[0].segment, 'Dispatch managers');
+  });
+
+  it('rates PII with missing controls HIGH and attested controls without PII LOW', async () => {
+    const client = createMockClient();
+    const high = JSON.parse(await client.generate({ agent: 'risk-score', prompt: 'Security Controls: IAM Yes, Encryption No\nHandles PII: Yes' }));
+    const low = JSON.parse(await client.generate({ agent: 'risk-score', prompt: 'Security Controls: IAM Yes, Encryption Yes\nHandles PII: No' }));
+    assert.equal(high.riskLevel, 'HIGH');
+    assert.match(high.reasons[1], /Encryption/);
+    assert.equal(low.riskLevel, 'LOW');
+  });
+
+  it('plans fourteen days for the schedule agent', async () => {
+    const plan = JSON.parse(await createMockClient().generate({ agent: 'schedule', prompt: 'Launch the beta' }));
+    assert.deepEqual(plan.map((day: { day: number }) => day.day), Array.from({ length: 14 }, (_, index) => index + 1));
+  });
+});
+
+describe('createSilentMp3', () => {
+  it('writes whole MPEG frames for the requested duration', () => {
+    const audio = createSilentMp3(2);
+    assert.equal(audio.length % 104, 0);
+    assert.equal(audio.length / 104, Math.ceil((2 * 44100) / 1152));
+    assert.deepEqual([...audio.subarray(0, 4)], [0xff, 0xfb, 0x10, 0xc0]);
+  });
+});
+
+describe('estimateSpeechSeconds', () => {
+  it('reads about 150 words a minute, between 1 and 30 seconds', () => {
+    assert.equal(estimateSpeechSeconds('word '.repeat(25)), 10);
+    assert.equal(estimateSpeechSeconds(''), 1);
+    assert.equal(estimateSpeechSeconds('word '.repeat(1000)), 30);
+  });
+});
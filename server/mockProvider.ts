@@ -0,0 +1,287 @@
+import type { LLMClient, LLMRequest } from './llm';
+
+// Offline "mock" provider: deterministic, schema-valid fixtures for every agent.
+// Output depends only on MOCK_LLM_SEED, the agent and the prompt, so runs are reproducible.
+
+// FNV-1a string hash
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32 PRNG
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+const pick = <T>(random: Random, items: readonly T[]): T => items[Math.floor(random() * items.length)];
+
+const extract = (prompt: string, label: string, fallback: string) => {
+  const match = prompt.match(new RegExp(`${label}:\\s*(.+)`));
+  const value = match?.[1].trim();
+  return value && !value.startsWith('Not specified') && value !== 'Not available' ? value : fallback;
+};
+
+function mockStrategy(prompt: string, random: Random): string {
+  const market = extract(prompt, 'Target Market', 'B2B software');
+  const segment = extract(prompt, 'Customer Segment', 'operations leaders at mid-market companies');
+  const northStars = [
+    `Weekly active teams completing a core ${market} workflow end to end`,
+    `Percentage of ${segment} reaching first value within 7 days`,
+    `Monthly workflows automated per active account`,
+  ];
+  const impacts = ['high', 'medium', 'low'] as const;
+
+  return JSON.stringify({
+    executiveSummary: `The ${market} market is ready for a focused product that removes manual work for ${segment}. Incumbent tools are broad but shallow, leaving teams to stitch together spreadsheets and point solutions.\n\nWe recommend a wedge strategy: win one high-frequency workflow, prove measurable time savings, then expand across adjacent teams.`,
+    northStar: pick(random, northStars),
+    marketOpportunity: `Spend in ${market} continues to shift from services to software. Buyers in ${segment} report rising workloads with flat headcount, creating demand for automation that pays back within a quarter.`,
+    competitiveLandscape: 'Large suites cover many use cases but require long implementations. Niche tools are easy to adopt but lack integrations. The whitespace is a fast-to-deploy product with deep integrations into existing systems of record.',
+    strategicRecommendations: [
+      'Lead with a single high-frequency workflow and make it 10x faster',
+      'Ship integrations with the two most common systems of record before launch',
+      'Instrument time-to-value from day one and review it weekly',
+      'Build a design partner program with 5-8 lighthouse customers',
+    ],
+    icps: [
+      {
+        segment,
+        description: `Teams within ${segment} who own recurring, manual processes and are measured on throughput.`,
+        painPoints: [
+          'Manual data entry across disconnected tools',
+          'No single view of work in progress',
+          'Reporting takes days at month end',
+        ],
+        opportunities: [
+          'Automate the most repetitive step to save hours per week',
+          'Provide live dashboards that replace manual reporting',
+        ],
+        buyingBehavior: 'Starts with a team-level trial, then requires security review and a business case for expansion.',
+      },
+    ],
+    successMetrics: [
+      { metric: 'Time to first value', target: 'Under 7 days by end of Q2', rationale: 'Fast value predicts retention and expansion' },
+      { metric: 'Weekly active accounts', target: `${100 + Math.floor(random() * 400)} within 6 months`, rationale: 'Shows the workflow is habitual' },
+    ],
+    goToMarketConsiderations: [
+      'Product-led trial with sales assist for accounts above 50 seats',
+      'Content focused on quantified time savings',
+      'Partner with implementation consultancies already serving the segment',
+    ],
+    risksAndChallenges: [
+      { risk: 'Incumbents bundle a similar feature', impact: pick(random, impacts), mitigation: 'Differentiate on depth of workflow and speed of setup' },
+      { risk: 'Security reviews slow enterprise deals', impact: pick(random, impacts), mitigation: 'Pursue SOC 2 early and publish a trust center' },
+    ],
+    timelineAndMilestones: 'Phase 1 (0-6 weeks): discovery and design partners. Phase 2 (6-14 weeks): MVP with core workflow. Phase 3 (14-20 weeks): beta, integrations and launch readiness.',
+    constraints: [],
+    prd: `# Product Requirements Document\n\n## Vision\n\nMake the core ${market} workflow effortless for ${segment}.\n\n## Problem Statement\n\nTeams lose hours each week to manual, error-prone processes.\n\n## Target Users\n\n${segment}\n\n## Key Features\n\n- Guided workflow automation\n- Integrations with systems of record\n- Live reporting\n\n## Success Metrics\n\n- Time to first value under 7 days\n\n## Timeline\n\n20 weeks from kickoff to launch\n\n## Risks & Mitigation\n\n- Competitive bundling: focus on depth\n\n## Dependencies\n\n- Integration partner APIs`,
+  });
+}
+
+const customerReplies = [
+  "Honestly, the biggest headache is how much copy-pasting I do between tools every week. If something just kept those in sync I'd be thrilled, but I've been burned by tools that promise that and then break.",
+  "We tried a couple of products last year. Setup took forever and my team went back to spreadsheets within a month. Whatever we use has to work in the first afternoon.",
+  "Price matters, but what really matters is whether my boss can see the numbers without asking me. If it saves me the Monday reporting scramble, I'd push for budget.",
+  "I haven't tried anything like that yet. My main worry would be security review - our IT team takes months to approve anything that touches customer data.",
+  "Right now we use a mix of email, a shared drive and one very fragile spreadsheet. It works until someone goes on vacation.",
+  "I'd switch if it integrated with the tools we already pay for. I'm not going to ask people to learn yet another system from scratch.",
+];
+
+const voiceAnswers = [
+  'Based on your workbench data, your top priority is validating the core workflow with design partners before expanding scope.',
+  'Your strategy focuses on a single high-frequency workflow first. The schedule front-loads customer validation in the first week.',
+  "From the customer conversations, the recurring theme is manual work between disconnected tools. That's the pain to lead with.",
+];
+
+function mockPlan(random: Random): string {
+  const categories = ['Research', 'Customer Validation', 'Planning', 'Development'];
+  const tasks = [
+    'Review strategy brief and define success criteria',
+    'Interview two target customers',
+    'Synthesize customer feedback into themes',
+    'Draft PRD scope for the MVP',
+    'Align with engineering on technical approach',
+    'Prototype the core workflow',
+    'Usability test the prototype',
+  ];
+  const priorities = ['high', 'medium', 'low'];
+
+  return JSON.stringify(Array.from({ length: 14 }, (_, index) => ({
+    day: index + 1,
+    task: tasks[index % tasks.length],
+    description: `Day ${index + 1}: ${tasks[index % tasks.length].toLowerCase()} and capture outcomes in the project notes.`,
+    duration: `${1 + Math.floor(random() * 3)} hours`,
+    priority: pick(random, priorities),
+    category: categories[index % categories.length],
+  })));
+}
+
+function mockRiskAnalysis(prompt: string, random: Random): string {
+  const hasPII = /Handles PII: Yes/.test(prompt);
+  const missingControls = (prompt.match(/(IAM|Encryption|Logging|Network) No/g) || []).map(match => match.split(' ')[0]);
+  const riskLevel = hasPII && missingControls.length > 0 ? 'HIGH' : hasPII || missingControls.length > 0 ? 'MEDIUM' : 'LOW';
+  const reasons = [
+    hasPII ? 'Entity handles PII, which requires a data processing agreement' : 'No PII handling reported',
+    missingControls.length > 0 ? `Security controls not attested: ${missingControls.join(', ')}` : 'Core security controls are attested',
+    pick(random, ['Request the latest SOC 2 Type II report', 'Confirm insurance coverage limits', 'Verify W9 details against the EIN']),
+  ];
+
+  return JSON.stringify({ riskLevel, reasons });
+}
+
+const panelPoints = [
+  'Too much copy-pasting between tools',
+  'Setup has to take an afternoon',
+  'Needs to integrate with existing tools',
+  'Security review is a blocker',
+  'Reporting for my manager',
+  'Price must pay back quickly',
+];
+
+function mockPanelAnswer(prompt: string, random: Random): string {
+  const skepticism = extract(prompt, 'Skepticism', 'medium');
+  const stance = skepticism.startsWith('high') ? 'skeptical' : skepticism.startsWith('low') ? 'supportive' : pick(random, ['supportive', 'mixed'] as const);
+  const first = Math.floor(random() * panelPoints.length);
+  return JSON.stringify({
+    answer: pick(random, customerReplies),
+    stance,
+    points: [panelPoints[first], panelPoints[(first + 1 + Math.floor(random() * 3)) % panelPoints.length]],
+  });
+}
+
+// Positions for each [P1], [P2], ... panelist named in the moderator prompt
+function mockPanelTopics(prompt: string, random: Random): string {
+  const panelists = prompt.match(/^\[P\d+\]/gm) || [];
+  const positions = ['agree', 'agree', 'disagree', 'silent'] as const;
+  return JSON.stringify({
+    topics: panelPoints.slice(0, 4).map(topic => ({
+      topic,
+      positions: Object.fromEntries(panelists.map(label => [label.slice(1, -1), pick(random, positions)])),
+    })),
+  });
+}
+
+const insightRules = [
+  { pattern: /copy-past|spreadsheet|email/i, type: 'pain_point', summary: 'Manual work between disconnected tools' },
+  { pattern: /setup|afternoon|learn yet another/i, type: 'objection', summary: 'Setup and onboarding effort' },
+  { pattern: /security|IT team/i, type: 'objection', summary: 'Security review slows adoption' },
+  { pattern: /integrat|in sync/i, type: 'feature_request', summary: 'Works with the tools already in use' },
+  { pattern: /boss can see|reporting/i, type: 'feature_request', summary: 'Reporting managers can check themselves' },
+  { pattern: /price|budget/i, type: 'willingness_to_pay', summary: 'Budget follows time saved on reporting' },
+];
+
+// Quotes whole sentences of the [Mn] Customer lines, one insight per rule that matches
+function mockInsights(prompt: string): string {
+  const known = new Map((prompt.match(/^\[I\d+\] \(\w+\) .+$/gm) || []).map(line => {
+    const [, label, summary] = line.match(/^\[(I\d+)\] \(\w+\) (.+)$/)!;
+    return [summary, label] as const;
+  }));
+  const sentences = (prompt.match(/^\[M\d+\] Customer: .+$/gm) || []).flatMap(line => {
+    const [, label, content] = line.match(/^\[(M\d+)\] Customer: (.+)$/)!;
+    return content.split(/(?<=[.!?])\s+/).map(quote => ({ message: label, quote }));
+  });
+  return JSON.stringify({
+    insights: insightRules
+      .map(rule => ({
+        type: rule.type,
+        summary: rule.summary,
+        existing: known.get(rule.summary) || null,
+        quotes: sentences.filter(sentence => rule.pattern.test(sentence.quote)),
+      }))
+      .filter(insight => insight.quotes.length > 0),
+  });
+}
+
+function mockAudioSummary(prompt: string): string {
+  const northStar = extract(prompt, 'North Star', 'not defined yet');
+  return `Here's your PM Workbench summary. Based on your strategy analysis, your North Star is: ${northStar}. Your customers are telling you that manual work between disconnected tools is their biggest pain. Your action plan includes validating the core workflow with design partners over the next two weeks.`;
+}
+
+// Pause between streamed words, so the UI shows replies arriving as a real provider would
+const STREAM_WORD_DELAY_MS = 5;
+
+export function createMockClient(): LLMClient {
+  const seed = process.env.MOCK_LLM_SEED || 'syntria';
+
+  function respond(input: LLMRequest | string): string {
+    const request: LLMRequest = typeof input === 'string' ? { prompt: input } : input;
+    const agent = request.agent || 'generic';
+    const random = createRandom(hashString(`${seed}:${agent}:${request.prompt}`));
+
+    switch (agent) {
+      case 'strategy':
+        return mockStrategy(request.prompt, random);
+      case 'strategy-repair':
+        // Fixture brief is already valid; return it whole and let the agent pick the requested fields
+        return mockStrategy(request.prompt, random);
+      case 'customer-advisory':
+        return pick(random, customerReplies);
+      case 'customer-panel':
+        return mockPanelAnswer(request.prompt, random);
+      case 'customer-panel-moderator':
+        return mockPanelTopics(request.prompt, random);
+      case 'interview-synthesis':
+        return mockInsights(request.prompt);
+      case 'schedule':
+      case 'two-week-plan':
+        return mockPlan(random);
+      case 'risk-score':
+        return mockRiskAnalysis(request.prompt, random);
+      case 'audio-summary':
+        return mockAudioSummary(request.prompt);
+      case 'voice-assistant':
+        return pick(random, voiceAnswers);
+      default:
+        return 'This is a mock response generated offline.';
+    }
+  }
+
+  return {
+    provider: 'mock',
+    model: `mock-fixtures (seed: ${seed})`,
+    supportsDocuments: true,
+    configurationError: () => null,
+    async generate(input, options = {}) {
+      options.signal?.throwIfAborted();
+      return respond(input);
+    },
+    async *stream(input, options = {}) {
+      for (const word of respond(input).match(/\s*\S+\s*/g) || []) {
+        await new Promise(resolve => setTimeout(resolve, STREAM_WORD_DELAY_MS));
+        options.signal?.throwIfAborted();
+        yield word;
+      }
+    },
+  };
+}
+
+// Silent MPEG-1 Layer III audio: 32 kbps, 44.1 kHz mono frames with empty side info.
+// Plays as silence in any MP3 decoder, standing in for ElevenLabs output.
+export function createSilentMp3(durationSeconds: number): Buffer {
+  const frameLength = Math.floor((144 * 32000) / 44100); // 104 bytes
+  const frameCount = Math.max(1, Math.ceil((durationSeconds * 44100) / 1152));
+  const buffer = Buffer.alloc(frameLength * frameCount);
+
+  for (let i = 0; i < frameCount; i++) {
+    buffer.set([0xff, 0xfb, 0x10, 0xc0], i * frameLength);
+  }
+  return buffer;
+}
+
+// Rough speaking time for a script (about 150 words per minute), capped for small payloads
+export function estimateSpeechSeconds(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.min(30, Math.max(1, Math.round(words / 2.5)));
+}
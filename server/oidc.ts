@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import type { Role } from '../src/lib/types';
+import { isRole } from './auth';
+
+// Optional OpenID Connect sign-in (authorization code flow with PKCE).
+// Works with any standards-compliant issuer, including a local stand-in such as
+// mock-oauth2-server or Keycloak in dev mode. Disabled unless OIDC_ISSUER is set.
+
+interface OidcDiscovery {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+}
+
+export interface OidcProfile {
+  subject: string;
+  username: string;
+  displayName: string;
+  // Role from the configured claim, when the issuer sends one we recognise
+  role: Role | null;
+}
+
+const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+
+// state -> PKCE verifier for logins in flight
+const pendingLogins = new Map<string, { verifier: string; expiresAt: number }>();
+
+let discovery: { issuer: string; document: OidcDiscovery } | null = null;
+
+export function getOidcSettings() {
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/$/, '');
+  if (!issuer) {
+    return null;
+  }
+  return {
+    issuer,
+    clientId: process.env.OIDC_CLIENT_ID || '',
+    clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+    redirectUri: process.env.OIDC_REDIRECT_URI || 'http://localhost:8787/api/auth/oidc/callback',
+    scopes: process.env.OIDC_SCOPES || 'openid profile email',
+    roleClaim: process.env.OIDC_ROLE_CLAIM || 'roles',
+    defaultRole: isRole(process.env.OIDC_DEFAULT_ROLE) ? process.env.OIDC_DEFAULT_ROLE : 'analyst',
+    displayName: process.env.OIDC_DISPLAY_NAME || 'SSO',
+  };
+}
+
+type OidcSettings = NonNullable<ReturnType<typeof getOidcSettings>>;
+
+async function discover(settings: OidcSettings): Promise<OidcDiscovery> {
+  if (discovery?.issuer !== settings.issuer) {
+    const response = await axios.get(`${settings.issuer}/.well-known/openid-configuration`);
+    discovery = { issuer: settings.issuer, document: response.data };
+  }
+  return discovery.document;
+}
+
+const base64url = (buffer: Buffer) => buffer.toString('base64url');
+
+export async function buildAuthorizationUrl(settings: OidcSettings): Promise<string> {
+  const { authorization_endpoint } = await discover(settings);
+
+  const now = Date.now();
+  for (const [state, pending] of pendingLogins) {
+    if (pending.expiresAt < now) pendingLogins.delete(state);
+  }
+
+  const state = base64url(crypto.randomBytes(16));
+  const verifier = base64url(crypto.randomBytes(32));
+  pendingLogins.set(state, { verifier, expiresAt: now + PENDING_LOGIN_TTL_MS });
+
+  const url = new URL(authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: settings.clientId,
+    redirect_uri: settings.redirectUri,
+    scope: settings.scopes,
+    state,
+    code_challenge: base64url(crypto.createHash('sha256').update(verifier).digest()),
+    code_challenge_method: 'S256',
+  }).toString();
+  return url.toString();
+}
+
+function pickRole(claim: unknown): Role | null {
+  const values = Array.isArray(claim) ? claim : typeof claim === 'string' ? claim.split(/[\s,]+/) : [];
+  // Most privileged recognised role wins
+  const roles = values.filter(isRole);
+  for (const role of ['admin', 'risk_committee', 'manager', 'analyst'] as Role[]) {
+    if (roles.includes(role)) return role;
+  }
+  return null;
+}
+
+// Exchange the callback code and read the user's claims from the userinfo endpoint
+export async function completeLogin(settings: OidcSettings, code: string, state: string): Promise<OidcProfile> {
+  const pending = pendingLogins.get(state);
+  pendingLogins.delete(state);
+  if (!pending || pending.expiresAt < Date.now()) {
+    throw new Error('Sign-in request expired or was not started here');
+  }
+
+  const { token_endpoint, userinfo_endpoint } = await discover(settings);
+  const tokenResponse = await axios.post(
+    token_endpoint,
+    new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: settings.redirectUri,
+      client_id: settings.clientId,
+      client_secret: settings.clientSecret,
+      code_verifier: pending.verifier,
+    }).toString(),
+    { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+  );
+
+  const userinfo = await axios.get(userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${tokenResponse.data.access_token}` },
+  });
+  const claims = userinfo.data;
+  if (!claims?.sub) {
+    throw new Error('Identity provider did not return a subject');
+  }
+
+  return {
+    subject: String(claims.sub),
+    username: String(claims.preferred_username || claims.email || claims.sub).toLowerCase(),
+    displayName: String(claims.name || claims.preferred_username || claims.email || claims.sub),
+    role: pickRole(claims[settings.roleClaim]),
+  };
+}
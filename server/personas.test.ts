@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Persona, StrategyBrief, StrategyICP } from '../src/lib/types';
+import { createPersonas, PERSONA_DEFAULTS, personaFromIcp, validatePersona } from './personas';
+import { DataStore, MemoryDriver } from './storage';
+
+const icp = (segment: string): StrategyICP => ({
+  segment,
+  description: `${segment} teams`,
+  painPoints: ['Manual reporting'],
+  opportunities: [],
+  buyingBehavior: 'Trials first',
+});
+
+describe('validatePersona', () => {
+  it('requires a name and segment, and trims text and list items', () => {
+    assert.equal(validatePersona({ segment: 'Retail' }).error, 'name is required');
+    assert.equal(validatePersona({ name: 'Alex', segment: '  ' }).error, 'segment is required');
+    assert.deepEqual(validatePersona({ name: ' Alex ', segment: 'Retail', currentTools: [' Excel ', ''] }).persona, {
+      name: 'Alex',
+      segment: 'Retail',
+      currentTools: ['Excel'],
+    });
+  });
+
+  it('checks only the fields present in a partial update', () => {
+    assert.deepEqual(validatePersona({ skepticism: 'high' }, true), { persona: { skepticism: 'high' }, error: null });
+    assert.equal(validatePersona({ skepticism: 'extreme' }, true).error, 'skepticism must be one of: low, medium, high');
+    assert.equal(validatePersona({ painPoints: 'Cost' }, true).error, 'painPoints must be a list of strings');
+    assert.equal(validatePersona({ role: 'x'.repeat(501) }, true).error, 'role must be at most 500 characters');
+  });
+});
+
+describe('personaFromIcp', () => {
+  it('gives later segments more skepticism and keeps the buying behavior', () => {
+    const personas = [0, 1, 2, 3].map(index => personaFromIcp(icp('Retail'), index));
+    assert.deepEqual(personas.map(persona => persona.skepticism), ['low', 'medium', 'high', 'high']);
+    assert.equal(personas[1].name, 'Priya (Retail)');
+    assert.equal(personas[0].description, 'Retail teams Buying behavior: Trials first');
+  });
+});
+
+describe('createPersonas', () => {
+  it('seeds one persona per segment the project does not cover yet', async () => {
+    const personas = createPersonas((await DataStore.open(new MemoryDriver())).collection<Persona>('personas'));
+    await personas.create('project-1', { ...PERSONA_DEFAULTS, name: 'Own pick', segment: 'retail' }, 'manual');
+    const brief = { icps: [icp('Retail'), icp('Logistics'), icp(' logistics ')] } as StrategyBrief;
+
+    const created = await personas.seedFromBrief('project-1', brief);
+    assert.deepEqual(created.map(persona => [persona.segment, persona.source, persona.skepticism]), [['Logistics', 'icp', 'medium']]);
+    assert.deepEqual(await personas.seedFromBrief('project-1', brief), []);
+    assert.equal((await personas.list('project-1')).length, 2);
+    assert.equal(await personas.get('project-2', created[0].id), undefined);
+  });
+});
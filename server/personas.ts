@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import type { Persona, PersonaInput, SkepticismLevel, StrategyBrief, StrategyICP } from '../src/lib/types';
+import type { Repository } from './storage';
+
+// Customer personas for the advisory panel. Each project keeps its own; a strategy brief's ICPs
+// seed one persona per segment the project doesn't cover yet, and the PM can edit or add more.
+
+export const SKEPTICISM_LEVELS: SkepticismLevel[] = ['low', 'medium', 'high'];
+
+// First names for seeded personas, so panel answers read as different people
+const SEED_NAMES = ['Alex', 'Priya', 'Jordan', 'Mei', 'Sam', 'Diego', 'Fatima', 'Noah'];
+
+const MAX_TEXT_LENGTH = 500;
+
+// Fields a hand-written persona may leave out
+export const PERSONA_DEFAULTS: Omit<PersonaInput, 'name' | 'segment'> = {
+  role: '',
+  budget: '',
+  currentTools: [],
+  painPoints: [],
+  skepticism: 'medium',
+  description: '',
+};
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Checks a full persona or, with `partial`, only the fields present; returns the cleaned fields
+export function validatePersona(
+  input: Record<string, unknown>,
+  partial = false
+): { persona: Partial<PersonaInput> | null; error: string | null } {
+  const persona: Partial<PersonaInput> = {};
+
+  for (const field of ['name', 'segment', 'role', 'budget', 'description'] as const) {
+    const value = input[field];
+    if (value === undefined && (partial || (field !== 'name' && field !== 'segment'))) continue;
+    if (typeof value !== 'string' || ((field === 'name' || field === 'segment') && !value.trim())) {
+      return { persona: null, error: `${field} is required` };
+    }
+    if (value.length > MAX_TEXT_LENGTH) {
+      return { persona: null, error: `${field} must be at most ${MAX_TEXT_LENGTH} characters` };
+    }
+    persona[field] = value.trim();
+  }
+
+  for (const field of ['currentTools', 'painPoints'] as const) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (!isStringList(value)) {
+      return { persona: null, error: `${field} must be a list of strings` };
+    }
+    persona[field] = value.map(item => item.trim()).filter(Boolean);
+  }
+
+  if (input.skepticism !== undefined) {
+    if (!SKEPTICISM_LEVELS.includes(input.skepticism as SkepticismLevel)) {
+      return { persona: null, error: `skepticism must be one of: ${SKEPTICISM_LEVELS.join(', ')}` };
+    }
+    persona.skepticism = input.skepticism as SkepticismLevel;
+  }
+
+  return { persona, error: null };
+}
+
+// Later ICPs are usually narrower bets, so they start out more skeptical
+export function personaFromIcp(icp: StrategyICP, index: number): PersonaInput {
+  return {
+    name: `${SEED_NAMES[index % SEED_NAMES.length]} (${icp.segment})`,
+    segment: icp.segment,
+    role: 'Buyer and day-to-day user',
+    budget: '',
+    currentTools: [],
+    painPoints: icp.painPoints,
+    skepticism: SKEPTICISM_LEVELS[Math.min(index, SKEPTICISM_LEVELS.length - 1)],
+    description: [icp.description, icp.buyingBehavior && `Buying behavior: ${icp.buyingBehavior}`].filter(Boolean).join(' '),
+  };
+}
+
+export function createPersonas(repo: Repository<Persona>) {
+  async function list(projectId: string): Promise<Persona[]> {
+    return (await repo.list())
+      .filter(persona => persona.projectId === projectId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async function get(projectId: string, id: string): Promise<Persona | undefined> {
+    const persona = await repo.get(id);
+    return persona?.projectId === projectId ? persona : undefined;
+  }
+
+  async function create(projectId: string, input: PersonaInput, source: Persona['source']): Promise<Persona> {
+    const now = new Date().toISOString();
+    return repo.insert({ id: `persona-${crypto.randomUUID()}`, projectId, ...input, source, createdAt: now, updatedAt: now });
+  }
+
+  async function update(persona: Persona, changes: Partial<PersonaInput>): Promise<Persona> {
+    return (await repo.update(persona.id, { ...changes, updatedAt: new Date().toISOString() }))!;
+  }
+
+  async function remove(persona: Persona): Promise<void> {
+    await repo.remove(persona.id);
+  }
+
+  // One persona per ICP segment the project has no persona for yet; returns the new ones
+  async function seedFromBrief(projectId: string, brief: StrategyBrief): Promise<Persona[]> {
+    const existing = await list(projectId);
+    const covered = new Set(existing.map(persona => persona.segment.trim().toLowerCase()));
+    const created: Persona[] = [];
+    for (const icp of brief.icps) {
+      const segment = icp.segment.trim().toLowerCase();
+      if (!segment || covered.has(segment)) continue;
+      covered.add(segment);
+      created.push(await create(projectId, personaFromIcp(icp, existing.length + created.length), 'icp'));
+    }
+    return created;
+  }
+
+  return { list, get, create, update, remove, seedFromBrief };
+}
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+import type { Project } from '../src/lib/types';
+import { createProjects } from './projects';
+import { DataStore, MemoryDriver } from './storage';
+
+const openProjects = async () => createProjects((await DataStore.open(new MemoryDriver())).collection<Project>('projects'));
+
+describe('createProjects', () => {
+  it('requires a name of at most 80 characters and trims it', async () => {
+    const projects = await openProjects();
+    assert.equal((await projects.create('  ', 'ana')).error, 'Project name is required');
+    assert.equal((await projects.create('x'.repeat(81), 'ana')).error, 'Project name must be at most 80 characters');
+    const { project } = await projects.create('  Launch plan ', 'ana');
+    assert.equal(project?.name, 'Launch plan');
+    assert.deepEqual(project?.customerMessages, []);
+  });
+
+  it('lists the most recently worked on first and hides archived projects unless asked', async () => {
+    const projects = await openProjects();
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-03-01T00:00:00Z') });
+    try {
+      const first = (await projects.create('First', 'ana')).project!;
+      mock.timers.tick(1000);
+      const second = (await projects.create('Second', 'ana')).project!;
+      mock.timers.tick(1000);
+      await projects.saveWork(first.id, { automation: null });
+      mock.timers.tick(1000);
+      await projects.update(second, { archived: true });
+    } finally {
+      mock.timers.reset();
+    }
+
+    assert.deepEqual((await projects.list()).map(project => project.name), ['First']);
+    assert.deepEqual((await projects.list(true)).map(project => project.name), ['Second', 'First']);
+  });
+
+  it('renames, archives and restores, and validates transcripts', async () => {
+    const projects = await openProjects();
+    const project = (await projects.create('Draft', 'ana')).project!;
+
+    const archived = (await projects.update(project, { name: 'Final', archived: true })).project!;
+    assert.equal(archived.name, 'Final');
+    assert.ok(archived.archivedAt);
+    assert.equal((await projects.update(archived, { archived: true })).project?.archivedAt, archived.archivedAt);
+    assert.equal((await projects.update(archived, { archived: false })).project?.archivedAt, null);
+
+    assert.equal((await projects.update(project, { archived: 'yes' })).error, 'archived must be true or false');
+    assert.match((await projects.update(project, { voiceMessages: [{ role: 'system', content: 'hi' }] })).error!, /voiceMessages must be a list/);
+  });
+
+  it('only runs agents in a project that exists and is not archived', async () => {
+    const projects = await openProjects();
+    const project = (await projects.create('Live', 'ana')).project!;
+    assert.deepEqual(await projects.forRun(undefined), { project: null, status: 200, error: null });
+    assert.equal((await projects.forRun('project-missing')).status, 404);
+    assert.equal((await projects.forRun(project.id)).project?.id, project.id);
+
+    await projects.update(project, { archived: true });
+    assert.equal((await projects.forRun(project.id)).status, 409);
+  });
+
+  it('appends each exchange to the saved transcript', async () => {
+    const projects = await openProjects();
+    const { id } = (await projects.create('Chat', 'ana')).project!;
+    await projects.appendMessages(id, 'customerMessages', [{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello' }]);
+    await projects.appendMessages(id, 'customerMessages', [{ role: 'user', content: 'Pricing?' }]);
+
+    const saved = await projects.get(id);
+    assert.deepEqual(saved?.customerMessages.map(({ role, content }) => [role, content]), [
+      ['user', 'Hi'],
+      ['assistant', 'Hello'],
+      ['user', 'Pricing?'],
+    ]);
+    assert.deepEqual(saved?.voiceMessages, []);
+    assert.equal(await projects.appendMessages('project-missing', 'voiceMessages', []), undefined);
+  });
+
+  it('gives saved messages fresh ids and starts a new session when the customer chat is replaced', async () => {
+    const projects = await openProjects();
+    const project = (await projects.create('Interviews', 'ana')).project!;
+    const saved = (await projects.appendMessages(project.id, 'customerMessages', [{ id: 'client-id', role: 'user', content: 'Hi' }]))!;
+    assert.match(saved.customerMessages[0].id!, /^msg-/);
+    await projects.saveWork(project.id, { lastSynthesizedMessageId: saved.customerMessages[0].id! });
+
+    const cleared = (await projects.update(saved, { customerMessages: [] })).project!;
+    assert.notEqual(cleared.customerSessionId, project.customerSessionId);
+    assert.equal(cleared.lastSynthesizedMessageId, null);
+  });
+});
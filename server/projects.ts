@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import type { ChatMessage, PanelRound, Project, ProjectSummary } from '../src/lib/types';
+import type { Repository } from './storage';
+
+// Workbench projects. Each one owns the strategy briefs, customer chat, panel and voice assistant
+// transcripts, automation plan and audio summary produced for it, so work survives a refresh and the Workbench
+// can switch between projects. Agent endpoints save their output into the project named by `projectId`.
+
+const MAX_NAME_LENGTH = 80;
+
+export type ProjectWork = Partial<Pick<
+  Project,
+  | 'strategyInput'
+  | 'canonicalBriefVersion'
+  | 'customerMessages'
+  | 'lastSynthesizedMessageId'
+  | 'automation'
+  | 'audioSummary'
+  | 'voiceMessages'
+  | 'panelRounds'
+>>;
+
+export interface ProjectPatch {
+  name?: unknown;
+  archived?: unknown;
+  customerMessages?: unknown;
+  voiceMessages?: unknown;
+  panelRounds?: unknown;
+}
+
+export const toProjectSummary = ({ id, name, createdBy, createdAt, updatedAt, archivedAt }: Project): ProjectSummary =>
+  ({ id, name, createdBy, createdAt, updatedAt, archivedAt });
+
+function checkName(name: unknown): string | null {
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'Project name is required';
+  }
+  return name.trim().length > MAX_NAME_LENGTH ? `Project name must be at most ${MAX_NAME_LENGTH} characters` : null;
+}
+
+const isChatMessages = (value: unknown): value is ChatMessage[] =>
+  Array.isArray(value) && value.every(message =>
+    (message?.role === 'user' || message?.role === 'assistant') && typeof message.content === 'string');
+
+export const newSessionId = () => `session-${crypto.randomUUID()}`;
+
+// Saved messages always get a fresh id; ids sent by the client are ignored
+export const withMessageIds = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.map(({ role, content }) => ({ id: `msg-${crypto.randomUUID()}`, role, content }));
+
+export function createProjects(repo: Repository<Project>) {
+  // Most recently worked on first; archived projects only when asked for
+  async function list(includeArchived = false): Promise<ProjectSummary[]> {
+    return (await repo.list())
+      .filter(project => includeArchived || !project.archivedAt)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(toProjectSummary);
+  }
+
+  async function get(id: string): Promise<Project | undefined> {
+    return repo.get(id);
+  }
+
+  async function create(name: unknown, createdBy: string): Promise<{ project: Project | null; error: string | null }> {
+    const error = checkName(name);
+    if (error) {
+      return { project: null, error };
+    }
+    const now = new Date().toISOString();
+    const project = await repo.insert({
+      id: `project-${crypto.randomUUID()}`,
+      name: String(name).trim(),
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+      archivedAt: null,
+      strategyInput: null,
+      canonicalBriefVersion: null,
+      customerMessages: [],
+      customerSessionId: newSessionId(),
+      lastSynthesizedMessageId: null,
+      automation: null,
+      audioSummary: null,
+      voiceMessages: [],
+      panelRounds: [],
+    });
+    return { project, error: null };
+  }
+
+  // Rename, archive or restore (`archived`), replace a chat transcript - e.g. [] to clear it - or clear the panel.
+  // A replaced customer transcript is a new session; insights already synthesized from the old one are kept.
+  async function update(project: Project, patch: ProjectPatch): Promise<{ project: Project | null; error: string | null }> {
+    const changes: Partial<Project> = {};
+    if (patch.name !== undefined) {
+      const error = checkName(patch.name);
+      if (error) return { project: null, error };
+      changes.name = String(patch.name).trim();
+    }
+    if (patch.archived !== undefined) {
+      if (typeof patch.archived !== 'boolean') return { project: null, error: 'archived must be true or false' };
+      changes.archivedAt = patch.archived ? project.archivedAt || new Date().toISOString() : null;
+    }
+    for (const field of ['customerMessages', 'voiceMessages'] as const) {
+      if (patch[field] === undefined) continue;
+      if (!isChatMessages(patch[field])) {
+        return { project: null, error: `${field} must be a list of { role: "user" | "assistant", content }` };
+      }
+      changes[field] = withMessageIds(patch[field]);
+    }
+    if (changes.customerMessages) {
+      changes.customerSessionId = newSessionId();
+      changes.lastSynthesizedMessageId = null;
+    }
+    if (patch.panelRounds !== undefined) {
+      if (!Array.isArray(patch.panelRounds) || patch.panelRounds.length > 0) {
+        return { project: null, error: 'panelRounds can only be cleared ([])' };
+      }
+      changes.panelRounds = [];
+    }
+    const updated = await repo.update(project.id, { ...changes, updatedAt: new Date().toISOString() });
+    return { project: updated!, error: null };
+  }
+
+  // The project an agent run saves into: none when no id is given, an error when it is missing or archived
+  async function forRun(projectId: unknown): Promise<{ project: Project | null; status: number; error: string | null }> {
+    if (projectId === undefined || projectId === null || projectId === '') {
+      return { project: null, status: 200, error: null };
+    }
+    const project = await repo.get(String(projectId));
+    if (!project) {
+      return { project: null, status: 404, error: 'Project not found' };
+    }
+    if (project.archivedAt) {
+      return { project: null, status: 409, error: 'Project is archived; restore it to keep working in it' };
+    }
+    return { project, status: 200, error: null };
+  }
+
+  async function saveWork(id: string, work: ProjectWork): Promise<Project | undefined> {
+    return repo.update(id, { ...work, updatedAt: new Date().toISOString() });
+  }
+
+  // Adds one exchange to a transcript, read fresh so concurrent saves to other fields are kept
+  async function appendMessages(id: string, field: 'customerMessages' | 'voiceMessages', messages: ChatMessage[]) {
+    const project = await repo.get(id);
+    if (!project) return undefined;
+    return saveWork(id, { [field]: [...project[field], ...withMessageIds(messages)] });
+  }
+
+  async function appendPanelRound(id: string, round: PanelRound) {
+    const project = await repo.get(id);
+    if (!project) return undefined;
+    return saveWork(id, { panelRounds: [...project.panelRounds, round] });
+  }
+
+  return { list, get, create, update, forRun, saveWork, appendMessages, appendPanelRound };
+}
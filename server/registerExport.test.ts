@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { Writable } from 'node:stream';
+import { describe, it } from 'node:test';
+import type { Entity } from '../src/lib/types';
+import { parseXlsx } from './bulkImport';
+import { csvCell, ENTITY_EXPORT_COLUMNS, ExportColumn, writeExport } from './registerExport';
+
+// Collects everything written, like a response that always drains
+function collector() {
+  const chunks: Buffer[] = [];
+  const out = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(Buffer.from(chunk));
+      callback();
+    },
+  });
+  return { out, body: () => Buffer.concat(chunks) };
+}
+
+interface Row {
+  name: string;
+  score: number | null;
+  pii: boolean;
+}
+
+const columns: ExportColumn<Row>[] = [
+  { key: 'name', header: 'Name', value: row => row.name },
+  { key: 'score', header: 'Score', value: row => row.score },
+  { key: 'pii', header: 'PII', value: row => row.pii },
+];
+
+const rows: Row[] = [
+  { name: 'Acme, "Inc."', score: 42, pii: true },
+  { name: '=HYPERLINK("http://evil")', score: null, pii: false },
+];
+
+describe('csvCell', () => {
+  it('quotes delimiters, quotes and line breaks', () => {
+    assert.equal(csvCell('Acme, Inc.'), '"Acme, Inc."');
+    assert.equal(csvCell('Said "hi"'), '"Said ""hi"""');
+    assert.equal(csvCell('two\nlines'), '"two\nlines"');
+    assert.equal(csvCell(null), '');
+    assert.equal(csvCell(7), '7');
+  });
+
+  it('defuses text a spreadsheet would run as a formula', () => {
+    for (const formula of ['=1+1', '+1', '-1', '@SUM(A1)']) {
+      assert.equal(csvCell(formula), `'${formula}`);
+    }
+    assert.equal(csvCell('=A1,B1'), `"'=A1,B1"`);
+  });
+});
+
+describe('writeExport', () => {
+  it('writes CSV with a BOM and CRLF line ends', async () => {
+    const { out, body } = collector();
+    await writeExport(out, 'csv', rows, columns, 'test');
+    assert.equal(body().toString('utf8'),
+      '﻿Name,Score,PII\r\n"Acme, ""Inc."""' + ',42,true\r\n' + `"'=HYPERLINK(""http://evil"")",,false\r\n`);
+  });
+
+  it('writes one JSON object per line, keyed by column', async () => {
+    const { out, body } = collector();
+    await writeExport(out, 'jsonl', rows, columns, 'test');
+    const lines = body().toString('utf8').trim().split('\n').map(line => JSON.parse(line));
+    assert.deepEqual(lines, [
+      { name: 'Acme, "Inc."', score: 42, pii: true },
+      { name: '=HYPERLINK("http://evil")', score: null, pii: false },
+    ]);
+  });
+
+  it('writes an XLSX workbook that reads back cell for cell', async () => {
+    const { out, body } = collector();
+    await writeExport(out, 'xlsx', [...rows, { name: 'Tab\there & <there>', score: 0, pii: false }], columns, 'Register & Co');
+    assert.deepEqual(parseXlsx(body()), [
+      { row: 1, cells: ['Name', 'Score', 'PII'] },
+      { row: 2, cells: ['Acme, "Inc."', '42', 'TRUE'] },
+      { row: 3, cells: ['=HYPERLINK("http://evil")', '', 'FALSE'] },
+      { row: 4, cells: ['Tab\there & <there>', '0', 'FALSE'] },
+    ]);
+  });
+
+  it('leaves fields a stored entity lacks empty', async () => {
+    const { out, body } = collector();
+    const legacy = { id: 'entity-1', name: 'Old Co', type: 'vendor', status: 'Active', riskLevel: 'LOW', compliance: 'Pass' } as Entity;
+    await writeExport(out, 'jsonl', [legacy], ENTITY_EXPORT_COLUMNS, 'entities');
+    const [line] = body().toString('utf8').trim().split('\n').map(text => JSON.parse(text));
+    assert.equal(line.riskScore, null);
+    assert.equal(line.documents, '');
+    assert.equal(line.hasPII, false);
+  });
+
+  for (const format of ['csv', 'xlsx'] as const) {
+    it(`stops producing ${format} rows once the client disconnects`, async () => {
+      // A response whose client went away: nothing drains, then the socket closes
+      const out = new Writable({ highWaterMark: 1, write() {} });
+      let produced = 0;
+      const counted: ExportColumn<Row>[] = [{ key: 'name', header: 'Name', value: row => (produced++, row.name) }];
+      const many = Array.from({ length: 50_000 }, (_, n) => ({ name: `Row ${n}`, score: n, pii: false }));
+
+      const done = writeExport(out, format, many, counted, 'test');
+      setTimeout(() => out.destroy(), 20);
+      await assert.rejects(done, /closed/);
+      assert.ok(produced < many.length);
+    });
+  }
+});
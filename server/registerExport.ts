@@ -0,0 +1,305 @@
+import { once } from 'events';
+import { Readable } from 'stream';
+import type { Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+import type { AuditEvent, Entity, ExportFormat } from '../src/lib/types';
+
+// Entity register and audit trail exports as CSV, JSONL or XLSX.
+// Every format uses the same columns in the same order. Rows are written one at a time and
+// wait for the response to drain, so a large export never sits in memory as a whole file;
+// the rows passed in are already in memory.
+// When the client goes away mid-export the write fails and no further rows are produced.
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'jsonl', 'xlsx'];
+
+type Cell = string | number | boolean | null;
+
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  value: (row: T) => Cell;
+}
+
+const text = (value: unknown): string | null => (value === undefined || value === null || value === '' ? null : String(value));
+
+export const ENTITY_EXPORT_COLUMNS: ExportColumn<Entity & Record<string, unknown>>[] = [
+  { key: 'id', header: 'ID', value: entity => entity.id },
+  { key: 'name', header: 'Name', value: entity => entity.name },
+  { key: 'type', header: 'Type', value: entity => entity.type },
+  { key: 'status', header: 'Status', value: entity => entity.status },
+  { key: 'riskLevel', header: 'Risk Level', value: entity => entity.riskLevel },
+  { key: 'riskScore', header: 'Risk Score', value: entity => entity.riskScore ?? null },
+  { key: 'compliance', header: 'Compliance', value: entity => entity.compliance },
+  { key: 'riskPolicyVersion', header: 'Policy Version', value: entity => entity.riskPolicyVersion ?? null },
+  { key: 'owner', header: 'Owner', value: entity => text(entity.owner) },
+  { key: 'country', header: 'Country', value: entity => text(entity.country) },
+  { key: 'ein', header: 'EIN', value: entity => text(entity.ein) },
+  { key: 'contactEmail', header: 'Contact Email', value: entity => text(entity.contactEmail) },
+  { key: 'documents', header: 'Documents', value: entity => (entity.documents || []).join('; ') },
+  { key: 'hasPII', header: 'Handles PII', value: entity => !!entity.hasPII },
+  { key: 'iam', header: 'IAM', value: entity => !!(entity.controls?.iam ?? entity.hasControls) },
+  { key: 'encryption', header: 'Encryption', value: entity => !!(entity.controls?.encryption ?? entity.hasControls) },
+  { key: 'logging', header: 'Logging', value: entity => !!(entity.controls?.logging ?? entity.hasControls) },
+  { key: 'network', header: 'Network', value: entity => !!(entity.controls?.network ?? entity.hasControls) },
+  { key: 'createdAt', header: 'Created', value: entity => text(entity.createdAt) },
+  { key: 'lastUpdated', header: 'Last Updated', value: entity => text(entity.lastUpdated) },
+  { key: 'lastReviewedAt', header: 'Last Reviewed', value: entity => text(entity.lastReviewedAt) },
+  { key: 'nextReviewDate', header: 'Next Review', value: entity => text(entity.nextReviewDate) },
+  { key: 'decommissionedAt', header: 'Decommissioned', value: entity => text(entity.decommissionedAt) },
+  { key: 'decommissionReason', header: 'Decommission Reason', value: entity => text(entity.decommissionReason) },
+];
+
+export const AUDIT_EXPORT_COLUMNS: ExportColumn<AuditEvent>[] = [
+  { key: 'seq', header: 'Seq', value: event => event.seq },
+  { key: 'id', header: 'ID', value: event => event.id },
+  { key: 'timestamp', header: 'Timestamp', value: event => event.timestamp },
+  { key: 'action', header: 'Action', value: event => event.action },
+  { key: 'entityId', header: 'Entity ID', value: event => text(event.entityId) },
+  { key: 'entityName', header: 'Entity', value: event => text(event.entityName) },
+  { key: 'user', header: 'User', value: event => event.user },
+  { key: 'details', header: 'Details', value: event => text(event.details) },
+  { key: 'prevHash', header: 'Previous Hash', value: event => event.prevHash },
+  { key: 'hash', header: 'Hash', value: event => event.hash },
+];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+// Stored records predate some fields, so a missing value is written as an empty cell
+const cellsOf = <T>(row: T, columns: ExportColumn<T>[]): Cell[] => columns.map(column => column.value(row) ?? null);
+
+async function write(out: Writable, chunk: string | Buffer): Promise<void> {
+  if (out.destroyed) {
+    throw new Error('Export stream closed');
+  }
+  if (!out.write(chunk)) {
+    // A response closed before it drains never emits 'drain'
+    const abort = new AbortController();
+    try {
+      await Promise.race([
+        once(out, 'drain', { signal: abort.signal }),
+        once(out, 'close', { signal: abort.signal }).then(() => {
+          throw new Error('Export stream closed');
+        }),
+      ]);
+    } finally {
+      abort.abort();
+    }
+  }
+}
+
+// RFC 4180 quoting. Text that a spreadsheet would run as a formula gets a leading apostrophe.
+export function csvCell(value: Cell): string {
+  if (value === null) return '';
+  if (typeof value !== 'string') return String(value);
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function* csvLines<T>(rows: T[], columns: ExportColumn<T>[]) {
+  // The BOM makes Excel read the file as UTF-8
+  yield `\uFEFF${columns.map(column => csvCell(column.header)).join(',')}\r\n`;
+  for (const row of rows) {
+    yield `${cellsOf(row, columns).map(csvCell).join(',')}\r\n`;
+  }
+}
+
+function* jsonLines<T>(rows: T[], columns: ExportColumn<T>[]) {
+  for (const row of rows) {
+    const cells = cellsOf(row, columns);
+    yield `${JSON.stringify(Object.fromEntries(columns.map((column, index) => [column.key, cells[index]])))}\n`;
+  }
+}
+
+// XML 1.0 has no escape for most control characters, so they are dropped
+const xml = (value: string) => value
+  .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function xlsxCell(value: Cell, ref: string): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return `<c r="${ref}"><v>${value}</v></c>`;
+  if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xml(value)}</t></is></c>`;
+}
+
+function* sheetXml<T>(rows: T[], columns: ExportColumn<T>[]) {
+  const row = (cells: Cell[], number: number) =>
+    `<row r="${number}">${cells.map((cell, index) => xlsxCell(cell, `${columnName(index)}${number}`)).join('')}</row>`;
+  yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + `<sheetData>${row(columns.map(column => column.header), 1)}`;
+  let number = 2;
+  for (const item of rows) {
+    yield row(cellsOf(item, columns), number++);
+  }
+  yield '</sheetData></worksheet>';
+}
+
+function workbookParts(sheetName: string): Array<[string, string]> {
+  const header = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  return [
+    ['[Content_Types].xml', `${header}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      + '</Types>'],
+    ['_rels/.rels', `${header}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+      + '</Relationships>'],
+    ['xl/workbook.xml', `${header}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" `
+      + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+      + `<sheets><sheet name="${xml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`],
+    ['xl/_rels/workbook.xml.rels', `${header}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+      + '</Relationships>'],
+  ];
+}
+
+// CRC-32 as ZIP uses it, continued from `crc`. zlib.crc32 would do, but only exists from Node 20.15.
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer, crc = 0): number {
+  let c = crc ^ 0xffffffff;
+  for (const byte of data) {
+    c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// Streaming ZIP writer: each entry is deflated as it is produced and its CRC and sizes follow
+// in a data descriptor, so nothing has to be known up front
+class ZipWriter {
+  private offset = 0;
+  private entries: Array<{ name: Buffer; crc: number; compressed: number; size: number; offset: number }> = [];
+  private dosTime: number;
+  private dosDate: number;
+
+  constructor(private out: Writable, now: Date = new Date()) {
+    this.dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+    this.dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  }
+
+  private async emit(chunk: Buffer) {
+    this.offset += chunk.length;
+    await write(this.out, chunk);
+  }
+
+  async add(fileName: string, parts: Iterable<string>) {
+    const name = Buffer.from(fileName, 'utf8');
+    const offset = this.offset;
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    // Bit 3: sizes and CRC follow the data; bit 11: UTF-8 names
+    header.writeUInt16LE(0x0808, 6);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt16LE(this.dosTime, 10);
+    header.writeUInt16LE(this.dosDate, 12);
+    header.writeUInt16LE(name.length, 26);
+    await this.emit(Buffer.concat([header, name]));
+
+    let crc = 0;
+    let size = 0;
+    let compressed = 0;
+    const source = Readable.from((function* () {
+      for (const part of parts) {
+        const data = Buffer.from(part, 'utf8');
+        crc = crc32(data, crc);
+        size += data.length;
+        yield data;
+      }
+    })());
+    // Any failure, including the response closing, tears down the source and the deflate stream
+    await pipeline(source, zlib.createDeflateRaw(), async (deflated: AsyncIterable<Buffer>) => {
+      for await (const chunk of deflated) {
+        compressed += chunk.length;
+        await this.emit(chunk);
+      }
+    });
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(crc, 4);
+    descriptor.writeUInt32LE(compressed, 8);
+    descriptor.writeUInt32LE(size, 12);
+    await this.emit(descriptor);
+    this.entries.push({ name, crc, compressed, size, offset });
+  }
+
+  async finish() {
+    const start = this.offset;
+    for (const entry of this.entries) {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(20, 4);
+      record.writeUInt16LE(20, 6);
+      record.writeUInt16LE(0x0808, 8);
+      record.writeUInt16LE(8, 10);
+      record.writeUInt16LE(this.dosTime, 12);
+      record.writeUInt16LE(this.dosDate, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressed, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      await this.emit(Buffer.concat([record, entry.name]));
+    }
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    await this.emit(end);
+  }
+}
+
+// Writes the rows to `out` in the given format; the caller sets the response headers and ends it
+export async function writeExport<T>(
+  out: Writable,
+  format: ExportFormat,
+  rows: T[],
+  columns: ExportColumn<T>[],
+  sheetName: string
+): Promise<void> {
+  if (format === 'xlsx') {
+    const zip = new ZipWriter(out);
+    for (const [name, content] of workbookParts(sheetName)) {
+      await zip.add(name, [content]);
+    }
+    await zip.add('xl/worksheets/sheet1.xml', sheetXml(rows, columns));
+    await zip.finish();
+    return;
+  }
+  for (const line of format === 'csv' ? csvLines(rows, columns) : jsonLines(rows, columns)) {
+    await write(out, line);
+  }
+}
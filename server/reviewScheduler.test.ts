@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+import type { Entity, ReviewTask } from '../src/lib/types';
+import {
+  addMonths,
+  createReviewTasks,
+  isOverdue,
+  isReviewed,
+  isReviewOpening,
+  nextReviewDate,
+  reviewCycleStart,
+} from './reviewScheduler';
+import { DEFAULT_RISK_POLICY } from './riskPolicy';
+import { DataStore, MemoryDriver } from './storage';
+
+const today = new Date('2026-03-01T12:00:00Z');
+
+const acme = (fields: Partial<Entity> = {}): Entity => ({
+  id: 'entity-1',
+  name: 'Acme Corp',
+  type: 'vendor',
+  riskLevel: 'HIGH',
+  compliance: 'Pass',
+  status: 'Active',
+  owner: 'ana',
+  createdAt: '2026-01-31T09:00:00.000Z',
+  lastUpdated: '2026-01-31T09:00:00.000Z',
+  ...fields,
+});
+
+describe('nextReviewDate', () => {
+  it('follows the policy cadence for each risk level', () => {
+    assert.equal(nextReviewDate('2026-01-15', 'HIGH', DEFAULT_RISK_POLICY), '2026-04-15');
+    assert.equal(nextReviewDate('2026-01-15', 'MEDIUM', DEFAULT_RISK_POLICY), '2026-07-15');
+    assert.equal(nextReviewDate('2026-01-15T23:59:00.000Z', 'LOW', DEFAULT_RISK_POLICY), '2027-01-15');
+  });
+
+  it('clamps to the end of shorter months', () => {
+    assert.equal(addMonths('2026-01-31', 1), '2026-02-28');
+    assert.equal(addMonths('2027-11-30', 3), '2028-02-29');
+  });
+});
+
+describe('review cycle', () => {
+  it('starts from the last completed review, else onboarding', () => {
+    assert.equal(reviewCycleStart(acme()), '2026-01-31T09:00:00.000Z');
+    assert.equal(reviewCycleStart(acme({ lastReviewedAt: '2026-02-10T00:00:00.000Z' })), '2026-02-10T00:00:00.000Z');
+  });
+
+  it('reviews only approved and active entities', () => {
+    assert.deepEqual(
+      (['Pending', 'Approved', 'Active', 'Rejected', 'Decommissioned'] as const).map(status => isReviewed(acme({ status }))),
+      [false, true, true, false, false],
+    );
+  });
+
+  it('opens a review within 14 days of its due date', () => {
+    assert.equal(isReviewOpening(acme({ nextReviewDate: '2026-03-15' }), today), true);
+    assert.equal(isReviewOpening(acme({ nextReviewDate: '2026-03-16' }), today), false);
+    assert.equal(isReviewOpening(acme(), today), false);
+  });
+});
+
+describe('createReviewTasks', () => {
+  it('lists open tasks soonest first, then closed ones most recent first', async () => {
+    const tasks = createReviewTasks((await DataStore.open(new MemoryDriver())).collection<ReviewTask>('reviewTasks'));
+    const later = await tasks.open(acme({ id: 'entity-1', nextReviewDate: '2026-05-01' }));
+    const sooner = await tasks.open(acme({ id: 'entity-2', nextReviewDate: '2026-02-20' }));
+    const done = await tasks.open(acme({ id: 'entity-3', nextReviewDate: '2026-02-01' }));
+    const cancelled = await tasks.open(acme({ id: 'entity-3', nextReviewDate: '2026-08-01' }));
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-02-02T00:00:00Z') });
+    try {
+      await tasks.complete(done, 'ana', { fromLevel: 'HIGH', toLevel: 'MEDIUM', score: 40 });
+      mock.timers.tick(60_000);
+      await tasks.cancel(cancelled);
+    } finally {
+      mock.timers.reset();
+    }
+
+    assert.deepEqual((await tasks.list()).map(task => [task.entityId, task.status]), [
+      ['entity-2', 'open'],
+      ['entity-1', 'open'],
+      ['entity-3', 'cancelled'],
+      ['entity-3', 'completed'],
+    ]);
+    assert.equal((await tasks.findOpen('entity-1'))?.id, later.id);
+    assert.equal(await tasks.findOpen('entity-3'), undefined);
+    assert.equal(isOverdue(sooner, today), true);
+    assert.equal(isOverdue(later, today), false);
+  });
+});
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import type { Entity, EntityStatus, ReviewTask, RiskLevel, RiskPolicyDocument } from '../src/lib/types';
+import { startIntervalJob } from './intervalJob';
+import type { Repository } from './storage';
+
+// Periodic re-assessment of live entities.
+// Each entity carries a `nextReviewDate` derived from its risk level and the policy's review
+// cadence; a timer opens a review task shortly before that date, and completing a
+// re-assessment closes the task and schedules the next one.
+
+// Review tasks open this many days before they fall due
+export const REVIEW_LEAD_DAYS = 14;
+
+// Only relationships that are in effect are reviewed; pending, rejected and decommissioned ones are not
+export const REVIEWED_STATUSES: EntityStatus[] = ['Approved', 'Active'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Calendar months later, clamped to the end of shorter months (Jan 31 + 1 month = Feb 28)
+export function addMonths(isoDate: string, months: number): string {
+  const [year, month, day] = isoDate.slice(0, 10).split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return toIsoDate(new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))));
+}
+
+export function nextReviewDate(from: string, riskLevel: RiskLevel, policy: RiskPolicyDocument): string {
+  return addMonths(from, policy.reviewCadenceMonths[riskLevel] ?? 12);
+}
+
+// The date the current review cycle started from: the last completed review, else onboarding
+export const reviewCycleStart = (entity: Entity) => entity.lastReviewedAt || entity.createdAt;
+
+export function isReviewed(entity: Entity): boolean {
+  return REVIEWED_STATUSES.includes(entity.status);
+}
+
+export function isOverdue(task: ReviewTask, today: Date = new Date()): boolean {
+  return task.status === 'open' && task.dueDate < toIsoDate(today);
+}
+
+export function isReviewOpening(entity: Entity, today: Date = new Date()): boolean {
+  return !!entity.nextReviewDate && entity.nextReviewDate <= toIsoDate(new Date(today.getTime() + REVIEW_LEAD_DAYS * DAY_MS));
+}
+
+export function createReviewTasks(repo: Repository<ReviewTask>) {
+  // Open tasks first, soonest due first; then closed ones, most recent first
+  async function list(filter: { entityId?: string; status?: ReviewTask['status'] } = {}): Promise<ReviewTask[]> {
+    return (await repo.list())
+      .filter(task => !filter.entityId || task.entityId === filter.entityId)
+      .filter(task => !filter.status || task.status === filter.status)
+      .sort((a, b) => {
+        if ((a.status === 'open') !== (b.status === 'open')) {
+          return a.status === 'open' ? -1 : 1;
+        }
+        return a.status === 'open'
+          ? a.dueDate.localeCompare(b.dueDate)
+          : (b.completedAt || '').localeCompare(a.completedAt || '');
+      });
+  }
+
+  async function findOpen(entityId: string): Promise<ReviewTask | undefined> {
+    return (await list({ entityId, status: 'open' }))[0];
+  }
+
+  async function open(entity: Entity): Promise<ReviewTask> {
+    return repo.insert({
+      id: `review-${crypto.randomUUID()}`,
+      entityId: entity.id,
+      entityName: entity.name,
+      riskLevel: entity.riskLevel,
+      dueDate: entity.nextReviewDate!,
+      status: 'open',
+      openedAt: new Date().toISOString(),
+      completedAt: null,
+      completedBy: null,
+      outcome: null,
+    });
+  }
+
+  async function complete(task: ReviewTask, completedBy: string, outcome: ReviewTask['outcome']): Promise<ReviewTask | undefined> {
+    return repo.update(task.id, { status: 'completed', completedAt: new Date().toISOString(), completedBy, outcome });
+  }
+
+  // The entity left review (decommissioned, rejected), so the task no longer applies
+  async function cancel(task: ReviewTask): Promise<ReviewTask | undefined> {
+    return repo.update(task.id, { status: 'cancelled', completedAt: new Date().toISOString(), completedBy: 'system' });
+  }
+
+  return { list, findOpen, open, complete, cancel };
+}
+
+export function startReviewScheduler(check: () => Promise<void>, intervalHours: number): NodeJS.Timeout {
+  return startIntervalJob('Review scheduler', check, intervalHours);
+}
@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { RiskEscalation, RiskPolicy } from '../src/lib/types';
+import { escalationFor, getRequiredDocuments, parseAISignal, rescoreEntity, scoreRisk, toRiskInput } from './riskEngine';
+import { DEFAULT_RISK_POLICY } from './riskPolicy';
+
+const policy: RiskPolicy = { ...DEFAULT_RISK_POLICY, id: 'risk-policy-v3', version: 3, createdAt: '2026-01-01T00:00:00.000Z', createdBy: 'admin' };
+
+const noControls = { iam: false, encryption: false, logging: false, network: false };
+const allControls = { iam: true, encryption: true, logging: true, network: true };
+
+describe('scoreRisk', () => {
+  it('scores a sanctioned vendor with PII, no controls and no documents as HIGH', () => {
+    const assessment = scoreRisk(toRiskInput({ companyType: 'vendor', country: 'North Korea', hasPII: true, controls: noControls, documents: [] }), policy);
+    assert.equal(assessment.riskLevel, 'HIGH');
+    assert.equal(assessment.score, 100);
+    assert.equal(assessment.compliance, 'Fail');
+    assert.deepEqual(assessment.missingDocuments, ['W9', 'SOC2', 'Insurance', 'MSA', 'DPA']);
+  });
+
+  it('scores a well-documented client with every control as LOW', () => {
+    const assessment = scoreRisk(toRiskInput({ companyType: 'client', country: 'USA', hasPII: false, controls: allControls, documents: ['MSA'] }), policy);
+    assert.equal(assessment.riskLevel, 'LOW');
+    assert.equal(assessment.compliance, 'Pass');
+    assert.deepEqual(assessment.missingDocuments, []);
+  });
+
+  it('explains the score: contributions add up to it and the policy version is recorded', () => {
+    const assessment = scoreRisk(toRiskInput({ companyType: 'vendor', country: 'Brazil', hasPII: true, controls: { ...noControls, iam: true }, documents: ['W9'] }), policy);
+    const total = assessment.factors.reduce((sum, factor) => sum + factor.contribution, 0);
+    assert.equal(assessment.score, Math.round(total));
+    assert.equal(assessment.policyVersion, 3);
+    assert.equal(assessment.compliance, 'Partial');
+  });
+
+  it('leaves the AI factor out when there is no AI review, and bounds it when there is', () => {
+    const input = toRiskInput({ companyType: 'client', country: 'USA', controls: allControls, documents: ['MSA'] });
+    const without = scoreRisk(input, policy);
+    const withHighAI = scoreRisk(input, policy, { riskLevel: 'HIGH', reasons: ['Looks risky'] });
+    assert.ok(!without.factors.some(factor => factor.id === 'ai_assessment'));
+    const ai = withHighAI.factors.find(factor => factor.id === 'ai_assessment')!;
+    assert.ok(ai.contribution > 0);
+    // The model's opinion alone can't make a clean submission HIGH
+    assert.notEqual(withHighAI.riskLevel, 'HIGH');
+  });
+
+  it('follows the policy thresholds', () => {
+    const input = toRiskInput({ companyType: 'vendor', country: 'USA', controls: allControls, documents: ['W9', 'SOC2'] });
+    const strict = scoreRisk(input, { ...policy, thresholds: { high: 5, medium: 1 } });
+    assert.equal(strict.riskLevel, 'HIGH');
+  });
+});
+
+describe('escalationFor', () => {
+  const assessmentAt = (riskLevel: 'LOW' | 'MEDIUM' | 'HIGH') => ({ ...scoreRisk(toRiskInput({}), policy), riskLevel });
+
+  it('flags a rise in level with the before and after', () => {
+    const { escalated, escalation } = escalationFor({ riskLevel: 'LOW', riskScore: 20 }, assessmentAt('HIGH'), 'ana');
+    assert.equal(escalated, true);
+    assert.equal(escalation?.fromLevel, 'LOW');
+    assert.equal(escalation?.toLevel, 'HIGH');
+    assert.equal(escalation?.fromScore, 20);
+    assert.equal(escalation?.escalatedBy, 'ana');
+  });
+
+  it('keeps an existing flag while the level holds and clears it once the level drops', () => {
+    const flag: RiskEscalation = { fromLevel: 'LOW', toLevel: 'HIGH', fromScore: 20, toScore: 80, escalatedAt: '2026-01-01', escalatedBy: 'ana' };
+    const held = escalationFor({ riskLevel: 'HIGH', riskEscalation: flag }, assessmentAt('HIGH'), 'ana');
+    assert.equal(held.escalated, false);
+    assert.deepEqual(held.escalation, flag);
+    const dropped = escalationFor({ riskLevel: 'HIGH', riskEscalation: flag }, assessmentAt('MEDIUM'), 'ana');
+    assert.equal(dropped.escalation, null);
+  });
+});
+
+describe('rescoreEntity', () => {
+  it('keeps the stored AI review as a factor when an entity is re-scored', () => {
+    const first = scoreRisk(toRiskInput({ companyType: 'client', country: 'USA', controls: allControls, documents: ['MSA'] }), policy, { riskLevel: 'HIGH', reasons: [] });
+    const entity = { type: 'client', country: 'USA', controls: allControls, documents: [], riskLevel: first.riskLevel, riskFactors: first.factors };
+    const { assessment } = rescoreEntity(entity, policy, 'ana');
+    assert.equal(assessment.factors.find(factor => factor.id === 'ai_assessment')?.value, 1);
+  });
+
+  it('scores the current inputs and flags an escalation when its level rises', () => {
+    const entity = { type: 'vendor', country: 'USA', controls: allControls, documents: ['W9', 'SOC2', 'Insurance', 'MSA'], riskLevel: 'LOW' as const, riskScore: 5 };
+    const unchanged = rescoreEntity(entity, policy, 'ana');
+    assert.equal(unchanged.assessment.riskLevel, 'LOW');
+    assert.equal(unchanged.escalated, false);
+
+    const { assessment, escalated, escalation } = rescoreEntity({ ...entity, country: 'Iran', hasPII: true, controls: noControls, documents: [] }, policy, 'ben');
+    assert.equal(assessment.riskLevel, 'HIGH');
+    assert.equal(escalated, true);
+    assert.deepEqual([escalation?.fromLevel, escalation?.toLevel, escalation?.fromScore, escalation?.escalatedBy], ['LOW', 'HIGH', 5, 'ben']);
+  });
+});
+
+describe('toRiskInput', () => {
+  it('reads the older single hasControls flag as every control in place', () => {
+    assert.deepEqual(toRiskInput({ hasControls: true }).controls, allControls);
+    assert.deepEqual(toRiskInput({ controls: { iam: true } }).controls, { ...noControls, iam: true });
+  });
+
+  it('requires a DPA from anyone handling PII', () => {
+    assert.deepEqual(getRequiredDocuments(toRiskInput({ type: 'client', handlesPII: true }), policy), ['MSA', 'DPA']);
+  });
+});
+
+describe('parseAISignal', () => {
+  it('accepts a known level in any case and keeps at most five non-empty reasons', () => {
+    const signal = parseAISignal({ riskLevel: ' high ', reasons: ['a', ' ', 'b', 'c', 'd', 'e', 'f', 7] });
+    assert.deepEqual(signal, { riskLevel: 'HIGH', reasons: ['a', 'b', 'c', 'd', 'e'] });
+  });
+
+  it('returns null for an unusable verdict', () => {
+    assert.equal(parseAISignal({ riskLevel: 'SEVERE' }), null);
+    assert.equal(parseAISignal(null), null);
+  });
+});
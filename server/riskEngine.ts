@@ -0,0 +1,305 @@
+import type {
+  ComplianceStatus,
+  Entity,
+  JurisdictionTier,
+  RiskAssessment,
+  RiskEscalation,
+  RiskFactor,
+  RiskLevel,
+  RiskPolicy,
+  RiskPolicyDocument,
+  SecurityControls,
+} from '../src/lib/types';
+
+// Weighted rules engine for onboarding risk.
+// Every factor is named, scored 0-1 and weighted, so the final 0-100 score can be explained
+// line by line. The LLM's opinion is one bounded factor, not the verdict.
+// Weights, thresholds and required documents come from the active policy (see server/riskPolicy.ts).
+
+export interface RiskInput {
+  companyType: 'vendor' | 'client';
+  country: string;
+  documents: string[];
+  hasPII: boolean;
+  controls: SecurityControls;
+}
+
+// The LLM's read of the submission, used as the `ai_assessment` factor
+export interface AISignal {
+  riskLevel: RiskLevel;
+  reasons: string[];
+}
+
+export type EvidenceFactorId = 'document_expiry' | 'insurance_coverage' | 'certification' | 'liability_cap';
+
+// A finding from the offline document analysis (see server/documentAnalysis.ts), scored 0-1
+export interface EvidenceFactor {
+  id: EvidenceFactorId;
+  value: number;
+  detail: string;
+}
+
+const EVIDENCE_LABELS: Record<EvidenceFactorId, string> = {
+  document_expiry: 'Document expiry',
+  insurance_coverage: 'Insurance coverage',
+  certification: 'Security certification',
+  liability_cap: 'Liability cap',
+};
+
+const CONTROL_LABELS: Record<keyof SecurityControls, string> = {
+  iam: 'Identity & access management',
+  encryption: 'Encryption',
+  logging: 'Logging & monitoring',
+  network: 'Network security',
+};
+
+const JURISDICTION_TIER_VALUES: Record<JurisdictionTier, number> = { tier1: 0, tier2: 0.5, tier3: 1 };
+
+const AI_LEVEL_VALUES: Record<RiskLevel, number> = { LOW: 0, MEDIUM: 0.5, HIGH: 1 };
+
+// Countries not listed in tier 1 or tier 3 (including blank) are tier 2
+export function getJurisdictionTier(country: string, policy: RiskPolicyDocument): JurisdictionTier {
+  const normalized = (country || '').trim().toLowerCase();
+  if (policy.jurisdictions.tier1.includes(normalized)) return 'tier1';
+  if (policy.jurisdictions.tier3.includes(normalized)) return 'tier3';
+  return 'tier2';
+}
+
+export function getRequiredDocuments(input: RiskInput, policy: RiskPolicyDocument): string[] {
+  const tier = getJurisdictionTier(input.country, policy);
+  const required = [...policy.requiredDocuments[input.companyType][tier]];
+  if (input.hasPII) {
+    required.push(...policy.piiRequiredDocuments.filter(doc => !required.includes(doc)));
+  }
+  return required;
+}
+
+// Pass when every required document is on file, Fail when none are
+export function getComplianceStatus(required: string[], missing: string[]): ComplianceStatus {
+  if (missing.length === 0) return 'Pass';
+  return missing.length < required.length ? 'Partial' : 'Fail';
+}
+
+// An onboarding submission or stored entity as toRiskInput reads it; any field may be missing or malformed
+export interface RiskSubmission {
+  type?: unknown;
+  companyType?: unknown;
+  country?: unknown;
+  documents?: unknown;
+  hasPII?: unknown;
+  handlesPII?: unknown;
+  hasControls?: unknown;
+  controls?: unknown;
+}
+
+// Normalize an onboarding submission. Older clients send a single `hasControls` flag,
+// which is read as all four controls being in place.
+export function toRiskInput(data: RiskSubmission | null | undefined): RiskInput {
+  const allControls = data?.hasControls === true;
+  const controls = (data?.controls || {}) as Partial<SecurityControls>;
+  return {
+    companyType: data?.companyType === 'client' || data?.type === 'client' ? 'client' : 'vendor',
+    country: typeof data?.country === 'string' ? data.country : '',
+    documents: Array.isArray(data?.documents) ? data.documents.map(String) : [],
+    hasPII: data?.hasPII === true || data?.handlesPII === true,
+    controls: {
+      iam: controls.iam ?? allControls,
+      encryption: controls.encryption ?? allControls,
+      logging: controls.logging ?? allControls,
+      network: controls.network ?? allControls,
+    },
+  };
+}
+
+export function levelForScore(score: number, thresholds: RiskPolicyDocument['thresholds']): RiskLevel {
+  return score > thresholds.high ? 'HIGH' : score > thresholds.medium ? 'MEDIUM' : 'LOW';
+}
+
+function evaluateFactors(
+  input: RiskInput,
+  policy: RiskPolicyDocument,
+  missing: string[],
+  ai?: AISignal,
+  evidence: EvidenceFactor[] = []
+): Omit<RiskFactor, 'contribution'>[] {
+  const { weights } = policy;
+  const factors: Omit<RiskFactor, 'contribution'>[] = [];
+
+  const required = getRequiredDocuments(input, policy);
+  factors.push({
+    id: 'missing_documents',
+    label: 'Missing documents',
+    weight: weights.missing_documents,
+    value: required.length > 0 ? missing.length / required.length : 0,
+    detail: missing.length > 0
+      ? `Missing ${missing.length} of ${required.length} required documents: ${missing.join(', ')}`
+      : `All ${required.length} required documents provided`,
+  });
+
+  for (const control of Object.keys(CONTROL_LABELS) as Array<keyof SecurityControls>) {
+    const inPlace = input.controls[control];
+    factors.push({
+      id: `control_${control}`,
+      label: `${CONTROL_LABELS[control]} control`,
+      weight: weights[`control_${control}`],
+      value: inPlace ? 0 : 1,
+      detail: inPlace ? `${CONTROL_LABELS[control]} control attested` : `${CONTROL_LABELS[control]} control not attested`,
+    });
+  }
+
+  factors.push({
+    id: 'pii_handling',
+    label: 'PII handling',
+    weight: weights.pii_handling,
+    value: input.hasPII ? 1 : 0,
+    detail: input.hasPII ? 'Handles PII or sensitive data' : 'Does not handle PII',
+  });
+
+  const tier = getJurisdictionTier(input.country, policy);
+  factors.push({
+    id: 'jurisdiction',
+    label: 'Jurisdiction',
+    weight: weights.jurisdiction,
+    value: JURISDICTION_TIER_VALUES[tier],
+    detail: `${input.country.trim() || 'Country not specified'} is a tier ${tier.slice(-1)} jurisdiction`,
+  });
+
+  factors.push({
+    id: 'entity_type',
+    label: 'Entity type',
+    weight: weights.entity_type,
+    // Vendors get access to our systems and data; clients usually don't
+    value: input.companyType === 'vendor' ? 1 : 0.25,
+    detail: input.companyType === 'vendor' ? 'Vendor with potential access to internal systems' : 'Client relationship',
+  });
+
+  for (const factor of evidence) {
+    factors.push({ ...factor, label: EVIDENCE_LABELS[factor.id], weight: weights[factor.id] ?? 0 });
+  }
+
+  if (ai) {
+    factors.push({
+      id: 'ai_assessment',
+      label: 'AI document review',
+      weight: weights.ai_assessment,
+      value: AI_LEVEL_VALUES[ai.riskLevel],
+      detail: `AI review rated the submission ${ai.riskLevel}`,
+    });
+  }
+
+  return factors;
+}
+
+// Score a submission against a policy. Factors without a signal (no AI review, no document
+// evidence) are left out and the remaining ones are rescaled to 0-100.
+export function scoreRisk(input: RiskInput, policy: RiskPolicy, ai?: AISignal, evidence: EvidenceFactor[] = []): RiskAssessment {
+  const required = getRequiredDocuments(input, policy);
+  const missing = required.filter(doc => !input.documents.includes(doc));
+  const evaluated = evaluateFactors(input, policy, missing, ai, evidence);
+  const totalWeight = evaluated.reduce((sum, factor) => sum + factor.weight, 0);
+
+  const factors: RiskFactor[] = evaluated.map(factor => ({
+    ...factor,
+    contribution: totalWeight > 0 ? Math.round((factor.weight * factor.value * 1000) / totalWeight) / 10 : 0,
+  }));
+
+  const score = Math.round(factors.reduce((sum, factor) => sum + factor.contribution, 0));
+  const riskLevel = levelForScore(score, policy.thresholds);
+
+  // Explain the score with the biggest contributors first, then the AI's specific findings
+  const reasons = [
+    ...factors
+      .filter(factor => factor.contribution > 0 && factor.id !== 'ai_assessment')
+      .sort((a, b) => b.contribution - a.contribution)
+      .slice(0, 3)
+      .map(factor => `${factor.detail} (+${factor.contribution})`),
+    ...(ai?.reasons || []).slice(0, 3),
+  ];
+
+  return {
+    riskLevel,
+    score,
+    reasons: reasons.length > 0 ? reasons : ['No risk factors identified'],
+    factors,
+    compliance: getComplianceStatus(required, missing),
+    missingDocuments: missing,
+    policyVersion: policy.version,
+  };
+}
+
+// Read the LLM's JSON verdict; returns null when it isn't usable so the factor is skipped
+export function parseAISignal(value: unknown): AISignal | null {
+  const verdict = value as { riskLevel?: unknown; reasons?: unknown } | null;
+  const level = typeof verdict?.riskLevel === 'string' ? verdict.riskLevel.trim().toUpperCase() : '';
+  if (!(level in AI_LEVEL_VALUES)) {
+    return null;
+  }
+  const reasons = Array.isArray(verdict.reasons)
+    ? verdict.reasons.filter((reason: unknown) => typeof reason === 'string' && reason.trim()).map((reason: string) => reason.trim())
+    : [];
+  return { riskLevel: level as RiskLevel, reasons: reasons.slice(0, 5) };
+}
+
+// Entity fields that feed toRiskInput - a change to any of them triggers a re-score
+export const RISK_INPUT_FIELDS = ['type', 'country', 'documents', 'hasPII', 'controls', 'hasControls'];
+
+const LEVEL_RANK: Record<RiskLevel, number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+// Recover the AI review from a stored assessment so re-scoring keeps it as a factor
+export function aiSignalFromFactors(factors: RiskFactor[] | undefined): AISignal | undefined {
+  const factor = factors?.find(f => f.id === 'ai_assessment');
+  if (!factor) {
+    return undefined;
+  }
+  const level = (Object.keys(AI_LEVEL_VALUES) as RiskLevel[]).find(l => AI_LEVEL_VALUES[l] === factor.value);
+  return level ? { riskLevel: level, reasons: [] } : undefined;
+}
+
+// Recover document evidence factors from a stored assessment; the files are not re-read
+export function evidenceFromFactors(factors: RiskFactor[] | undefined): EvidenceFactor[] {
+  return (factors || [])
+    .filter(factor => factor.id in EVIDENCE_LABELS)
+    .map(factor => ({ id: factor.id as EvidenceFactorId, value: factor.value, detail: factor.detail }));
+}
+
+// A stored entity as rescoreEntity reads it: the risk inputs plus the current score and escalation flag
+export type ScoredEntity = RiskSubmission & Partial<Pick<Entity, 'riskLevel' | 'riskScore' | 'riskFactors' | 'riskEscalation'>>;
+
+// Re-evaluate an existing entity after its attributes change. The escalation flag is set when
+// the level goes up, kept while it stays up, and cleared once the level drops back.
+export function rescoreEntity(
+  entity: ScoredEntity,
+  policy: RiskPolicy,
+  changedBy: string
+): { assessment: RiskAssessment; escalation: RiskEscalation | null; escalated: boolean } {
+  const assessment = scoreRisk(
+    toRiskInput(entity),
+    policy,
+    aiSignalFromFactors(entity.riskFactors),
+    evidenceFromFactors(entity.riskFactors)
+  );
+  return { assessment, ...escalationFor(entity, assessment, changedBy) };
+}
+
+// Compare a new assessment with the entity's current level (see rescoreEntity)
+export function escalationFor(
+  entity: ScoredEntity,
+  assessment: RiskAssessment,
+  changedBy: string
+): { escalation: RiskEscalation | null; escalated: boolean } {
+  const previous: RiskLevel = entity.riskLevel in LEVEL_RANK ? entity.riskLevel : 'LOW';
+  const escalated = LEVEL_RANK[assessment.riskLevel] > LEVEL_RANK[previous];
+
+  const escalation: RiskEscalation | null = escalated
+    ? {
+      fromLevel: previous,
+      toLevel: assessment.riskLevel,
+      fromScore: entity.riskScore ?? null,
+      toScore: assessment.score,
+      escalatedAt: new Date().toISOString(),
+      escalatedBy: changedBy,
+    }
+    : LEVEL_RANK[assessment.riskLevel] < LEVEL_RANK[previous] ? null : entity.riskEscalation || null;
+
+  return { escalation, escalated };
+}
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { RiskPolicy, RiskPolicyDocument } from '../src/lib/types';
+import {
+  createRiskPolicyVersion,
+  DEFAULT_RISK_POLICY,
+  diffRiskPolicies,
+  getActiveRiskPolicy,
+  seedRiskPolicy,
+  validateRiskPolicy,
+} from './riskPolicy';
+import { DataStore, MemoryDriver } from './storage';
+
+const draft = (): RiskPolicyDocument => structuredClone(DEFAULT_RISK_POLICY);
+
+const violationPaths = (value: unknown) => validateRiskPolicy(value).violations.map(violation => violation.path);
+
+describe('validateRiskPolicy', () => {
+  it('accepts the default policy and lower-cases countries', () => {
+    const policy = draft();
+    policy.jurisdictions.tier3 = [...policy.jurisdictions.tier3, ' Atlantis '];
+    const { data, violations } = validateRiskPolicy(policy);
+    assert.deepEqual(violations, []);
+    assert.ok(data?.jurisdictions.tier3.includes('atlantis'));
+  });
+
+  it('rejects a medium threshold at or above the high one', () => {
+    const policy = draft();
+    policy.thresholds = { high: 50, medium: 50 };
+    assert.deepEqual(violationPaths(policy), ['thresholds.medium']);
+  });
+
+  it('rejects a country in both tier 1 and tier 3', () => {
+    const policy = draft();
+    policy.jurisdictions.tier3 = [...policy.jurisdictions.tier3, 'Canada'];
+    assert.deepEqual(violationPaths(policy), ['jurisdictions.tier3']);
+  });
+
+  it('rejects all-zero weights, negative weights and unknown settings', () => {
+    const zero = draft();
+    for (const key of Object.keys(zero.weights) as Array<keyof RiskPolicyDocument['weights']>) zero.weights[key] = 0;
+    assert.deepEqual(violationPaths(zero), ['weights']);
+
+    const negative = draft();
+    negative.weights.pii_handling = -1;
+    assert.deepEqual(violationPaths(negative), ['weights.pii_handling']);
+
+    assert.deepEqual(violationPaths({ ...draft(), extra: true }), ['(root)']);
+  });
+});
+
+describe('diffRiskPolicies', () => {
+  it('lists each changed setting with its before and after, comparing lists whole', () => {
+    const after = draft();
+    after.weights.pii_handling = 30;
+    after.piiRequiredDocuments = ['DPA', 'SOC2'];
+    assert.deepEqual(diffRiskPolicies(DEFAULT_RISK_POLICY, after), [
+      { path: 'weights.pii_handling', before: DEFAULT_RISK_POLICY.weights.pii_handling, after: 30 },
+      { path: 'piiRequiredDocuments', before: ['DPA'], after: ['DPA', 'SOC2'] },
+    ]);
+    assert.deepEqual(diffRiskPolicies(DEFAULT_RISK_POLICY, draft()), []);
+  });
+});
+
+describe('risk policy versions', () => {
+  it('seeds the default once and appends each save as the next version', async () => {
+    const policies = (await DataStore.open(new MemoryDriver())).collection<RiskPolicy>('riskPolicies');
+    await seedRiskPolicy(policies);
+    await seedRiskPolicy(policies);
+    assert.equal((await policies.list()).length, 1);
+
+    const edited = draft();
+    edited.thresholds.high = 80;
+    const saved = await createRiskPolicyVersion(policies, edited, 'admin', 'Stricter');
+    assert.equal(saved.version, 2);
+    assert.equal(saved.note, 'Stricter');
+
+    const active = await getActiveRiskPolicy(policies);
+    assert.equal(active.version, 2);
+    assert.equal(active.thresholds.high, 80);
+    assert.equal((await policies.get('risk-policy-v1'))?.thresholds.high, DEFAULT_RISK_POLICY.thresholds.high);
+  });
+
+  it('reads a version saved before a weight existed with that weight at its default', async () => {
+    const policies = (await DataStore.open(new MemoryDriver())).collection<RiskPolicy>('riskPolicies');
+    const { pii_handling: _dropped, ...olderWeights } = DEFAULT_RISK_POLICY.weights;
+    await policies.insert({
+      ...draft(),
+      weights: olderWeights as RiskPolicyDocument['weights'],
+      id: 'risk-policy-v1',
+      version: 1,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      createdBy: 'system',
+    });
+
+    assert.equal((await getActiveRiskPolicy(policies)).weights.pii_handling, DEFAULT_RISK_POLICY.weights.pii_handling);
+    assert.equal('pii_handling' in (await policies.get('risk-policy-v1'))!.weights, false);
+  });
+});
@@ -0,0 +1,186 @@
+import { z } from 'zod';
+import type { RiskPolicy, RiskPolicyChange, RiskPolicyDocument, SchemaViolation } from '../src/lib/types';
+import type { Repository } from './storage';
+
+// Versioned risk policy: factor weights, level thresholds, required documents per entity type
+// and jurisdiction tier. Saving never edits a version in place - it appends the next one,
+// so every entity can point at the exact policy that scored it.
+
+export const DEFAULT_RISK_POLICY: RiskPolicyDocument = {
+  weights: {
+    missing_documents: 25,
+    control_iam: 8,
+    control_encryption: 8,
+    control_logging: 8,
+    control_network: 8,
+    pii_handling: 15,
+    jurisdiction: 12,
+    entity_type: 6,
+    ai_assessment: 10,
+    document_expiry: 8,
+    insurance_coverage: 6,
+    certification: 6,
+    liability_cap: 5,
+  },
+  thresholds: { high: 70, medium: 40 },
+  requiredDocuments: {
+    vendor: {
+      tier1: ['W9', 'SOC2', 'Insurance', 'MSA'],
+      tier2: ['W9', 'SOC2', 'Insurance', 'MSA'],
+      tier3: ['W9', 'SOC2', 'Insurance', 'MSA'],
+    },
+    client: {
+      tier1: ['MSA'],
+      tier2: ['MSA'],
+      tier3: ['MSA', 'Insurance'],
+    },
+  },
+  piiRequiredDocuments: ['DPA'],
+  jurisdictions: {
+    // Well-established regulatory regimes
+    tier1: [
+      'usa', 'us', 'united states', 'united states of america', 'canada', 'united kingdom', 'uk', 'ireland',
+      'germany', 'france', 'netherlands', 'belgium', 'luxembourg', 'austria', 'switzerland', 'sweden', 'norway',
+      'denmark', 'finland', 'iceland', 'spain', 'portugal', 'italy', 'australia', 'new zealand', 'japan', 'singapore',
+    ],
+    // Sanctioned or FATF high-risk
+    tier3: [
+      'iran', 'north korea', 'dprk', 'syria', 'cuba', 'russia', 'belarus', 'myanmar', 'venezuela', 'afghanistan',
+      'yemen',
+    ],
+  },
+  reviewCadenceMonths: { HIGH: 3, MEDIUM: 6, LOW: 12 },
+};
+
+const weight = z.number().min(0, 'Weight cannot be negative').max(100, 'Weight cannot exceed 100');
+const threshold = z.number().int('Threshold must be a whole number').min(0).max(100);
+const documentList = z.array(z.string().trim().min(1, 'Document name cannot be empty'))
+  .refine(docs => new Set(docs).size === docs.length, 'Document names must be unique');
+const countryList = z.array(z.string().trim().min(1, 'Country cannot be empty').transform(country => country.toLowerCase()));
+const cadence = z.number().int('Review cadence must be a whole number of months').min(1, 'Review cadence must be at least 1 month').max(60, 'Review cadence cannot exceed 60 months');
+const tieredDocuments = z.object({ tier1: documentList, tier2: documentList, tier3: documentList }).strict();
+
+export const riskPolicyDocumentSchema = z.object({
+  weights: z.object({
+    missing_documents: weight,
+    control_iam: weight,
+    control_encryption: weight,
+    control_logging: weight,
+    control_network: weight,
+    pii_handling: weight,
+    jurisdiction: weight,
+    entity_type: weight,
+    ai_assessment: weight,
+    document_expiry: weight,
+    insurance_coverage: weight,
+    certification: weight,
+    liability_cap: weight,
+  }).strict().refine(
+    weights => Object.values(weights).some(value => value > 0),
+    'At least one factor must have a weight above 0'
+  ),
+  thresholds: z.object({ high: threshold, medium: threshold }).strict().refine(
+    thresholds => thresholds.medium < thresholds.high,
+    { message: 'Medium threshold must be below the high threshold', path: ['medium'] }
+  ),
+  requiredDocuments: z.object({ vendor: tieredDocuments, client: tieredDocuments }).strict(),
+  piiRequiredDocuments: documentList,
+  jurisdictions: z.object({ tier1: countryList, tier3: countryList }).strict().refine(
+    tiers => !tiers.tier1.some(country => tiers.tier3.includes(country)),
+    { message: 'A country cannot be in both tier 1 and tier 3', path: ['tier3'] }
+  ),
+  reviewCadenceMonths: z.object({ HIGH: cadence, MEDIUM: cadence, LOW: cadence }).strict().refine(
+    months => months.HIGH <= months.MEDIUM && months.MEDIUM <= months.LOW,
+    'Higher risk levels must be reviewed at least as often as lower ones'
+  ),
+}).strict();
+
+// Returns the normalized policy document, or the fields that failed and why
+export function validateRiskPolicy(value: unknown): { data: RiskPolicyDocument | null; violations: SchemaViolation[] } {
+  const result = riskPolicyDocumentSchema.safeParse(value);
+  if (result.success) {
+    return { data: result.data as RiskPolicyDocument, violations: [] };
+  }
+  return {
+    data: null,
+    violations: result.error.issues.map(issue => ({
+      path: issue.path.join('.') || '(root)',
+      message: issue.message,
+    })),
+  };
+}
+
+export function toPolicyDocument(policy: RiskPolicyDocument): RiskPolicyDocument {
+  const { weights, thresholds, requiredDocuments, piiRequiredDocuments, jurisdictions, reviewCadenceMonths } = policy;
+  return { weights, thresholds, requiredDocuments, piiRequiredDocuments, jurisdictions, reviewCadenceMonths };
+}
+
+// Field-by-field changes between two policy documents; lists are compared as a whole
+export function diffRiskPolicies(before: RiskPolicyDocument, after: RiskPolicyDocument): RiskPolicyChange[] {
+  const changes: RiskPolicyChange[] = [];
+
+  const walk = (a: unknown, b: unknown, path: string[]) => {
+    const isObject = (value: unknown) => value !== null && typeof value === 'object' && !Array.isArray(value);
+    if (isObject(a) && isObject(b)) {
+      const keys = new Set([...Object.keys(a as object), ...Object.keys(b as object)]);
+      for (const key of keys) {
+        walk((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], [...path, key]);
+      }
+      return;
+    }
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({ path: path.join('.'), before: a ?? null, after: b ?? null });
+    }
+  };
+
+  walk(toPolicyDocument(before), toPolicyDocument(after), []);
+  return changes;
+}
+
+// Versions saved before a setting existed are read with its default; the stored record is never
+// rewritten, so a version always means what it meant when entities were scored with it
+export function withPolicyDefaults(policy: RiskPolicy): RiskPolicy {
+  return {
+    ...policy,
+    weights: { ...DEFAULT_RISK_POLICY.weights, ...policy.weights },
+    reviewCadenceMonths: policy.reviewCadenceMonths || { ...DEFAULT_RISK_POLICY.reviewCadenceMonths },
+  };
+}
+
+export async function listRiskPolicies(policies: Repository<RiskPolicy>): Promise<RiskPolicy[]> {
+  return (await policies.list()).map(withPolicyDefaults).sort((a, b) => b.version - a.version);
+}
+
+export async function getActiveRiskPolicy(policies: Repository<RiskPolicy>): Promise<RiskPolicy> {
+  const [latest] = await listRiskPolicies(policies);
+  if (!latest) {
+    throw new Error('No risk policy found - the default policy should have been seeded at startup');
+  }
+  return latest;
+}
+
+export async function createRiskPolicyVersion(
+  policies: Repository<RiskPolicy>,
+  document: RiskPolicyDocument,
+  createdBy: string,
+  note?: string
+): Promise<RiskPolicy> {
+  const [latest] = await listRiskPolicies(policies);
+  const version = (latest?.version || 0) + 1;
+  return policies.insert({
+    id: `risk-policy-v${version}`,
+    version,
+    ...toPolicyDocument(document),
+    createdAt: new Date().toISOString(),
+    createdBy,
+    ...(note ? { note } : {}),
+  });
+}
+
+// Version 1 is the built-in default
+export async function seedRiskPolicy(policies: Repository<RiskPolicy>): Promise<void> {
+  if ((await policies.list()).length === 0) {
+    await createRiskPolicyVersion(policies, DEFAULT_RISK_POLICY, 'system', 'Default policy');
+    console.log('📐 Seeded default risk policy (v1)');
+  }
+}
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { AuditEvent, Entity, EntityVersion } from '../src/lib/types';
+import { chainAuditEvents, verifyAuditChain } from './auditLog';
+import { DataStore, MemoryDriver, StoreSnapshot } from './storage';
+
+const LATEST_VERSION = 13;
+
+async function openWith(snapshot: StoreSnapshot) {
+  const driver = new MemoryDriver();
+  await driver.save(snapshot);
+  return { store: await DataStore.open(driver), driver };
+}
+
+// Two entities created in the same millisecond, and events from before audit ids named records
+const legacySnapshot = (): StoreSnapshot => ({
+  schemaVersion: 3,
+  collections: {
+    entities: [
+      { id: 'entity-1', name: 'Acme Corp', createdAt: '2025-01-01T00:00:00.000Z' },
+      { id: 'entity-1', name: 'Globex', createdAt: '2025-01-01T00:00:00.000Z' },
+    ],
+    auditEvents: [
+      { id: 'audit-1', timestamp: '2025-01-01T00:00:01.000Z', entityId: 'Acme Corp', entityName: 'Acme Corp', action: 'onboarding_complete', user: 'ana', details: 'Risk: LOW' },
+      { id: 'audit-2', timestamp: '2025-01-01T00:00:02.000Z', entityId: 'entity-1', entityName: 'Globex', action: 'entity_edited', user: 'ana', details: 'Changed owner' },
+      { id: 'audit-3', timestamp: '2025-01-01T00:00:03.000Z', entityId: 'Unknown', entityName: 'Unknown', action: 'export', user: 'ana', details: 'Exported register' },
+    ],
+    riskPolicies: [],
+    users: [],
+    sessions: [],
+  },
+});
+
+describe('DataStore migrations', () => {
+  it('creates every collection on an empty store', async () => {
+    const store = await DataStore.open(new MemoryDriver());
+    assert.equal(store.schemaVersion, LATEST_VERSION);
+    for (const name of ['entities', 'auditEvents', 'riskPolicies', 'users', 'sessions', 'entityVersions', 'documents',
+      'reviewTasks', 'projects', 'strategyBriefs', 'personas', 'insights']) {
+      assert.deepEqual(await store.collection(name).list(), [], name);
+    }
+  });
+
+  it('gives colliding entities their own ids, along with their history', async () => {
+    const { store } = await openWith(legacySnapshot());
+    const entities = await store.collection<Entity>('entities').list();
+    const acme = entities.find(entity => entity.name === 'Acme Corp')!;
+    const globex = entities.find(entity => entity.name === 'Globex')!;
+    assert.equal(acme.id, 'entity-1');
+    assert.match(globex.id, /^entity-[0-9a-f-]{36}$/);
+
+    const versions = await store.collection<EntityVersion>('entityVersions').list();
+    assert.deepEqual(versions.map(version => version.id).sort(), ['entity-1-v1', `${globex.id}-v1`].sort());
+  });
+
+  it('links audit events to their records and re-seals the chain, logging the repair', async () => {
+    const { store } = await openWith(legacySnapshot());
+    const globex = (await store.collection<Entity>('entities').list()).find(entity => entity.name === 'Globex')!;
+    const events = await store.collection<AuditEvent>('auditEvents').list();
+
+    assert.deepEqual(events.map(event => event.entityId).slice(0, 3), ['entity-1', globex.id, 'Unknown']);
+    assert.equal(events[3].action, 'audit_repaired');
+    assert.match(events[3].id, /^audit-[0-9a-f-]{36}$/);
+    assert.match(events[3].details, /re-sealed the chain from #1; previous head hash [0-9a-f]{64}$/);
+    assert.equal(verifyAuditChain(events).valid, true);
+  });
+
+  it('leaves a chain that already fails verification exactly as found', async () => {
+    const legacy = legacySnapshot();
+    const chained = chainAuditEvents(legacy.collections.auditEvents as AuditEvent[]);
+    chained[1] = { ...chained[1], details: 'Edited after the fact' };
+    const { store } = await openWith({
+      schemaVersion: 8,
+      collections: { ...legacy.collections, auditEvents: chained, entityVersions: [], documents: [], reviewTasks: [] },
+    });
+    assert.deepEqual(await store.collection<AuditEvent>('auditEvents').list(), chained);
+  });
+
+  it('saves the migrated snapshot so the next start has nothing to apply', async () => {
+    const { driver } = await openWith(legacySnapshot());
+    const saved = await driver.load();
+    assert.equal(saved?.schemaVersion, LATEST_VERSION);
+    assert.equal((await DataStore.open(driver)).schemaVersion, LATEST_VERSION);
+    assert.deepEqual(await driver.load(), saved);
+  });
+});
+
+describe('DataStore collections', () => {
+  it('rejects a second record with an existing id', async () => {
+    const entities = (await DataStore.open(new MemoryDriver())).collection<{ id: string; name: string }>('entities');
+    await entities.insert({ id: 'entity-1', name: 'Acme Corp' });
+    await assert.rejects(entities.insert({ id: 'entity-1', name: 'Globex' }), /already has a record with id "entity-1"/);
+    assert.equal((await entities.list()).length, 1);
+  });
+
+  it('refuses collections that no migration created', async () => {
+    const store = await DataStore.open(new MemoryDriver());
+    assert.throws(() => store.collection('invoices'), /add a migration that creates it/);
+  });
+});
@@ -0,0 +1,429 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type {
+  AuditEvent,
+  Entity,
+  EntityVersion,
+  Project,
+  ReviewTask,
+  RiskPolicy,
+  StrategyBrief,
+  StrategyBriefVersion,
+} from '../src/lib/types';
+import { AUDIT_LOG_SUBJECT, chainAuditEvents, newAuditEventId, verifyAuditChain } from './auditLog';
+
+// Persistent storage for the API server.
+// Collections are kept in memory and flushed to a pluggable driver after every write,
+// so the register and audit trail survive restarts.
+
+export interface Repository<T extends { id: string }> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  insert(record: T): Promise<T>;
+  update(id: string, patch: Partial<T>): Promise<T | undefined>;
+  remove(id: string): Promise<boolean>;
+}
+
+export interface StoreSnapshot {
+  schemaVersion: number;
+  collections: Record<string, unknown[]>;
+}
+
+export interface StorageDriver {
+  name: string;
+  load(): Promise<StoreSnapshot | null>;
+  save(snapshot: StoreSnapshot): Promise<void>;
+  backup(label: string): Promise<string | null>;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  up: (snapshot: StoreSnapshot) => void;
+}
+
+// Entities created in the same millisecond shared an id, and early audit events were written with
+// the company name (or "Unknown") as their entityId. Later entities with a taken id get a fresh one,
+// taking along the versions and review tasks that can be told apart by name; audit events are
+// relinked to the record they describe where exactly one matches. Relinked events are re-sealed into
+// the chain and the repair is itself logged with the head hash it replaced. A chain that already fails
+// verification is left exactly as found, so re-sealing can never hide tampering.
+function repairEntityReferences(snapshot: StoreSnapshot) {
+  const entities = snapshot.collections.entities as Entity[];
+  const versions = (snapshot.collections.entityVersions || []) as EntityVersion[];
+  const tasks = (snapshot.collections.reviewTasks || []) as ReviewTask[];
+  const events = snapshot.collections.auditEvents as AuditEvent[];
+  const renamed: Array<{ from: string; to: string; name: string }> = [];
+
+  const firstById = new Map<string, Entity>();
+  for (const entity of entities) {
+    const first = firstById.get(entity.id);
+    if (!first) {
+      firstById.set(entity.id, entity);
+      continue;
+    }
+    const from = entity.id;
+    entity.id = `entity-${crypto.randomUUID()}`;
+    renamed.push({ from, to: entity.id, name: entity.name });
+    if (first.name === entity.name) continue;
+    for (const version of versions.filter(v => v.entityId === from && v.snapshot?.name === entity.name)) {
+      version.entityId = entity.id;
+      version.id = `${entity.id}-v${version.version}`;
+      version.snapshot = { ...version.snapshot, id: entity.id };
+    }
+    for (const task of tasks.filter(t => t.entityId === from && t.entityName === entity.name)) {
+      task.entityId = entity.id;
+    }
+  }
+
+  const subjectIds = new Set([
+    ...entities.map(entity => entity.id),
+    ...((snapshot.collections.users || []) as Array<{ id: string }>).map(user => user.id),
+    ...((snapshot.collections.riskPolicies || []) as RiskPolicy[]).map(policy => policy.id),
+  ]);
+  const byName = (name: string | undefined) => {
+    const matches = entities.filter(entity => name && entity.name.trim().toLowerCase() === name.trim().toLowerCase());
+    return matches.length === 1 ? matches[0] : undefined;
+  };
+
+  const sorted = [...events].sort((a, b) => a.seq - b.seq);
+  if (!verifyAuditChain(sorted).valid) return;
+  let firstChanged = -1;
+  for (const [index, event] of sorted.entries()) {
+    const rename = renamed.find(r => r.from === event.entityId && r.name === event.entityName && firstById.get(r.from)?.name !== r.name);
+    const target = rename
+      ? { id: rename.to, name: rename.name }
+      : subjectIds.has(event.entityId) ? undefined : byName(event.entityId) || byName(event.entityName);
+    if (!target) continue;
+    event.entityId = target.id;
+    event.entityName = target.name;
+    if (firstChanged === -1) firstChanged = index;
+  }
+  if (firstChanged === -1) return;
+
+  const relinked = sorted.slice(firstChanged);
+  const previous = sorted[firstChanged - 1];
+  const previousHead = sorted[sorted.length - 1].hash;
+  const resealed = chainAuditEvents(
+    relinked.map(({ id, timestamp, entityId, entityName, action, user, details }) => ({ id, timestamp, entityId, entityName, action, user, details })),
+    previous
+  );
+  const [repair] = chainAuditEvents([{
+    id: newAuditEventId(),
+    timestamp: new Date().toISOString(),
+    entityId: AUDIT_LOG_SUBJECT,
+    entityName: 'Audit log',
+    action: 'audit_repaired',
+    user: 'system',
+    details: `Storage migration linked events to their records and re-sealed the chain from #${firstChanged + 1}; previous head hash ${previousHead}`,
+  }], resealed[resealed.length - 1]);
+  snapshot.collections.auditEvents = [...sorted.slice(0, firstChanged), ...resealed, repair];
+}
+
+// Schema migrations - append new entries, never edit released ones
+const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create entities and audit events collections',
+    up: (snapshot) => {
+      snapshot.collections.entities = snapshot.collections.entities || [];
+      snapshot.collections.auditEvents = snapshot.collections.auditEvents || [];
+    },
+  },
+  {
+    version: 2,
+    description: 'Create risk policies collection',
+    up: (snapshot) => {
+      snapshot.collections.riskPolicies = snapshot.collections.riskPolicies || [];
+    },
+  },
+  {
+    version: 3,
+    description: 'Create users and sessions collections',
+    up: (snapshot) => {
+      snapshot.collections.users = snapshot.collections.users || [];
+      snapshot.collections.sessions = snapshot.collections.sessions || [];
+    },
+  },
+  {
+    version: 4,
+    description: 'Hash-chain existing audit events',
+    up: (snapshot) => {
+      // Events written before the chain existed are sealed in timestamp order as they stand today
+      const legacy = (snapshot.collections.auditEvents as AuditEvent[])
+        .map(({ id, timestamp, entityId, entityName, action, user, details }) => ({ id, timestamp, entityId, entityName, action, user, details }))
+        .sort((a, b) => (a.timestamp || '').localeCompare(b.timestamp || ''));
+      snapshot.collections.auditEvents = chainAuditEvents(legacy);
+    },
+  },
+  {
+    version: 5,
+    description: 'Create entity versions collection with a baseline for existing entities',
+    up: (snapshot) => {
+      const baselines: EntityVersion[] = (snapshot.collections.entities as Entity[]).map(entity => ({
+        id: `${entity.id}-v1`,
+        entityId: entity.id,
+        version: 1,
+        action: 'baseline',
+        changedAt: entity.lastUpdated || entity.createdAt,
+        changedBy: 'system',
+        reason: 'History tracking started',
+        changes: [],
+        snapshot: entity,
+      }));
+      snapshot.collections.entityVersions = baselines;
+    },
+  },
+  {
+    version: 6,
+    description: 'Create documents collection',
+    up: (snapshot) => {
+      snapshot.collections.documents = snapshot.collections.documents || [];
+    },
+  },
+  {
+    version: 7,
+    description: 'Add document evidence weights to stored risk policies',
+    // Policy versions are immutable: weights they predate are filled in when read (withPolicyDefaults
+    // in server/riskPolicy.ts), so this step no longer changes stored data
+    up: () => {},
+  },
+  {
+    version: 8,
+    description: 'Add review cadence to stored risk policies and create review tasks collection',
+    up: (snapshot) => {
+      // As in migration 7, a missing review cadence is filled in when the policy is read
+      snapshot.collections.reviewTasks = snapshot.collections.reviewTasks || [];
+    },
+  },
+  {
+    version: 9,
+    description: 'Give colliding entity ids unique ids and link audit events to their records',
+    up: repairEntityReferences,
+  },
+  {
+    version: 10,
+    description: 'Create projects collection',
+    up: (snapshot) => {
+      snapshot.collections.projects = snapshot.collections.projects || [];
+    },
+  },
+  {
+    version: 11,
+    description: 'Move project strategy briefs into the versioned strategyBriefs collection',
+    up: (snapshot) => {
+      const versions = (snapshot.collections.strategyBriefs || []) as StrategyBriefVersion[];
+      for (const project of (snapshot.collections.projects || []) as (Project & { strategyBrief?: StrategyBrief })[]) {
+        // The brief a project already holds becomes its version 1; the run's model was not recorded
+        if (project.strategyBrief) {
+          versions.push({
+            id: `brief-${crypto.randomUUID()}`,
+            projectId: project.id,
+            version: 1,
+            input: project.strategyInput || { market: '', segment: '', goals: [], constraints: [] },
+            brief: project.strategyBrief,
+            provider: 'unknown',
+            model: 'unknown',
+            createdBy: project.createdBy,
+            createdAt: project.updatedAt,
+          });
+        }
+        delete project.strategyBrief;
+        project.canonicalBriefVersion = null;
+      }
+      snapshot.collections.strategyBriefs = versions;
+    },
+  },
+  {
+    version: 12,
+    description: 'Create personas collection and add panel rounds to projects',
+    up: (snapshot) => {
+      snapshot.collections.personas = snapshot.collections.personas || [];
+      for (const project of (snapshot.collections.projects || []) as Project[]) {
+        project.panelRounds = project.panelRounds || [];
+      }
+    },
+  },
+  {
+    version: 13,
+    description: 'Give chat messages ids, start customer chat sessions and create insights collection',
+    up: (snapshot) => {
+      snapshot.collections.insights = snapshot.collections.insights || [];
+      for (const project of (snapshot.collections.projects || []) as Project[]) {
+        for (const message of [...project.customerMessages, ...project.voiceMessages]) {
+          message.id = message.id || `msg-${crypto.randomUUID()}`;
+        }
+        project.customerSessionId = project.customerSessionId || `session-${crypto.randomUUID()}`;
+        // Nothing has been synthesized yet, so the next run reads the whole transcript
+        project.lastSynthesizedMessageId = null;
+      }
+    },
+  },
+];
+
+// File-backed JSON driver (default)
+export class JsonFileDriver implements StorageDriver {
+  name = 'json';
+
+  constructor(private filePath: string) {}
+
+  async load(): Promise<StoreSnapshot | null> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf-8');
+      return JSON.parse(raw);
+    } catch (error: unknown) {
+      const { code, message } = error as NodeJS.ErrnoException;
+      if (code === 'ENOENT') {
+        return null;
+      }
+      throw new Error(`Failed to read data file ${this.filePath}: ${message}`);
+    }
+  }
+
+  async save(snapshot: StoreSnapshot): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Write to a temp file and rename so a crash never leaves a half-written store
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(snapshot, null, 2));
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  async backup(label: string): Promise<string | null> {
+    try {
+      const backupPath = `${this.filePath}.${label}.bak`;
+      await fs.copyFile(this.filePath, backupPath);
+      return backupPath;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+// Non-persistent driver, useful for demos and throwaway environments
+export class MemoryDriver implements StorageDriver {
+  name = 'memory';
+  private snapshot: StoreSnapshot | null = null;
+
+  async load(): Promise<StoreSnapshot | null> {
+    return this.snapshot ? structuredClone(this.snapshot) : null;
+  }
+
+  async save(snapshot: StoreSnapshot): Promise<void> {
+    this.snapshot = structuredClone(snapshot);
+  }
+
+  async backup(): Promise<string | null> {
+    return null;
+  }
+}
+
+export class DataStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(private driver: StorageDriver, private snapshot: StoreSnapshot) {}
+
+  static async open(driver: StorageDriver): Promise<DataStore> {
+    const existing = await driver.load();
+    const snapshot: StoreSnapshot = existing || { schemaVersion: 0, collections: {} };
+    const pending = migrations.filter(m => m.version > snapshot.schemaVersion);
+
+    if (pending.length > 0) {
+      if (existing) {
+        const backupPath = await driver.backup(`v${snapshot.schemaVersion}`);
+        if (backupPath) {
+          console.log(`💾 Backed up data store to ${backupPath} before migrating`);
+        }
+      }
+      for (const migration of pending) {
+        console.log(`🔧 Applying storage migration ${migration.version}: ${migration.description}`);
+        migration.up(snapshot);
+        snapshot.schemaVersion = migration.version;
+      }
+      await driver.save(snapshot);
+    }
+
+    return new DataStore(driver, snapshot);
+  }
+
+  get driverName(): string {
+    return this.driver.name;
+  }
+
+  get schemaVersion(): number {
+    return this.snapshot.schemaVersion;
+  }
+
+  collection<T extends { id: string }>(name: string): Repository<T> {
+    if (!this.snapshot.collections[name]) {
+      throw new Error(`Unknown collection "${name}" - add a migration that creates it`);
+    }
+
+    const records = () => this.snapshot.collections[name] as T[];
+
+    return {
+      list: async () => records().map(record => ({ ...record })),
+      get: async (id) => {
+        const record = records().find(r => r.id === id);
+        return record ? { ...record } : undefined;
+      },
+      insert: async (record) => {
+        // update and remove act on the first record with an id, so a second one would be unreachable
+        if (records().some(r => r.id === record.id)) {
+          throw new Error(`Collection "${name}" already has a record with id "${record.id}"`);
+        }
+        records().push({ ...record });
+        await this.persist();
+        return { ...record };
+      },
+      update: async (id, patch) => {
+        const index = records().findIndex(r => r.id === id);
+        if (index === -1) {
+          return undefined;
+        }
+        records()[index] = { ...records()[index], ...patch };
+        await this.persist();
+        return { ...records()[index] };
+      },
+      remove: async (id) => {
+        const index = records().findIndex(r => r.id === id);
+        if (index === -1) {
+          return false;
+        }
+        records().splice(index, 1);
+        await this.persist();
+        return true;
+      },
+    };
+  }
+
+  // Serialize writes so concurrent requests can't interleave partial saves
+  private persist(): Promise<void> {
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => this.driver.save(this.snapshot));
+    return this.writeQueue;
+  }
+}
+
+export function createStorageDriver(): StorageDriver {
+  const driver = (process.env.STORAGE_DRIVER || 'json').toLowerCase();
+
+  switch (driver) {
+    case 'memory':
+      return new MemoryDriver();
+    case 'json': {
+      const dataDir = process.env.DATA_DIR || 'data';
+      return new JsonFileDriver(path.resolve(dataDir, 'syntria.json'));
+    }
+    default:
+      throw new Error(`Unsupported STORAGE_DRIVER "${driver}". Use "json" or "memory".`);
+  }
+}
+
+export function openDataStore(driver: StorageDriver = createStorageDriver()): Promise<DataStore> {
+  return DataStore.open(driver);
+}
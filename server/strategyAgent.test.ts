@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { LLMClient, LLMRequest } from './llm';
+import { createMockClient } from './mockProvider';
+import { generateStrategyBrief } from './strategyAgent';
+import { validateStrategyBrief } from './strategySchema';
+
+const input = { market: 'Freight logistics', segment: 'Dispatch managers', goals: ['Grow'], constraints: ['No new hires'] };
+
+// A valid brief from the mock provider, for tests to break field by field
+const validBrief = async () =>
+  JSON.parse(await createMockClient().generate({ agent: 'strategy', prompt: 'Target Market: Freight logistics' }));
+
+// A model that gives the scripted replies in turn and records each request
+function scriptedClient(replies: string[]) {
+  const requests: LLMRequest[] = [];
+  const client: LLMClient = {
+    ...createMockClient(),
+    async generate(request) {
+      requests.push(typeof request === 'string' ? { prompt: request } : request);
+      const reply = replies.shift();
+      if (reply === undefined) throw new Error('No scripted reply left');
+      return reply;
+    },
+  };
+  return { client, requests };
+}
+
+describe('validateStrategyBrief', () => {
+  it('accepts the mock brief and reports each failing path', async () => {
+    assert.deepEqual(validateStrategyBrief(await validBrief()).violations, []);
+
+    const brief = { ...(await validBrief()), northStar: ' ', icps: [] };
+    assert.deepEqual(validateStrategyBrief(brief).violations.map(violation => violation.path).sort(), ['icps', 'northStar']);
+  });
+
+  it('normalizes risk impact case', async () => {
+    const brief = await validBrief();
+    brief.risksAndChallenges[0].impact = ' High ';
+    assert.equal(validateStrategyBrief(brief).data?.risksAndChallenges[0].impact, 'high');
+  });
+});
+
+describe('generateStrategyBrief', () => {
+  it('returns a valid draft as is, with the constraints from the input', async () => {
+    const { client, requests } = scriptedClient([JSON.stringify({ ...(await validBrief()), constraints: ['Made up'] })]);
+    const result = await generateStrategyBrief(client, input);
+    assert.deepEqual(result.brief?.constraints, ['No new hires']);
+    assert.equal(requests.length, 1);
+    assert.deepEqual(result.trace.map(step => step.action), ['generate_brief']);
+  });
+
+  it('asks the model to repair only the failing fields', async () => {
+    const draft = { ...(await validBrief()), northStar: '' };
+    const { client, requests } = scriptedClient([JSON.stringify(draft), JSON.stringify({ northStar: 'Weekly active teams', prd: 'Ignored' })]);
+    const result = await generateStrategyBrief(client, input);
+
+    assert.equal(requests[1].agent, 'strategy-repair');
+    assert.match(requests[1].prompt, /top-level fields: northStar\./);
+    assert.equal(result.brief?.northStar, 'Weekly active teams');
+    assert.equal(result.brief?.prd, draft.prd);
+    assert.deepEqual(result.trace.map(step => step.action), ['generate_brief', 'repair_fields']);
+    assert.deepEqual(result.trace[0].errors?.map(error => error.path), ['northStar']);
+  });
+
+  it('repairs every field when the draft is not JSON', async () => {
+    const { client, requests } = scriptedClient(['Sorry, here is your brief:', JSON.stringify(await validBrief())]);
+    const result = await generateStrategyBrief(client, input);
+    assert.match(requests[1].prompt, /top-level fields: executiveSummary, northStar, .*, prd\./);
+    assert.ok(result.brief);
+  });
+
+  it('gives up after two repairs and returns the violations with the trace', async () => {
+    const draft = JSON.stringify({ ...(await validBrief()), icps: [] });
+    const { client } = scriptedClient([draft, '{"icps": []}', 'not json']);
+    const result = await generateStrategyBrief(client, input);
+
+    assert.equal(result.brief, null);
+    assert.deepEqual(result.violations.map(violation => violation.path), ['icps']);
+    assert.deepEqual(result.trace.map(step => step.action), ['generate_brief', 'repair_fields', 'repair_fields']);
+  });
+});
@@ -0,0 +1,200 @@
+import type { AgentTraceStep, SchemaViolation, StrategyBrief, StrategyInput } from '../src/lib/types';
+import { createJsonFieldReader, LLMClient, LLMRequest, parseModelJson } from './llm';
+import { STRATEGY_BRIEF_FIELDS, validateStrategyBrief } from './strategySchema';
+
+// Strategy Agent: generates a brief in the provider's JSON mode, validates it against
+// the shared schema and asks the model to repair only the fields that failed.
+
+export interface StrategyGenerationResult {
+  brief: StrategyBrief | null;
+  violations: SchemaViolation[];
+  trace: AgentTraceStep[];
+}
+
+export interface StrategyGenerationOptions {
+  signal?: AbortSignal;
+  // Streams the draft and passes on each brief field as soon as it is complete; repairs may still change it
+  onField?: (field: keyof StrategyBrief, value: unknown) => void;
+}
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export function buildStrategyPrompt({ market, segment, goals, constraints }: StrategyInput): string {
+  return `You are a senior product strategist and advisor with 15+ years of experience at leading tech companies (Google, Amazon, Microsoft, etc.). You're providing strategic counsel to help build a successful product.
+
+PRODUCT IDEA CONTEXT:
+- Target Market: ${market || 'Not specified - analyze and recommend'}
+- Customer Segment: ${segment || 'Not specified - identify and define'}
+- Business Goals: ${goals && goals.length > 0 ? goals.join(', ') : 'Not specified - suggest strategic goals'}
+- Constraints: ${constraints && constraints.length > 0 ? constraints.join(', ') : 'None specified'}
+
+Your task: Create a comprehensive product strategy brief that reads like an executive summary and strategic advisory document. This should be insightful, actionable, and provide real strategic value.
+
+Generate a detailed JSON response with this exact structure:
+{
+  "executiveSummary": "A compelling 2-3 paragraph executive summary that captures the product vision, opportunity, and strategic approach. Write this like a brief you'd present to executives.",
+  "northStar": "A clear, inspiring North Star metric (1-2 sentences that define what success looks like)",
+  "marketOpportunity": "A detailed analysis of the market opportunity - size, trends, timing, and why now. Be specific with numbers and trends if possible.",
+  "competitiveLandscape": "Analysis of the competitive landscape - who are the main players, what are they doing well/poorly, and where is the whitespace opportunity?",
+  "strategicRecommendations": [
+    "Strategic recommendation 1 - specific, actionable advice for how to approach this product",
+    "Strategic recommendation 2",
+    "Strategic recommendation 3",
+    "Strategic recommendation 4"
+  ],
+  "icps": [
+    {
+      "segment": "Specific customer segment name",
+      "description": "Detailed description of this segment",
+      "painPoints": ["Primary pain point 1 with context", "Primary pain point 2 with context", "Primary pain point 3 with context"],
+      "opportunities": ["Opportunity 1 with rationale", "Opportunity 2 with rationale"],
+      "buyingBehavior": "How this segment makes purchasing decisions"
+    }
+  ],
+  "successMetrics": [
+    {
+      "metric": "Specific metric name",
+      "target": "Target value and timeline",
+      "rationale": "Why this metric matters"
+    }
+  ],
+  "goToMarketConsiderations": [
+    "GTM consideration 1 - specific advice on how to bring this to market",
+    "GTM consideration 2",
+    "GTM consideration 3"
+  ],
+  "risksAndChallenges": [
+    {
+      "risk": "Specific risk or challenge",
+      "impact": "high|medium|low",
+      "mitigation": "How to mitigate or address this risk"
+    }
+  ],
+  "timelineAndMilestones": "Recommended timeline and key milestones for product development and launch. Be specific with phases.",
+  "constraints": ${JSON.stringify(constraints || [])},
+  "prd": "# Product Requirements Document\\n\\n## Vision\\n\\n[Clear, compelling vision statement]\\n\\n## Problem Statement\\n\\n[Detailed problem statement - what problem are we solving and why it matters]\\n\\n## Target Users\\n\\n[Detailed description of target users with personas]\\n\\n## Key Features\\n\\n[Core features and capabilities with prioritization]\\n\\n## User Experience\\n\\n[Key UX considerations and principles]\\n\\n## Success Metrics\\n\\n[How we measure success with specific targets]\\n\\n## Timeline\\n\\n[Detailed timeline with phases and milestones]\\n\\n## Risks & Mitigation\\n\\n[Key risks and how to address them]\\n\\n## Dependencies\\n\\n[Key dependencies and assumptions]"
+}
+
+Write this like a strategic brief from a top consulting firm or senior product advisor. Be specific, data-driven where possible, and provide real strategic value. Include actionable advice throughout. Return ONLY valid JSON, no markdown code blocks.`;
+}
+
+function buildRepairPrompt(draft: Record<string, unknown>, violations: SchemaViolation[], fields: string[]): string {
+  return `You previously generated a product strategy brief as JSON, but some fields failed validation.
+
+VALIDATION ERRORS:
+${violations.map(v => `- ${v.path}: ${v.message}`).join('\n')}
+
+CURRENT VALUES OF THE FAILING FIELDS:
+${JSON.stringify(Object.fromEntries(fields.map(field => [field, draft[field] ?? null])), null, 2)}
+
+Return ONLY a JSON object containing corrected values for these top-level fields: ${fields.join(', ')}.
+Keep the same structure as the original brief: strings must be non-empty, lists must have at least one item, and risk "impact" must be one of "high", "medium" or "low".`;
+}
+
+// Top-level brief fields touched by a set of violations
+function failingFields(violations: SchemaViolation[]): string[] {
+  const fields = new Set<string>();
+  for (const violation of violations) {
+    const field = violation.path.split('.')[0];
+    fields.add((STRATEGY_BRIEF_FIELDS as string[]).includes(field) ? field : '(root)');
+  }
+  return fields.has('(root)') ? [...STRATEGY_BRIEF_FIELDS] : [...fields];
+}
+
+const traceStep = (action: string, input: unknown, output: string, errors?: SchemaViolation[]): AgentTraceStep => ({
+  timestamp: new Date().toISOString(),
+  agent: 'strategy',
+  action,
+  input,
+  output,
+  ...(errors && errors.length > 0 ? { errors } : {}),
+});
+
+// The draft as it streams; constraints are left out because they come from the PM
+async function streamDraft(
+  llm: LLMClient,
+  request: LLMRequest,
+  onField: NonNullable<StrategyGenerationOptions['onField']>,
+  signal?: AbortSignal
+): Promise<string> {
+  const read = createJsonFieldReader();
+  let text = '';
+  for await (const chunk of llm.stream(request, { json: true, signal })) {
+    text += chunk;
+    for (const [field, value] of read(chunk)) {
+      if (field !== 'constraints' && (STRATEGY_BRIEF_FIELDS as string[]).includes(field)) {
+        onField(field as keyof StrategyBrief, value);
+      }
+    }
+  }
+  return text;
+}
+
+export async function generateStrategyBrief(
+  llm: LLMClient,
+  input: StrategyInput,
+  { signal, onField }: StrategyGenerationOptions = {}
+): Promise<StrategyGenerationResult> {
+  const trace: AgentTraceStep[] = [];
+  const constraints = input.constraints || [];
+
+  const request = { agent: 'strategy', prompt: buildStrategyPrompt(input) };
+  const text = onField
+    ? await streamDraft(llm, request, onField, signal)
+    : await llm.generate(request, { json: true, signal });
+
+  let draft: Record<string, unknown> = {};
+  let violations: SchemaViolation[];
+  try {
+    draft = parseModelJson(text);
+    // Constraints come from the PM, not the model
+    draft.constraints = constraints;
+    violations = validateStrategyBrief(draft).violations;
+  } catch (error: unknown) {
+    violations = [{ path: '(root)', message: `Response was not valid JSON: ${(error as Error).message}` }];
+  }
+
+  trace.push(traceStep(
+    'generate_brief',
+    { ...input, provider: llm.provider, model: llm.model },
+    violations.length === 0 ? 'Generated comprehensive product strategy brief using AI' : `Draft brief has ${violations.length} schema violation(s)`,
+    violations
+  ));
+
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS && violations.length > 0; attempt++) {
+    const fields = failingFields(violations);
+    console.log(`🔧 Repairing strategy brief fields (attempt ${attempt}/${MAX_REPAIR_ATTEMPTS}): ${fields.join(', ')}`);
+
+    try {
+      const repairText = await llm.generate(
+        { agent: 'strategy-repair', prompt: buildRepairPrompt(draft, violations, fields) },
+        { json: true, signal }
+      );
+      const repaired = parseModelJson(repairText);
+      for (const field of fields) {
+        if (field in repaired) {
+          draft[field] = repaired[field];
+        }
+      }
+      violations = validateStrategyBrief(draft).violations;
+    } catch (error: unknown) {
+      // A cancelled run stops here rather than trying the next repair
+      if (signal?.aborted) throw error;
+      const { message } = error as Error;
+      violations = violations.length > 0 ? violations : [{ path: '(root)', message }];
+      console.error(`❌ Strategy repair attempt ${attempt} failed:`, message);
+    }
+
+    trace.push(traceStep(
+      'repair_fields',
+      { attempt, fields },
+      violations.length === 0 ? 'All fields now pass validation' : `${violations.length} schema violation(s) remain`,
+      violations
+    ));
+  }
+
+  if (violations.length > 0) {
+    return { brief: null, violations, trace };
+  }
+  return { brief: validateStrategyBrief(draft).data, violations, trace };
+}
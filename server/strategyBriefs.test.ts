@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { StrategyBrief, StrategyBriefVersion } from '../src/lib/types';
+import { createMockClient } from './mockProvider';
+import { DataStore, MemoryDriver } from './storage';
+import { compareBriefs, createStrategyBriefs } from './strategyBriefs';
+
+const input = { market: 'Freight logistics', segment: 'Dispatch managers', goals: ['Grow'], constraints: [] };
+
+const mockBrief = async (): Promise<StrategyBrief> =>
+  JSON.parse(await createMockClient().generate({ agent: 'strategy', prompt: 'Target Market: Freight logistics' }));
+
+const openBriefs = async () =>
+  createStrategyBriefs((await DataStore.open(new MemoryDriver())).collection<StrategyBriefVersion>('strategyBriefs'));
+
+describe('createStrategyBriefs', () => {
+  it('numbers each project\'s versions and lists them newest first', async () => {
+    const briefs = await openBriefs();
+    const brief = await mockBrief();
+    const run = (projectId: string) => briefs.record({ projectId, input, brief, provider: 'mock', model: 'mock', createdBy: 'ana' });
+    await run('project-1');
+    await run('project-2');
+    await run('project-1');
+
+    assert.deepEqual((await briefs.list('project-1')).map(version => version.version), [2, 1]);
+    assert.deepEqual((await briefs.list('project-2')).map(version => version.version), [1]);
+    assert.equal((await briefs.get('project-1', 2))?.projectId, 'project-1');
+    assert.equal(await briefs.get('project-2', 2), undefined);
+  });
+});
+
+describe('compareBriefs', () => {
+  it('lists the lines each section gained and lost', async () => {
+    const before = await mockBrief();
+    const after: StrategyBrief = {
+      ...before,
+      northStar: 'Weekly active dispatch teams',
+      strategicRecommendations: [...before.strategicRecommendations.slice(1), 'Partner with TMS vendors'],
+      prd: `${before.prd}\n\n  `,
+    };
+    const version = (n: number, brief: StrategyBrief): StrategyBriefVersion =>
+      ({ id: `brief-${n}`, projectId: 'project-1', version: n, input, brief, provider: 'mock', model: 'mock', createdBy: 'ana', createdAt: '' });
+
+    const { from, to, sections } = compareBriefs(version(1, before), version(2, after));
+    assert.deepEqual([from, to], [1, 2]);
+    assert.deepEqual(sections.filter(section => section.changed).map(section => section.section), ['northStar', 'strategicRecommendations']);
+
+    const northStar = sections[0];
+    assert.deepEqual(northStar.added, ['Weekly active dispatch teams']);
+    assert.deepEqual(northStar.removed, [before.northStar]);
+    const recommendations = sections[1];
+    assert.deepEqual(recommendations.added, ['Partner with TMS vendors']);
+    assert.deepEqual(recommendations.removed, [before.strategicRecommendations[0]]);
+  });
+});
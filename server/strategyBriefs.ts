@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import type {
+  StrategyBrief,
+  StrategyBriefComparison,
+  StrategyBriefSection,
+  StrategyBriefVersion,
+  StrategyInput,
+  StrategySectionDiff,
+} from '../src/lib/types';
+import type { Repository } from './storage';
+
+// Strategy brief versions. Every Strategy Agent run made for a project is stored as the next
+// version with its inputs and the model that wrote it; versions are never edited, so two runs
+// can always be compared. Which version is canonical is recorded on the project.
+
+// Compared sections, each flattened into lines so changes show up item by item
+const SECTIONS: { section: StrategyBriefSection; label: string; lines: (brief: StrategyBrief) => string[] }[] = [
+  { section: 'northStar', label: 'North Star', lines: brief => [brief.northStar] },
+  { section: 'strategicRecommendations', label: 'Strategic Recommendations', lines: brief => brief.strategicRecommendations },
+  {
+    section: 'icps',
+    label: 'Ideal Customer Profiles',
+    lines: brief => brief.icps.flatMap(icp => [
+      `${icp.segment}: ${icp.description}`,
+      ...icp.painPoints.map(point => `${icp.segment} pain point: ${point}`),
+      ...icp.opportunities.map(opportunity => `${icp.segment} opportunity: ${opportunity}`),
+      `${icp.segment} buying behavior: ${icp.buyingBehavior}`,
+    ]),
+  },
+  {
+    section: 'risksAndChallenges',
+    label: 'Risks & Challenges',
+    lines: brief => brief.risksAndChallenges.map(risk => `${risk.risk} (${risk.impact} impact). Mitigation: ${risk.mitigation}`),
+  },
+  { section: 'prd', label: 'PRD', lines: brief => brief.prd.split('\n') },
+];
+
+const cleanLines = (lines: string[]) => lines.map(line => line.trim()).filter(Boolean);
+
+// Section by section, the lines only in `from` (removed) and only in `to` (added)
+export function compareBriefs(from: StrategyBriefVersion, to: StrategyBriefVersion): StrategyBriefComparison {
+  const sections: StrategySectionDiff[] = SECTIONS.map(({ section, label, lines }) => {
+    const before = cleanLines(lines(from.brief));
+    const after = cleanLines(lines(to.brief));
+    const added = after.filter(line => !before.includes(line));
+    const removed = before.filter(line => !after.includes(line));
+    return { section, label, before, after, added, removed, changed: added.length > 0 || removed.length > 0 };
+  });
+  return { from: from.version, to: to.version, sections };
+}
+
+export function createStrategyBriefs(repo: Repository<StrategyBriefVersion>) {
+  // Newest first
+  async function list(projectId: string): Promise<StrategyBriefVersion[]> {
+    return (await repo.list())
+      .filter(version => version.projectId === projectId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async function get(projectId: string, version: number): Promise<StrategyBriefVersion | undefined> {
+    return (await list(projectId)).find(brief => brief.version === version);
+  }
+
+  async function record(input: {
+    projectId: string;
+    input: StrategyInput;
+    brief: StrategyBrief;
+    provider: string;
+    model: string;
+    createdBy: string;
+  }): Promise<StrategyBriefVersion> {
+    const [latest] = await list(input.projectId);
+    return repo.insert({
+      id: `brief-${crypto.randomUUID()}`,
+      version: (latest?.version || 0) + 1,
+      ...input,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  return { list, get, record };
+}
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import type { SchemaViolation, StrategyBrief } from '../src/lib/types';
+
+// Runtime schema for the Strategy Agent brief. Typed against StrategyBrief in
+// src/lib/types.ts so the server and the Workbench agree on the shape.
+
+const text = z.string().trim().min(1, 'Must be a non-empty string');
+
+const icpSchema = z.object({
+  segment: text,
+  description: text,
+  painPoints: z.array(text).min(1, 'List at least one pain point'),
+  opportunities: z.array(text).min(1, 'List at least one opportunity'),
+  buyingBehavior: text,
+});
+
+const successMetricSchema = z.object({
+  metric: text,
+  target: text,
+  rationale: text,
+});
+
+const riskSchema = z.object({
+  risk: text,
+  impact: z.preprocess(
+    value => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+    z.enum(['high', 'medium', 'low'])
+  ),
+  mitigation: text,
+});
+
+export const strategyBriefSchema = z.object({
+  executiveSummary: text,
+  northStar: text,
+  marketOpportunity: text,
+  competitiveLandscape: text,
+  strategicRecommendations: z.array(text).min(1, 'List at least one recommendation'),
+  icps: z.array(icpSchema).min(1, 'Describe at least one ICP'),
+  successMetrics: z.array(successMetricSchema).min(1, 'List at least one success metric'),
+  goToMarketConsiderations: z.array(text).min(1, 'List at least one GTM consideration'),
+  risksAndChallenges: z.array(riskSchema).min(1, 'List at least one risk'),
+  timelineAndMilestones: text,
+  constraints: z.array(z.string()),
+  prd: text,
+});
+
+export const STRATEGY_BRIEF_FIELDS: Array<keyof StrategyBrief> = [
+  'executiveSummary',
+  'northStar',
+  'marketOpportunity',
+  'competitiveLandscape',
+  'strategicRecommendations',
+  'icps',
+  'successMetrics',
+  'goToMarketConsiderations',
+  'risksAndChallenges',
+  'timelineAndMilestones',
+  'constraints',
+  'prd',
+];
+
+// Returns the parsed brief, or the list of fields that failed and why
+export function validateStrategyBrief(value: unknown): { data: StrategyBrief | null; violations: SchemaViolation[] } {
+  const result = strategyBriefSchema.safeParse(value);
+  if (result.success) {
+    return { data: result.data as StrategyBrief, violations: [] };
+  }
+  return {
+    data: null,
+    violations: result.error.issues.map(issue => ({
+      path: issue.path.join('.') || '(root)',
+      message: issue.message,
+    })),
+  };
+}
@@ -0,0 +1,217 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { approveEntity, getApprovals, rejectEntity } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useAppStore } from "@/lib/store";
+import { errorMessage } from "@/lib/utils";
+import { queuesForRole } from "@/lib/roles";
+import { Check, X } from "lucide-react";
+import type { ApprovalQueue as Queue, Entity } from "@/lib/types";
+
+interface ApprovalQueueProps {
+  onDecision?: () => void;
+}
+
+const queueLabels: Record<Queue, string> = {
+  manager: "Manager review",
+  risk_committee: "Risk committee",
+};
+
+export const ApprovalQueue = ({ onDecision }: ApprovalQueueProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const currentUser = useAppStore((state) => state.currentUser);
+  const queues = currentUser ? queuesForRole(currentUser.role) : [];
+  const [queue, setQueue] = useState<Queue>(queues[0] || "manager");
+  const [pending, setPending] = useState<Entity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialog, setDialog] = useState<{ entity: Entity; decision: "approve" | "reject" } | null>(null);
+  const [comment, setComment] = useState("");
+  const [processing, setProcessing] = useState(false);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      setPending(await getApprovals(queue));
+    } catch (error: unknown) {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [queue, toast]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const closeDialog = () => {
+    setDialog(null);
+    setComment("");
+  };
+
+  const handleDecision = async () => {
+    if (!dialog || !comment.trim()) return;
+    setProcessing(true);
+    try {
+      const decide = dialog.decision === "approve" ? approveEntity : rejectEntity;
+      await decide(dialog.entity.id, comment.trim());
+      toast({
+        title: dialog.decision === "approve" ? "Approved" : "Rejected",
+        description: `${dialog.entity.name} has been ${dialog.decision === "approve" ? "approved" : "rejected"}`,
+      });
+      closeDialog();
+      await loadQueue();
+      onDecision?.();
+    } catch (error: unknown) {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>My Approvals ({pending.length})</CardTitle>
+          <CardDescription>Entities waiting for a decision in your queue</CardDescription>
+        </div>
+        {queues.length > 1 ? (
+          <Select value={queue} onValueChange={(val: Queue) => setQueue(val)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {queues.map((q) => (
+                <SelectItem key={q} value={q}>{queueLabels[q]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Badge variant="outline">{queueLabels[queue]}</Badge>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-muted-foreground text-center py-8">Loading...</p>
+        ) : pending.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            Nothing waiting for {queueLabels[queue].toLowerCase()}.
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Risk</TableHead>
+                  <TableHead>Compliance</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pending.map((entity) => (
+                  <TableRow key={entity.id}>
+                    <TableCell
+                      className="font-medium cursor-pointer hover:underline"
+                      onClick={() => navigate(`/entities/${entity.id}`)}
+                    >
+                      {entity.name}
+                    </TableCell>
+                    <TableCell className="capitalize">{entity.type}</TableCell>
+                    <TableCell>
+                      <Badge variant={entity.riskLevel === "HIGH" ? "destructive" : "default"}>
+                        {entity.riskLevel}
+                        {entity.riskScore !== undefined && ` · ${entity.riskScore}`}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{entity.compliance}</TableCell>
+                    <TableCell className="text-muted-foreground text-sm">
+                      {new Date(entity.approval?.requestedAt || entity.createdAt).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="space-x-2">
+                      <Button size="sm" onClick={() => setDialog({ entity, decision: "approve" })}>
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => setDialog({ entity, decision: "reject" })}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialog?.decision === "approve" ? "Approve" : "Reject"} {dialog?.entity.name}</DialogTitle>
+            <DialogDescription>
+              A comment is required and will be recorded in the audit trail.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Comment</Label>
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="e.g., Reviewed SOC2 report and insurance certificate..."
+              rows={4}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button
+              variant={dialog?.decision === "reject" ? "destructive" : "default"}
+              onClick={handleDecision}
+              disabled={processing || !comment.trim()}
+            >
+              {processing ? "Processing..." : dialog?.decision === "approve" ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
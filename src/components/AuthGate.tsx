@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { getCurrentUser } from "@/lib/api";
+import { useAppStore } from "@/lib/store";
+import Login from "@/pages/Login";
+import { Loader2 } from "lucide-react";
+
+interface AuthGateProps {
+  children: React.ReactNode;
+}
+
+// Resolves the session once on load, then renders the app or the login screen
+export const AuthGate = ({ children }: AuthGateProps) => {
+  const { currentUser, setCurrentUser } = useAppStore();
+  const [checking, setChecking] = useState(true);
+
+  useEffect(() => {
+    getCurrentUser()
+      .then(setCurrentUser)
+      .catch(() => setCurrentUser(null))
+      .finally(() => setChecking(false));
+  }, [setCurrentUser]);
+
+  if (checking) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return currentUser ? <>{children}</> : <Login />;
+};
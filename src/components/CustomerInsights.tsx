@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ExportMenu } from "@/components/ExportMenu";
+import { useToast } from "@/hooks/use-toast";
+import { getInsights, insightExportUrl, synthesizeInsights } from "@/lib/api";
+import { errorMessage } from "@/lib/utils";
+import type { CustomerInsight, InsightType, Project } from "@/lib/types";
+import { Lightbulb, Loader2, Sparkles } from "lucide-react";
+
+interface CustomerInsightsProps {
+  project: Project;
+  onSaved: () => void;
+}
+
+// Same order and labels as INSIGHT_TYPE_LABELS in server/insights.ts
+const insightTypes: Array<{ type: InsightType; label: string; className: string }> = [
+  { type: "pain_point", label: "Pain points", className: "bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-300" },
+  { type: "feature_request", label: "Feature requests", className: "bg-blue-100 text-blue-800 dark:bg-blue-950 dark:text-blue-300" },
+  { type: "objection", label: "Objections", className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-950 dark:text-yellow-300" },
+  { type: "willingness_to_pay", label: "Willingness to pay", className: "bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-300" },
+];
+
+// Customer replies saved after the last synthesis
+const unreadReplies = (project: Project) => {
+  const start = project.customerMessages.findIndex((message) => message.id === project.lastSynthesizedMessageId) + 1;
+  return project.customerMessages.slice(start).filter((message) => message.role === "assistant").length;
+};
+
+// Tagged insights from the customer chat, each backed by verbatim quotes
+export const CustomerInsights = ({ project, onSaved }: CustomerInsightsProps) => {
+  const { toast } = useToast();
+  const [insights, setInsights] = useState<CustomerInsight[]>([]);
+  const [synthesizing, setSynthesizing] = useState(false);
+  const unread = unreadReplies(project);
+
+  // Planning runs synthesize new chat too, which moves lastSynthesizedMessageId
+  useEffect(() => {
+    getInsights(project.id)
+      .then(setInsights)
+      .catch((error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }));
+  }, [project.id, project.lastSynthesizedMessageId, toast]);
+
+  const handleSynthesize = async () => {
+    setSynthesizing(true);
+    try {
+      const response = await synthesizeInsights(project.id);
+      setInsights(response.data.insights);
+      toast({
+        title: "Insights Updated",
+        description: `Read ${response.data.messagesRead} customer message(s): ${response.data.created} new insight(s), ${response.data.updated} with new evidence.`,
+      });
+      onSaved();
+    } catch (error: unknown) {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setSynthesizing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Lightbulb className="w-5 h-5" />
+              Customer Insights
+            </CardTitle>
+            <CardDescription>
+              Pain points, feature requests, objections and willingness to pay, quoted from the customer chat across sessions
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleSynthesize} disabled={synthesizing || unread === 0}>
+              {synthesizing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+              {unread > 0 ? `Synthesize ${unread} new repl${unread === 1 ? "y" : "ies"}` : "Up to date"}
+            </Button>
+            <ExportMenu href={(format) => insightExportUrl(project.id, format)} disabled={insights.length === 0} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {insights.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No insights yet. Chat with the customer above, then synthesize the conversation.
+          </p>
+        ) : (
+          insightTypes.map(({ type, label, className }) => {
+            const ofType = insights.filter((insight) => insight.type === type);
+            if (ofType.length === 0) return null;
+            return (
+              <div key={type} className="space-y-2">
+                <h4 className="font-semibold flex items-center gap-2">
+                  <span className={`rounded px-2 py-0.5 text-xs ${className}`}>{label}</span>
+                </h4>
+                {ofType.map((insight) => {
+                  const sessions = new Set(insight.evidence.map((evidence) => evidence.sessionId)).size;
+                  return (
+                    <div key={insight.id} className="rounded-lg border p-3 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">{insight.summary}</span>
+                        <Badge variant="secondary">
+                          {insight.evidence.length} quote{insight.evidence.length === 1 ? "" : "s"} · {sessions} session{sessions === 1 ? "" : "s"}
+                        </Badge>
+                      </div>
+                      {insight.evidence.map((evidence) => (
+                        <blockquote
+                          key={`${evidence.messageId}-${evidence.quote}`}
+                          className="border-l-2 pl-3 text-sm italic text-muted-foreground"
+                          title={`Message ${evidence.messageId}`}
+                        >
+                          "{evidence.quote}"
+                        </blockquote>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+};
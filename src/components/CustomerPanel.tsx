@@ -0,0 +1,338 @@
+import { useCallback, useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { PersonaDialog } from "@/components/PersonaDialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  createPersona,
+  deletePersona,
+  getPersonas,
+  runCustomerPanel,
+  seedPersonas,
+  updatePersona,
+  updateProject,
+} from "@/lib/api";
+import { errorMessage } from "@/lib/utils";
+import type { PanelPosition, PanelRound, PanelStance, PanelTopic, Persona, PersonaInput, Project } from "@/lib/types";
+import { Check, Loader2, Minus, Pencil, Plus, Sparkles, Trash2, Users, X } from "lucide-react";
+
+// Must match MAX_PANEL_SIZE in server/customerPanel.ts
+const MAX_PANEL_SIZE = 6;
+
+interface CustomerPanelProps {
+  project: Project;
+  market?: string;
+  // Called after anything is saved to the project, so the Workbench can refresh it
+  onSaved: () => void;
+}
+
+const stanceStyles: Record<PanelStance, string> = {
+  supportive: "bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-300",
+  mixed: "bg-yellow-100 text-yellow-800 dark:bg-yellow-950 dark:text-yellow-300",
+  skeptical: "bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-300",
+};
+
+const positionCells: Record<PanelPosition, { className: string; icon: typeof Check; label: string }> = {
+  agree: { className: "bg-green-50 text-green-700 dark:bg-green-950/40 dark:text-green-300", icon: Check, label: "Agrees" },
+  disagree: { className: "bg-red-50 text-red-700 dark:bg-red-950/40 dark:text-red-300", icon: X, label: "Disagrees" },
+  silent: { className: "text-muted-foreground", icon: Minus, label: "Didn't say" },
+};
+
+// Consensus when everyone who spoke agrees (at least two), split when some agree and some disagree
+const agreementFor = (topic: PanelTopic) => {
+  const positions = Object.values(topic.positions);
+  const agree = positions.filter((position) => position === "agree").length;
+  const disagree = positions.filter((position) => position === "disagree").length;
+  if (agree >= 2 && disagree === 0) return { label: "Consensus", variant: "default" as const };
+  if (agree > 0 && disagree > 0) return { label: "Split", variant: "destructive" as const };
+  return { label: "One voice", variant: "secondary" as const };
+};
+
+export const CustomerPanel = ({ project, market, onSaved }: CustomerPanelProps) => {
+  const { toast } = useToast();
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [rounds, setRounds] = useState<PanelRound[]>(project.panelRounds);
+  const [question, setQuestion] = useState("");
+  const [asking, setAsking] = useState(false);
+  const [seeding, setSeeding] = useState(false);
+  const [editing, setEditing] = useState<Persona | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const showError = useCallback(
+    (error: unknown) => toast({ title: "Error", description: errorMessage(error), variant: "destructive" }),
+    [toast]
+  );
+
+  useEffect(() => {
+    getPersonas(project.id)
+      .then((loaded) => {
+        setPersonas(loaded);
+        setSelected(loaded.slice(0, MAX_PANEL_SIZE).map((persona) => persona.id));
+      })
+      .catch(showError);
+  }, [project.id, showError]);
+
+  const togglePersona = (id: string, checked: boolean) => {
+    setSelected((current) => (checked ? [...current, id] : current.filter((selectedId) => selectedId !== id)));
+  };
+
+  const handleSeed = async () => {
+    setSeeding(true);
+    try {
+      const result = await seedPersonas(project.id);
+      setPersonas(result.personas);
+      setSelected((current) => [...current, ...result.created.map((persona) => persona.id)].slice(0, MAX_PANEL_SIZE));
+      toast({
+        title: "Personas Seeded",
+        description: result.created.length > 0
+          ? `Added ${result.created.map((persona) => persona.name).join(", ")} from the brief's ICPs.`
+          : "Every ICP segment in the brief already has a persona.",
+      });
+    } catch (error: unknown) {
+      showError(error);
+    } finally {
+      setSeeding(false);
+    }
+  };
+
+  const handleSavePersona = async (input: PersonaInput) => {
+    try {
+      if (editing) {
+        const saved = await updatePersona(project.id, editing.id, input);
+        setPersonas((current) => current.map((persona) => (persona.id === saved.id ? saved : persona)));
+      } else {
+        const created = await createPersona(project.id, input);
+        setPersonas((current) => [...current, created]);
+        setSelected((current) => (current.length < MAX_PANEL_SIZE ? [...current, created.id] : current));
+      }
+    } catch (error: unknown) {
+      showError(error);
+      throw error;
+    }
+  };
+
+  const handleDeletePersona = async (persona: Persona) => {
+    try {
+      await deletePersona(project.id, persona.id);
+      setPersonas((current) => current.filter((p) => p.id !== persona.id));
+      setSelected((current) => current.filter((id) => id !== persona.id));
+    } catch (error: unknown) {
+      showError(error);
+    }
+  };
+
+  const handleAsk = async () => {
+    if (!question.trim()) return;
+    setAsking(true);
+    try {
+      const response = await runCustomerPanel({
+        question: question.trim(),
+        projectId: project.id,
+        personaIds: selected,
+        market: market || undefined,
+      });
+      setRounds((current) => [...current, response.data]);
+      setQuestion("");
+      onSaved();
+    } catch (error: unknown) {
+      showError(error);
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  const handleClearRounds = async () => {
+    try {
+      await updateProject(project.id, { panelRounds: [] });
+      setRounds([]);
+      onSaved();
+    } catch (error: unknown) {
+      showError(error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Customer Panel
+            </CardTitle>
+            <CardDescription>
+              Ask several personas the same question and see where they agree and disagree
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleSeed} disabled={seeding}>
+              {seeding ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Sparkles className="w-4 h-4 mr-1" />}
+              Seed from brief
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setEditing(null);
+                setDialogOpen(true);
+              }}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add persona
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {personas.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No personas yet. Generate a strategy brief to seed one per ICP, or add your own.
+          </p>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-3">
+            {personas.map((persona) => (
+              <div key={persona.id} className="flex items-start gap-3 rounded-lg border p-3">
+                <Checkbox
+                  checked={selected.includes(persona.id)}
+                  disabled={!selected.includes(persona.id) && selected.length >= MAX_PANEL_SIZE}
+                  onCheckedChange={(value) => togglePersona(persona.id, value === true)}
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{persona.name}</span>
+                    <Badge variant="outline">{persona.skepticism} skepticism</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {[persona.segment, persona.role, persona.budget && `Budget: ${persona.budget}`].filter(Boolean).join(" · ")}
+                  </p>
+                  {persona.currentTools.length > 0 && (
+                    <p className="text-xs text-muted-foreground">Uses: {persona.currentTools.join(", ")}</p>
+                  )}
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditing(persona);
+                      setDialogOpen(true);
+                    }}
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDeletePersona(persona)}>
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Ask the panel, e.g., What would make you switch from your current tool?"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !asking) handleAsk();
+            }}
+            disabled={asking}
+          />
+          <Button onClick={handleAsk} disabled={asking || !question.trim() || selected.length === 0}>
+            {asking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Ask {selected.length} persona{selected.length === 1 ? "" : "s"}
+          </Button>
+        </div>
+
+        {rounds.length > 0 && (
+          <div className="space-y-6">
+            <div className="flex justify-end">
+              <Button variant="ghost" size="sm" onClick={handleClearRounds}>
+                Clear panel history
+              </Button>
+            </div>
+            {[...rounds].reverse().map((round) => (
+              <div key={round.id} className="space-y-3 rounded-lg border p-4">
+                <div>
+                  <p className="font-medium">"{round.question}"</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(round.createdAt).toLocaleString()} · {round.provider}/{round.model}
+                  </p>
+                </div>
+
+                {round.topics.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="text-left font-medium p-2">Point raised</th>
+                          {round.answers.map((answer) => (
+                            <th key={answer.personaId} className="font-medium p-2 text-center">
+                              {answer.personaName}
+                            </th>
+                          ))}
+                          <th className="p-2" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        <tr className="border-b">
+                          <td className="p-2 text-muted-foreground">Overall stance</td>
+                          {round.answers.map((answer) => (
+                            <td key={answer.personaId} className="p-2 text-center">
+                              <span className={`rounded px-2 py-0.5 text-xs ${stanceStyles[answer.stance]}`}>{answer.stance}</span>
+                            </td>
+                          ))}
+                          <td className="p-2" />
+                        </tr>
+                        {round.topics.map((topic) => {
+                          const agreement = agreementFor(topic);
+                          return (
+                            <tr key={topic.topic} className="border-b last:border-0">
+                              <td className="p-2">{topic.topic}</td>
+                              {round.answers.map((answer) => {
+                                const cell = positionCells[topic.positions[answer.personaId] || "silent"];
+                                const Icon = cell.icon;
+                                return (
+                                  <td key={answer.personaId} className={`p-2 text-center ${cell.className}`} title={cell.label}>
+                                    <Icon className="w-4 h-4 inline" />
+                                  </td>
+                                );
+                              })}
+                              <td className="p-2 text-right">
+                                <Badge variant={agreement.variant}>{agreement.label}</Badge>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <div className="grid md:grid-cols-2 gap-3">
+                  {round.answers.map((answer) => (
+                    <div key={answer.personaId} className="rounded-lg bg-muted p-3 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium">{answer.personaName}</span>
+                        <span className={`rounded px-2 py-0.5 text-xs ${stanceStyles[answer.stance]}`}>{answer.stance}</span>
+                      </div>
+                      <p className="text-sm whitespace-pre-wrap">{answer.answer}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <PersonaDialog open={dialogOpen} onOpenChange={setDialogOpen} persona={editing} onSave={handleSavePersona} />
+    </Card>
+  );
+};
@@ -0,0 +1,40 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { describeDuplicate } from "@/lib/riskOptions";
+import type { DuplicateMatch } from "@/lib/types";
+import { AlertTriangle } from "lucide-react";
+
+interface DuplicateWarningProps {
+  duplicates: DuplicateMatch[];
+  acknowledged: boolean;
+  onAcknowledge: (acknowledged: boolean) => void;
+}
+
+// Possible duplicates found while onboarding; renders nothing when there are none
+export const DuplicateWarning = ({ duplicates, acknowledged, onAcknowledge }: DuplicateWarningProps) => {
+  if (duplicates.length === 0) return null;
+
+  return (
+    <div className="rounded-md border border-destructive bg-destructive/10 p-4 space-y-3 text-sm">
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="h-5 w-5 text-destructive mt-0.5" />
+        <div className="space-y-1">
+          <p className="font-medium text-destructive">
+            This may already be on file
+          </p>
+          {duplicates.map((match) => (
+            <p key={match.entityId} className="text-muted-foreground">
+              <a href={`/entities/${match.entityId}`} target="_blank" rel="noreferrer" className="font-medium text-foreground underline">
+                {match.entityName}
+              </a>{" "}
+              ({match.status}) · {describeDuplicate(match)}
+            </p>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <Checkbox checked={acknowledged} onCheckedChange={(value) => onAcknowledge(value === true)} />
+        <span>This is a different company; onboard it as a new entity</span>
+      </label>
+    </div>
+  );
+};
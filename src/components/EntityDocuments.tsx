@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { documentDownloadUrl, getEntityDocuments, uploadEntityDocument } from "@/lib/api";
+import { DOCUMENT_TYPES, guessDocumentType, readFileAsBase64 } from "@/lib/riskOptions";
+import { errorMessage } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import type { DocumentType, EntityDocument } from "@/lib/types";
+import { Download, FileText, Loader2, Upload } from "lucide-react";
+
+interface EntityDocumentsProps {
+  entityId: string;
+  canUpload: boolean;
+  // Called after an upload, since a new document type can re-score the entity
+  onUploaded?: () => void;
+}
+
+// Days until the expiry date, counted in UTC like the server's expiry check
+const daysUntil = (date: string) => {
+  const now = new Date();
+  return Math.round((Date.parse(`${date}T00:00:00Z`) - Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())) / 86400000);
+};
+
+const ExpiryBadge = ({ expiryDate }: { expiryDate: string }) => {
+  const daysLeft = daysUntil(expiryDate);
+  if (daysLeft < 0) return <Badge variant="destructive">Expired</Badge>;
+  if (daysLeft <= 90) return <Badge variant="secondary">Expires in {daysLeft}d</Badge>;
+  return null;
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const EntityDocuments = ({ entityId, canUpload, onUploaded }: EntityDocumentsProps) => {
+  const { toast } = useToast();
+  const [documents, setDocuments] = useState<EntityDocument[]>([]);
+  const [showSuperseded, setShowSuperseded] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [type, setType] = useState<DocumentType>("Other");
+  const [effectiveDate, setEffectiveDate] = useState("");
+  const [expiryDate, setExpiryDate] = useState("");
+  const [uploading, setUploading] = useState(false);
+  // Bumped to reset the native file input after an upload
+  const [inputKey, setInputKey] = useState(0);
+
+  const load = useCallback(async () => {
+    try {
+      setDocuments(await getEntityDocuments(entityId));
+    } catch (error: unknown) {
+      toast({ title: "Failed to load documents", description: errorMessage(error), variant: "destructive" });
+    }
+  }, [entityId, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleUpload = async () => {
+    if (!file) return;
+    setUploading(true);
+    try {
+      const document = await uploadEntityDocument(entityId, {
+        type,
+        fileName: file.name,
+        mimeType: file.type,
+        base64: await readFileAsBase64(file),
+        effectiveDate: effectiveDate || undefined,
+        expiryDate: expiryDate || undefined,
+      });
+      toast({
+        title: "Document uploaded",
+        description: document.supersedes
+          ? `${document.type} v${document.version} replaces the previous version`
+          : `${document.fileName} added to the vault`,
+      });
+      setFile(null);
+      setInputKey((key) => key + 1);
+      setEffectiveDate("");
+      setExpiryDate("");
+      await load();
+      onUploaded?.();
+    } catch (error: unknown) {
+      toast({ title: "Upload failed", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const visible = documents.filter((doc) => showSuperseded || doc.status === "current");
+  const supersededCount = documents.length - documents.filter((doc) => doc.status === "current").length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Documents</CardTitle>
+        {supersededCount > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => setShowSuperseded(!showSuperseded)}>
+            {showSuperseded ? "Hide" : "Show"} {supersededCount} previous version(s)
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No documents in the vault yet</p>
+        ) : (
+          <div className="space-y-2">
+            {visible.map((doc) => (
+              <div
+                key={doc.id}
+                className={`flex items-center justify-between gap-4 border rounded-lg p-3 ${doc.status === "superseded" ? "opacity-60" : ""}`}
+              >
+                <div className="flex items-start gap-3 min-w-0">
+                  <FileText className="h-5 w-5 text-muted-foreground shrink-0 mt-0.5" />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{doc.type}</Badge>
+                      <span className="text-sm font-medium truncate">{doc.fileName}</span>
+                      <span className="text-xs text-muted-foreground">v{doc.version}</span>
+                      {doc.status === "superseded" && <Badge variant="secondary">Superseded</Badge>}
+                      {doc.status === "current" && doc.expiryDate && <ExpiryBadge expiryDate={doc.expiryDate} />}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {formatSize(doc.size)} · uploaded by {doc.uploadedBy} on {new Date(doc.uploadedAt).toLocaleDateString()}
+                      {doc.effectiveDate && ` · issued ${doc.effectiveDate}`}
+                      {doc.expiryDate && ` · expires ${doc.expiryDate}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground font-mono truncate" title={doc.sha256}>
+                      sha256 {doc.sha256.slice(0, 16)}…
+                    </p>
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" asChild>
+                  <a href={documentDownloadUrl(doc.id)}>
+                    <Download className="h-4 w-4 mr-1" />
+                    Download
+                  </a>
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canUpload && (
+          <div className="pt-4 border-t border-border space-y-3">
+            <p className="text-sm font-medium">Upload evidence</p>
+            <div className="grid md:grid-cols-3 gap-3">
+              <div className="space-y-1 md:col-span-3">
+                <Label htmlFor="document-file">File</Label>
+                <Input
+                  key={inputKey}
+                  id="document-file"
+                  type="file"
+                  accept=".pdf,.doc,.docx,.txt,.png,.jpg,.jpeg"
+                  onChange={(e) => {
+                    const selected = e.target.files?.[0] || null;
+                    setFile(selected);
+                    if (selected) setType(guessDocumentType(selected.name));
+                  }}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select value={type} onValueChange={(val: DocumentType) => setType(val)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DOCUMENT_TYPES.map((t) => (
+                      <SelectItem key={t} value={t}>{t}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="document-effective">Issued</Label>
+                <Input
+                  id="document-effective"
+                  type="date"
+                  value={effectiveDate}
+                  onChange={(e) => setEffectiveDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="document-expiry">Expires</Label>
+                <Input
+                  id="document-expiry"
+                  type="date"
+                  value={expiryDate}
+                  onChange={(e) => setExpiryDate(e.target.value)}
+                />
+              </div>
+            </div>
+            <Button onClick={handleUpload} disabled={!file || uploading}>
+              {uploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              Upload
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
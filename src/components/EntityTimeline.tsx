@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { EntityVersion, EntityVersionAction } from "@/lib/types";
+
+interface EntityTimelineProps {
+  versions: EntityVersion[];
+  // Versions recorded under another id came from a duplicate merged into this entity
+  entityId?: string;
+}
+
+const actionLabels: Record<EntityVersionAction, string> = {
+  baseline: "History started",
+  created: "Entity Onboarded",
+  updated: "Updated",
+  decommissioned: "Decommissioned",
+  reactivated: "Reactivated",
+  approved: "Approved",
+  rejected: "Rejected",
+  reviewed: "Periodic Review",
+  merged: "Duplicate Merged",
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.length === 0 ? "(none)" : value.map(formatValue).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// Long values (factor lists, approval records) are cut down in the inline diff
+const truncate = (text: string, max = 80) => (text.length > max ? `${text.slice(0, max)}…` : text);
+
+export const EntityTimeline = ({ versions, entityId }: EntityTimelineProps) => {
+  const [viewing, setViewing] = useState<EntityVersion | null>(null);
+  const newestFirst = [...versions].reverse();
+
+  if (versions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No history recorded yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {newestFirst.map((version, index) => (
+        <div key={version.id} className="flex gap-4">
+          <div className="flex flex-col items-center">
+            <div className={`w-2 h-2 rounded-full ${index === 0 ? "bg-primary" : "bg-muted-foreground"}`} />
+            {index < newestFirst.length - 1 && <div className="w-0.5 flex-1 bg-border" />}
+          </div>
+          <div className="pb-4 flex-1 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-medium">
+                {actionLabels[version.action] || version.action}
+                <Badge variant="outline" className="ml-2">v{version.version}</Badge>
+                {entityId && version.entityId !== entityId && (
+                  <Badge variant="secondary" className="ml-2">from {version.snapshot.name}</Badge>
+                )}
+              </p>
+              <Button variant="ghost" size="sm" onClick={() => setViewing(version)}>
+                View snapshot
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {new Date(version.changedAt).toLocaleString()} by {version.changedBy}
+            </p>
+            {version.reason && <p className="text-xs text-muted-foreground">{version.reason}</p>}
+            {version.changes.length > 0 && (
+              <div className="mt-2 space-y-1 font-mono text-xs">
+                {version.changes.map((change) => (
+                  <div key={change.field}>
+                    <span className="font-semibold">{change.field}</span>:{" "}
+                    <span className="text-destructive line-through">{truncate(formatValue(change.before))}</span>
+                    {" → "}
+                    <span className="text-accent">{truncate(formatValue(change.after))}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {viewing?.snapshot.name} · v{viewing?.version}
+            </DialogTitle>
+            <DialogDescription>
+              Record as it stood after this change ({viewing && new Date(viewing.changedAt).toLocaleString()})
+            </DialogDescription>
+          </DialogHeader>
+          {viewing && (
+            <div className="space-y-1 text-sm">
+              {Object.entries(viewing.snapshot)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([field, value]) => (
+                  <div key={field} className="grid grid-cols-3 gap-4 border-b border-border py-1">
+                    <span className="text-muted-foreground">{field}</span>
+                    <span className="col-span-2 font-mono text-xs break-all">{formatValue(value)}</span>
+                  </div>
+                ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+import type { ExportFormat } from "@/lib/types";
+
+const formats: Array<{ format: ExportFormat; label: string }> = [
+  { format: "csv", label: "CSV" },
+  { format: "xlsx", label: "Excel (XLSX)" },
+  { format: "jsonl", label: "JSON Lines" },
+];
+
+interface ExportMenuProps {
+  // Download URL for each format, carrying the current filters
+  href: (format: ExportFormat) => string;
+  disabled?: boolean;
+}
+
+// The server streams the file; the browser downloads it with the session cookie
+export const ExportMenu = ({ href, disabled }: ExportMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button disabled={disabled}>
+        <Download className="h-4 w-4 mr-2" />
+        Export
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      {formats.map(({ format, label }) => (
+        <DropdownMenuItem key={format} asChild>
+          <a href={href(format)} download>
+            {label}
+          </a>
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
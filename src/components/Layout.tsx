@@ -1,18 +1,32 @@
+import { useLocation } from "react-router-dom";
 import { TopBar } from "./TopBar";
 import { Navigation } from "./Navigation";
+import { useAppStore } from "@/lib/store";
+import { canAccess, roleLabels } from "@/lib/roles";
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
 export const Layout = ({ children }: LayoutProps) => {
+  const { pathname } = useLocation();
+  const currentUser = useAppStore((state) => state.currentUser);
+  const allowed = !currentUser || canAccess(currentUser.role, pathname);
+
   return (
     <div className="min-h-screen flex flex-col w-full">
       <TopBar />
       <div className="flex flex-1">
         <Navigation />
         <main className="flex-1 overflow-auto">
-          {children}
+          {allowed ? children : (
+            <div className="container mx-auto p-6">
+              <h1 className="font-heading text-2xl font-bold">Access restricted</h1>
+              <p className="text-muted-foreground">
+                Your role ({roleLabels[currentUser.role]}) does not have access to this page.
+              </p>
+            </div>
+          )}
         </main>
       </div>
     </div>
@@ -0,0 +1,81 @@
+import type { MouseEvent } from "react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+
+interface ListPaginationProps {
+  pageIndex: number;
+  pageSize: number;
+  // Rows on the current page and across all pages
+  shown: number;
+  total: number;
+  nextCursor: string | null;
+  onPrevious: () => void;
+  onNext: (cursor: string) => void;
+}
+
+// Previous/next controls for a server-paged table; renders nothing when everything fits on one page
+export const ListPagination = ({
+  pageIndex,
+  pageSize,
+  shown,
+  total,
+  nextCursor,
+  onPrevious,
+  onNext,
+}: ListPaginationProps) => {
+  if (pageIndex === 0 && !nextCursor) return null;
+
+  const pageCount = Math.max(pageIndex + 1, Math.ceil(total / pageSize));
+  const firstRow = pageIndex * pageSize + 1;
+  const disabled = "pointer-events-none opacity-50";
+
+  const handle = (action: () => void) => (e: MouseEvent) => {
+    e.preventDefault();
+    action();
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row items-center justify-between gap-2 pt-4">
+      <p className="text-sm text-muted-foreground">
+        Showing {firstRow}–{firstRow + shown - 1} of {total}
+      </p>
+      <Pagination className="mx-0 w-auto">
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationPrevious
+              href="#"
+              aria-disabled={pageIndex === 0}
+              className={pageIndex === 0 ? disabled : ""}
+              onClick={handle(onPrevious)}
+            />
+          </PaginationItem>
+          <PaginationItem>
+            <PaginationLink href="#" isActive onClick={handle(() => undefined)}>
+              {pageIndex + 1}
+            </PaginationLink>
+          </PaginationItem>
+          {pageIndex + 1 < pageCount && (
+            <PaginationItem>
+              <PaginationEllipsis />
+            </PaginationItem>
+          )}
+          <PaginationItem>
+            <PaginationNext
+              href="#"
+              aria-disabled={!nextCursor}
+              className={nextCursor ? "" : disabled}
+              onClick={handle(() => nextCursor && onNext(nextCursor))}
+            />
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+    </div>
+  );
+};
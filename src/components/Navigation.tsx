@@ -3,17 +3,21 @@ import {
   LayoutDashboard,
   Briefcase,
   UserPlus,
+  FileSpreadsheet,
   ShieldAlert,
   Power,
   FileText,
   BarChart3,
   Settings,
 } from "lucide-react";
+import { useAppStore } from "@/lib/store";
+import { canAccess } from "@/lib/roles";
 
 const navItems = [
   { to: "/", label: "Overview", icon: LayoutDashboard },
   { to: "/workbench", label: "PM Workbench", icon: Briefcase },
   { to: "/onboarding", label: "Onboarding", icon: UserPlus },
+  { to: "/import", label: "Bulk Import", icon: FileSpreadsheet },
   { to: "/risk", label: "Risk & Compliance", icon: ShieldAlert },
   { to: "/decommission", label: "Decommission", icon: Power },
   { to: "/audit", label: "Audit Trail", icon: FileText },
@@ -22,10 +26,13 @@ const navItems = [
 ];
 
 export const Navigation = () => {
+  const currentUser = useAppStore((state) => state.currentUser);
+  const visibleItems = navItems.filter((item) => currentUser && canAccess(currentUser.role, item.to));
+
   return (
     <nav className="w-64 border-r border-border bg-surface-1 flex flex-col">
       <div className="flex-1 p-4 space-y-1">
-        {navItems.map((item) => {
+        {visibleItems.map((item) => {
           const Icon = item.icon;
           return (
             <NavLink
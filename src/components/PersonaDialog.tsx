@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Persona, PersonaInput, SkepticismLevel } from "@/lib/types";
+import { Loader2 } from "lucide-react";
+
+interface PersonaDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The persona to edit, or null to add one
+  persona: Persona | null;
+  onSave: (input: PersonaInput) => Promise<void>;
+}
+
+const emptyPersona: PersonaInput = {
+  name: "",
+  segment: "",
+  role: "",
+  budget: "",
+  currentTools: [],
+  painPoints: [],
+  skepticism: "medium",
+  description: "",
+};
+
+export const PersonaDialog = ({ open, onOpenChange, persona, onSave }: PersonaDialogProps) => {
+  const [form, setForm] = useState<PersonaInput>(emptyPersona);
+  // Lists are edited as text, one item per line
+  const [tools, setTools] = useState("");
+  const [painPoints, setPainPoints] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const { name, segment, role, budget, currentTools, painPoints, skepticism, description } = persona || emptyPersona;
+    setForm({ name, segment, role, budget, currentTools, painPoints, skepticism, description });
+    setTools(currentTools.join("\n"));
+    setPainPoints(painPoints.join("\n"));
+  }, [open, persona]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave({
+        ...form,
+        currentTools: tools.split("\n").map((line) => line.trim()).filter(Boolean),
+        painPoints: painPoints.split("\n").map((line) => line.trim()).filter(Boolean),
+      });
+      onOpenChange(false);
+    } catch {
+      // onSave reports the error; the dialog stays open so nothing typed is lost
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{persona ? `Edit ${persona.name}` : "Add Persona"}</DialogTitle>
+          <DialogDescription>
+            Panel answers are written in this persona's voice, from their situation and skepticism.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="persona-name">Name</Label>
+              <Input id="persona-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="persona-segment">Segment</Label>
+              <Input id="persona-segment" value={form.segment} onChange={(e) => setForm({ ...form, segment: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="persona-role">Role</Label>
+              <Input
+                id="persona-role"
+                placeholder="e.g., VP Finance, signs off on tooling"
+                value={form.role}
+                onChange={(e) => setForm({ ...form, role: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="persona-budget">Budget</Label>
+              <Input
+                id="persona-budget"
+                placeholder="e.g., $20k a year, needs CFO approval above that"
+                value={form.budget}
+                onChange={(e) => setForm({ ...form, budget: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Skepticism</Label>
+            <Select value={form.skepticism} onValueChange={(value) => setForm({ ...form, skepticism: value as SkepticismLevel })}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="low">Low - open to new tools</SelectItem>
+                <SelectItem value="medium">Medium - pragmatic</SelectItem>
+                <SelectItem value="high">High - needs convincing</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="persona-tools">Current tools (one per line)</Label>
+              <Textarea id="persona-tools" className="min-h-[100px]" value={tools} onChange={(e) => setTools(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="persona-pains">Pain points (one per line)</Label>
+              <Textarea id="persona-pains" className="min-h-[100px]" value={painPoints} onChange={(e) => setPainPoints(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="persona-description">Background</Label>
+            <Textarea
+              id="persona-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !form.name.trim() || !form.segment.trim()}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
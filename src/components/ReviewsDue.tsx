@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { getReviews } from "@/lib/api";
+import { useAppStore } from "@/lib/store";
+import { canEditEntities } from "@/lib/roles";
+import type { ReviewTask } from "@/lib/types";
+import { RefreshCw } from "lucide-react";
+
+interface ReviewsDueProps {
+  // Only list reviews past their due date (Overview) rather than every open one (Risk)
+  overdueOnly?: boolean;
+  className?: string;
+}
+
+// Open periodic review tasks; renders nothing when there are none
+export const ReviewsDue = ({ overdueOnly = false, className }: ReviewsDueProps) => {
+  const navigate = useNavigate();
+  const currentUser = useAppStore((state) => state.currentUser);
+  const [tasks, setTasks] = useState<ReviewTask[]>([]);
+  const today = new Date().toISOString().slice(0, 10);
+
+  useEffect(() => {
+    getReviews({ status: "open" })
+      .then(setTasks)
+      .catch((error) => console.error("Failed to load reviews:", error));
+  }, []);
+
+  const visible = overdueOnly ? tasks.filter((task) => task.dueDate < today) : tasks;
+  if (visible.length === 0) return null;
+
+  const canReassess = !!currentUser && canEditEntities(currentUser.role);
+  const overdueCount = tasks.filter((task) => task.dueDate < today).length;
+
+  return (
+    <Card className={`${overdueCount > 0 ? "border-destructive" : ""} ${className || ""}`}>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2">
+          <RefreshCw className="w-4 h-4" />
+          {overdueOnly ? "Overdue Reviews" : "Reviews Due"} ({visible.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {visible.map((task) => (
+          <div
+            key={task.id}
+            className="flex items-center justify-between text-sm cursor-pointer hover:bg-muted rounded-md px-2 py-1"
+            onClick={() => navigate(`/entities/${task.entityId}`)}
+          >
+            <span>
+              <span className="font-medium">{task.entityName}</span>
+              <span className="text-muted-foreground"> · {task.riskLevel} risk</span>
+            </span>
+            <span className="flex items-center gap-2 text-muted-foreground">
+              due {task.dueDate}
+              {task.dueDate < today && <Badge variant="destructive">Overdue</Badge>}
+              {canReassess && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    navigate(`/onboarding?reassess=${task.entityId}`);
+                  }}
+                >
+                  Re-assess
+                </Button>
+              )}
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/utils";
+import { getRiskPolicy, getRiskPolicyVersions, previewRiskPolicy, saveRiskPolicy } from "@/lib/api";
+import type { RiskPolicy, RiskPolicyChange, RiskPolicyDocument, SchemaViolation } from "@/lib/types";
+import { Loader2 } from "lucide-react";
+
+const toDocument = ({ weights, thresholds, requiredDocuments, piiRequiredDocuments, jurisdictions, reviewCadenceMonths }: RiskPolicy): RiskPolicyDocument => ({
+  weights,
+  thresholds,
+  requiredDocuments,
+  piiRequiredDocuments,
+  jurisdictions,
+  reviewCadenceMonths,
+});
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? "—" : Array.isArray(value) ? value.join(", ") || "(none)" : String(value);
+
+interface Preview {
+  violations: SchemaViolation[];
+  changes: RiskPolicyChange[];
+  policy: RiskPolicyDocument | null;
+}
+
+export const RiskPolicyEditor = () => {
+  const { toast } = useToast();
+  const [active, setActive] = useState<RiskPolicy | null>(null);
+  const [versions, setVersions] = useState<RiskPolicy[]>([]);
+  const [draft, setDraft] = useState("");
+  const [note, setNote] = useState("");
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [policy, history] = await Promise.all([getRiskPolicy(), getRiskPolicyVersions()]);
+      setActive(policy);
+      setVersions(history);
+      setDraft(JSON.stringify(toDocument(policy), null, 2));
+      setPreview(null);
+      setNote("");
+    } catch (error: unknown) {
+      toast({ title: "Failed to load risk policy", description: errorMessage(error), variant: "destructive" });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handlePreview = async () => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(draft);
+    } catch (error: unknown) {
+      setPreview({ violations: [{ path: "(root)", message: `Invalid JSON: ${errorMessage(error)}` }], changes: [], policy: null });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const result = await previewRiskPolicy(parsed);
+      setPreview({
+        violations: result.violations,
+        changes: result.changes,
+        policy: result.valid ? (parsed as RiskPolicyDocument) : null,
+      });
+    } catch (error: unknown) {
+      toast({ title: "Preview failed", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!active || !preview?.policy) return;
+    setBusy(true);
+    try {
+      const saved = await saveRiskPolicy(preview.policy, active.version, note.trim() || undefined);
+      toast({ title: "Risk policy saved", description: `Version ${saved.version} is now active` });
+      await load();
+    } catch (error: unknown) {
+      toast({ title: "Save failed", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Risk Policy
+          {active && <Badge variant="outline">v{active.version}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Factor weights, risk thresholds, required documents per entity type and jurisdiction tier, and
+          months between periodic reviews at each risk level.
+          Saving creates a new version; existing entities keep the version that scored them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setPreview(null);
+          }}
+          className="font-mono text-xs min-h-[320px]"
+          spellCheck={false}
+        />
+
+        <div className="space-y-2">
+          <Label htmlFor="policy-note">Change note</Label>
+          <Input
+            id="policy-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Why is this policy changing?"
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handlePreview} disabled={busy || !active}>
+            {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Preview Changes
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={busy || !preview?.policy || preview.changes.length === 0}
+          >
+            Save as v{(active?.version || 0) + 1}
+          </Button>
+          <Button variant="ghost" onClick={load} disabled={busy}>
+            Discard
+          </Button>
+        </div>
+
+        {preview && preview.violations.length > 0 && (
+          <div className="rounded-md border border-destructive p-3 text-sm space-y-1">
+            <p className="font-medium text-destructive">Policy is invalid</p>
+            {preview.violations.map((violation, i) => (
+              <p key={i} className="font-mono text-xs">
+                {violation.path}: {violation.message}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {preview?.policy && (
+          <div className="rounded-md border p-3 text-sm space-y-1">
+            <p className="font-medium">
+              {preview.changes.length === 0 ? "No changes from the active policy" : `${preview.changes.length} change(s)`}
+            </p>
+            {preview.changes.map((change) => (
+              <div key={change.path} className="font-mono text-xs">
+                <span className="font-semibold">{change.path}</span>
+                <div className="text-destructive">- {formatValue(change.before)}</div>
+                <div className="text-accent">+ {formatValue(change.after)}</div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {versions.length > 0 && (
+          <div className="pt-4 border-t border-border space-y-2">
+            <p className="text-sm font-medium">History</p>
+            {versions.map((version) => (
+              <div key={version.id} className="flex items-center justify-between text-xs">
+                <span>
+                  <span className="font-medium">v{version.version}</span>
+                  {version.note && <span className="text-muted-foreground"> — {version.note}</span>}
+                </span>
+                <span className="text-muted-foreground">
+                  {version.createdBy} · {new Date(version.createdAt).toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { compareStrategyBriefs } from "@/lib/api";
+import { errorMessage } from "@/lib/utils";
+import type { StrategyBriefComparison, StrategyBriefVersion } from "@/lib/types";
+import { GitCompare, History, Loader2, Star } from "lucide-react";
+
+interface StrategyVersionsProps {
+  projectId: string;
+  // Newest first
+  versions: StrategyBriefVersion[];
+  selectedVersion: number | null;
+  canonicalVersion: number | null;
+  onSelect: (version: StrategyBriefVersion) => void;
+  onMarkCanonical: (version: StrategyBriefVersion) => void;
+}
+
+// Every Strategy Agent run saved for the project, with a section-by-section comparison of any two
+export const StrategyVersions = ({
+  projectId,
+  versions,
+  selectedVersion,
+  canonicalVersion,
+  onSelect,
+  onMarkCanonical,
+}: StrategyVersionsProps) => {
+  const { toast } = useToast();
+  const [compareFrom, setCompareFrom] = useState<string>("");
+  const [compareTo, setCompareTo] = useState<string>("");
+  const [comparison, setComparison] = useState<StrategyBriefComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  if (versions.length === 0) return null;
+
+  // Defaults to the two newest runs, oldest on the left
+  const from = compareFrom || String(versions[1]?.version ?? "");
+  const to = compareTo || String(versions[0].version);
+
+  const handleCompare = async () => {
+    setComparing(true);
+    try {
+      setComparison(await compareStrategyBriefs(projectId, Number(from), Number(to)));
+    } catch (error: unknown) {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const versionPicker = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[110px]">
+        <SelectValue placeholder="Version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.id} value={String(version.version)}>
+            v{version.version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Brief Versions
+        </CardTitle>
+        <CardDescription>
+          Each generation is kept with its inputs. Open any version, compare two, or mark the one the team works from as canonical.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {versions.map((version) => (
+            <div
+              key={version.id}
+              className={`flex items-center justify-between gap-3 rounded-lg border p-3 ${version.version === selectedVersion ? "border-primary bg-primary/5" : ""}`}
+            >
+              <div className="space-y-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">v{version.version}</span>
+                  {version.version === canonicalVersion && (
+                    <Badge className="gap-1">
+                      <Star className="w-3 h-3" />
+                      Canonical
+                    </Badge>
+                  )}
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(version.createdAt).toLocaleString()} · {version.provider}/{version.model} · {version.createdBy}
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground truncate">
+                  {[version.input.market, version.input.segment].filter(Boolean).join(" · ") || "No market or segment"}
+                  {version.input.goals.length > 0 && ` · Goals: ${version.input.goals.join(", ")}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onSelect(version)}
+                  disabled={version.version === selectedVersion}
+                >
+                  {version.version === selectedVersion ? "Showing" : "Open"}
+                </Button>
+                {version.version !== canonicalVersion && (
+                  <Button variant="ghost" size="sm" onClick={() => onMarkCanonical(version)}>
+                    Mark canonical
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {versions.length > 1 && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm">Compare</span>
+            {versionPicker(from, setCompareFrom)}
+            <span className="text-sm">with</span>
+            {versionPicker(to, setCompareTo)}
+            <Button size="sm" onClick={handleCompare} disabled={comparing || from === to}>
+              {comparing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <GitCompare className="w-4 h-4 mr-2" />}
+              Compare
+            </Button>
+          </div>
+        )}
+
+        {comparison && (
+          <div className="space-y-4">
+            {comparison.sections.map((section) => (
+              <div key={section.section} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <h4 className="font-semibold">{section.label}</h4>
+                  <Badge variant={section.changed ? "default" : "secondary"}>
+                    {section.changed ? `+${section.added.length} / −${section.removed.length}` : "Unchanged"}
+                  </Badge>
+                </div>
+                <div className="grid md:grid-cols-2 gap-3">
+                  {[
+                    { version: comparison.from, lines: section.before, marked: section.removed, tone: "bg-red-50 dark:bg-red-950/40 line-through" },
+                    { version: comparison.to, lines: section.after, marked: section.added, tone: "bg-green-50 dark:bg-green-950/40" },
+                  ].map((side) => (
+                    <div key={side.version} className="rounded-lg border">
+                      <div className="border-b px-3 py-1 text-xs font-medium text-muted-foreground">v{side.version}</div>
+                      <ScrollArea className="max-h-64">
+                        <div className="p-3 space-y-1 text-sm">
+                          {side.lines.length === 0 ? (
+                            <p className="text-muted-foreground">(empty)</p>
+                          ) : (
+                            side.lines.map((line, index) => (
+                              <p key={index} className={`rounded px-1 ${side.marked.includes(line) ? side.tone : ""}`}>
+                                {line}
+                              </p>
+                            ))
+                          )}
+                        </div>
+                      </ScrollArea>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,6 +1,11 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Sparkles } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { LogOut, Plus } from "lucide-react";
 import { useAppStore } from "@/lib/store";
+import { getProjects, logout } from "@/lib/api";
+import { roleLabels } from "@/lib/roles";
 import {
   Select,
   SelectContent,
@@ -10,12 +15,37 @@ import {
 } from "@/components/ui/select";
 
 export const TopBar = () => {
+  const navigate = useNavigate();
   const { 
-    currentProject, 
+    currentProjectId, 
     projects, 
-    setCurrentProject
+    setProjects,
+    setCurrentProjectId,
+    currentUser,
+    setCurrentUser
   } = useAppStore();
 
+  useEffect(() => {
+    if (!currentUser) return;
+    getProjects()
+      .then(setProjects)
+      .catch(() => setProjects([]));
+  }, [currentUser, setProjects]);
+
+  // The Workbench follows the selected project; with none selected it starts a new one
+  const openProject = (id: string | null) => {
+    setCurrentProjectId(id);
+    navigate("/workbench");
+  };
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } finally {
+      setCurrentUser(null);
+    }
+  };
+
   return (
     <header className="h-14 border-b border-border bg-surface-1 flex items-center justify-between px-6">
       <div className="flex items-center gap-4">
@@ -30,11 +60,8 @@ export const TopBar = () => {
 
         {projects.length > 0 && (
           <Select
-            value={currentProject?.id}
-            onValueChange={(id) => {
-              const project = projects.find(p => p.id === id);
-              setCurrentProject(project || null);
-            }}
+            value={currentProjectId ?? ""}
+            onValueChange={(id) => openProject(id)}
           >
             <SelectTrigger className="w-[200px]">
               <SelectValue placeholder="Select project" />
@@ -48,8 +75,24 @@ export const TopBar = () => {
             </SelectContent>
           </Select>
         )}
+        {currentUser && (
+          <Button variant="ghost" size="sm" onClick={() => openProject(null)}>
+            <Plus className="w-4 h-4 mr-1" />
+            New project
+          </Button>
+        )}
       </div>
 
+      {currentUser && (
+        <div className="flex items-center gap-3">
+          <span className="text-sm font-medium">{currentUser.displayName}</span>
+          <Badge variant="outline">{roleLabels[currentUser.role]}</Badge>
+          <Button variant="ghost" size="sm" onClick={handleLogout}>
+            <LogOut className="w-4 h-4 mr-1" />
+            Sign out
+          </Button>
+        </div>
+      )}
     </header>
   );
 };
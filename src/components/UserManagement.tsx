@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { createUser, listUsers, updateUser } from "@/lib/api";
+import { roleLabels } from "@/lib/roles";
+import { useAppStore } from "@/lib/store";
+import { errorMessage } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import type { Role, User } from "@/lib/types";
+import { UserPlus } from "lucide-react";
+
+const roles = Object.keys(roleLabels) as Role[];
+
+export const UserManagement = () => {
+  const { toast } = useToast();
+  const currentUser = useAppStore((state) => state.currentUser);
+  const [users, setUsers] = useState<User[]>([]);
+  const [form, setForm] = useState({ username: "", displayName: "", role: "analyst" as Role, password: "" });
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setUsers(await listUsers());
+    } catch (error: unknown) {
+      toast({ title: "Failed to load users", description: errorMessage(error), variant: "destructive" });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const user = await createUser({
+        username: form.username,
+        displayName: form.displayName || undefined,
+        role: form.role,
+        password: form.password,
+      });
+      toast({ title: "User created", description: `${user.username} can now sign in` });
+      setForm({ username: "", displayName: "", role: "analyst", password: "" });
+      await load();
+    } catch (error: unknown) {
+      toast({ title: "Could not create user", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRoleChange = async (user: User, role: Role) => {
+    try {
+      await updateUser(user.id, { role });
+      toast({ title: "Role updated", description: `${user.username} is now ${roleLabels[role]}` });
+      await load();
+    } catch (error: unknown) {
+      toast({ title: "Could not change role", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const handleResetPassword = async (user: User) => {
+    const password = window.prompt(`New password for ${user.username} (at least 8 characters)`);
+    if (!password) return;
+    try {
+      await updateUser(user.id, { password });
+      toast({ title: "Password reset", description: `${user.username} can sign in with the new password` });
+    } catch (error: unknown) {
+      toast({ title: "Could not reset password", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Users & Roles</CardTitle>
+        <CardDescription>
+          Analysts onboard entities, managers and the risk committee decide their approval queues, admins manage
+          policy and users. SSO users get their role from the identity provider when it sends one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Sign-in</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => (
+                <TableRow key={user.id}>
+                  <TableCell>
+                    <div className="font-medium">{user.displayName}</div>
+                    <div className="text-xs text-muted-foreground">{user.username}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{user.authProvider === "oidc" ? "SSO" : "Password"}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Select value={user.role} onValueChange={(val: Role) => handleRoleChange(user, val)}>
+                      <SelectTrigger className="w-[160px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roles.map((role) => (
+                          <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    {user.authProvider === "local" && (
+                      <Button size="sm" variant="outline" onClick={() => handleResetPassword(user)}>
+                        Reset password
+                      </Button>
+                    )}
+                    {user.id === currentUser?.id && (
+                      <span className="ml-2 text-xs text-muted-foreground">(you)</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="space-y-3 pt-4 border-t border-border">
+          <p className="text-sm font-medium">Add user</p>
+          <div className="grid md:grid-cols-4 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="new-username">Username</Label>
+              <Input
+                id="new-username"
+                value={form.username}
+                onChange={(e) => setForm({ ...form, username: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="new-display-name">Display name</Label>
+              <Input
+                id="new-display-name"
+                value={form.displayName}
+                onChange={(e) => setForm({ ...form, displayName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Role</Label>
+              <Select value={form.role} onValueChange={(val: Role) => setForm({ ...form, role: val })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map((role) => (
+                    <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="new-password">Initial password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+              />
+            </div>
+          </div>
+          <Button onClick={handleCreate} disabled={saving || !form.username.trim() || form.password.length < 8}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            Add User
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,13 @@
+import { useCallback, useState } from "react";
+
+// The list endpoints only hand out a cursor for the next page, so the cursors of the pages
+// already visited are kept to step back through them
+export function useCursorPagination() {
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+
+  const next = useCallback((cursor: string) => setCursors((prev) => [...prev, cursor]), []);
+  const previous = useCallback(() => setCursors((prev) => (prev.length > 1 ? prev.slice(0, -1) : prev)), []);
+  const reset = useCallback(() => setCursors([undefined]), []);
+
+  return { cursor: cursors[cursors.length - 1], pageIndex: cursors.length - 1, next, previous, reset };
+}
@@ -1,17 +1,63 @@
 // Typed API client for Syntria
+import { useAppStore } from './store';
+import type {
+  AgentResponse,
+  ApprovalQueue,
+  AuditEvent,
+  AuditVerification,
+  ChatMessage,
+  CustomerInsight,
+  DocumentType,
+  DuplicateMatch,
+  Entity,
+  EntityDocument,
+  EntityVersion,
+  ExportFormat,
+  ImportMapping,
+  ImportPreview,
+  ImportResult,
+  InsightSynthesis,
+  MergeResult,
+  Page,
+  PanelRound,
+  Persona,
+  PersonaInput,
+  Project,
+  ProjectSummary,
+  RiskAssessment,
+  Role,
+  RiskPolicy,
+  RiskPolicyChange,
+  RenewalItem,
+  ReviewTask,
+  RiskPolicyDocument,
+  SchemaViolation,
+  StrategyBrief,
+  StrategyBriefComparison,
+  StrategyBriefVersion,
+  StrategyInput,
+  User,
+} from './types';
 
 const API_BASE = '/api';
 
-async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<T> {
+async function request(endpoint: string, options?: RequestInit): Promise<Response> {
+  const { aiProvider } = useAppStore.getState();
   const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
     headers: {
       'Content-Type': 'application/json',
+      // The server routes every agent call through the selected provider, or its LLM_PROVIDER when none is picked
+      ...(aiProvider ? { 'X-AI-Provider': aiProvider } : {}),
       ...options?.headers,
     },
-    ...options,
   });
 
   if (!response.ok) {
+    // Session expired or was revoked: drop back to the login screen
+    if (response.status === 401 && endpoint !== '/auth/me') {
+      useAppStore.getState().setCurrentUser(null);
+    }
     const errorText = await response.text();
     console.error('API Error:', response.status, errorText);
     let errorMessage = 'API request failed';
@@ -23,31 +69,199 @@ async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<T> {
     }
     throw new Error(errorMessage);
   }
+  return response;
+}
 
+async function apiCall<T>(endpoint: string, options?: RequestInit): Promise<T> {
+  const response = await request(endpoint, options);
+
+  // No Content (deletes)
+  if (response.status === 204) {
+    return undefined as T;
+  }
   return response.json();
 }
 
 // Health check
 export const checkHealth = () => 
-  apiCall<{ ok: boolean; provider: string; hasKey: boolean }>('/health');
+  apiCall<{
+    ok: boolean;
+    provider: string;
+    model: string;
+    hasKey: boolean;
+    providers: Array<{ provider: string; model: string; configured: boolean }>;
+  }>('/health');
+
+// Auth
+export const getAuthConfig = () =>
+  apiCall<{ oidc: { name: string } | null }>('/auth/config');
+
+export const login = (username: string, password: string) =>
+  apiCall<User>('/auth/login', { method: 'POST', body: JSON.stringify({ username, password }) });
+
+export const logout = () =>
+  apiCall<{ success: boolean }>('/auth/logout', { method: 'POST' });
+
+export const getCurrentUser = () =>
+  apiCall<User>('/auth/me');
+
+// User management (admin)
+export const listUsers = () =>
+  apiCall<User[]>('/users');
+
+export const createUser = (input: { username: string; displayName?: string; role: Role; password: string }) =>
+  apiCall<User>('/users', { method: 'POST', body: JSON.stringify(input) });
+
+export const updateUser = (id: string, updates: { displayName?: string; role?: Role; password?: string }) =>
+  apiCall<User>(`/users/${id}`, { method: 'PUT', body: JSON.stringify(updates) });
+
+// Workbench projects
+export const getProjects = (includeArchived = false) =>
+  apiCall<ProjectSummary[]>(`/projects${includeArchived ? '?archived=true' : ''}`);
+
+export const getProject = (id: string) =>
+  apiCall<Project>(`/projects/${id}`);
+
+export const createProject = (name: string) =>
+  apiCall<Project>('/projects', { method: 'POST', body: JSON.stringify({ name }) });
+
+export const updateProject = (id: string, updates: {
+  name?: string;
+  archived?: boolean;
+  customerMessages?: ChatMessage[];
+  voiceMessages?: ChatMessage[];
+  panelRounds?: [];
+}) =>
+  apiCall<Project>(`/projects/${id}`, { method: 'PUT', body: JSON.stringify(updates) });
+
+export const getStrategyBriefs = (projectId: string) =>
+  apiCall<StrategyBriefVersion[]>(`/projects/${projectId}/strategy-briefs`);
 
-// PM Agents
-export const runStrategyAgent = (input: any) => 
-  apiCall<any>('/pm/strategy', { method: 'POST', body: JSON.stringify(input) });
+export const compareStrategyBriefs = (projectId: string, from: number, to: number) =>
+  apiCall<StrategyBriefComparison>(`/projects/${projectId}/strategy-briefs/compare?${toQueryString({ from, to })}`);
+
+export const markCanonicalBrief = (projectId: string, version: number) =>
+  apiCall<Project>(`/projects/${projectId}/strategy-briefs/${version}/canonical`, { method: 'POST' });
+
+export const getPersonas = (projectId: string) =>
+  apiCall<Persona[]>(`/projects/${projectId}/personas`);
+
+export const createPersona = (projectId: string, persona: Partial<PersonaInput> & Pick<PersonaInput, 'name' | 'segment'>) =>
+  apiCall<Persona>(`/projects/${projectId}/personas`, { method: 'POST', body: JSON.stringify(persona) });
+
+export const updatePersona = (projectId: string, id: string, updates: Partial<PersonaInput>) =>
+  apiCall<Persona>(`/projects/${projectId}/personas/${id}`, { method: 'PUT', body: JSON.stringify(updates) });
+
+export const deletePersona = (projectId: string, id: string) =>
+  apiCall<void>(`/projects/${projectId}/personas/${id}`, { method: 'DELETE' });
+
+// From the given brief version, or the canonical (else latest) one
+export const seedPersonas = (projectId: string, version?: number) =>
+  apiCall<{ created: Persona[]; personas: Persona[] }>(`/projects/${projectId}/personas/seed`, { method: 'POST', body: JSON.stringify({ version }) });
+
+export const getInsights = (projectId: string) =>
+  apiCall<CustomerInsight[]>(`/projects/${projectId}/insights`);
+
+// Reads the customer chat added since the last synthesis
+export const synthesizeInsights = (projectId: string) =>
+  apiCall<AgentResponse<InsightSynthesis> & { data: InsightSynthesis }>(`/projects/${projectId}/insights/synthesize`, { method: 'POST' });
+
+// One row per quote, as a file download
+export const insightExportUrl = (projectId: string, format: ExportFormat) =>
+  `${API_BASE}/projects/${projectId}/insights/export?format=${format}`;
+
+export const projectAudioUrl = (project: Project) =>
+  `${API_BASE}/projects/${project.id}/audio-summary?v=${project.audioSummary?.sha256 || ''}`;
+
+// PM Agents; with a projectId the server also saves the result into that project
+export const runStrategyAgent = (input: StrategyInput & { projectId?: string }) =>
+  apiCall<AgentResponse<StrategyBrief> & { briefVersion: StrategyBriefVersion | null }>('/pm/strategy', { method: 'POST', body: JSON.stringify(input) });
 
 export const runCustomerAdvisoryAgent = (input: {
   message: string;
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>;
   customerSegment?: string;
   market?: string;
+  projectId?: string;
 }) => 
   apiCall<{ success: boolean; data: { message: string } }>('/pm/customer-advisory', { method: 'POST', body: JSON.stringify(input) });
 
+// Without personaIds the panel is the project's first six personas
+export const runCustomerPanel = (input: { question: string; projectId: string; personaIds?: string[]; market?: string }) =>
+  apiCall<AgentResponse<PanelRound> & { data: PanelRound }>('/pm/customer-panel', { method: 'POST', body: JSON.stringify(input) });
+
+// Progress events the agent endpoints send before `done`: brief sections as the draft completes them, reply tokens
+type AgentEvent =
+  | { event: 'section'; data: { field: keyof StrategyBrief; value: unknown } }
+  | { event: 'token'; data: { text: string } };
+
+// Streamed agent call (server/eventStream.ts): progress events go to onEvent and the `done` body is returned.
+// Aborting `signal` closes the connection, which also cancels the model call on the server.
+async function streamAgent<T>(
+  endpoint: string,
+  body: unknown,
+  onEvent: (message: AgentEvent) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await request(endpoint, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { Accept: 'text/event-stream' },
+    signal,
+  });
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffered += value;
+    const frames = buffered.split('\n\n');
+    buffered = frames.pop() || '';
+    for (const frame of frames) {
+      const event = frame.match(/^event: (.*)$/m)?.[1];
+      const data = frame.match(/^data: (.*)$/m)?.[1];
+      // Comment-only frames are keep-alives
+      if (!event || data === undefined) continue;
+      const parsed = JSON.parse(data);
+      if (event === 'done') return parsed;
+      if (event === 'error') throw new Error(parsed.error);
+      onEvent({ event, data: parsed } as AgentEvent);
+    }
+  }
+  throw new Error('The connection closed before the agent finished');
+}
+
+// Each brief field is passed on as the draft completes it; the result is the validated brief
+export const streamStrategyAgent = (
+  input: StrategyInput & { projectId?: string },
+  onSection: (field: keyof StrategyBrief, value: unknown) => void,
+  signal?: AbortSignal
+) =>
+  streamAgent<AgentResponse<StrategyBrief> & { briefVersion: StrategyBriefVersion | null }>(
+    '/pm/strategy',
+    input,
+    (message) => message.event === 'section' && onSection(message.data.field, message.data.value),
+    signal
+  );
+
+export const streamCustomerAdvisoryAgent = (
+  input: Parameters<typeof runCustomerAdvisoryAgent>[0],
+  onToken: (text: string) => void,
+  signal?: AbortSignal
+) =>
+  streamAgent<{ success: boolean; data: { message: string } }>(
+    '/pm/customer-advisory',
+    input,
+    (message) => message.event === 'token' && onToken(message.data.text),
+    signal
+  );
+
 // Automation
 export const syncCalendar = (input: { 
   strategyData: any; 
   customerMessages: Array<{ role: 'user' | 'assistant'; content: string }>;
   sessionId?: string;
+  projectId?: string;
 }) => 
   apiCall<{ 
     success: boolean;
@@ -71,6 +285,7 @@ export const generateAudioSummary = (input: {
   strategyData?: any;
   customerMessages?: Array<{ role: 'user' | 'assistant'; content: string }>;
   automationPlan?: any[];
+  projectId?: string;
 }) => 
   apiCall<{
     success: boolean;
@@ -90,6 +305,7 @@ export const askVoiceAssistant = (input: {
   automationPlan?: any[];
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>;
   sessionId?: string;
+  projectId?: string;
 }) => 
   apiCall<{
     success: boolean;
@@ -100,6 +316,19 @@ export const askVoiceAssistant = (input: {
     };
   }>('/pm/voice-assistant', { method: 'POST', body: JSON.stringify(input) });
 
+// The answer text arrives token by token; the result adds the spoken audio
+export const streamVoiceAssistant = (
+  input: Parameters<typeof askVoiceAssistant>[0],
+  onToken: (text: string) => void,
+  signal?: AbortSignal
+) =>
+  streamAgent<Awaited<ReturnType<typeof askVoiceAssistant>>>(
+    '/pm/voice-assistant',
+    input,
+    (message) => message.event === 'token' && onToken(message.data.text),
+    signal
+  );
+
 // Fetch calendar events
 export const fetchCalendarEvents = (sessionId: string, timeMin?: string, timeMax?: string) => 
   apiCall<{
@@ -132,28 +361,172 @@ export const syncToNotion = (content: any) =>
   apiCall<any>('/pm/automation/notion', { method: 'POST', body: JSON.stringify(content) });
 
 // Risk scoring
-export const calculateRiskScore = (data: any) => 
-  apiCall<{ riskLevel: string; reasons: string[]; score: number }>('/risk-score', {
+export const calculateRiskScore = (data: any) =>
+  apiCall<RiskAssessment>('/risk-score', {
     method: 'POST',
     body: JSON.stringify(data),
   });
 
+// Risk policy
+export const getRiskPolicy = () =>
+  apiCall<RiskPolicy>('/risk-policy');
+
+export const getRiskPolicyVersions = () =>
+  apiCall<RiskPolicy[]>('/risk-policy/versions');
+
+export const previewRiskPolicy = (policy: unknown) =>
+  apiCall<{ valid: boolean; violations: SchemaViolation[]; changes: RiskPolicyChange[]; baseVersion: number }>(
+    '/risk-policy/preview',
+    { method: 'POST', body: JSON.stringify({ policy }) }
+  );
+
+export const saveRiskPolicy = (policy: RiskPolicyDocument, baseVersion: number, note?: string) =>
+  apiCall<RiskPolicy>('/risk-policy', { method: 'POST', body: JSON.stringify({ policy, baseVersion, note }) });
+
 // Entities
-export const getEntities = () => 
-  apiCall<any[]>('/entities');
+// Drops unset parameters so the server applies its defaults
+const toQueryString = (params: object) => {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== '') {
+      query.set(key, String(value));
+    }
+  }
+  return query.toString();
+};
+
+// Follows nextCursor to the end, for views that need the whole set (reports, CSV export)
+async function fetchAllPages<T>(fetchPage: (cursor?: string) => Promise<Page<T>>): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetchPage(cursor);
+    items.push(...page.items);
+    cursor = page.nextCursor || undefined;
+  } while (cursor);
+  return items;
+}
+
+export interface ListParams {
+  cursor?: string;
+  limit?: number;
+  sort?: string;
+  order?: 'asc' | 'desc';
+  q?: string;
+}
+
+// riskLevel, type and status take a comma-separated list
+export interface EntityListParams extends ListParams {
+  riskLevel?: string;
+  type?: string;
+  status?: string;
+  escalatedSince?: string;
+}
+
+export interface AuditListParams extends ListParams {
+  action?: string;
+  entityId?: string;
+  user?: string;
+  from?: string;
+  to?: string;
+}
+
+export const getEntities = (params: EntityListParams = {}) =>
+  apiCall<Page<Entity>>(`/entities?${toQueryString(params)}`);
+
+export const getAllEntities = (params: EntityListParams = {}) =>
+  fetchAllPages((cursor) => getEntities({ ...params, cursor, limit: 200 }));
+
+// Every entity matching the filters as a file download
+export const entityExportUrl = (format: ExportFormat, params: EntityListParams = {}) =>
+  `${API_BASE}/entities/export?${toQueryString({ ...params, format })}`;
 
 export const getEntity = (id: string) =>
   apiCall<any>(`/entities/${id}`);
 
+// The server scores the submission (files included) and routes it for approval on that score
 export const createEntity = (entity: any) =>
-  apiCall<any>('/entities', { method: 'POST', body: JSON.stringify(entity) });
+  apiCall<{ entity: Entity; assessment: RiskAssessment }>('/entities', { method: 'POST', body: JSON.stringify(entity) });
+
+// Entities that may be the same company; `excludeId` leaves out the entity being checked
+export const findDuplicates = (params: { name?: string; ein?: string; contactEmail?: string; excludeId?: string }) =>
+  apiCall<DuplicateMatch[]>(`/entities/duplicates?${toQueryString(params)}`);
+
+// Folds the duplicate `sourceId` into entity `id`
+export const mergeEntity = (id: string, sourceId: string, reason: string) =>
+  apiCall<MergeResult>(`/entities/${id}/merge`, { method: 'POST', body: JSON.stringify({ sourceId, reason }) });
+
+export const getEntityHistory = (id: string) =>
+  apiCall<EntityVersion[]>(`/entities/${id}/history`);
+
+// Document vault
+export const getEntityDocuments = (id: string) =>
+  apiCall<EntityDocument[]>(`/entities/${id}/documents`);
+
+export const uploadEntityDocument = (id: string, upload: {
+  type: DocumentType;
+  fileName: string;
+  mimeType: string;
+  base64: string;
+  effectiveDate?: string;
+  expiryDate?: string;
+}) =>
+  apiCall<EntityDocument>(`/entities/${id}/documents`, { method: 'POST', body: JSON.stringify(upload) });
+
+// Plain link target - the session cookie authorizes the download
+export const documentDownloadUrl = (docId: string) => `${API_BASE}/documents/${docId}/download`;
+
+// Renewals
+export const getRenewals = () =>
+  apiCall<RenewalItem[]>('/renewals');
+
+// Periodic reviews
+export const getReviews = (params: { status?: ReviewTask['status']; entityId?: string } = {}) =>
+  apiCall<ReviewTask[]>(`/reviews?${new URLSearchParams(params as Record<string, string>)}`);
+
+// Resubmit the onboarding form for a live entity; completes its open review task
+export const reassessEntity = (id: string, data: Record<string, unknown>) =>
+  apiCall<{ entity: Entity; assessment: RiskAssessment; task: ReviewTask | null }>(`/entities/${id}/reassess`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
 
 export const updateEntity = (id: string, entity: any) =>
   apiCall<any>(`/entities/${id}`, { method: 'PUT', body: JSON.stringify(entity) });
 
+// Bulk import from a CSV/XLSX register; without a mapping the server matches columns by header
+export interface ImportUploadData {
+  fileName: string;
+  base64: string;
+  mapping?: ImportMapping;
+}
+
+export const previewImport = (data: ImportUploadData) =>
+  apiCall<ImportPreview>('/entities/import/preview', { method: 'POST', body: JSON.stringify(data) });
+
+export const importEntities = (data: ImportUploadData) =>
+  apiCall<ImportResult>('/entities/import', { method: 'POST', body: JSON.stringify(data) });
+
+// Approvals
+export const getApprovals = (queue?: ApprovalQueue) =>
+  apiCall<Entity[]>(`/approvals${queue ? `?queue=${queue}` : ''}`);
+
+export const approveEntity = (id: string, comment: string) =>
+  apiCall<Entity>(`/entities/${id}/approve`, { method: 'POST', body: JSON.stringify({ comment }) });
+
+export const rejectEntity = (id: string, comment: string) =>
+  apiCall<Entity>(`/entities/${id}/reject`, { method: 'POST', body: JSON.stringify({ comment }) });
+
 // Audit
-export const getAuditEvents = () => 
-  apiCall<any[]>('/audit');
+export const getAuditEvents = (params: AuditListParams = {}) =>
+  apiCall<Page<AuditEvent>>(`/audit?${toQueryString(params)}`);
+
+export const getAllAuditEvents = (params: AuditListParams = {}) =>
+  fetchAllPages((cursor) => getAuditEvents({ ...params, cursor, limit: 200 }));
+
+// Every event matching the filters as a file download
+export const auditExportUrl = (format: ExportFormat, params: AuditListParams = {}) =>
+  `${API_BASE}/audit/export?${toQueryString({ ...params, format })}`;
 
-export const createAuditEvent = (event: any) => 
-  apiCall<any>('/audit', { method: 'POST', body: JSON.stringify(event) });
+export const verifyAuditLog = () =>
+  apiCall<AuditVerification>('/audit/verify');
@@ -0,0 +1,51 @@
+import type { DocumentType, DuplicateMatch, DuplicateReason, SecurityControls } from './types';
+
+// Risk inputs and evidence documents, shared by onboarding and the entity detail page
+
+export const DOCUMENT_OPTIONS = ['W9', 'SOC2', 'Insurance', 'MSA', 'DPA'] as const;
+
+export const CONTROL_OPTIONS: Array<{ key: keyof SecurityControls; label: string }> = [
+  { key: 'iam', label: 'Identity & Access Management (IAM)' },
+  { key: 'encryption', label: 'Encryption at rest and in transit' },
+  { key: 'logging', label: 'Logging & Monitoring' },
+  { key: 'network', label: 'Network Security' },
+];
+
+export const DOCUMENT_TYPES: DocumentType[] = [...DOCUMENT_OPTIONS, 'Other'];
+
+// Best guess at a file's document type from its name, e.g. "acme-soc2-2025.pdf" -> SOC2
+export const guessDocumentType = (fileName: string): DocumentType => {
+  const name = fileName.toLowerCase();
+  if (/w-?9/.test(name)) return 'W9';
+  if (/soc\s*-?2/.test(name)) return 'SOC2';
+  if (/insur|\bcoi\b/.test(name)) return 'Insurance';
+  if (/\bmsa\b|master.?services/.test(name)) return 'MSA';
+  if (/\bdpa\b|data.?processing/.test(name)) return 'DPA';
+  return 'Other';
+};
+
+export const readFileAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    // Strip the "data:<mime>;base64," prefix
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  ein: 'same EIN',
+  email: 'same contact email',
+  email_domain: 'same email domain',
+  name: 'similar name',
+};
+
+// Why an entity looks like a duplicate, e.g. "same EIN, similar name (92%)"
+export const describeDuplicate = (match: DuplicateMatch) =>
+  match.reasons
+    .map((reason) =>
+      reason === 'name'
+        ? `${DUPLICATE_REASON_LABELS.name} (${Math.round(match.nameSimilarity * 100)}%)`
+        : DUPLICATE_REASON_LABELS[reason]
+    )
+    .join(', ');
@@ -0,0 +1,38 @@
+import type { ApprovalQueue, Role } from './types';
+
+// Client-side view of the server's role checks. The server is authoritative;
+// this only decides which pages are offered to the signed-in user.
+
+export const roleLabels: Record<Role, string> = {
+  analyst: 'Analyst',
+  manager: 'Manager',
+  risk_committee: 'Risk Committee',
+  admin: 'Admin',
+};
+
+// Pages limited to certain roles; anything not listed is open to every signed-in user
+const pageRoles: Record<string, Role[]> = {
+  '/onboarding': ['analyst', 'manager', 'admin'],
+  '/import': ['analyst', 'manager', 'admin'],
+  '/decommission': ['analyst', 'manager', 'admin'],
+  '/audit': ['manager', 'risk_committee', 'admin'],
+  '/admin': ['admin'],
+};
+
+// Roles that may create and edit entities (POST/PUT /api/entities)
+export const canEditEntities = (role: Role) => role !== 'risk_committee';
+
+// Roles that may merge duplicates (POST /api/entities/:id/merge)
+export const canMergeEntities = (role: Role) => role === 'manager' || role === 'admin';
+
+export const canAccess = (role: Role, path: string) =>
+  !pageRoles[path] || pageRoles[path].includes(role);
+
+// Mirrors QUEUE_ROLES in server/approvals.ts
+const queueRoles: Record<ApprovalQueue, Role[]> = {
+  manager: ['manager', 'admin'],
+  risk_committee: ['risk_committee', 'admin'],
+};
+
+export const queuesForRole = (role: Role) =>
+  (Object.keys(queueRoles) as ApprovalQueue[]).filter((queue) => queueRoles[queue].includes(role));
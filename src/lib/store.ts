@@ -1,18 +1,34 @@
 import { create } from 'zustand';
-import { AIProvider, ProjectContext, Entity, AuditEvent } from './types';
+import { AIProvider, ProjectSummary, Entity, AuditEvent, User } from './types';
+
+// The selected Workbench project survives a reload; the project itself lives on the server
+const CURRENT_PROJECT_KEY = 'syntria_current_project';
+// Likewise the AI provider picked on the Admin page; without one the server's LLM_PROVIDER applies
+const AI_PROVIDER_KEY = 'syntria_ai_provider';
+const AI_PROVIDERS: AIProvider[] = ['gemini', 'openai', 'local', 'mock'];
+
+const savedProvider = (): AIProvider | null => {
+  const saved = localStorage.getItem(AI_PROVIDER_KEY);
+  return AI_PROVIDERS.find(provider => provider === saved) || null;
+};
 
 interface AppState {
-  // AI Settings
-  aiProvider: AIProvider;
-  setAIProvider: (provider: AIProvider) => void;
+  // Signed-in user (null until /auth/me resolves or after logout)
+  currentUser: User | null;
+  setCurrentUser: (user: User | null) => void;
+
+  // AI Settings (null: the server's default provider)
+  aiProvider: AIProvider | null;
+  setAIProvider: (provider: AIProvider | null) => void;
   
-  // Current Project
-  currentProject: ProjectContext | null;
-  setCurrentProject: (project: ProjectContext | null) => void;
+  // Current Workbench project
+  currentProjectId: string | null;
+  setCurrentProjectId: (id: string | null) => void;
   
-  // Projects
-  projects: ProjectContext[];
-  addProject: (project: ProjectContext) => void;
+  // Active Workbench projects, most recently worked on first
+  projects: ProjectSummary[];
+  setProjects: (projects: ProjectSummary[]) => void;
+  upsertProject: (project: ProjectSummary) => void;
   
   // Entities (for onboarding/risk)
   entities: Entity[];
@@ -25,17 +41,39 @@ interface AppState {
 }
 
 export const useAppStore = create<AppState>((set) => ({
+  // Session
+  currentUser: null,
+  setCurrentUser: (user) => set({ currentUser: user }),
+
   // AI Settings
-  aiProvider: 'gemini',
-  setAIProvider: (provider) => set({ aiProvider: provider }),
+  aiProvider: savedProvider(),
+  setAIProvider: (provider) => {
+    if (provider) {
+      localStorage.setItem(AI_PROVIDER_KEY, provider);
+    } else {
+      localStorage.removeItem(AI_PROVIDER_KEY);
+    }
+    set({ aiProvider: provider });
+  },
   
-  // Current Project
-  currentProject: null,
-  setCurrentProject: (project) => set({ currentProject: project }),
+  // Current Workbench project
+  currentProjectId: localStorage.getItem(CURRENT_PROJECT_KEY),
+  setCurrentProjectId: (id) => {
+    if (id) {
+      localStorage.setItem(CURRENT_PROJECT_KEY, id);
+    } else {
+      localStorage.removeItem(CURRENT_PROJECT_KEY);
+    }
+    set({ currentProjectId: id });
+  },
   
-  // Projects
+  // Projects; archived ones drop out of the list
   projects: [],
-  addProject: (project) => set((state) => ({ projects: [...state.projects, project] })),
+  setProjects: (projects) => set({ projects }),
+  upsertProject: ({ id, name, createdBy, createdAt, updatedAt, archivedAt }) => set((state) => {
+    const others = state.projects.filter(p => p.id !== id);
+    return { projects: archivedAt ? others : [{ id, name, createdBy, createdAt, updatedAt, archivedAt }, ...others] };
+  }),
   
   // Entities
   entities: [],
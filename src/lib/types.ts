@@ -1,10 +1,47 @@
 // Core types for Syntria
 
-export type AIProvider = 'gemini' | 'openai';
+export type AIProvider = 'gemini' | 'openai' | 'local' | 'mock';
 
 export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH';
 export type ComplianceStatus = 'Pass' | 'Partial' | 'Fail';
-export type EntityStatus = 'Active' | 'Pending' | 'Decommissioned';
+// 'Active' and 'Pending' predate the approval workflow; new entities are routed through
+// 'Pending Review' (manager) or 'Pending Committee' (risk committee) to 'Approved' or 'Rejected'
+export type EntityStatus =
+  | 'Pending Review'
+  | 'Pending Committee'
+  | 'Approved'
+  | 'Rejected'
+  | 'Active'
+  | 'Pending'
+  | 'Decommissioned';
+
+export type ApprovalQueue = 'manager' | 'risk_committee';
+
+export interface ApprovalDecision {
+  decision: 'approve' | 'reject' | 'auto_approve';
+  fromStatus: EntityStatus;
+  toStatus: EntityStatus;
+  reviewer: string;
+  comment: string;
+  decidedAt: string;
+}
+
+export interface ApprovalRecord {
+  queue: ApprovalQueue | null;
+  requestedAt: string;
+  decisions: ApprovalDecision[];
+}
+
+export type Role = 'analyst' | 'manager' | 'risk_committee' | 'admin';
+
+export interface User {
+  id: string;
+  username: string;
+  displayName: string;
+  role: Role;
+  authProvider: 'local' | 'oidc';
+  createdAt: string;
+}
 
 export interface Entity {
   id: string;
@@ -16,12 +53,277 @@ export interface Entity {
   owner: string;
   createdAt: string;
   lastUpdated: string;
+  ein?: string;
+  country?: string;
+  contactEmail?: string;
   decommissionReason?: string;
   decommissionedAt?: string;
   reactivatedAt?: string;
   hasControls?: boolean;
   hasPII?: boolean;
   documents?: string[];
+  controls?: SecurityControls;
+  riskScore?: number;
+  riskFactors?: RiskFactor[];
+  riskPolicyVersion?: number;
+  approval?: ApprovalRecord;
+  riskEscalation?: RiskEscalation | null;
+  // Periodic re-assessment (server/reviewScheduler.ts)
+  nextReviewDate?: string;
+  lastReviewedAt?: string;
+  // Ids of duplicates merged into this entity; their history and audit events resolve here
+  mergedIds?: string[];
+}
+
+export type DuplicateReason = 'name' | 'ein' | 'email' | 'email_domain';
+
+// Existing entity that may be the same company (server/duplicates.ts)
+export interface DuplicateMatch {
+  entityId: string;
+  entityName: string;
+  status: EntityStatus;
+  reasons: DuplicateReason[];
+  nameSimilarity: number;
+}
+
+export interface MergeResult {
+  entity: Entity;
+  movedDocuments: number;
+}
+
+// Re-assessment due for an entity, opened by the review scheduler
+export interface ReviewTask {
+  id: string;
+  entityId: string;
+  entityName: string;
+  riskLevel: RiskLevel;
+  dueDate: string;
+  status: 'open' | 'completed' | 'cancelled';
+  openedAt: string;
+  completedAt: string | null;
+  completedBy: string | null;
+  outcome: { fromLevel: RiskLevel; toLevel: RiskLevel; score: number } | null;
+}
+
+export type DocumentType = 'W9' | 'SOC2' | 'Insurance' | 'MSA' | 'DPA' | 'Other';
+
+// Evidence file in the document vault (server/documentVault.ts)
+export interface EntityDocument {
+  id: string;
+  entityId: string;
+  type: DocumentType;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  effectiveDate: string | null;
+  expiryDate: string | null;
+  version: number;
+  status: 'current' | 'superseded';
+  supersedes: string | null;
+  supersededBy: string | null;
+  uploadedBy: string;
+  uploadedAt: string;
+  // Most urgent expiry window already reported (server/expiryMonitor.ts)
+  expiryNotice?: ExpiryBucket | null;
+}
+
+export type ExpiryBucket = 'due_90' | 'due_60' | 'due_30' | 'expired';
+
+export interface RenewalItem {
+  document: EntityDocument;
+  entityName: string;
+  bucket: ExpiryBucket;
+  daysLeft: number;
+}
+
+// Set when a re-score raises an entity's risk level (server/riskEngine.ts)
+export interface RiskEscalation {
+  fromLevel: RiskLevel;
+  toLevel: RiskLevel;
+  fromScore: number | null;
+  toScore: number;
+  escalatedAt: string;
+  escalatedBy: string;
+}
+
+export type EntityVersionAction =
+  | 'baseline'
+  | 'created'
+  | 'updated'
+  | 'decommissioned'
+  | 'reactivated'
+  | 'approved'
+  | 'rejected'
+  | 'reviewed'
+  | 'merged';
+
+export interface EntityFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// One stored revision of an entity (server/entityHistory.ts)
+export interface EntityVersion {
+  id: string;
+  entityId: string;
+  version: number;
+  action: EntityVersionAction;
+  changedAt: string;
+  changedBy: string;
+  reason: string | null;
+  changes: EntityFieldChange[];
+  snapshot: Entity;
+}
+
+export interface SecurityControls {
+  iam: boolean;
+  encryption: boolean;
+  logging: boolean;
+  network: boolean;
+}
+
+// One named, weighted input to the risk score.
+// `value` is 0 (no risk) to 1 (full risk); `contribution` is its share of the 0-100 score.
+export interface RiskFactor {
+  id: string;
+  label: string;
+  weight: number;
+  value: number;
+  contribution: number;
+  detail: string;
+}
+
+export interface RiskAssessment {
+  riskLevel: RiskLevel;
+  score: number;
+  reasons: string[];
+  factors: RiskFactor[];
+  compliance: ComplianceStatus;
+  missingDocuments: string[];
+  policyVersion: number;
+  // Offline extraction results for the uploaded files (server/documentAnalysis.ts)
+  documentAnalyses?: DocumentAnalysis[];
+  error?: string;
+}
+
+export type DocumentFindingKind = 'expiry_date' | 'coverage_amount' | 'certification' | 'liability_cap';
+
+export interface DocumentFinding {
+  kind: DocumentFindingKind;
+  // Normalized value: an ISO date, a dollar amount, a certification or cap description
+  value: string;
+  amount?: number;
+  // The text the value was read from
+  snippet: string;
+}
+
+export interface DocumentAnalysis {
+  fileName: string;
+  documentType: DocumentType;
+  format: 'pdf' | 'docx' | 'text' | null;
+  characters: number;
+  findings: DocumentFinding[];
+  error: string | null;
+}
+
+// Bulk import from a CSV or XLSX register (server/bulkImport.ts)
+export type ImportField =
+  | 'name'
+  | 'type'
+  | 'ein'
+  | 'country'
+  | 'contactEmail'
+  | 'owner'
+  | 'documents'
+  | 'hasPII'
+  | 'iam'
+  | 'encryption'
+  | 'logging'
+  | 'network';
+
+// Import field -> column header in the uploaded sheet
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportRowError {
+  // null for problems with the row as a whole
+  field: ImportField | null;
+  message: string;
+}
+
+export interface ImportRow {
+  // Sheet row number, counting the header as row 1
+  row: number;
+  name: string;
+  errors: ImportRowError[];
+  // What the risk engine would score the row; null when the row has errors
+  riskLevel: RiskLevel | null;
+  score: number | null;
+  compliance: ComplianceStatus | null;
+  // Set once the row has been imported
+  entityId?: string;
+  status?: EntityStatus;
+}
+
+export interface ImportPreview {
+  fileName: string;
+  columns: string[];
+  mapping: ImportMapping;
+  rows: ImportRow[];
+  validCount: number;
+  errorCount: number;
+}
+
+export interface ImportResult extends ImportPreview {
+  // Valid rows become entities; rows with errors are skipped
+  created: number;
+}
+
+export type JurisdictionTier = 'tier1' | 'tier2' | 'tier3';
+
+export interface RiskWeights {
+  missing_documents: number;
+  control_iam: number;
+  control_encryption: number;
+  control_logging: number;
+  control_network: number;
+  pii_handling: number;
+  jurisdiction: number;
+  entity_type: number;
+  ai_assessment: number;
+  document_expiry: number;
+  insurance_coverage: number;
+  certification: number;
+  liability_cap: number;
+}
+
+// The editable part of a risk policy - validated on the server by server/riskPolicy.ts
+export interface RiskPolicyDocument {
+  weights: RiskWeights;
+  // A score strictly above a threshold moves the entity up a level
+  thresholds: { high: number; medium: number };
+  requiredDocuments: Record<'vendor' | 'client', Record<JurisdictionTier, string[]>>;
+  // Added to the required list when the entity handles PII
+  piiRequiredDocuments: string[];
+  // Countries not listed in tier 1 or tier 3 are tier 2
+  jurisdictions: { tier1: string[]; tier3: string[] };
+  // Months between periodic re-assessments at each risk level
+  reviewCadenceMonths: Record<RiskLevel, number>;
+}
+
+export interface RiskPolicy extends RiskPolicyDocument {
+  id: string;
+  version: number;
+  createdAt: string;
+  createdBy: string;
+  note?: string;
+}
+
+export interface RiskPolicyChange {
+  path: string;
+  before: unknown;
+  after: unknown;
 }
 
 export interface AuditEvent {
@@ -32,25 +334,191 @@ export interface AuditEvent {
   action: string;
   user: string;
   details: string;
+  // Hash chain (server/auditLog.ts)
+  seq: number;
+  prevHash: string;
+  hash: string;
+}
+
+// Register and audit trail downloads (server/registerExport.ts)
+export type ExportFormat = 'csv' | 'jsonl' | 'xlsx';
+
+// One page of a list endpoint (server/listQuery.ts); pass nextCursor back as `cursor` for the next page
+export interface Page<T> {
+  items: T[];
+  // Rows matching the filters across all pages
+  total: number;
+  nextCursor: string | null;
 }
 
-export interface ProjectContext {
+export interface AuditVerification {
+  valid: boolean;
+  count: number;
+  headHash: string;
+  checkedAt: string;
+  // First event that fails verification
+  brokenAt?: { seq: number; id: string; reason: string };
+}
+
+export interface ChatMessage {
+  // Assigned when the message is saved to a project; insights quote messages by id
+  id?: string;
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Schedule from the Automation agent, as shown on the Workbench
+export interface WorkbenchAutomation {
+  plan: Record<string, unknown>[];
+  calendarEvents: Record<string, unknown>[];
+  eventsCreated: number;
+  message: string;
+  generatedAt: string;
+}
+
+// Workbench project (server/projects.ts): owns everything the Workbench agents produce for it
+export interface Project {
   id: string;
   name: string;
-  goals: string[];
-  constraints: string[];
-  artifacts: {
-    prd?: string;
-    roadmap?: string;
-    backlog?: string;
-    testCases?: string;
-    releaseNotes?: string;
-  };
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  archivedAt: string | null;
+  // Inputs of the latest strategy run; each brief is kept as a StrategyBriefVersion
+  strategyInput: StrategyInput | null;
+  canonicalBriefVersion: number | null;
+  customerMessages: ChatMessage[];
+  // Clearing the customer chat starts a new session; insight evidence records the session it came from
+  customerSessionId: string;
+  // Last customer message the synthesis agent has read; later messages are synthesized on the next run
+  lastSynthesizedMessageId: string | null;
+  automation: WorkbenchAutomation | null;
+  // The MP3 lives in the blob store, served from /api/projects/:id/audio-summary
+  audioSummary: { summaryText: string; sha256: string; createdAt: string } | null;
+  // Text only; spoken replies are not kept
+  voiceMessages: ChatMessage[];
+  // Questions put to the persona panel, oldest first
+  panelRounds: PanelRound[];
+}
+
+export type SkepticismLevel = 'low' | 'medium' | 'high';
+
+// Customer persona for the advisory panel (server/personas.ts), seeded from a brief's ICPs or added by hand
+export interface Persona {
+  id: string;
+  projectId: string;
+  name: string;
+  segment: string;
+  role: string;
+  budget: string;
+  currentTools: string[];
+  painPoints: string[];
+  skepticism: SkepticismLevel;
+  description: string;
+  source: 'icp' | 'manual';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PersonaInput = Pick<Persona, 'name' | 'segment' | 'role' | 'budget' | 'currentTools' | 'painPoints' | 'skepticism' | 'description'>;
+
+export type PanelStance = 'supportive' | 'mixed' | 'skeptical';
+export type PanelPosition = 'agree' | 'disagree' | 'silent';
+
+export interface PanelAnswer {
+  personaId: string;
+  personaName: string;
+  answer: string;
+  stance: PanelStance;
+  points: string[];
+}
+
+// A point raised on the panel and where each persona (by id) stands on it
+export interface PanelTopic {
+  topic: string;
+  positions: Record<string, PanelPosition>;
+}
+
+export interface PanelRound {
+  id: string;
+  question: string;
+  answers: PanelAnswer[];
+  topics: PanelTopic[];
+  provider: string;
+  model: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type InsightType = 'pain_point' | 'feature_request' | 'objection' | 'willingness_to_pay';
+
+// A customer's words backing an insight, checked to appear verbatim in the message
+export interface InsightEvidence {
+  messageId: string;
+  sessionId: string;
+  quote: string;
+  createdAt: string;
+}
+
+// Tagged learning from customer-advisory transcripts (server/insights.ts); the same point raised
+// again, in this session or a later one, adds evidence instead of a new insight
+export interface CustomerInsight {
+  id: string;
+  projectId: string;
+  type: InsightType;
+  summary: string;
+  evidence: InsightEvidence[];
+  provider: string;
+  model: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
-export interface AgentResponse {
+export interface InsightSynthesis {
+  insights: CustomerInsight[];
+  created: number;
+  updated: number;
+  // Customer chat messages read in this run
+  messagesRead: number;
+}
+
+// One Strategy Agent run saved under a project (server/strategyBriefs.ts); never changed once written
+export interface StrategyBriefVersion {
+  id: string;
+  projectId: string;
+  version: number;
+  input: StrategyInput;
+  brief: StrategyBrief;
+  provider: string;
+  model: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type StrategyBriefSection = 'northStar' | 'strategicRecommendations' | 'icps' | 'risksAndChallenges' | 'prd';
+
+// A section of two briefs as comparable lines; `added` and `removed` are relative to `from`
+export interface StrategySectionDiff {
+  section: StrategyBriefSection;
+  label: string;
+  before: string[];
+  after: string[];
+  added: string[];
+  removed: string[];
+  changed: boolean;
+}
+
+export interface StrategyBriefComparison {
+  from: number;
+  to: number;
+  sections: StrategySectionDiff[];
+}
+
+export type ProjectSummary = Pick<Project, 'id' | 'name' | 'createdBy' | 'createdAt' | 'updatedAt' | 'archivedAt'>;
+
+export interface AgentResponse<T = unknown> {
   success: boolean;
-  data?: any;
+  data?: T;
   error?: string;
   trace?: AgentTraceStep[];
 }
@@ -61,6 +529,49 @@ export interface AgentTraceStep {
   action: string;
   input: any;
   output: any;
+  errors?: SchemaViolation[];
+}
+
+// A field that failed runtime validation, e.g. { path: 'icps.0.painPoints', message: '...' }
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+// Strategy Agent output - validated on the server by server/strategySchema.ts
+export interface StrategyICP {
+  segment: string;
+  description: string;
+  painPoints: string[];
+  opportunities: string[];
+  buyingBehavior: string;
+}
+
+export interface StrategySuccessMetric {
+  metric: string;
+  target: string;
+  rationale: string;
+}
+
+export interface StrategyRisk {
+  risk: string;
+  impact: 'high' | 'medium' | 'low';
+  mitigation: string;
+}
+
+export interface StrategyBrief {
+  executiveSummary: string;
+  northStar: string;
+  marketOpportunity: string;
+  competitiveLandscape: string;
+  strategicRecommendations: string[];
+  icps: StrategyICP[];
+  successMetrics: StrategySuccessMetric[];
+  goToMarketConsiderations: string[];
+  risksAndChallenges: StrategyRisk[];
+  timelineAndMilestones: string;
+  constraints: string[];
+  prd: string;
 }
 
 export interface StrategyInput {
@@ -4,3 +4,7 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+export function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -14,6 +14,12 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Loader2, CheckCircle2, XCircle } from "lucide-react";
+import { RiskPolicyEditor } from "@/components/RiskPolicyEditor";
+import { UserManagement } from "@/components/UserManagement";
+import type { AIProvider } from "@/lib/types";
+
+// Select value for "no provider picked": requests then use the server's LLM_PROVIDER
+const SERVER_DEFAULT = "default";
 
 export default function Admin() {
   const { toast } = useToast();
@@ -45,7 +51,7 @@ export default function Admin() {
     <div className="container mx-auto p-6 space-y-6">
       <div>
         <h1 className="font-heading text-3xl font-bold">Admin & Integrations</h1>
-        <p className="text-muted-foreground">Configure AI providers and integrations</p>
+        <p className="text-muted-foreground">Configure AI providers, integrations, users and risk policy</p>
       </div>
 
       <div className="grid md:grid-cols-2 gap-6">
@@ -57,13 +63,19 @@ export default function Admin() {
           <CardContent className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="provider">Provider</Label>
-              <Select value={aiProvider} onValueChange={(val: any) => setAIProvider(val)}>
+              <Select
+                value={aiProvider || SERVER_DEFAULT}
+                onValueChange={(val) => setAIProvider(val === SERVER_DEFAULT ? null : (val as AIProvider))}
+              >
                 <SelectTrigger id="provider">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
+                  <SelectItem value={SERVER_DEFAULT}>Server default (LLM_PROVIDER)</SelectItem>
                   <SelectItem value="gemini">Google Gemini (Recommended)</SelectItem>
                   <SelectItem value="openai">OpenAI</SelectItem>
+                  <SelectItem value="local">Local (Ollama-compatible)</SelectItem>
+                  <SelectItem value="mock">Mock (offline fixtures)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -93,6 +105,10 @@ export default function Admin() {
                   <span className="text-sm text-muted-foreground">Provider</span>
                   <span className="text-sm font-medium">{healthStatus.provider}</span>
                 </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Model</span>
+                  <span className="text-sm font-medium">{healthStatus.model}</span>
+                </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">API Key</span>
                   <span className="text-sm font-medium">
@@ -127,6 +143,10 @@ export default function Admin() {
         </Card>
       </div>
 
+      <UserManagement />
+
+      <RiskPolicyEditor />
+
       <Card>
         <CardHeader>
           <CardTitle>Environment Setup</CardTitle>
@@ -137,10 +157,23 @@ export default function Admin() {
             <p className="text-muted-foreground"># AI Providers</p>
             <p>GEMINI_API_KEY=your_gemini_key</p>
             <p>OPENAI_API_KEY=your_openai_key</p>
+            <p>LOCAL_LLM_URL=http://localhost:11434</p>
+            <p>LLM_PROVIDER=mock  # offline fixtures, no keys needed</p>
+            <p className="text-muted-foreground pt-2"># Models (optional)</p>
+            <p>GEMINI_MODEL=gemini-2.0-flash-exp</p>
+            <p>OPENAI_MODEL=gpt-4o-mini</p>
+            <p>LOCAL_LLM_MODEL=llama3.1</p>
             <p className="text-muted-foreground pt-2"># Optional Integrations</p>
             <p>ELEVENLABS_API_KEY=your_elevenlabs_key</p>
             <p>NOTION_API_KEY=your_notion_key</p>
             <p>GOOGLE_CALENDAR_CREDENTIALS_JSON=your_credentials</p>
+            <p className="text-muted-foreground pt-2"># Accounts & SSO (optional)</p>
+            <p>ADMIN_USERNAME=admin</p>
+            <p>ADMIN_PASSWORD=first_admin_password</p>
+            <p>SESSION_TTL_HOURS=12</p>
+            <p>OIDC_ISSUER=https://idp.example.com/realms/syntria</p>
+            <p>OIDC_CLIENT_ID=syntria</p>
+            <p>OIDC_CLIENT_SECRET=your_client_secret</p>
           </div>
         </CardContent>
       </Card>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useCallback, useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -19,11 +19,14 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { getAuditEvents } from "@/lib/api";
+import { ListPagination } from "@/components/ListPagination";
+import { ExportMenu } from "@/components/ExportMenu";
+import { auditExportUrl, getAuditEvents, verifyAuditLog } from "@/lib/api";
+import type { AuditListParams } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
+import { useCursorPagination } from "@/hooks/use-cursor-pagination";
 import { 
   Search, 
-  Download, 
   FileText, 
   Activity, 
   Clock,
@@ -31,50 +34,115 @@ import {
   Archive,
   RotateCcw,
   Edit,
-  AlertCircle
+  AlertCircle,
+  ShieldCheck,
+  ShieldAlert
 } from "lucide-react";
-import type { AuditEvent } from "@/lib/types";
+import type { AuditEvent, AuditVerification, Page } from "@/lib/types";
+
+const PAGE_SIZE = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Start of the selected date range as an ISO timestamp
+const rangeStart = (range: string): string | undefined => {
+  const now = new Date();
+  switch (range) {
+    case "today":
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString();
+    case "week":
+      return new Date(now.getTime() - 7 * DAY_MS).toISOString();
+    case "month":
+      return new Date(now.getTime() - 30 * DAY_MS).toISOString();
+    default:
+      return undefined;
+  }
+};
+
+const countEvents = (params: AuditListParams) =>
+  getAuditEvents({ ...params, limit: 0 }).then((page) => page.total);
+
+const errorMessage = (error: unknown) => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  if (typeof error === "object" && error !== null && "message" in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return "An unexpected error occurred";
+};
 
 export default function Audit() {
   const navigate = useNavigate();
   const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [page, setPage] = useState<Page<AuditEvent>>({ items: [], total: 0, nextCursor: null });
+  const [stats, setStats] = useState({ total: 0, today: 0, week: 0, decommissions: 0 });
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
   const [actionFilter, setActionFilter] = useState<string>("all");
   const [dateFilter, setDateFilter] = useState<string>("all");
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const { cursor, pageIndex, next, previous, reset } = useCursorPagination();
   const { toast } = useToast();
 
   useEffect(() => {
-    loadEvents();
+    loadSummary();
   }, []);
 
-  const loadEvents = async () => {
-    try {
-      const data = await getAuditEvents();
-      // Sort by timestamp descending (newest first)
-      const sorted = data.sort((a, b) => 
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-      );
-      setEvents(sorted);
-   } catch (error: unknown) {
-  let message = "An unexpected error occurred";
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setQuery(search.trim());
+      reset();
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search, reset]);
 
-  if (error instanceof Error) {
-    message = error.message;
-  } else if (typeof error === "string") {
-    message = error;
-  } else if (typeof error === "object" && error !== null && "message" in error) {
-    message = String((error as { message: unknown }).message);
-  }
+  // The table's filters, shared by the page fetch and the export
+  const filterParams = useCallback((): AuditListParams => ({
+    q: query,
+    action: actionFilter === "all" ? undefined : actionFilter,
+    from: rangeStart(dateFilter),
+  }), [query, actionFilter, dateFilter]);
 
-  toast({
-    title: "Error",
-    description: message,
-    variant: "destructive",
-  });
-} finally {
+  const showError = useCallback((error: unknown) => {
+    toast({
+      title: "Error",
+      description: errorMessage(error),
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadEvents = useCallback(async () => {
+    try {
+      const data = await getAuditEvents({ ...filterParams(), cursor, limit: PAGE_SIZE });
+      setPage(data);
+      setEvents(data.items);
+    } catch (error: unknown) {
+      showError(error);
+    } finally {
       setLoading(false);
     }
+  }, [filterParams, cursor, showError]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const loadSummary = async () => {
+    try {
+      const [chain, total, today, week, decommissions] = await Promise.all([
+        verifyAuditLog(),
+        countEvents({}),
+        countEvents({ from: rangeStart("today") }),
+        countEvents({ from: rangeStart("week") }),
+        countEvents({ action: "entity_decommissioned" }),
+      ]);
+      setVerification(chain);
+      setStats({ total, today, week, decommissions });
+    } catch (error: unknown) {
+      showError(error);
+    }
   };
 
   const getActionIcon = (action: string) => {
@@ -117,104 +185,48 @@ export default function Audit() {
         return "Reactivated";
       case "entity_edited":
         return "Edited";
+      case "entity_imported":
+        return "Imported";
+      case "entity_merged":
+        return "Merged";
+      case "audit_repaired":
+        return "Log repaired";
       default:
         return action.replace(/_/g, " ");
     }
   };
 
-  const filterByDate = (event: AuditEvent) => {
-  if (dateFilter === "all") return true;
-
-  const eventDate = new Date(event.timestamp);
-  const now = new Date();
-
-  switch (dateFilter) {
-    case "today":
-      return eventDate.toDateString() === now.toDateString();
-
-    case "week": {
-      const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      return eventDate >= weekAgo;
-    }
-
-    case "month": {
-      const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      return eventDate >= monthAgo;
-    }
-
-    default:
-      return true;
-  }
-};
-
-
-  const filteredEvents = events.filter((event) => {
-    const matchesSearch =
-      event.entityName.toLowerCase().includes(search.toLowerCase()) ||
-      event.user.toLowerCase().includes(search.toLowerCase()) ||
-      event.details.toLowerCase().includes(search.toLowerCase());
-    const matchesAction = actionFilter === "all" || event.action === actionFilter;
-    const matchesDate = filterByDate(event);
-    return matchesSearch && matchesAction && matchesDate;
-  });
-
-  const handleExportCSV = () => {
-    const headers = ["Timestamp", "Entity", "Action", "User", "Details"];
-    const rows = filteredEvents.map((event) => [
-      new Date(event.timestamp).toLocaleString(),
-      event.entityName,
-      getActionLabel(event.action),
-      event.user,
-      event.details,
-    ]);
-
-    const csv = [
-      headers.join(","),
-      ...rows.map((row) => row.map((cell) => `"${cell}"`).join(",")),
-    ].join("\n");
-
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `audit-trail-${new Date().toISOString().split("T")[0]}.csv`;
-    a.click();
-    window.URL.revokeObjectURL(url);
-
-    toast({
-      title: "Success",
-      description: "Audit trail exported to CSV",
-    });
-  };
-
-  const stats = {
-    total: events.length,
-    today: events.filter((e) => {
-      const eventDate = new Date(e.timestamp);
-      const today = new Date();
-      return eventDate.toDateString() === today.toDateString();
-    }).length,
-    week: events.filter((e) => {
-      const eventDate = new Date(e.timestamp);
-      const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-      return eventDate >= weekAgo;
-    }).length,
-    decommissions: events.filter((e) => e.action === "entity_decommissioned").length,
-  };
-
   return (
     <div className="container mx-auto p-6 space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="font-heading text-3xl font-bold">Audit Trail</h1>
+          <div className="flex items-center gap-3">
+            <h1 className="font-heading text-3xl font-bold">Audit Trail</h1>
+            {verification && (verification.valid ? (
+              <Badge
+                variant="outline"
+                className="bg-accent/10 text-accent border-accent"
+                title={`Head hash ${verification.headHash}, checked ${new Date(verification.checkedAt).toLocaleString()}`}
+              >
+                <ShieldCheck className="w-3 h-3 mr-1" />
+                Chain verified · {verification.count} events
+              </Badge>
+            ) : (
+              <Badge
+                variant="outline"
+                className="bg-destructive/10 text-destructive border-destructive"
+                title={`${verification.brokenAt?.id}: ${verification.brokenAt?.reason}`}
+              >
+                <ShieldAlert className="w-3 h-3 mr-1" />
+                Chain broken at event #{verification.brokenAt?.seq}
+              </Badge>
+            ))}
+          </div>
           <p className="text-muted-foreground">
             Complete history of all entity actions and changes
           </p>
         </div>
-        <Button onClick={handleExportCSV} disabled={filteredEvents.length === 0}>
-          <Download className="h-4 w-4 mr-2" />
-          Export CSV
-        </Button>
+        <ExportMenu href={(format) => auditExportUrl(format, filterParams())} disabled={page.total === 0} />
       </div>
 
       {/* Stats */}
@@ -286,19 +298,33 @@ export default function Audit() {
                 className="pl-9"
               />
             </div>
-            <Select value={actionFilter} onValueChange={setActionFilter}>
+            <Select
+              value={actionFilter}
+              onValueChange={(value) => {
+                setActionFilter(value);
+                reset();
+              }}
+            >
               <SelectTrigger className="w-full md:w-[200px]">
                 <SelectValue placeholder="Action Type" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Actions</SelectItem>
                 <SelectItem value="onboarding_complete">Onboarded</SelectItem>
+                <SelectItem value="entity_imported">Imported</SelectItem>
+                <SelectItem value="entity_merged">Merged</SelectItem>
                 <SelectItem value="entity_decommissioned">Decommissioned</SelectItem>
                 <SelectItem value="entity_reactivated">Reactivated</SelectItem>
                 <SelectItem value="entity_edited">Edited</SelectItem>
               </SelectContent>
             </Select>
-            <Select value={dateFilter} onValueChange={setDateFilter}>
+            <Select
+              value={dateFilter}
+              onValueChange={(value) => {
+                setDateFilter(value);
+                reset();
+              }}
+            >
               <SelectTrigger className="w-full md:w-[180px]">
                 <SelectValue placeholder="Date Range" />
               </SelectTrigger>
@@ -316,14 +342,14 @@ export default function Audit() {
       {/* Events Table */}
       <Card>
         <CardHeader>
-          <CardTitle>Events ({filteredEvents.length})</CardTitle>
+          <CardTitle>Events ({page.total})</CardTitle>
         </CardHeader>
         <CardContent>
           {loading ? (
             <p className="text-muted-foreground text-center py-8">Loading...</p>
-          ) : filteredEvents.length === 0 ? (
+          ) : events.length === 0 ? (
             <p className="text-muted-foreground text-center py-8">
-              {events.length === 0
+              {stats.total === 0
                 ? "No audit events yet. Complete onboarding to generate events."
                 : "No events match your filters."}
             </p>
@@ -340,18 +366,23 @@ export default function Audit() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredEvents.map((event) => (
+                  {events.map((event) => (
                     <TableRow key={event.id}>
                       <TableCell className="text-sm text-muted-foreground">
                         {new Date(event.timestamp).toLocaleString()}
                       </TableCell>
                       <TableCell>
-                        <button
-                          onClick={() => navigate(`/risk`)}
-                          className="font-medium hover:underline text-left"
-                        >
-                          {event.entityName}
-                        </button>
+                        {/* Events also describe user accounts and risk policy versions, which have no detail page */}
+                        {event.entityId.startsWith("entity-") ? (
+                          <button
+                            onClick={() => navigate(`/entities/${event.entityId}`)}
+                            className="font-medium hover:underline text-left"
+                          >
+                            {event.entityName}
+                          </button>
+                        ) : (
+                          <span className="font-medium">{event.entityName}</span>
+                        )}
                       </TableCell>
                       <TableCell>
                         <Badge
@@ -372,6 +403,15 @@ export default function Audit() {
               </Table>
             </div>
           )}
+          <ListPagination
+            pageIndex={pageIndex}
+            pageSize={PAGE_SIZE}
+            shown={events.length}
+            total={page.total}
+            nextCursor={page.nextCursor}
+            onPrevious={previous}
+            onNext={next}
+          />
         </CardContent>
       </Card>
     </div>
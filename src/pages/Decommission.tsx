@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useCallback, useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -28,15 +28,28 @@ import {
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { getEntities, updateEntity, createAuditEvent } from "@/lib/api";
+import { ListPagination } from "@/components/ListPagination";
+import { getEntities, updateEntity } from "@/lib/api";
+import type { EntityListParams } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
+import { useCursorPagination } from "@/hooks/use-cursor-pagination";
 import { Search, Archive, RotateCcw, AlertTriangle, CheckCircle } from "lucide-react";
-import type { Entity } from "@/lib/types";
+import type { Entity, Page } from "@/lib/types";
+
+const PAGE_SIZE = 25;
+
+const ACTIVE_STATUSES = "Approved,Active,Pending";
+
+const countEntities = (params: EntityListParams) =>
+  getEntities({ ...params, limit: 0 }).then((page) => page.total);
 
 export default function Decommission() {
   const [entities, setEntities] = useState<Entity[]>([]);
+  const [page, setPage] = useState<Page<Entity>>({ items: [], total: 0, nextCursor: null });
+  const [stats, setStats] = useState({ active: 0, decommissioned: 0, highRiskActive: 0 });
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
   const [typeFilter, setTypeFilter] = useState<string>("all");
   const [view, setView] = useState<"active" | "decommissioned">("active");
   const [decommissionDialog, setDecommissionDialog] = useState<{
@@ -45,16 +58,33 @@ export default function Decommission() {
   }>({ open: false, entity: null });
   const [reason, setReason] = useState("");
   const [processing, setProcessing] = useState(false);
+  const { cursor, pageIndex, next, previous, reset } = useCursorPagination();
   const { toast } = useToast();
 
   useEffect(() => {
-    loadEntities();
+    loadStats();
   }, []);
 
-  const loadEntities = async () => {
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setQuery(search.trim());
+      reset();
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search, reset]);
+
+  const loadEntities = useCallback(async () => {
     try {
-      const data = await getEntities();
-      setEntities(data);
+      const data = await getEntities({
+        cursor,
+        limit: PAGE_SIZE,
+        q: query,
+        type: typeFilter === "all" ? undefined : typeFilter,
+        status: view === "active" ? ACTIVE_STATUSES : "Decommissioned",
+      });
+      setPage(data);
+      setEntities(data.items);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -64,25 +94,26 @@ export default function Decommission() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [cursor, query, typeFilter, view, toast]);
 
-  const activeEntities = entities.filter(
-    (e) => e.status === "Active" || e.status === "Pending"
-  );
-  const decommissionedEntities = entities.filter(
-    (e) => e.status === "Decommissioned"
-  );
+  useEffect(() => {
+    loadEntities();
+  }, [loadEntities]);
 
-  const displayedEntities =
-    view === "active" ? activeEntities : decommissionedEntities;
+  const loadStats = async () => {
+    try {
+      const [active, decommissioned, highRiskActive] = await Promise.all([
+        countEntities({ status: ACTIVE_STATUSES }),
+        countEntities({ status: "Decommissioned" }),
+        countEntities({ status: ACTIVE_STATUSES, riskLevel: "HIGH" }),
+      ]);
+      setStats({ active, decommissioned, highRiskActive });
+    } catch (error) {
+      console.error("Failed to load entity counts:", error);
+    }
+  };
 
-  const filteredEntities = displayedEntities.filter((entity) => {
-    const matchesSearch =
-      entity.name.toLowerCase().includes(search.toLowerCase()) ||
-      entity.owner.toLowerCase().includes(search.toLowerCase());
-    const matchesType = typeFilter === "all" || entity.type === typeFilter;
-    return matchesSearch && matchesType;
-  });
+  const refresh = () => Promise.all([loadEntities(), loadStats()]);
 
   const handleDecommission = async () => {
     if (!decommissionDialog.entity || !reason.trim()) {
@@ -102,14 +133,7 @@ export default function Decommission() {
         decommissionedAt: new Date().toISOString(),
       });
 
-      await createAuditEvent({
-        action: "entity_decommissioned",
-        entityId: decommissionDialog.entity.id,
-        user: "system",
-        details: `Decommissioned: ${reason}`,
-      });
-
-      await loadEntities();
+      await refresh();
 
       toast({
         title: "Success",
@@ -131,23 +155,19 @@ export default function Decommission() {
 
   const handleReactivate = async (entity: Entity) => {
     try {
-      await updateEntity(entity.id, {
-        status: "Active",
+      // The server re-scores the entity and routes it through approval again
+      const updated = await updateEntity(entity.id, {
+        status: "Approved",
         reactivatedAt: new Date().toISOString(),
       });
 
-      await createAuditEvent({
-        action: "entity_reactivated",
-        entityId: entity.id,
-        user: "system",
-        details: "Entity reactivated",
-      });
-
-      await loadEntities();
+      await refresh();
 
       toast({
         title: "Success",
-        description: `${entity.name} has been reactivated`,
+        description: updated.status === "Approved"
+          ? `${entity.name} has been reactivated`
+          : `${entity.name} has been reactivated and is ${updated.status}`,
       });
     } catch (error: any) {
       toast({
@@ -158,12 +178,6 @@ export default function Decommission() {
     }
   };
 
-  const stats = {
-    active: activeEntities.length,
-    decommissioned: decommissionedEntities.length,
-    highRiskActive: activeEntities.filter((e) => e.riskLevel === "HIGH").length,
-  };
-
   return (
     <div className="container mx-auto p-6 space-y-6">
       <div>
@@ -222,13 +236,19 @@ export default function Decommission() {
       <div className="flex gap-2">
         <Button
           variant={view === "active" ? "default" : "outline"}
-          onClick={() => setView("active")}
+          onClick={() => {
+            setView("active");
+            reset();
+          }}
         >
           Active Entities ({stats.active})
         </Button>
         <Button
           variant={view === "decommissioned" ? "default" : "outline"}
-          onClick={() => setView("decommissioned")}
+          onClick={() => {
+            setView("decommissioned");
+            reset();
+          }}
         >
           Decommissioned ({stats.decommissioned})
         </Button>
@@ -247,7 +267,13 @@ export default function Decommission() {
                 className="pl-9"
               />
             </div>
-            <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <Select
+              value={typeFilter}
+              onValueChange={(value) => {
+                setTypeFilter(value);
+                reset();
+              }}
+            >
               <SelectTrigger className="w-full md:w-[180px]">
                 <SelectValue placeholder="Entity Type" />
               </SelectTrigger>
@@ -265,16 +291,15 @@ export default function Decommission() {
       <Card>
         <CardHeader>
           <CardTitle>
-            {view === "active" ? "Active" : "Decommissioned"} Entities (
-            {filteredEntities.length})
+            {view === "active" ? "Active" : "Decommissioned"} Entities ({page.total})
           </CardTitle>
         </CardHeader>
         <CardContent>
           {loading ? (
             <p className="text-muted-foreground text-center py-8">Loading...</p>
-          ) : filteredEntities.length === 0 ? (
+          ) : entities.length === 0 ? (
             <p className="text-muted-foreground text-center py-8">
-              {displayedEntities.length === 0
+              {!query && typeFilter === "all"
                 ? view === "active"
                   ? "No active entities. All entities have been decommissioned."
                   : "No decommissioned entities yet."
@@ -296,7 +321,7 @@ export default function Decommission() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredEntities.map((entity) => (
+                  {entities.map((entity) => (
                     <TableRow key={entity.id}>
                       <TableCell className="font-medium">{entity.name}</TableCell>
                       <TableCell className="capitalize">{entity.type}</TableCell>
@@ -350,6 +375,15 @@ export default function Decommission() {
               </Table>
             </div>
           )}
+          <ListPagination
+            pageIndex={pageIndex}
+            pageSize={PAGE_SIZE}
+            shown={entities.length}
+            total={page.total}
+            nextCursor={page.nextCursor}
+            onPrevious={previous}
+            onNext={next}
+          />
         </CardContent>
       </Card>
 
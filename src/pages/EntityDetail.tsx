@@ -4,18 +4,28 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ArrowLeft, FileText, Shield, Calendar, Mail, Building, MapPin, Edit } from "lucide-react";
-import { getEntity, updateEntity } from "@/lib/api";
+import { ArrowLeft, FileText, Shield, Calendar, CalendarClock, Mail, Building, MapPin, Edit, TrendingUp, RefreshCw, GitMerge } from "lucide-react";
+import { findDuplicates, getEntity, getEntityHistory, mergeEntity, updateEntity } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
+import { useAppStore } from "@/lib/store";
+import { canEditEntities, canMergeEntities } from "@/lib/roles";
+import { errorMessage } from "@/lib/utils";
+import type { DuplicateMatch, EntityStatus, EntityVersion, RiskFactor, SecurityControls } from "@/lib/types";
+import { EntityTimeline } from "@/components/EntityTimeline";
+import { EntityDocuments } from "@/components/EntityDocuments";
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
   DialogHeader,
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CONTROL_OPTIONS, DOCUMENT_OPTIONS, describeDuplicate } from "@/lib/riskOptions";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -28,10 +38,17 @@ export default function EntityDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const currentUser = useAppStore((state) => state.currentUser);
   const [entity, setEntity] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [editOpen, setEditOpen] = useState(false);
   const [editData, setEditData] = useState<any>({});
+  const [editReason, setEditReason] = useState("");
+  const [history, setHistory] = useState<EntityVersion[]>([]);
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [candidates, setCandidates] = useState<DuplicateMatch[]>([]);
+  const [mergeSourceId, setMergeSourceId] = useState<string | null>(null);
+  const [mergeReason, setMergeReason] = useState("");
 
   useEffect(() => {
     loadEntity();
@@ -40,9 +57,15 @@ export default function EntityDetail() {
   const loadEntity = async () => {
     setLoading(true);
     try {
-      const data = await getEntity(id!);
+      const [data, versions] = await Promise.all([getEntity(id!), getEntityHistory(id!)]);
+      // A merged duplicate's id resolves to the entity it was merged into
+      if (data.id !== id) {
+        navigate(`/entities/${data.id}`, { replace: true });
+        return;
+      }
       setEntity(data);
       setEditData(data);
+      setHistory(versions);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -56,8 +79,22 @@ export default function EntityDetail() {
 
   const handleSave = async () => {
     try {
-      await updateEntity(id!, editData);
-      setEntity(editData);
+      const updated = await updateEntity(id!, {
+        ...editData,
+        hasControls: Object.values(editControls).every(Boolean),
+        reason: editReason.trim(),
+      });
+      if (updated.riskScore !== entity.riskScore || updated.riskLevel !== entity.riskLevel) {
+        toast({
+          title: "Risk re-scored",
+          description: `${entity.riskLevel} (${entity.riskScore ?? "n/a"}) → ${updated.riskLevel} (${updated.riskScore})`,
+          variant: updated.riskEscalation && updated.riskEscalation !== entity.riskEscalation ? "destructive" : "default",
+        });
+      }
+      setEntity(updated);
+      setEditData(updated);
+      setHistory(await getEntityHistory(id!));
+      setEditReason("");
       setEditOpen(false);
       toast({
         title: "Success",
@@ -72,6 +109,54 @@ export default function EntityDetail() {
     }
   };
 
+  const openMerge = async () => {
+    setMergeOpen(true);
+    setMergeSourceId(null);
+    setMergeReason("");
+    try {
+      setCandidates(await findDuplicates({
+        name: entity.name,
+        ein: entity.ein,
+        contactEmail: entity.contactEmail,
+        excludeId: entity.id,
+      }));
+    } catch (error: unknown) {
+      setCandidates([]);
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeSourceId) return;
+    try {
+      const { movedDocuments } = await mergeEntity(entity.id, mergeSourceId, mergeReason.trim());
+      const source = candidates.find((match) => match.entityId === mergeSourceId);
+      setMergeOpen(false);
+      toast({
+        title: "Duplicate merged",
+        description: `${source?.entityName} merged into ${entity.name}, ${movedDocuments} document(s) moved`,
+      });
+      await loadEntity();
+    } catch (error: unknown) {
+      toast({ title: "Merge failed", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  // Legacy entities only carry the single hasControls flag
+  const editControls: SecurityControls = editData.controls || {
+    iam: !!editData.hasControls,
+    encryption: !!editData.hasControls,
+    logging: !!editData.hasControls,
+    network: !!editData.hasControls,
+  };
+
+  // Approval states are owned by the workflow; only decommissioning and reactivation are edited here
+  const awaitingDecision = ["Pending Review", "Pending Committee", "Rejected"].includes(entity?.status);
+  const statusOptions: EntityStatus[] =
+    entity?.status === "Decommissioned"
+      ? ["Decommissioned", "Approved"]
+      : Array.from(new Set<EntityStatus>([entity?.status, "Decommissioned"]));
+
   if (loading) {
     return (
       <div className="container mx-auto p-6 max-w-5xl space-y-6">
@@ -99,6 +184,9 @@ export default function EntityDetail() {
     HIGH: "bg-red-100 text-red-800 border-red-200",
   };
 
+  // Live relationships can be re-assessed through the onboarding wizard
+  const canReassess = !!currentUser && canEditEntities(currentUser.role) && ["Approved", "Active"].includes(entity.status);
+
   const complianceColors = {
     Pass: "bg-green-100 text-green-800",
     Partial: "bg-yellow-100 text-yellow-800",
@@ -120,63 +208,205 @@ export default function EntityDetail() {
             </p>
           </div>
         </div>
-        <Dialog open={editOpen} onOpenChange={setEditOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Edit className="h-4 w-4 mr-2" />
-              Edit
+        <div className="flex gap-2">
+          {canReassess && (
+            <Button variant="outline" onClick={() => navigate(`/onboarding?reassess=${entity.id}`)}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Re-assess
             </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>Edit Entity</DialogTitle>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label>Company Name</Label>
-                <Input
-                  value={editData.name}
-                  onChange={(e) => setEditData({ ...editData, name: e.target.value })}
-                />
-              </div>
-              <div>
-                <Label>Owner</Label>
-                <Input
-                  value={editData.owner}
-                  onChange={(e) => setEditData({ ...editData, owner: e.target.value })}
-                />
-              </div>
-              <div>
-                <Label>Contact Email</Label>
-                <Input
-                  value={editData.contactEmail}
-                  onChange={(e) => setEditData({ ...editData, contactEmail: e.target.value })}
-                />
-              </div>
-              <div>
-                <Label>Status</Label>
-                <Select
-                  value={editData.status}
-                  onValueChange={(val) => setEditData({ ...editData, status: val })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="Active">Active</SelectItem>
-                    <SelectItem value="Pending">Pending</SelectItem>
-                    <SelectItem value="Decommissioned">Decommissioned</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <Button onClick={handleSave} className="w-full">
-                Save Changes
+          )}
+          {currentUser && canMergeEntities(currentUser.role) && (
+            <Dialog open={mergeOpen} onOpenChange={setMergeOpen}>
+              <Button variant="outline" onClick={openMerge}>
+                <GitMerge className="h-4 w-4 mr-2" />
+                Merge Duplicate
               </Button>
-            </div>
-          </DialogContent>
-        </Dialog>
+              <DialogContent className="max-w-xl">
+                <DialogHeader>
+                  <DialogTitle>Merge a duplicate into {entity.name}</DialogTitle>
+                  <DialogDescription>
+                    The duplicate's documents, history and audit events move to this entity and the duplicate is removed.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  {candidates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No likely duplicates found by name, EIN or contact email.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {candidates.map((match) => (
+                        <button
+                          key={match.entityId}
+                          type="button"
+                          onClick={() => setMergeSourceId(match.entityId)}
+                          className={`w-full text-left rounded-md border p-3 text-sm ${
+                            mergeSourceId === match.entityId ? "border-primary bg-primary/5" : "hover:bg-muted"
+                          }`}
+                        >
+                          <span className="font-medium">{match.entityName}</span>
+                          <span className="text-muted-foreground"> · {match.status} · {match.entityId}</span>
+                          <p className="text-xs text-muted-foreground">{describeDuplicate(match)}</p>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div>
+                    <Label>Reason for merge</Label>
+                    <Textarea
+                      value={mergeReason}
+                      onChange={(e) => setMergeReason(e.target.value)}
+                      placeholder="e.g., Same vendor onboarded twice under its trading name"
+                      rows={2}
+                    />
+                  </div>
+                  <Button onClick={handleMerge} className="w-full" disabled={!mergeSourceId || !mergeReason.trim()}>
+                    Merge
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          )}
+          <Dialog open={editOpen} onOpenChange={setEditOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={!currentUser || !canEditEntities(currentUser.role)}>
+                <Edit className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Edit Entity</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label>Company Name</Label>
+                  <Input
+                    value={editData.name}
+                    onChange={(e) => setEditData({ ...editData, name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Owner</Label>
+                  <Input
+                    value={editData.owner}
+                    onChange={(e) => setEditData({ ...editData, owner: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Contact Email</Label>
+                  <Input
+                    value={editData.contactEmail}
+                    onChange={(e) => setEditData({ ...editData, contactEmail: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Country</Label>
+                  <Input
+                    value={editData.country || ""}
+                    onChange={(e) => setEditData({ ...editData, country: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Documents on file</Label>
+                    {DOCUMENT_OPTIONS.map((doc) => (
+                      <div key={doc} className="flex items-center space-x-2">
+                        <Checkbox
+                          checked={(editData.documents || []).includes(doc)}
+                          onCheckedChange={(value) => {
+                            const documents: string[] = editData.documents || [];
+                            setEditData({
+                              ...editData,
+                              documents: value === true ? [...documents, doc] : documents.filter((d) => d !== doc),
+                            });
+                          }}
+                        />
+                        <span className="text-sm">{doc}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Controls &amp; PII</Label>
+                    {CONTROL_OPTIONS.map(({ key, label }) => (
+                      <div key={key} className="flex items-center space-x-2">
+                        <Checkbox
+                          checked={editControls[key]}
+                          onCheckedChange={(value) =>
+                            setEditData({ ...editData, controls: { ...editControls, [key]: value === true } })
+                          }
+                        />
+                        <span className="text-sm">{label}</span>
+                      </div>
+                    ))}
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        checked={!!editData.hasPII}
+                        onCheckedChange={(value) => setEditData({ ...editData, hasPII: value === true })}
+                      />
+                      <span className="text-sm">Handles PII/Sensitive Data</span>
+                    </div>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Changing documents, controls, PII or country re-scores the entity against the active risk policy.
+                </p>
+                <div>
+                  <Label>Status</Label>
+                  <Select
+                    value={editData.status}
+                    onValueChange={(val) => setEditData({ ...editData, status: val })}
+                    disabled={awaitingDecision}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {statusOptions.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {status}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {awaitingDecision && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Status is set by the approval workflow (Risk → My Approvals)
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <Label>Reason for change</Label>
+                  <Textarea
+                    value={editReason}
+                    onChange={(e) => setEditReason(e.target.value)}
+                    placeholder="e.g., Contact changed after vendor reorganisation"
+                    rows={2}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">Recorded in the entity history and audit trail</p>
+                </div>
+                <Button onClick={handleSave} className="w-full" disabled={!editReason.trim()}>
+                  Save Changes
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      {entity.riskEscalation && (
+        <div className="rounded-md border border-destructive bg-destructive/10 p-4 flex items-start gap-3">
+          <TrendingUp className="h-5 w-5 text-destructive mt-0.5" />
+          <div className="text-sm">
+            <p className="font-medium text-destructive">
+              Risk escalated {entity.riskEscalation.fromLevel} → {entity.riskEscalation.toLevel}
+            </p>
+            <p className="text-muted-foreground">
+              Score {entity.riskEscalation.fromScore ?? "n/a"} → {entity.riskEscalation.toScore} after a change by{" "}
+              {entity.riskEscalation.escalatedBy} on {new Date(entity.riskEscalation.escalatedAt).toLocaleString()}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Risk & Compliance Overview */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <Card>
@@ -192,7 +422,25 @@ export default function EntityDetail() {
               <Badge className={riskColors[entity.riskLevel as keyof typeof riskColors]}>
                 {entity.riskLevel}
               </Badge>
+              {entity.riskScore !== undefined && (
+                <span className="text-sm text-muted-foreground">
+                  Score {entity.riskScore}/100
+                  {entity.riskPolicyVersion !== undefined && ` · policy v${entity.riskPolicyVersion}`}
+                </span>
+              )}
             </div>
+            {entity.riskFactors && entity.riskFactors.length > 0 && (
+              <div className="space-y-1 text-xs">
+                {entity.riskFactors
+                  .filter((factor: RiskFactor) => factor.contribution > 0)
+                  .map((factor: RiskFactor) => (
+                    <div key={factor.id} className="flex justify-between gap-4">
+                      <span className="text-muted-foreground">{factor.detail}</span>
+                      <span className="font-mono">+{factor.contribution}</span>
+                    </div>
+                  ))}
+              </div>
+            )}
             <div className="flex items-center gap-2">
               <span className="text-sm font-medium">Compliance:</span>
               <Badge variant="outline" className={complianceColors[entity.compliance as keyof typeof complianceColors]}>
@@ -203,6 +451,19 @@ export default function EntityDetail() {
               <span className="text-sm font-medium">Status:</span>
               <Badge variant="secondary">{entity.status}</Badge>
             </div>
+            {entity.nextReviewDate && (
+              <div className="flex items-center gap-2 text-sm">
+                <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                <span className="font-medium">Next review:</span>
+                <span>{entity.nextReviewDate}</span>
+                {entity.nextReviewDate < new Date().toISOString().slice(0, 10) && <Badge variant="destructive">Overdue</Badge>}
+                {entity.lastReviewedAt && (
+                  <span className="text-muted-foreground">
+                    · last reviewed {new Date(entity.lastReviewedAt).toLocaleDateString()}
+                  </span>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -235,63 +496,13 @@ export default function EntityDetail() {
       </div>
 
       {/* Documents */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Documents</CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div>
-            <p className="text-sm font-medium mb-2">Document Checklist:</p>
-            <div className="flex flex-wrap gap-2">
-              {entity.documents && entity.documents.length > 0 ? (
-                entity.documents.map((doc: string) => (
-                  <Badge key={doc} variant="outline">
-                    {doc}
-                  </Badge>
-                ))
-              ) : (
-                <span className="text-sm text-muted-foreground">No documents in checklist</span>
-              )}
-            </div>
-          </div>
-
-          {entity.uploadedFiles && entity.uploadedFiles.length > 0 && (
-            <div>
-              <p className="text-sm font-medium mb-2">Uploaded Files ({entity.uploadedFiles.length}):</p>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {entity.uploadedFiles.map((file: any, index: number) => (
-                  <div key={index} className="border rounded-lg p-4 space-y-2">
-                    <div className="flex items-center gap-2">
-                      <FileText className="h-5 w-5 text-muted-foreground" />
-                      <span className="text-sm font-medium truncate">{file.name}</span>
-                    </div>
-                    {file.type?.startsWith('image/') && (
-                      <img
-                        src={`data:${file.type};base64,${file.base64}`}
-                        alt={file.name}
-                        className="w-full h-32 object-cover rounded"
-                      />
-                    )}
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="w-full"
-                      onClick={() => {
-                        const link = document.createElement('a');
-                        link.href = `data:${file.type};base64,${file.base64}`;
-                        link.download = file.name;
-                        link.click();
-                      }}
-                    >
-                      Download
-                    </Button>
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+      {/* Remounts after a merge so the moved documents load */}
+      <EntityDocuments
+        key={(entity.mergedIds || []).length}
+        entityId={entity.id}
+        canUpload={!!currentUser && canEditEntities(currentUser.role)}
+        onUploaded={loadEntity}
+      />
 
       {/* Security Controls */}
       <Card>
@@ -324,34 +535,7 @@ export default function EntityDetail() {
           <CardTitle>Timeline</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="space-y-4">
-            <div className="flex gap-4">
-              <div className="flex flex-col items-center">
-                <div className="w-2 h-2 rounded-full bg-primary" />
-                <div className="w-0.5 h-full bg-border" />
-              </div>
-              <div className="pb-4">
-                <p className="font-medium">Entity Onboarded</p>
-                <p className="text-sm text-muted-foreground">
-                  {new Date(entity.createdAt).toLocaleString()}
-                </p>
-                <p className="text-xs text-muted-foreground mt-1">
-                  Risk Assessment: {entity.riskLevel}
-                </p>
-              </div>
-            </div>
-            <div className="flex gap-4">
-              <div className="flex flex-col items-center">
-                <div className="w-2 h-2 rounded-full bg-muted" />
-              </div>
-              <div>
-                <p className="font-medium">Last Updated</p>
-                <p className="text-sm text-muted-foreground">
-                  {new Date(entity.lastUpdated).toLocaleString()}
-                </p>
-              </div>
-            </div>
-          </div>
+          <EntityTimeline versions={history} entityId={entity.id} />
         </CardContent>
       </Card>
     </div>
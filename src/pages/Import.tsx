@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { importEntities, previewImport } from "@/lib/api";
+import { readFileAsBase64 } from "@/lib/riskOptions";
+import { errorMessage } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { FileSpreadsheet, CheckCircle, AlertCircle, Upload } from "lucide-react";
+import type { ImportField, ImportMapping, ImportPreview, ImportResult } from "@/lib/types";
+
+const fieldLabels: Record<ImportField, string> = {
+  name: "Company Name",
+  type: "Type (vendor/client)",
+  ein: "EIN",
+  country: "Country",
+  contactEmail: "Contact Email",
+  owner: "Owner",
+  documents: "Documents on File",
+  hasPII: "Handles PII",
+  iam: "IAM",
+  encryption: "Encryption",
+  logging: "Logging & Monitoring",
+  network: "Network Security",
+};
+
+const NOT_MAPPED = "__none";
+
+export default function Import() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [file, setFile] = useState<{ fileName: string; base64: string } | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const runPreview = async (upload: { fileName: string; base64: string }, mapping?: ImportMapping) => {
+    setLoading(true);
+    try {
+      setPreview(await previewImport({ ...upload, mapping }));
+    } catch (error: unknown) {
+      setPreview(null);
+      toast({ title: "Could not read file", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return;
+    const upload = { fileName: selected.name, base64: await readFileAsBase64(selected) };
+    setFile(upload);
+    setResult(null);
+    // No mapping yet: the server suggests one from the header row
+    await runPreview(upload);
+  };
+
+  const updateMapping = (field: ImportField, column: string) => {
+    if (!file || !preview) return;
+    runPreview(file, { ...preview.mapping, [field]: column === NOT_MAPPED ? undefined : column });
+  };
+
+  const handleImport = async () => {
+    if (!file || !preview) return;
+    setImporting(true);
+    try {
+      const imported = await importEntities({ ...file, mapping: preview.mapping });
+      setResult(imported);
+      setPreview(null);
+      toast({
+        title: "Import complete",
+        description: `${imported.created} entities created${imported.errorCount > 0 ? `, ${imported.errorCount} rows skipped` : ""}`,
+      });
+    } catch (error: unknown) {
+      toast({ title: "Import failed", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const rows = result ? result.rows : preview?.rows || [];
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="font-heading text-3xl font-bold">Bulk Import</h1>
+        <p className="text-muted-foreground">
+          Onboard entities from a CSV or XLSX vendor register
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Step 1: Upload Register</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="border-2 border-dashed rounded-lg p-6 text-center">
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={handleFile}
+              className="hidden"
+              id="import-upload"
+            />
+            <label htmlFor="import-upload" className="cursor-pointer">
+              <div className="space-y-2">
+                <FileSpreadsheet className="w-10 h-10 mx-auto text-muted-foreground" />
+                <p className="text-sm font-medium">
+                  {file ? file.fileName : "Upload a spreadsheet"}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  One entity per row under a header row. The first sheet of a workbook is read.
+                </p>
+              </div>
+            </label>
+          </div>
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Step 2: Map Columns</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {(Object.keys(fieldLabels) as ImportField[]).map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label>
+                    {fieldLabels[field]}
+                    {field === "name" && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={preview.mapping[field] || NOT_MAPPED}
+                    onValueChange={(column) => updateMapping(field, column)}
+                    disabled={loading}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                      {preview.columns.filter(Boolean).map((column) => (
+                        <SelectItem key={column} value={column}>
+                          {column}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {rows.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="flex items-center gap-2">
+                {result ? "Imported" : "Step 3: Preview"}
+                <Badge variant="secondary">
+                  <CheckCircle className="w-3 h-3 mr-1" />
+                  {result ? `${result.created} created` : `${preview?.validCount} ready`}
+                </Badge>
+                {(result || preview)!.errorCount > 0 && (
+                  <Badge variant="destructive">
+                    <AlertCircle className="w-3 h-3 mr-1" />
+                    {(result || preview)!.errorCount} {result ? "skipped" : "with errors"}
+                  </Badge>
+                )}
+              </CardTitle>
+              {!result && preview && (
+                <Button onClick={handleImport} disabled={importing || loading || preview.validCount === 0}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  {importing ? "Importing..." : `Import ${preview.validCount} ${preview.validCount === 1 ? "entity" : "entities"}`}
+                </Button>
+              )}
+            </div>
+            {!result && preview && preview.errorCount > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Rows with errors are skipped. Fix them in the sheet and upload it again to include them.
+              </p>
+            )}
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border max-h-[600px] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Risk Level</TableHead>
+                    <TableHead>Score</TableHead>
+                    <TableHead>Compliance</TableHead>
+                    <TableHead>{result ? "Status" : "Issues"}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow
+                      key={row.row}
+                      className={row.entityId ? "cursor-pointer hover:bg-muted/50" : ""}
+                      onClick={() => row.entityId && navigate(`/entities/${row.entityId}`)}
+                    >
+                      <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                      <TableCell className="font-medium">{row.name || "—"}</TableCell>
+                      <TableCell>
+                        {row.riskLevel && (
+                          <Badge
+                            variant={
+                              row.riskLevel === "HIGH"
+                                ? "destructive"
+                                : row.riskLevel === "MEDIUM"
+                                ? "default"
+                                : "secondary"
+                            }
+                          >
+                            {row.riskLevel}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{row.score ?? ""}</TableCell>
+                      <TableCell>{row.compliance || ""}</TableCell>
+                      <TableCell>
+                        {row.errors.length > 0 ? (
+                          <ul className="text-sm text-destructive space-y-1">
+                            {row.errors.map((error, index) => (
+                              <li key={index}>
+                                {error.field ? `${fieldLabels[error.field]}: ` : ""}
+                                {error.message}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : row.status ? (
+                          <Badge variant="outline">{row.status}</Badge>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">Ready</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
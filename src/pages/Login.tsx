@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getAuthConfig, login } from "@/lib/api";
+import { useAppStore } from "@/lib/store";
+import { errorMessage } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+
+// Error codes the OIDC callback appends to the redirect
+const ssoErrors: Record<string, string> = {
+  sso_unavailable: "Single sign-on is unavailable right now",
+  sso_failed: "Single sign-on failed, please try again",
+  sso_username_taken: "Another account already uses this username - ask an admin to resolve it",
+};
+
+export default function Login() {
+  const setCurrentUser = useAppStore((state) => state.setCurrentUser);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [sso, setSso] = useState<{ name: string } | null>(null);
+
+  useEffect(() => {
+    getAuthConfig()
+      .then((config) => setSso(config.oidc))
+      .catch(() => setSso(null));
+
+    const code = new URLSearchParams(window.location.search).get("error");
+    if (code && ssoErrors[code]) setError(ssoErrors[code]);
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      setCurrentUser(await login(username, password));
+    } catch (err: unknown) {
+      setError(errorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-6">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="items-center text-center">
+          <img src="/syntria-logo.svg" alt="Syntria" className="h-10 w-10 mb-2" />
+          <CardTitle className="font-heading">Sign in to Syntria</CardTitle>
+          <CardDescription>Use your Syntria account{sso ? ` or ${sso.name}` : ""}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button type="submit" className="w-full" disabled={loading || !username || !password}>
+              {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Sign in
+            </Button>
+          </form>
+
+          {sso && (
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => {
+                window.location.href = "/api/auth/oidc/login";
+              }}
+            >
+              Sign in with {sso.name}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,10 +12,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { calculateRiskScore, createAuditEvent, createEntity } from "@/lib/api";
+import { createEntity, findDuplicates, getEntity, reassessEntity, uploadEntityDocument } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
+import { useAppStore } from "@/lib/store";
+import { CONTROL_OPTIONS, DOCUMENT_OPTIONS, DOCUMENT_TYPES, guessDocumentType, readFileAsBase64 } from "@/lib/riskOptions";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { DuplicateWarning } from "@/components/DuplicateWarning";
+import type { DocumentFindingKind, DocumentType, DuplicateMatch, Entity, EntityStatus, RiskAssessment, SecurityControls } from "@/lib/types";
 
 /* ---------- Types ---------- */
 
@@ -27,21 +32,23 @@ interface OnboardingForm {
   country: string;
   contactEmail: string;
   documents: string[];
-  hasControls: boolean;
+  controls: SecurityControls;
   hasPII: boolean;
   uploadedFiles: Array<{
     name: string;
     type: string;
     base64: string;
+    docType: DocumentType;
+    expiryDate: string;
   }>;
 }
 
-type RiskLevel = "LOW" | "MEDIUM" | "HIGH";
-
-interface RiskResult {
-  riskLevel: RiskLevel;
-  reasons?: string[];
-}
+const findingLabels: Record<DocumentFindingKind, string> = {
+  expiry_date: "Expires",
+  coverage_amount: "Coverage",
+  certification: "Certification",
+  liability_cap: "Liability cap",
+};
 
 /* ---------- Component ---------- */
 
@@ -49,6 +56,7 @@ export default function Onboarding() {
   const [step, setStep] = useState<number>(1);
   const [loading, setLoading] = useState<boolean>(false);
   const { toast } = useToast();
+  const currentUser = useAppStore((state) => state.currentUser);
 
   const [formData, setFormData] = useState<OnboardingForm>({
     companyName: "",
@@ -57,43 +65,126 @@ export default function Onboarding() {
     country: "USA",
     contactEmail: "",
     documents: [],
-    hasControls: false,
+    controls: { iam: false, encryption: false, logging: false, network: false },
     hasPII: false,
     uploadedFiles: [],
   });
 
-  const [riskResult, setRiskResult] = useState<RiskResult | null>(null);
+  const [riskResult, setRiskResult] = useState<RiskAssessment | null>(null);
+  const [entityStatus, setEntityStatus] = useState<EntityStatus | null>(null);
 
-  const docs = ["W9", "SOC2", "Insurance", "MSA", "DPA"] as const;
+  // `?reassess=<entityId>` runs the wizard as a periodic re-assessment of an existing entity
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const reassessId = searchParams.get("reassess");
+  const [reassessing, setReassessing] = useState<Entity | null>(null);
+  const [nextReview, setNextReview] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!reassessId) return;
+    getEntity(reassessId)
+      .then((entity) => {
+        setReassessing(entity);
+        setFormData({
+          companyName: entity.name,
+          companyType: entity.type,
+          ein: entity.ein || "",
+          country: entity.country || "",
+          contactEmail: entity.contactEmail || "",
+          documents: entity.documents || [],
+          controls: entity.controls || {
+            iam: !!entity.hasControls,
+            encryption: !!entity.hasControls,
+            logging: !!entity.hasControls,
+            network: !!entity.hasControls,
+          },
+          hasPII: !!entity.hasPII,
+          uploadedFiles: [],
+        });
+      })
+      .catch((error: Error) => {
+        toast({ title: "Could not load entity", description: error.message, variant: "destructive" });
+      });
+  }, [reassessId, toast]);
+
+  // Possible duplicates of the company being onboarded, checked once typing pauses
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+  const [allowDuplicate, setAllowDuplicate] = useState(false);
+  const { companyName, ein, contactEmail } = formData;
+
+  useEffect(() => {
+    if (reassessId || (!companyName.trim() && !ein.trim() && !contactEmail.trim())) {
+      setDuplicates([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      findDuplicates({ name: companyName.trim(), ein: ein.trim(), contactEmail: contactEmail.trim() })
+        .then((matches) => {
+          setDuplicates(matches);
+          setAllowDuplicate(false);
+        })
+        .catch((error) => console.error("Duplicate check failed:", error));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [reassessId, companyName, ein, contactEmail]);
+
+  const hasAllControls = Object.values(formData.controls).every(Boolean);
 
   const handleSubmit = async () => {
     setLoading(true);
     try {
-      const result = (await calculateRiskScore(formData)) as RiskResult;
-      setRiskResult(result);
+      // Typed files count as documents on file, checklist ticked or not
+      const documents = Array.from(new Set([
+        ...formData.documents,
+        ...formData.uploadedFiles.map((file) => file.docType).filter((type) => type !== "Other"),
+      ]));
+      if (reassessing) {
+        const { entity, assessment } = await reassessEntity(reassessing.id, { ...formData, documents, hasControls: hasAllControls });
+        for (const file of formData.uploadedFiles) {
+          await uploadEntityDocument(entity.id, {
+            type: file.docType,
+            fileName: file.name,
+            mimeType: file.type,
+            base64: file.base64,
+            expiryDate: file.expiryDate || undefined,
+          });
+        }
+        setRiskResult(assessment);
+        setEntityStatus(entity.status);
+        setNextReview(entity.nextReviewDate || null);
+        toast({ title: "Re-assessment complete", description: `Risk: ${assessment.riskLevel}` });
+        return;
+      }
 
-      // Create entity
-      await createEntity({
+      // Create entity - the server scores it and routes it for approval based on risk level
+      const { entity, assessment: result } = await createEntity({
         name: formData.companyName,
         type: formData.companyType,
-        riskLevel: result.riskLevel,
-        compliance: formData.documents.length >= 3 ? "Pass" : formData.documents.length >= 1 ? "Partial" : "Fail",
-        status: "Active",
-        owner: "system",
+        owner: currentUser?.username,
         contactEmail: formData.contactEmail,
         ein: formData.ein,
         country: formData.country,
-        documents: formData.documents,
-        hasControls: formData.hasControls,
+        documents,
+        controls: formData.controls,
+        hasControls: hasAllControls,
         hasPII: formData.hasPII,
+        uploadedFiles: formData.uploadedFiles,
+        allowDuplicate,
       });
 
-      await createAuditEvent({
-        action: "onboarding_complete",
-        entityId: formData.companyName,
-        user: "system",
-        details: `Risk: ${result.riskLevel}`,
-      });
+      // Keep the files in the entity's document vault
+      for (const file of formData.uploadedFiles) {
+        await uploadEntityDocument(entity.id, {
+          type: file.docType,
+          fileName: file.name,
+          mimeType: file.type,
+          base64: file.base64,
+          expiryDate: file.expiryDate || undefined,
+        });
+      }
+
+      setRiskResult(result);
+      setEntityStatus(entity.status);
 
       toast({
         title: "Onboarding Complete!",
@@ -112,25 +203,25 @@ export default function Onboarding() {
     const files = e.target.files;
     if (!files) return;
 
-    const filePromises = Array.from(files).map(file => {
-      return new Promise<{ name: string; type: string; base64: string }>((resolve) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-          const base64 = reader.result as string;
-          resolve({
-            name: file.name,
-            type: file.type,
-            base64: base64.split(',')[1], // Remove data:image/png;base64, prefix
-          });
-        };
-        reader.readAsDataURL(file);
-      });
-    });
+    const filePromises = Array.from(files).map(async (file) => ({
+      name: file.name,
+      type: file.type,
+      base64: await readFileAsBase64(file),
+      docType: guessDocumentType(file.name),
+      expiryDate: "",
+    }));
 
     const uploadedFiles = await Promise.all(filePromises);
     setFormData({ ...formData, uploadedFiles: [...formData.uploadedFiles, ...uploadedFiles] });
   };
 
+  const updateFile = (index: number, changes: Partial<OnboardingForm["uploadedFiles"][number]>) => {
+    setFormData({
+      ...formData,
+      uploadedFiles: formData.uploadedFiles.map((file, i) => (i === index ? { ...file, ...changes } : file)),
+    });
+  };
+
   const removeFile = (index: number) => {
     setFormData({
       ...formData,
@@ -142,7 +233,9 @@ export default function Onboarding() {
 
   return (
     <div className="container mx-auto p-6 max-w-3xl">
-      <h1 className="font-heading text-3xl font-bold mb-2">Onboarding Wizard</h1>
+      <h1 className="font-heading text-3xl font-bold mb-2">
+        {reassessing ? `Re-assessment: ${reassessing.name}` : "Onboarding Wizard"}
+      </h1>
       <Progress value={progress} className="mb-6" />
 
       {step === 1 && (
@@ -155,6 +248,7 @@ export default function Onboarding() {
               <Label>Company Name</Label>
               <Input
                 value={formData.companyName}
+                disabled={!!reassessing}
                 onChange={(e) =>
                   setFormData({ ...formData, companyName: e.target.value })
                 }
@@ -205,7 +299,14 @@ export default function Onboarding() {
                 }
               />
             </div>
-            <Button onClick={() => setStep(2)}>Next</Button>
+            <DuplicateWarning
+              duplicates={duplicates}
+              acknowledged={allowDuplicate}
+              onAcknowledge={setAllowDuplicate}
+            />
+            <Button onClick={() => setStep(2)} disabled={duplicates.length > 0 && !allowDuplicate}>
+              Next
+            </Button>
           </CardContent>
         </Card>
       )}
@@ -220,7 +321,7 @@ export default function Onboarding() {
               <input
                 type="file"
                 multiple
-                accept=".pdf,.doc,.docx,.png,.jpg,.jpeg"
+                accept=".pdf,.doc,.docx,.txt,.png,.jpg,.jpeg"
                 onChange={handleFileUpload}
                 className="hidden"
                 id="file-upload"
@@ -238,10 +339,30 @@ export default function Onboarding() {
 
             {formData.uploadedFiles.length > 0 && (
               <div className="space-y-2">
-                <p className="text-sm font-medium">Uploaded Files:</p>
+                <p className="text-sm font-medium">Uploaded Files (type and expiry date):</p>
                 {formData.uploadedFiles.map((file, index) => (
-                  <div key={index} className="flex items-center justify-between p-2 bg-muted rounded">
+                  <div key={index} className="flex items-center justify-between gap-2 p-2 bg-muted rounded">
                     <span className="text-sm truncate flex-1">{file.name}</span>
+                    <Select
+                      value={file.docType}
+                      onValueChange={(val: DocumentType) => updateFile(index, { docType: val })}
+                    >
+                      <SelectTrigger className="w-[120px] h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DOCUMENT_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="date"
+                      title="Expiry date"
+                      className="w-[150px] h-8"
+                      value={file.expiryDate}
+                      onChange={(e) => updateFile(index, { expiryDate: e.target.value })}
+                    />
                     <Button
                       variant="ghost"
                       size="sm"
@@ -270,7 +391,7 @@ export default function Onboarding() {
             <CardTitle>Step 3: Document Checklist</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            {docs.map((doc) => {
+            {DOCUMENT_OPTIONS.map((doc) => {
               const checked = formData.documents.includes(doc);
               return (
                 <div key={doc} className="flex items-center space-x-2">
@@ -306,15 +427,20 @@ export default function Onboarding() {
             <CardTitle>Step 4: Controls &amp; PII</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="flex items-center space-x-2">
-              <Checkbox
-                checked={formData.hasControls}
-                onCheckedChange={(v) =>
-                  setFormData({ ...formData, hasControls: v === true })
-                }
-              />
-              <Label>Has IAM, Encryption, Logging, Network Controls</Label>
-            </div>
+            {CONTROL_OPTIONS.map(({ key, label }) => (
+              <div key={key} className="flex items-center space-x-2">
+                <Checkbox
+                  checked={formData.controls[key]}
+                  onCheckedChange={(v) =>
+                    setFormData({
+                      ...formData,
+                      controls: { ...formData.controls, [key]: v === true },
+                    })
+                  }
+                />
+                <Label>{label}</Label>
+              </div>
+            ))}
             <div className="flex items-center space-x-2">
               <Checkbox
                 checked={formData.hasPII}
@@ -358,7 +484,10 @@ export default function Onboarding() {
                   </p>
                   <p>
                     <strong>Controls:</strong>{" "}
-                    {formData.hasControls ? "Yes" : "No"}
+                    {CONTROL_OPTIONS
+                      .filter(({ key }) => formData.controls[key])
+                      .map(({ key }) => key.toUpperCase())
+                      .join(", ") || "None"}
                   </p>
                   <p>
                     <strong>PII:</strong> {formData.hasPII ? "Yes" : "No"}
@@ -384,8 +513,65 @@ export default function Onboarding() {
                   >
                     {riskResult.riskLevel}
                   </Badge>
+                  <span className="text-sm text-muted-foreground">
+                    Score {riskResult.score}/100
+                  </span>
+                </div>
+
+                <div>
+                  <p className="font-medium mb-2">Score Breakdown:</p>
+                  <div className="space-y-1 text-sm">
+                    {riskResult.factors.map((factor) => (
+                      <div key={factor.id} className="flex justify-between gap-4">
+                        <span className="text-muted-foreground">{factor.detail}</span>
+                        <span className="font-mono">+{factor.contribution}</span>
+                      </div>
+                    ))}
+                  </div>
+                  {riskResult.missingDocuments.length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Missing documents: {riskResult.missingDocuments.join(", ")}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Scored with risk policy v{riskResult.policyVersion}
+                  </p>
+                  {riskResult.error && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      AI review unavailable; scored on rules only.
+                    </p>
+                  )}
                 </div>
 
+                {riskResult.documentAnalyses && riskResult.documentAnalyses.length > 0 && (
+                  <div>
+                    <p className="font-medium mb-2">Document Findings:</p>
+                    <div className="space-y-3">
+                      {riskResult.documentAnalyses.map((analysis, index) => (
+                        <div key={index} className="border rounded-lg p-3 space-y-2">
+                          <div className="flex items-center gap-2 text-sm">
+                            <Badge variant="outline">{analysis.documentType}</Badge>
+                            <span className="font-medium truncate">{analysis.fileName}</span>
+                          </div>
+                          {analysis.error ? (
+                            <p className="text-xs text-muted-foreground">{analysis.error}</p>
+                          ) : analysis.findings.length === 0 ? (
+                            <p className="text-xs text-muted-foreground">No coverage, expiry, certification or liability terms found</p>
+                          ) : (
+                            analysis.findings.map((finding, i) => (
+                              <div key={i} className="text-sm">
+                                <span className="text-muted-foreground">{findingLabels[finding.kind]}:</span>{" "}
+                                <span className="font-medium">{finding.value}</span>
+                                <p className="text-xs text-muted-foreground italic">"{finding.snippet}"</p>
+                              </div>
+                            ))
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div>
                   <p className="font-medium mb-2">Reasons:</p>
                   <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
@@ -395,34 +581,46 @@ export default function Onboarding() {
                   </ul>
                 </div>
 
-                <div>
-                  <p className="font-medium mb-2">Routing:</p>
-                  <p className="text-sm">
-                    {riskResult.riskLevel === "LOW" && "✓ Auto-approve"}
-                    {riskResult.riskLevel === "MEDIUM" && "→ Manager review"}
-                    {riskResult.riskLevel === "HIGH" && "⚠ Risk committee"}
-                  </p>
-                </div>
+                {reassessing ? (
+                  <div>
+                    <p className="font-medium mb-2">Next Review:</p>
+                    <p className="text-sm">{nextReview}</p>
+                  </div>
+                ) : (
+                  <div>
+                    <p className="font-medium mb-2">Routing:</p>
+                    <p className="text-sm">
+                      {entityStatus === "Approved" && "✓ Auto-approved"}
+                      {entityStatus === "Pending Review" && "→ Sent to manager review"}
+                      {entityStatus === "Pending Committee" && "⚠ Sent to risk committee"}
+                    </p>
+                  </div>
+                )}
 
-                <Button
-                  onClick={() => {
-                    setStep(1);
-                    setRiskResult(null);
-                    setFormData({
-                      companyName: "",
-                      companyType: "vendor",
-                      ein: "",
-                      country: "USA",
-                      contactEmail: "",
-                      documents: [],
-                      hasControls: false,
-                      hasPII: false,
-                      uploadedFiles: [],
-                    });
-                  }}
-                >
-                  Start New Onboarding
-                </Button>
+                {reassessing ? (
+                  <Button onClick={() => navigate(`/entities/${reassessing.id}`)}>View Entity</Button>
+                ) : (
+                  <Button
+                    onClick={() => {
+                      setStep(1);
+                      setRiskResult(null);
+                      setEntityStatus(null);
+                      setFormData({
+                        companyName: "",
+                        companyType: "vendor",
+                        ein: "",
+                        country: "USA",
+                        contactEmail: "",
+                        documents: [],
+                        controls: { iam: false, encryption: false, logging: false, network: false },
+                        hasPII: false,
+                        uploadedFiles: [],
+                      });
+                    }}
+                  >
+                    Start New Onboarding
+                  </Button>
+                )}
               </div>
             )}
           </CardContent>
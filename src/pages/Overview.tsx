@@ -1,6 +1,7 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useNavigate } from "react-router-dom";
+import { ReviewsDue } from "@/components/ReviewsDue";
 import { Sparkles, Briefcase, UserPlus, Shield, Zap, Target, Users } from "lucide-react";
 
 export default function Overview() {
@@ -45,6 +46,11 @@ export default function Overview() {
         </div>
       </section>
 
+      {/* Periodic reviews past their due date */}
+      <section className="container mx-auto px-6 max-w-4xl">
+        <ReviewsDue overdueOnly />
+      </section>
+
       {/* Features Grid */}
       <section className="container mx-auto px-6 py-16">
         <div className="grid md:grid-cols-3 gap-6">
@@ -24,7 +24,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { getEntities, getAuditEvents } from "@/lib/api";
+import { getAllEntities, getAllAuditEvents } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { FileText, Download, Eye, BarChart3, Shield, ClipboardList } from "lucide-react";
 import type { Entity, AuditEvent } from "@/lib/types";
@@ -62,8 +62,8 @@ export default function Reports() {
   const loadData = async () => {
     try {
       const [entitiesData, auditData] = await Promise.all([
-        getEntities(),
-        getAuditEvents(),
+        getAllEntities(),
+        getAllAuditEvents(),
       ]);
       setEntities(entitiesData);
       setAuditEvents(auditData);
@@ -204,7 +204,7 @@ export default function Reports() {
   };
 
   const generateAuditReport = (entity: Entity, events: AuditEvent[]): string => {
-    const entityEvents = events.filter(e => e.entityName === entity.name);
+    const entityEvents = events.filter(e => e.entityId === entity.id || (entity.mergedIds || []).includes(e.entityId));
     
     return `
       <div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px;">
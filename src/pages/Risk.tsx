@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -19,126 +19,168 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { getEntities } from "@/lib/api";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ApprovalQueue } from "@/components/ApprovalQueue";
+import { ReviewsDue } from "@/components/ReviewsDue";
+import { ListPagination } from "@/components/ListPagination";
+import { ExportMenu } from "@/components/ExportMenu";
+import { entityExportUrl, getEntities, getRenewals } from "@/lib/api";
+import type { EntityListParams } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
-import { Search, Filter, TrendingUp, TrendingDown, Minus } from "lucide-react";
-import type { Entity, RiskLevel, ComplianceStatus } from "@/lib/types";
+import { useCursorPagination } from "@/hooks/use-cursor-pagination";
+import { useAppStore } from "@/lib/store";
+import { queuesForRole } from "@/lib/roles";
+import { Search, Filter, TrendingUp, TrendingDown, Minus, CalendarClock } from "lucide-react";
+import type { Entity, RiskLevel, ComplianceStatus, Page, RenewalItem } from "@/lib/types";
+
+const PAGE_SIZE = 25;
+
+// Shown when the backend cannot be reached
+const demoEntities = (): Entity[] => [
+  {
+    id: 'mock-1',
+    name: 'Acme Corp',
+    type: 'vendor',
+    riskLevel: 'HIGH',
+    compliance: 'Fail',
+    status: 'Active',
+    owner: 'John Smith',
+    createdAt: new Date().toISOString(),
+    lastUpdated: new Date().toISOString(),
+  },
+  {
+    id: 'mock-2',
+    name: 'TechStart Inc',
+    type: 'client',
+    riskLevel: 'MEDIUM',
+    compliance: 'Partial',
+    status: 'Active',
+    owner: 'Sarah Johnson',
+    createdAt: new Date().toISOString(),
+    lastUpdated: new Date().toISOString(),
+  },
+  {
+    id: 'mock-3',
+    name: 'Global Solutions',
+    type: 'vendor',
+    riskLevel: 'LOW',
+    compliance: 'Pass',
+    status: 'Active',
+    owner: 'Mike Davis',
+    createdAt: new Date().toISOString(),
+    lastUpdated: new Date().toISOString(),
+  },
+];
+
+const countEntities = (params: EntityListParams) =>
+  getEntities({ ...params, limit: 0 }).then((page) => page.total);
 
 export default function Risk() {
   const navigate = useNavigate();
   const [entities, setEntities] = useState<Entity[]>([]);
+  const [page, setPage] = useState<Page<Entity>>({ items: [], total: 0, nextCursor: null });
+  const [stats, setStats] = useState({ total: 0, high: 0, medium: 0, low: 0, pending: 0 });
+  const [recentlyEscalated, setRecentlyEscalated] = useState<Entity[]>([]);
+  const [renewals, setRenewals] = useState<RenewalItem[]>([]);
   const [loading, setLoading] = useState(true);
+  const [demo, setDemo] = useState(false);
   const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
   const [riskFilter, setRiskFilter] = useState<string>("all");
   const [typeFilter, setTypeFilter] = useState<string>("all");
+  const { cursor, pageIndex, next, previous, reset } = useCursorPagination();
   const { toast } = useToast();
+  const currentUser = useAppStore((state) => state.currentUser);
+  const canReview = !!currentUser && queuesForRole(currentUser.role).length > 0;
 
   useEffect(() => {
-    loadEntities();
+    loadSummary();
+    loadRenewals();
   }, []);
 
-  const loadEntities = async () => {
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setQuery(search.trim());
+      reset();
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search, reset]);
+
+  const loadRenewals = async () => {
     try {
-      const data = await getEntities();
-      setEntities(data);
-      
-      // If no entities from API, use mock data
-      if (data.length === 0) {
-        const mockEntities: Entity[] = [
-          {
-            id: 'mock-1',
-            name: 'Acme Corp',
-            type: 'vendor',
-            riskLevel: 'HIGH',
-            compliance: 'Fail',
-            status: 'Active',
-            owner: 'John Smith',
-            createdAt: new Date().toISOString(),
-            lastUpdated: new Date().toISOString(),
-          },
-          {
-            id: 'mock-2',
-            name: 'TechStart Inc',
-            type: 'client',
-            riskLevel: 'MEDIUM',
-            compliance: 'Partial',
-            status: 'Active',
-            owner: 'Sarah Johnson',
-            createdAt: new Date().toISOString(),
-            lastUpdated: new Date().toISOString(),
-          },
-          {
-            id: 'mock-3',
-            name: 'Global Solutions',
-            type: 'vendor',
-            riskLevel: 'LOW',
-            compliance: 'Pass',
-            status: 'Active',
-            owner: 'Mike Davis',
-            createdAt: new Date().toISOString(),
-            lastUpdated: new Date().toISOString(),
-          },
-        ];
-        setEntities(mockEntities);
-      }
+      setRenewals(await getRenewals());
+    } catch (error) {
+      console.error('Failed to load renewals:', error);
+    }
+  };
+
+  // The table's filters, shared by the page fetch and the export
+  const filterParams = useCallback((): EntityListParams => ({
+    q: query,
+    riskLevel: riskFilter === "all" ? undefined : riskFilter,
+    type: typeFilter === "all" ? undefined : typeFilter,
+  }), [query, riskFilter, typeFilter]);
+
+  const showDemoData = useCallback(() => {
+    const mockEntities = demoEntities();
+    setDemo(true);
+    setEntities(mockEntities);
+    setPage({ items: mockEntities, total: mockEntities.length, nextCursor: null });
+    setStats({
+      total: mockEntities.length,
+      high: mockEntities.filter((e) => e.riskLevel === "HIGH").length,
+      medium: mockEntities.filter((e) => e.riskLevel === "MEDIUM").length,
+      low: mockEntities.filter((e) => e.riskLevel === "LOW").length,
+      pending: 0,
+    });
+    toast({
+      title: "Using Demo Data",
+      description: "Backend server not running. Showing sample entities.",
+    });
+  }, [toast]);
+
+  const loadEntities = useCallback(async () => {
+    try {
+      const data = await getEntities({ ...filterParams(), cursor, limit: PAGE_SIZE });
+      setPage(data);
+      setEntities(data.items);
     } catch (error) {
       console.error('Failed to load entities:', error);
-      
-      // Use mock data as fallback
-      const mockEntities: Entity[] = [
-        {
-          id: 'mock-1',
-          name: 'Acme Corp',
-          type: 'vendor',
-          riskLevel: 'HIGH',
-          compliance: 'Fail',
-          status: 'Active',
-          owner: 'John Smith',
-          createdAt: new Date().toISOString(),
-          lastUpdated: new Date().toISOString(),
-        },
-        {
-          id: 'mock-2',
-          name: 'TechStart Inc',
-          type: 'client',
-          riskLevel: 'MEDIUM',
-          compliance: 'Partial',
-          status: 'Active',
-          owner: 'Sarah Johnson',
-          createdAt: new Date().toISOString(),
-          lastUpdated: new Date().toISOString(),
-        },
-        {
-          id: 'mock-3',
-          name: 'Global Solutions',
-          type: 'vendor',
-          riskLevel: 'LOW',
-          compliance: 'Pass',
-          status: 'Active',
-          owner: 'Mike Davis',
-          createdAt: new Date().toISOString(),
-          lastUpdated: new Date().toISOString(),
-        },
-      ];
-      setEntities(mockEntities);
-      
-      toast({
-        title: "Using Demo Data",
-        description: "Backend server not running. Showing sample entities.",
-      });
+      showDemoData();
     } finally {
       setLoading(false);
     }
+  }, [filterParams, cursor, showDemoData]);
+
+  useEffect(() => {
+    if (!demo) loadEntities();
+  }, [demo, loadEntities]);
+
+  // Counts for the stat cards and the escalation list, independent of the table's filters
+  const loadSummary = async () => {
+    try {
+      // Entities whose level went up on a re-score in the last 30 days, newest first
+      const escalatedSince = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+      const [total, high, medium, low, pending, escalated] = await Promise.all([
+        countEntities({}),
+        countEntities({ riskLevel: "HIGH" }),
+        countEntities({ riskLevel: "MEDIUM" }),
+        countEntities({ riskLevel: "LOW" }),
+        countEntities({ status: "Pending Review,Pending Committee" }),
+        getEntities({ escalatedSince, sort: "escalatedAt", order: "desc", limit: 50 }),
+      ]);
+      setStats({ total, high, medium, low, pending });
+      setRecentlyEscalated(escalated.items);
+    } catch (error) {
+      console.error('Failed to load entity summary:', error);
+    }
   };
 
-  const filteredEntities = entities.filter((entity) => {
-    const matchesSearch =
-      entity.name.toLowerCase().includes(search.toLowerCase()) ||
-      entity.owner.toLowerCase().includes(search.toLowerCase());
-    const matchesRisk = riskFilter === "all" || entity.riskLevel === riskFilter;
-    const matchesType = typeFilter === "all" || entity.type === typeFilter;
-    return matchesSearch && matchesRisk && matchesType;
-  });
+  const handleDecision = () => {
+    loadEntities();
+    loadSummary();
+  };
 
   const getRiskBadgeVariant = (risk: RiskLevel) => {
     switch (risk) {
@@ -173,13 +215,6 @@ export default function Risk() {
     }
   };
 
-  const stats = {
-    total: entities.length,
-    high: entities.filter((e) => e.riskLevel === "HIGH").length,
-    medium: entities.filter((e) => e.riskLevel === "MEDIUM").length,
-    low: entities.filter((e) => e.riskLevel === "LOW").length,
-  };
-
   return (
     <div className="container mx-auto p-6 space-y-6">
       <div>
@@ -233,116 +268,224 @@ export default function Risk() {
         </Card>
       </div>
 
-      {/* Filters */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Filter className="w-5 h-5" />
-            Filters
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="flex flex-col md:flex-row gap-4">
-            <div className="flex-1 relative">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-              <Input
-                placeholder="Search entities..."
-                value={search}
-                onChange={(e) => setSearch(e.target.value)}
-                className="pl-9"
-              />
-            </div>
-            <Select value={riskFilter} onValueChange={setRiskFilter}>
-              <SelectTrigger className="w-full md:w-[180px]">
-                <SelectValue placeholder="Risk Level" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Risk Levels</SelectItem>
-                <SelectItem value="HIGH">High Risk</SelectItem>
-                <SelectItem value="MEDIUM">Medium Risk</SelectItem>
-                <SelectItem value="LOW">Low Risk</SelectItem>
-              </SelectContent>
-            </Select>
-            <Select value={typeFilter} onValueChange={setTypeFilter}>
-              <SelectTrigger className="w-full md:w-[180px]">
-                <SelectValue placeholder="Entity Type" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Types</SelectItem>
-                <SelectItem value="vendor">Vendors</SelectItem>
-                <SelectItem value="client">Clients</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-        </CardContent>
-      </Card>
+      {recentlyEscalated.length > 0 && (
+        <Card className="border-destructive">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <TrendingUp className="w-4 h-4" />
+              Recently Escalated ({recentlyEscalated.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {recentlyEscalated.map((entity) => (
+              <div
+                key={entity.id}
+                className="flex items-center justify-between text-sm cursor-pointer hover:bg-muted rounded-md px-2 py-1"
+                onClick={() => navigate(`/entities/${entity.id}`)}
+              >
+                <span className="font-medium">{entity.name}</span>
+                <span className="text-muted-foreground">
+                  {entity.riskEscalation!.fromLevel} → {entity.riskEscalation!.toLevel} · score{" "}
+                  {entity.riskEscalation!.fromScore ?? "n/a"} → {entity.riskEscalation!.toScore} ·{" "}
+                  {new Date(entity.riskEscalation!.escalatedAt).toLocaleDateString()}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
 
-      {/* Entity Table */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Entities ({filteredEntities.length})</CardTitle>
-        </CardHeader>
-        <CardContent>
-          {loading ? (
-            <p className="text-muted-foreground text-center py-8">Loading...</p>
-          ) : filteredEntities.length === 0 ? (
-            <p className="text-muted-foreground text-center py-8">
-              {entities.length === 0
-                ? "No entities yet. Complete onboarding to add entities."
-                : "No entities match your filters."}
-            </p>
-          ) : (
-            <div className="rounded-md border">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Name</TableHead>
-                    <TableHead>Type</TableHead>
-                    <TableHead>Risk Level</TableHead>
-                    <TableHead>Compliance</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Owner</TableHead>
-                    <TableHead>Last Updated</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredEntities.map((entity) => (
-                    <TableRow 
-                      key={entity.id}
-                      className="cursor-pointer hover:bg-muted/50"
-                      onClick={() => navigate(`/entities/${entity.id}`)}
-                    >
-                      <TableCell className="font-medium">{entity.name}</TableCell>
-                      <TableCell className="capitalize">{entity.type}</TableCell>
-                      <TableCell>
-                        <Badge
-                          variant={getRiskBadgeVariant(entity.riskLevel)}
-                          className="flex items-center gap-1 w-fit"
-                        >
-                          {getRiskIcon(entity.riskLevel)}
-                          {entity.riskLevel}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant={getComplianceBadgeVariant(entity.compliance)}>
-                          {entity.compliance}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant="outline">{entity.status}</Badge>
-                      </TableCell>
-                      <TableCell>{entity.owner}</TableCell>
-                      <TableCell className="text-muted-foreground text-sm">
-                        {new Date(entity.lastUpdated).toLocaleDateString()}
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </div>
+      <ReviewsDue />
+
+      {renewals.length > 0 && (
+        <Card className="border-yellow-200 dark:border-yellow-800">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="w-4 h-4" />
+              Renewals Due ({renewals.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {renewals.map(({ document, entityName, daysLeft }) => (
+              <div
+                key={document.id}
+                className="flex items-center justify-between text-sm cursor-pointer hover:bg-muted rounded-md px-2 py-1"
+                onClick={() => navigate(`/entities/${document.entityId}`)}
+              >
+                <span>
+                  <span className="font-medium">{entityName}</span>
+                  <span className="text-muted-foreground"> · {document.type} · {document.fileName}</span>
+                </span>
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  {document.expiryDate}
+                  <Badge variant={daysLeft < 0 ? "destructive" : daysLeft <= 30 ? "secondary" : "outline"}>
+                    {daysLeft < 0 ? `Expired ${-daysLeft}d ago` : `${daysLeft}d left`}
+                  </Badge>
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Tabs defaultValue="entities" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="entities">All Entities</TabsTrigger>
+          {canReview && (
+            <TabsTrigger value="approvals">
+              My Approvals
+              {stats.pending > 0 && (
+                <Badge variant="secondary" className="ml-2">
+                  {stats.pending}
+                </Badge>
+              )}
+            </TabsTrigger>
           )}
-        </CardContent>
-      </Card>
+        </TabsList>
+
+        {canReview && (
+          <TabsContent value="approvals">
+            <ApprovalQueue onDecision={handleDecision} />
+          </TabsContent>
+        )}
+
+        <TabsContent value="entities" className="space-y-6">
+          {/* Filters */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Filter className="w-5 h-5" />
+                Filters
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-col md:flex-row gap-4">
+                <div className="flex-1 relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search entities..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="pl-9"
+                  />
+                </div>
+                <Select
+                  value={riskFilter}
+                  onValueChange={(value) => {
+                    setRiskFilter(value);
+                    reset();
+                  }}
+                >
+                  <SelectTrigger className="w-full md:w-[180px]">
+                    <SelectValue placeholder="Risk Level" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Risk Levels</SelectItem>
+                    <SelectItem value="HIGH">High Risk</SelectItem>
+                    <SelectItem value="MEDIUM">Medium Risk</SelectItem>
+                    <SelectItem value="LOW">Low Risk</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={typeFilter}
+                  onValueChange={(value) => {
+                    setTypeFilter(value);
+                    reset();
+                  }}
+                >
+                  <SelectTrigger className="w-full md:w-[180px]">
+                    <SelectValue placeholder="Entity Type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Types</SelectItem>
+                    <SelectItem value="vendor">Vendors</SelectItem>
+                    <SelectItem value="client">Clients</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Entity Table */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Entities ({page.total})</CardTitle>
+              {!demo && (
+                <ExportMenu href={(format) => entityExportUrl(format, filterParams())} disabled={page.total === 0} />
+              )}
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <p className="text-muted-foreground text-center py-8">Loading...</p>
+              ) : entities.length === 0 ? (
+                <p className="text-muted-foreground text-center py-8">
+                  {stats.total === 0
+                    ? "No entities yet. Complete onboarding to add entities."
+                    : "No entities match your filters."}
+                </p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Risk Level</TableHead>
+                        <TableHead>Compliance</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Owner</TableHead>
+                        <TableHead>Last Updated</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {entities.map((entity) => (
+                        <TableRow 
+                          key={entity.id}
+                          className="cursor-pointer hover:bg-muted/50"
+                          onClick={() => navigate(`/entities/${entity.id}`)}
+                        >
+                          <TableCell className="font-medium">{entity.name}</TableCell>
+                          <TableCell className="capitalize">{entity.type}</TableCell>
+                          <TableCell>
+                            <Badge
+                              variant={getRiskBadgeVariant(entity.riskLevel)}
+                              className="flex items-center gap-1 w-fit"
+                            >
+                              {getRiskIcon(entity.riskLevel)}
+                              {entity.riskLevel}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={getComplianceBadgeVariant(entity.compliance)}>
+                              {entity.compliance}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{entity.status}</Badge>
+                          </TableCell>
+                          <TableCell>{entity.owner}</TableCell>
+                          <TableCell className="text-muted-foreground text-sm">
+                            {new Date(entity.lastUpdated).toLocaleDateString()}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              <ListPagination
+                pageIndex={pageIndex}
+                pageSize={PAGE_SIZE}
+                shown={entities.length}
+                total={page.total}
+                nextCursor={page.nextCursor}
+                onPrevious={previous}
+                onNext={next}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
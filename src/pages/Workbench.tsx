@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useCallback, useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
@@ -9,8 +9,14 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Target, MessageSquare, Zap, Download, Star, Users, CheckCircle, AlertCircle, Lightbulb, Quote, Volume2, Play, Pause } from "lucide-react";
-import { runStrategyAgent, runCustomerAdvisoryAgent, syncCalendar, generateAudioSummary, listElevenLabsVoices, askVoiceAssistant } from "@/lib/api";
+import { Loader2, Target, MessageSquare, Zap, Download, Star, Users, CheckCircle, AlertCircle, Lightbulb, Quote, Volume2, Play, Pause, Pencil, Archive, Square } from "lucide-react";
+import { streamStrategyAgent, streamCustomerAdvisoryAgent, syncCalendar, generateAudioSummary, listElevenLabsVoices, streamVoiceAssistant, createProject, getProject, updateProject, projectAudioUrl, getStrategyBriefs, markCanonicalBrief } from "@/lib/api";
+import { useAppStore } from "@/lib/store";
+import { errorMessage } from "@/lib/utils";
+import { StrategyVersions } from "@/components/StrategyVersions";
+import { CustomerInsights } from "@/components/CustomerInsights";
+import { CustomerPanel } from "@/components/CustomerPanel";
+import type { Project, StrategyBriefVersion } from "@/lib/types";
 
 // Simple markdown to HTML converter
 const markdownToHtml = (markdown: string): string => {
@@ -90,6 +96,25 @@ const markdownToHtml = (markdown: string): string => {
 
 export default function Workbench() {
   const { toast } = useToast();
+  const { currentProjectId, setCurrentProjectId, upsertProject } = useAppStore();
+
+  // The selected project; everything below is loaded from it and saved back by the agents
+  const [project, setProject] = useState<Project | null>(null);
+  const loadedProjectId = useRef<string | null>(null);
+  const [renaming, setRenaming] = useState(false);
+  const [projectName, setProjectName] = useState("");
+
+  // Streamed agent runs in flight; aborting one closes its connection, which cancels the model call
+  const streams = useRef<Record<'strategy' | 'customer' | 'voice', AbortController | null>>({ strategy: null, customer: null, voice: null });
+  const startStream = (name: keyof typeof streams.current) => {
+    streams.current[name]?.abort();
+    streams.current[name] = new AbortController();
+    return streams.current[name]!.signal;
+  };
+  const stopStream = (name: keyof typeof streams.current) => streams.current[name]?.abort();
+  const isAbort = (error: unknown) => (error as Error)?.name === "AbortError";
+
+  useEffect(() => () => Object.values(streams.current).forEach((controller) => controller?.abort()), []);
 
   // Check for Google OAuth callback
   useEffect(() => {
@@ -112,6 +137,8 @@ export default function Workbench() {
 
   // Store results per tab to keep them when switching tabs
   const [strategyResult, setStrategyResult] = useState<any>(null);
+  const [briefVersions, setBriefVersions] = useState<StrategyBriefVersion[]>([]);
+  const [selectedBriefVersion, setSelectedBriefVersion] = useState<number | null>(null);
   const [automationResult, setAutomationResult] = useState<any>(null);
 
   // Strategy inputs
@@ -124,6 +151,8 @@ export default function Workbench() {
   const [customerMessages, setCustomerMessages] = useState<Array<{ role: 'user' | 'assistant'; content: string }>>([]);
   const [customerMessageInput, setCustomerMessageInput] = useState("");
   const [customerAdvisoryLoading, setCustomerAdvisoryLoading] = useState(false);
+  // The reply so far while it streams in
+  const [customerReplyDraft, setCustomerReplyDraft] = useState("");
 
   // Automation state
   const [syncingCalendar, setSyncingCalendar] = useState(false);
@@ -131,7 +160,7 @@ export default function Workbench() {
 
   // Audio Summary state
   const [audioSummaryLoading, setAudioSummaryLoading] = useState(false);
-  const [audioSummary, setAudioSummary] = useState<{ audioBase64: string; summaryText: string } | null>(null);
+  const [audioSummary, setAudioSummary] = useState<{ audioUrl: string; summaryText: string } | null>(null);
   const [audioPlaying, setAudioPlaying] = useState(false);
   const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
 
@@ -139,30 +168,178 @@ export default function Workbench() {
   const [voiceAssistantMessages, setVoiceAssistantMessages] = useState<Array<{ role: 'user' | 'assistant'; content: string; audioBase64?: string }>>([]);
   const [voiceAssistantInput, setVoiceAssistantInput] = useState("");
   const [voiceAssistantLoading, setVoiceAssistantLoading] = useState(false);
+  const [voiceAnswerDraft, setVoiceAnswerDraft] = useState("");
   const [voiceAssistantPlaying, setVoiceAssistantPlaying] = useState<string | null>(null);
 
+  const showProject = useCallback((loaded: Project | null) => {
+    // Runs still streaming belong to the project being left
+    Object.values(streams.current).forEach((controller) => controller?.abort());
+    loadedProjectId.current = loaded?.id || null;
+    setProject(loaded);
+    setRenaming(false);
+    setMarket(loaded?.strategyInput?.market || "");
+    setSegment(loaded?.strategyInput?.segment || "");
+    setGoals(loaded?.strategyInput?.goals?.join('\n') || "");
+    setConstraints(loaded?.strategyInput?.constraints?.join('\n') || "");
+    setStrategyResult(null);
+    setBriefVersions([]);
+    setSelectedBriefVersion(null);
+    setCustomerMessages(loaded?.customerMessages || []);
+    setAutomationResult(loaded?.automation ? { success: true, data: loaded.automation } : null);
+    setAudioSummary(loaded?.audioSummary ? { audioUrl: projectAudioUrl(loaded), summaryText: loaded.audioSummary.summaryText } : null);
+    setVoiceAssistantMessages(loaded?.voiceMessages || []);
+    if (!loaded) return;
+
+    // Opens on the canonical brief, or the latest when none is marked
+    getStrategyBriefs(loaded.id)
+      .then(versions => {
+        if (loadedProjectId.current !== loaded.id) return;
+        setBriefVersions(versions);
+        const opening = versions.find(v => v.version === loaded.canonicalBriefVersion) || versions[0];
+        if (opening) {
+          setSelectedBriefVersion(opening.version);
+          setStrategyResult({ success: true, data: opening.brief });
+        }
+      })
+      .catch((error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }));
+  }, [toast]);
+
+  // Shows an earlier brief and puts its inputs back in the form, ready for another run
+  const openBriefVersion = (version: StrategyBriefVersion) => {
+    setSelectedBriefVersion(version.version);
+    setStrategyResult({ success: true, data: version.brief });
+    setMarket(version.input.market);
+    setSegment(version.input.segment);
+    setGoals(version.input.goals.join('\n'));
+    setConstraints(version.input.constraints.join('\n'));
+  };
+
+  const handleMarkCanonical = async (version: StrategyBriefVersion) => {
+    if (!project) return;
+    try {
+      const saved = await markCanonicalBrief(project.id, version.version);
+      setProject(saved);
+      upsertProject(saved);
+      toast({ title: "Canonical Brief", description: `v${version.version} is now the brief this project works from.` });
+    } catch (error: unknown) {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  // Switching project in the top bar reloads the whole Workbench
+  useEffect(() => {
+    if (currentProjectId === loadedProjectId.current) return;
+    if (!currentProjectId) {
+      showProject(null);
+      return;
+    }
+    getProject(currentProjectId)
+      .then(loaded => {
+        if (loaded.archivedAt) {
+          setCurrentProjectId(null);
+        } else {
+          showProject(loaded);
+        }
+      })
+      .catch(() => setCurrentProjectId(null));
+  }, [currentProjectId, setCurrentProjectId, showProject]);
+
+  // Work done before any project is selected starts a new one, named after the market when there is one
+  const ensureProject = async (): Promise<string> => {
+    if (project) return project.id;
+    const created = await createProject(market.trim() || "Untitled project");
+    loadedProjectId.current = created.id;
+    setProject(created);
+    upsertProject(created);
+    setCurrentProjectId(created.id);
+    return created.id;
+  };
+
+  // Picks up what an agent saved, without touching inputs the user may already be editing
+  const refreshProject = async (id: string) => {
+    try {
+      const saved = await getProject(id);
+      if (loadedProjectId.current === id) setProject(saved);
+      upsertProject(saved);
+    } catch {
+      // The result is already on screen; the top bar catches up on the next save
+    }
+  };
+
+  const handleRenameProject = async () => {
+    if (!project || !projectName.trim()) return;
+    try {
+      const saved = await updateProject(project.id, { name: projectName.trim() });
+      setProject(saved);
+      upsertProject(saved);
+      setRenaming(false);
+    } catch (error: unknown) {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const handleArchiveProject = async () => {
+    if (!project) return;
+    try {
+      const saved = await updateProject(project.id, { archived: true });
+      upsertProject(saved);
+      setCurrentProjectId(null);
+      toast({ title: "Project Archived", description: `${saved.name} is no longer listed in the project selector.` });
+    } catch (error: unknown) {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
   const handleStrategy = async () => {
     setLoading(true);
     setStrategyResult(null);
+    const signal = startStream("strategy");
+    let projectId: string | null = null;
     try {
-      const response = await runStrategyAgent({
-        market,
-        segment,
-        goals: goals.split('\n').filter(Boolean),
-        constraints: constraints.split('\n').filter(Boolean),
-      });
+      projectId = await ensureProject();
+      // Sections are shown as the draft completes them, then replaced by the validated brief
+      const draft: Record<string, unknown> = {};
+      const response = await streamStrategyAgent(
+        {
+          market,
+          segment,
+          goals: goals.split('\n').filter(Boolean),
+          constraints: constraints.split('\n').filter(Boolean),
+          projectId,
+        },
+        (field, value) => {
+          draft[field] = value;
+          setStrategyResult({ success: true, data: { ...draft } });
+        },
+        signal
+      );
+      refreshProject(projectId);
+      // Switching project stops the run; one that finished first is left to its own project
+      if (loadedProjectId.current !== projectId) return;
       setStrategyResult(response);
+      if (response.briefVersion) {
+        const saved = response.briefVersion;
+        setBriefVersions(prev => [saved, ...prev]);
+        setSelectedBriefVersion(saved.version);
+      }
       setActiveTab("strategy"); // Ensure we're on the strategy tab
       toast({
         title: "Strategy Generated",
         description: "Your product strategy brief is ready",
       });
     } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
+      if (projectId && loadedProjectId.current !== projectId) return;
+      // Nothing is saved for a stopped run, so its partial brief goes too
+      setStrategyResult(null);
+      if (isAbort(error)) {
+        toast({ title: "Strategy Stopped", description: "Generation was cancelled; no brief version was saved." });
+      } else {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
     } finally {
       setLoading(false);
     }
@@ -178,41 +355,70 @@ export default function Workbench() {
     const newMessages = [...customerMessages, { role: 'user' as const, content: userMessage }];
     setCustomerMessages(newMessages);
     setCustomerAdvisoryLoading(true);
+    setCustomerReplyDraft("");
+    const signal = startStream("customer");
+    let projectId: string | null = null;
 
     try {
       // Get customer segment from strategy result if available
       const customerSegment = strategyResult?.data?.icps?.[0]?.segment || '';
       const market = strategyResult?.data?.marketOpportunity ? 'from strategy' : '';
 
-      const response = await runCustomerAdvisoryAgent({
-        message: userMessage,
-        conversationHistory: newMessages,
-        customerSegment: customerSegment || undefined,
-        market: market || undefined,
-      });
+      projectId = await ensureProject();
+      const response = await streamCustomerAdvisoryAgent(
+        {
+          message: userMessage,
+          conversationHistory: newMessages,
+          customerSegment: customerSegment || undefined,
+          market: market || undefined,
+          projectId,
+        },
+        (text) => setCustomerReplyDraft((draft) => draft + text),
+        signal
+      );
+      refreshProject(projectId);
+      if (loadedProjectId.current !== projectId) return;
 
       // Add assistant response to chat
       setCustomerMessages([...newMessages, { role: 'assistant' as const, content: response.data.message }]);
       setActiveTab("customer-advisory");
     } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
+      if (projectId && loadedProjectId.current !== projectId) return;
+      if (isAbort(error)) {
+        // A stopped exchange isn't saved; the question goes back in the box to edit or resend
+        setCustomerMessageInput(userMessage);
+      } else {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
       // Remove the user message if error occurred
       setCustomerMessages(customerMessages);
     } finally {
       setCustomerAdvisoryLoading(false);
+      setCustomerReplyDraft("");
     }
   };
 
-  const clearCustomerChat = () => {
-    setCustomerMessages([]);
-    toast({
-      title: "Chat Cleared",
-      description: "Conversation history has been reset",
-    });
+  const clearCustomerChat = async () => {
+    try {
+      if (project) {
+        setProject(await updateProject(project.id, { customerMessages: [] }));
+      }
+      setCustomerMessages([]);
+      toast({
+        title: "Chat Cleared",
+        description: "Conversation history has been reset",
+      });
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    }
   };
 
   const handleSyncCalendar = async () => {
@@ -239,13 +445,16 @@ export default function Workbench() {
     setAutomationResult(null);
 
     try {
+      const projectId = await ensureProject();
       const response = await syncCalendar({
         strategyData: strategyResult.data,
         customerMessages: customerMessages,
         sessionId: googleSessionId || undefined,
+        projectId,
       });
 
       setAutomationResult(response);
+      refreshProject(projectId);
       setActiveTab("automation");
 
       // If authentication is needed
@@ -300,16 +509,19 @@ export default function Workbench() {
     setAudioSummary(null);
 
     try {
+      const projectId = await ensureProject();
       const response = await generateAudioSummary({
         strategyData: strategyResult?.data,
         customerMessages: customerMessages,
         automationPlan: automationResult?.data?.plan,
+        projectId,
       });
 
       setAudioSummary({
-        audioBase64: response.data.audioBase64,
+        audioUrl: `data:audio/mpeg;base64,${response.data.audioBase64}`,
         summaryText: response.data.summaryText,
       });
+      refreshProject(projectId);
 
       toast({
         title: "Audio Summary Generated!",
@@ -342,7 +554,7 @@ export default function Workbench() {
       setAudioPlaying(false);
     } else {
       // Play
-      const audio = new Audio(`data:audio/mpeg;base64,${audioSummary.audioBase64}`);
+      const audio = new Audio(audioSummary.audioUrl);
       audio.play();
       setAudioElement(audio);
       setAudioPlaying(true);
@@ -367,18 +579,12 @@ export default function Workbench() {
   const handleDownloadAudio = () => {
     if (!audioSummary) return;
 
-    const audioBlob = new Blob(
-      [Uint8Array.from(atob(audioSummary.audioBase64), c => c.charCodeAt(0))],
-      { type: 'audio/mpeg' }
-    );
-    const url = URL.createObjectURL(audioBlob);
     const link = document.createElement('a');
-    link.href = url;
+    link.href = audioSummary.audioUrl;
     link.download = `syntria-workbench-summary-${new Date().toISOString().split('T')[0]}.mp3`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
-    URL.revokeObjectURL(url);
 
     toast({
       title: "Audio Downloaded",
@@ -392,19 +598,30 @@ export default function Workbench() {
     const question = voiceAssistantInput.trim();
     setVoiceAssistantInput("");
     setVoiceAssistantLoading(true);
+    setVoiceAnswerDraft("");
+    const signal = startStream("voice");
 
     // Add user message to conversation
     const userMessage = { role: 'user' as const, content: question };
     setVoiceAssistantMessages(prev => [...prev, userMessage]);
+    let projectId: string | null = null;
 
     try {
-      const response = await askVoiceAssistant({
-        question: question,
-        strategyData: strategyResult?.data,
-        customerMessages: customerMessages,
-        automationPlan: automationResult?.data?.plan,
-        conversationHistory: voiceAssistantMessages,
-      });
+      projectId = await ensureProject();
+      const response = await streamVoiceAssistant(
+        {
+          question: question,
+          strategyData: strategyResult?.data,
+          customerMessages: customerMessages,
+          automationPlan: automationResult?.data?.plan,
+          conversationHistory: voiceAssistantMessages.map(({ role, content }) => ({ role, content })),
+          projectId,
+        },
+        (text) => setVoiceAnswerDraft((draft) => draft + text),
+        signal
+      );
+      refreshProject(projectId);
+      if (loadedProjectId.current !== projectId) return;
 
       // Add assistant response to conversation
       const assistantMessage = {
@@ -435,15 +652,21 @@ export default function Workbench() {
         };
       }
     } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to get response from voice assistant.",
-        variant: "destructive",
-      });
+      if (projectId && loadedProjectId.current !== projectId) return;
+      if (isAbort(error)) {
+        setVoiceAssistantInput(question);
+      } else {
+        toast({
+          title: "Error",
+          description: error.message || "Failed to get response from voice assistant.",
+          variant: "destructive",
+        });
+      }
       // Remove the user message if there was an error
       setVoiceAssistantMessages(prev => prev.slice(0, -1));
     } finally {
       setVoiceAssistantLoading(false);
+      setVoiceAnswerDraft("");
     }
   };
 
@@ -478,6 +701,55 @@ export default function Workbench() {
         <div>
           <h1 className="font-heading text-3xl font-bold">PM Workbench</h1>
           <p className="text-muted-foreground">AI agents for product strategy, customer insights, and automation</p>
+          {project ? (
+            renaming ? (
+              <div className="flex items-center gap-2 mt-2">
+                <Input
+                  className="w-64"
+                  value={projectName}
+                  maxLength={80}
+                  onChange={(e) => setProjectName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleRenameProject();
+                    if (e.key === "Escape") setRenaming(false);
+                  }}
+                  autoFocus
+                />
+                <Button size="sm" onClick={handleRenameProject} disabled={!projectName.trim()}>
+                  Save
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setRenaming(false)}>
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 mt-2">
+                <Badge variant="secondary">{project.name}</Badge>
+                <span className="text-xs text-muted-foreground">
+                  Saved {new Date(project.updatedAt).toLocaleString()}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setProjectName(project.name);
+                    setRenaming(true);
+                  }}
+                >
+                  <Pencil className="w-3 h-3 mr-1" />
+                  Rename
+                </Button>
+                <Button variant="ghost" size="sm" onClick={handleArchiveProject}>
+                  <Archive className="w-3 h-3 mr-1" />
+                  Archive
+                </Button>
+              </div>
+            )
+          ) : (
+            <p className="text-xs text-muted-foreground mt-2">
+              New project: your first agent run saves it so you can come back to it later
+            </p>
+          )}
         </div>
         {(strategyResult || customerMessages.length > 0 || automationResult) && (
           <Button variant="outline">
@@ -559,13 +831,33 @@ export default function Workbench() {
                 />
               </div>
 
-              <Button onClick={handleStrategy} disabled={loading || !market}>
-                {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
-                Generate Strategy
-              </Button>
+              <div className="flex gap-2">
+                <Button onClick={handleStrategy} disabled={loading || !market}>
+                  {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Generate Strategy
+                </Button>
+                {loading && (
+                  <Button variant="outline" onClick={() => stopStream("strategy")}>
+                    <Square className="w-4 h-4 mr-2" />
+                    Stop
+                  </Button>
+                )}
+              </div>
             </CardContent>
           </Card>
 
+          {project && (
+            <StrategyVersions
+              key={project.id}
+              projectId={project.id}
+              versions={briefVersions}
+              selectedVersion={selectedBriefVersion}
+              canonicalVersion={project.canonicalBriefVersion}
+              onSelect={openBriefVersion}
+              onMarkCanonical={handleMarkCanonical}
+            />
+          )}
+
           {strategyResult && strategyResult.data && (
             <div className="space-y-6">
               {/* Executive Summary */}
@@ -944,10 +1236,17 @@ export default function Workbench() {
                   {customerAdvisoryLoading && (
                     <div className="flex justify-start">
                       <div className="bg-muted border rounded-lg p-4 max-w-[80%]">
-                        <div className="flex items-center gap-2">
-                          <Loader2 className="w-4 h-4 animate-spin" />
-                          <span className="text-sm text-muted-foreground">Customer is typing...</span>
-                        </div>
+                        {customerReplyDraft ? (
+                          <>
+                            <div className="text-xs font-medium mb-1 opacity-70">Customer</div>
+                            <div className="text-sm whitespace-pre-wrap">{customerReplyDraft}</div>
+                          </>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                            <span className="text-sm text-muted-foreground">Customer is typing...</span>
+                          </div>
+                        )}
                       </div>
                     </div>
                   )}
@@ -967,20 +1266,35 @@ export default function Workbench() {
                   className="min-h-[80px] resize-none"
                   disabled={customerAdvisoryLoading}
                 />
-                <Button
-                  onClick={handleCustomerAdvisoryMessage}
-                  disabled={customerAdvisoryLoading || !customerMessageInput.trim()}
-                  className="px-6 self-end"
-                >
-                  {customerAdvisoryLoading ? (
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                  ) : (
-                    'Send'
-                  )}
-                </Button>
+                {customerAdvisoryLoading ? (
+                  <Button variant="outline" onClick={() => stopStream("customer")} className="px-6 self-end">
+                    <Square className="w-4 h-4 mr-2" />
+                    Stop
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleCustomerAdvisoryMessage}
+                    disabled={!customerMessageInput.trim()}
+                    className="px-6 self-end"
+                  >
+                    Send
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
+
+          {project && <CustomerInsights project={project} onSaved={() => refreshProject(project.id)} />}
+
+          {project && (
+            <CustomerPanel
+              // Remounted when a new brief may have seeded more personas
+              key={`${project.id}-${briefVersions.length}`}
+              project={project}
+              market={market}
+              onSaved={() => refreshProject(project.id)}
+            />
+          )}
         </TabsContent>
 
         <TabsContent value="automation" className="space-y-6">
@@ -1302,11 +1616,22 @@ export default function Workbench() {
                       ))}
                       {voiceAssistantLoading && (
                         <div className="flex justify-start">
-                          <div className="bg-muted rounded-lg p-3">
-                            <div className="flex items-center gap-2">
-                              <Loader2 className="w-4 h-4 animate-spin" />
-                              <span className="text-sm">Assistant is thinking...</span>
-                            </div>
+                          <div className="bg-muted rounded-lg p-3 max-w-[80%]">
+                            {voiceAnswerDraft ? (
+                              <>
+                                <div className="text-sm font-medium mb-1">Assistant</div>
+                                <div className="text-sm whitespace-pre-wrap">{voiceAnswerDraft}</div>
+                                <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+                                  <Loader2 className="w-3 h-3 animate-spin" />
+                                  Preparing audio...
+                                </div>
+                              </>
+                            ) : (
+                              <div className="flex items-center gap-2">
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                                <span className="text-sm">Assistant is thinking...</span>
+                              </div>
+                            )}
                           </div>
                         </div>
                       )}
@@ -1327,16 +1652,18 @@ export default function Workbench() {
                     placeholder="Ask a question about your workbench data..."
                     disabled={voiceAssistantLoading || (!strategyResult?.data && customerMessages.length === 0 && !automationResult?.data?.plan)}
                   />
-                  <Button
-                    onClick={handleVoiceAssistantQuestion}
-                    disabled={voiceAssistantLoading || !voiceAssistantInput.trim() || (!strategyResult?.data && customerMessages.length === 0 && !automationResult?.data?.plan)}
-                  >
-                    {voiceAssistantLoading ? (
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                    ) : (
+                  {voiceAssistantLoading ? (
+                    <Button variant="outline" onClick={() => stopStream("voice")} title="Stop">
+                      <Square className="w-4 h-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={handleVoiceAssistantQuestion}
+                      disabled={!voiceAssistantInput.trim() || (!strategyResult?.data && customerMessages.length === 0 && !automationResult?.data?.plan)}
+                    >
                       <MessageSquare className="w-4 h-4" />
-                    )}
-                  </Button>
+                    </Button>
+                  )}
                 </div>
               </div>
 